@@ -0,0 +1,428 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { NextResponse } from 'next/server';
+import { AdminRole } from '@prisma/client';
+import prisma from './prisma';
+import { Errors, type ErrorCode } from './error-handler';
+import { SuccessMessages } from './success-messages';
+import {
+  createAdminSession,
+  getSessionClient,
+  setAdminAuthCookies,
+  toTokenResponse
+} from './session-utils';
+import { base32Encode, buildOtpauthUri, generateTotpSecret, verifyTotp } from './totp';
+
+// Roles that may not sign in without a second factor; other roles may opt in
+export const TWO_FACTOR_REQUIRED_ROLES: AdminRole[] = (process.env.ADMIN_2FA_REQUIRED_ROLES ?? 'OWNER,MANAGER')
+  .split(',')
+  .map(role => role.trim())
+  .filter((role): role is AdminRole => Object.values(AdminRole).includes(role as AdminRole));
+// Shown next to the account in authenticator apps
+export const TWO_FACTOR_ISSUER = process.env.ADMIN_2FA_ISSUER || process.env.STORE_NAME || 'کاویان';
+// How long a login has to finish its second step
+export const TWO_FACTOR_CHALLENGE_TTL_SECONDS = Number(process.env.ADMIN_2FA_CHALLENGE_TTL_SECONDS) || 5 * 60;
+// Wrong codes allowed before the account is locked out of the second step
+export const TWO_FACTOR_MAX_ATTEMPTS = Number(process.env.ADMIN_2FA_MAX_ATTEMPTS) || 5;
+export const TWO_FACTOR_LOCKOUT_MINUTES = Number(process.env.ADMIN_2FA_LOCKOUT_MINUTES) || 15;
+export const RECOVERY_CODE_COUNT = 10;
+
+const CHALLENGE_AUDIENCE = 'admin-2fa';
+
+// VERIFY: enter a code from the app; ENROLL: the role requires 2FA, set it up first
+export type TwoFactorChallengePurpose = 'VERIFY' | 'ENROLL';
+
+export interface TwoFactorStep {
+  purpose: TwoFactorChallengePurpose;
+  challengeToken: string;
+  expiresIn: number;
+}
+
+export type TwoFactorErrorReason =
+  | 'INVALID_CHALLENGE'
+  | 'ALREADY_ENABLED'
+  | 'NOT_ENROLLED'
+  | 'INVALID_CODE'
+  | 'LOCKED'
+  | 'REQUIRED_BY_ROLE';
+
+export interface TwoFactorErrorDetails {
+  // Seconds until codes are accepted again
+  retryAfter?: number;
+  attemptsLeft?: number;
+}
+
+const TWO_FACTOR_ERROR_STATUS: Record<TwoFactorErrorReason, { code: ErrorCode; statusCode: number }> = {
+  INVALID_CHALLENGE: { code: 'AUTHENTICATION_ERROR', statusCode: 401 },
+  ALREADY_ENABLED: { code: 'INVALID_INPUT', statusCode: 409 },
+  NOT_ENROLLED: { code: 'INVALID_INPUT', statusCode: 400 },
+  INVALID_CODE: { code: 'INVALID_INPUT', statusCode: 400 },
+  LOCKED: { code: 'TOO_MANY_REQUESTS', statusCode: 429 },
+  REQUIRED_BY_ROLE: { code: 'AUTHORIZATION_ERROR', statusCode: 403 }
+};
+
+function twoFactorErrorMessage(reason: TwoFactorErrorReason, details: TwoFactorErrorDetails = {}): string {
+  switch (reason) {
+    case 'INVALID_CHALLENGE':
+      return 'مهلت ورود به پایان رسیده است. لطفاً دوباره وارد شوید.';
+    case 'ALREADY_ENABLED':
+      return 'ورود دو مرحله‌ای قبلاً فعال شده است.';
+    case 'NOT_ENROLLED':
+      return 'ابتدا ورود دو مرحله‌ای را راه‌اندازی کنید.';
+    case 'INVALID_CODE':
+      return `کد نامعتبر است. ${details.attemptsLeft} تلاش دیگر باقی مانده است.`;
+    case 'LOCKED':
+      return `به دلیل تلاش‌های ناموفق متعدد، تا ${Math.ceil((details.retryAfter ?? 0) / 60)} دقیقه دیگر امکان ورود کد وجود ندارد.`;
+    case 'REQUIRED_BY_ROLE':
+      return 'ورود دو مرحله‌ای برای نقش شما الزامی است و قابل غیرفعال‌سازی نیست.';
+  }
+}
+
+/**
+ * Carries `code` and `statusCode` like the errors from lib/error-handler,
+ * so routes can pass it straight to handleError
+ */
+export class TwoFactorError extends Error {
+  readonly code: ErrorCode;
+  readonly statusCode: number;
+
+  constructor(public reason: TwoFactorErrorReason, public details?: TwoFactorErrorDetails) {
+    super(twoFactorErrorMessage(reason, details));
+    this.name = 'TwoFactorError';
+    this.code = TWO_FACTOR_ERROR_STATUS[reason].code;
+    this.statusCode = TWO_FACTOR_ERROR_STATUS[reason].statusCode;
+  }
+}
+
+function jwtSecret(): string {
+  if (!process.env.JWT_SECRET) {
+    throw new Error('JWT_SECRET is not defined in environment variables');
+  }
+  return process.env.JWT_SECRET;
+}
+
+// Key for TOTP secrets at rest and for recovery code hashes
+function encryptionKey(): Buffer {
+  const secret = process.env.ADMIN_2FA_ENCRYPTION_KEY || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('ADMIN_2FA_ENCRYPTION_KEY or JWT_SECRET must be set');
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+}
+
+function decryptSecret(stored: string): string {
+  const [iv, tag, encrypted] = stored.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function hashRecoveryCode(adminId: number, code: string): string {
+  return crypto.createHmac('sha256', encryptionKey())
+    .update(`${adminId}:${normalizeRecoveryCode(code)}`)
+    .digest('hex');
+}
+
+// Ten base32 characters, shown as xxxxx-xxxxx
+function generateRecoveryCode(): string {
+  const code = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+function secondsUntil(date: Date, now: Date): number {
+  return Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000));
+}
+
+export function isTwoFactorRequired(role: AdminRole): boolean {
+  return TWO_FACTOR_REQUIRED_ROLES.includes(role);
+}
+
+export function issueTwoFactorChallenge(adminId: number, purpose: TwoFactorChallengePurpose): string {
+  return jwt.sign({ purpose }, jwtSecret(), {
+    algorithm: 'HS256',
+    audience: CHALLENGE_AUDIENCE,
+    subject: String(adminId),
+    expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS
+  });
+}
+
+/**
+ * @returns The admin the challenge was issued to. Throws TwoFactorError
+ * INVALID_CHALLENGE when it is expired, forged or for another purpose.
+ */
+export function verifyTwoFactorChallenge(token: string, purpose: TwoFactorChallengePurpose): number {
+  try {
+    const payload = jwt.verify(token, jwtSecret(), {
+      algorithms: ['HS256'],
+      audience: CHALLENGE_AUDIENCE
+    });
+    if (typeof payload === 'string' || payload.purpose !== purpose || !payload.sub) {
+      throw new TwoFactorError('INVALID_CHALLENGE');
+    }
+    return Number(payload.sub);
+  } catch (error) {
+    if (error instanceof TwoFactorError) throw error;
+    throw new TwoFactorError('INVALID_CHALLENGE');
+  }
+}
+
+/**
+ * What a correct password or SMS code still leaves to do before the admin
+ * gets a session: nothing, a code from the app, or enrolling first because
+ * the role requires it.
+ */
+export function pendingTwoFactorStep(admin: {
+  id: number;
+  role: AdminRole;
+  totpEnabledAt: Date | null;
+}): TwoFactorStep | null {
+  const purpose: TwoFactorChallengePurpose | null = admin.totpEnabledAt
+    ? 'VERIFY'
+    : isTwoFactorRequired(admin.role) ? 'ENROLL' : null;
+  if (!purpose) return null;
+
+  return {
+    purpose,
+    challengeToken: issueTwoFactorChallenge(admin.id, purpose),
+    expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS
+  };
+}
+
+/**
+ * What the login routes return instead of a session while a second step is
+ * pending. The client sends `challengeToken` back with the code, or with
+ * the enrollment when `twoFactorSetupRequired` is set.
+ */
+export function twoFactorStepResponse(step: TwoFactorStep): NextResponse {
+  return NextResponse.json(
+    {
+      success: true,
+      message: step.purpose === 'VERIFY'
+        ? 'کد ورود دو مرحله‌ای را وارد کنید.'
+        : 'ورود دو مرحله‌ای برای نقش شما الزامی است. ابتدا آن را راه‌اندازی کنید.',
+      data: {
+        twoFactorRequired: step.purpose === 'VERIFY',
+        twoFactorSetupRequired: step.purpose === 'ENROLL',
+        challengeToken: step.challengeToken,
+        expiresIn: step.expiresIn
+      }
+    },
+    { status: 200 }
+  );
+}
+
+/**
+ * Signs the admin in once the second step has passed, the same way the
+ * login routes do when no second step is pending. `extra` is merged into
+ * the response data.
+ */
+export async function completeTwoFactorLogin(
+  request: Request,
+  adminId: number,
+  extra: Record<string, unknown> = {}
+): Promise<NextResponse> {
+  const admin = await prisma.admin.findFirst({
+    where: { id: adminId, deletedAt: null },
+    select: { id: true, phoneNumber: true, firstName: true, lastName: true, email: true, role: true, isActive: true }
+  });
+  if (!admin || !admin.isActive) {
+    throw Errors.forbidden('حساب کاربری غیرفعال شده است');
+  }
+
+  await prisma.admin.update({
+    where: { id: admin.id },
+    data: { lastLoginAt: new Date() }
+  });
+
+  const tokens = await createAdminSession(admin, getSessionClient(request));
+  const response = NextResponse.json(
+    {
+      success: true,
+      message: SuccessMessages.LOGIN_SUCCESS,
+      data: {
+        admin,
+        token: tokens.accessToken,
+        tokens: toTokenResponse(tokens),
+        ...extra
+      }
+    },
+    { status: 200 }
+  );
+  setAdminAuthCookies(response, tokens);
+  return response;
+}
+
+export async function getTwoFactorStatus(adminId: number) {
+  const admin = await prisma.admin.findUniqueOrThrow({
+    where: { id: adminId },
+    select: { role: true, totpEnabledAt: true }
+  });
+  const recoveryCodesLeft = await prisma.adminRecoveryCode.count({
+    where: { adminId, usedAt: null }
+  });
+
+  return {
+    enabled: !!admin.totpEnabledAt,
+    enabledAt: admin.totpEnabledAt,
+    required: isTwoFactorRequired(admin.role),
+    recoveryCodesLeft
+  };
+}
+
+/**
+ * Creates a new secret, replacing any enrollment that was never confirmed.
+ * It takes effect only once activateTotp sees a code generated from it.
+ */
+export async function startTotpEnrollment(adminId: number) {
+  const admin = await prisma.admin.findUniqueOrThrow({
+    where: { id: adminId },
+    select: { phoneNumber: true, email: true, totpEnabledAt: true }
+  });
+  if (admin.totpEnabledAt) {
+    throw new TwoFactorError('ALREADY_ENABLED');
+  }
+
+  const secret = generateTotpSecret();
+  await prisma.admin.update({
+    where: { id: adminId },
+    data: { totpSecret: encryptSecret(secret), totpLastStep: null }
+  });
+
+  return {
+    secret,
+    otpauthUri: buildOtpauthUri(secret, admin.email || admin.phoneNumber, TWO_FACTOR_ISSUER)
+  };
+}
+
+/**
+ * Counts a wrong code, locking the second step out after
+ * TWO_FACTOR_MAX_ATTEMPTS, and throws the matching TwoFactorError
+ */
+async function rejectCode(adminId: number, failedAttempts: number, now: Date): Promise<never> {
+  const attempts = failedAttempts + 1;
+  if (attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+    const lockedUntil = new Date(now.getTime() + TWO_FACTOR_LOCKOUT_MINUTES * 60 * 1000);
+    await prisma.admin.update({
+      where: { id: adminId },
+      data: { failedLoginAttempts: 0, lockedUntil }
+    });
+    throw new TwoFactorError('LOCKED', { retryAfter: secondsUntil(lockedUntil, now) });
+  }
+
+  await prisma.admin.update({
+    where: { id: adminId },
+    data: { failedLoginAttempts: attempts }
+  });
+  throw new TwoFactorError('INVALID_CODE', { attemptsLeft: TWO_FACTOR_MAX_ATTEMPTS - attempts });
+}
+
+/**
+ * Checks a code from the authenticator app, or failing that a recovery
+ * code, which is then used up. Wrong codes count towards a lockout, and a
+ * code from the app is refused the second time round.
+ *
+ * With `pending` the secret from an unconfirmed enrollment is checked.
+ *
+ * @returns Which kind of code matched
+ */
+export async function verifySecondFactor(
+  adminId: number,
+  code: string,
+  options: { pending?: boolean } = {}
+): Promise<'TOTP' | 'RECOVERY_CODE'> {
+  const now = new Date();
+  const admin = await prisma.admin.findUniqueOrThrow({
+    where: { id: adminId },
+    select: { totpSecret: true, totpEnabledAt: true, totpLastStep: true, failedLoginAttempts: true, lockedUntil: true }
+  });
+
+  if (options.pending && admin.totpEnabledAt) {
+    throw new TwoFactorError('ALREADY_ENABLED');
+  }
+  if (!admin.totpSecret || (!options.pending && !admin.totpEnabledAt)) {
+    throw new TwoFactorError('NOT_ENROLLED');
+  }
+  if (admin.lockedUntil && admin.lockedUntil > now) {
+    throw new TwoFactorError('LOCKED', { retryAfter: secondsUntil(admin.lockedUntil, now) });
+  }
+
+  const step = verifyTotp(decryptSecret(admin.totpSecret), code, now);
+  if (step !== null && (admin.totpLastStep === null || step > admin.totpLastStep)) {
+    // Conditional so two requests racing with the same code can't both pass
+    const claimed = await prisma.admin.updateMany({
+      where: {
+        id: adminId,
+        OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }]
+      },
+      data: { totpLastStep: step, failedLoginAttempts: 0, lockedUntil: null }
+    });
+    if (claimed.count === 1) return 'TOTP';
+  }
+
+  // Recovery codes only stand in for an enabled app
+  if (!options.pending && step === null) {
+    const used = await prisma.adminRecoveryCode.updateMany({
+      where: { adminId, codeHash: hashRecoveryCode(adminId, code), usedAt: null },
+      data: { usedAt: now }
+    });
+    if (used.count === 1) {
+      await prisma.admin.update({
+        where: { id: adminId },
+        data: { failedLoginAttempts: 0, lockedUntil: null }
+      });
+      return 'RECOVERY_CODE';
+    }
+  }
+
+  return rejectCode(adminId, admin.failedLoginAttempts, now);
+}
+
+/**
+ * Replaces every recovery code with a new set. The plain codes are only
+ * ever returned here; the database keeps their hashes.
+ */
+export async function regenerateRecoveryCodes(adminId: number): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  await prisma.$transaction([
+    prisma.adminRecoveryCode.deleteMany({ where: { adminId } }),
+    prisma.adminRecoveryCode.createMany({
+      data: codes.map(code => ({ adminId, codeHash: hashRecoveryCode(adminId, code) }))
+    })
+  ]);
+  return codes;
+}
+
+/**
+ * Confirms an enrollment with a code from the app and turns 2FA on.
+ *
+ * @returns The first set of recovery codes
+ */
+export async function activateTotp(adminId: number, code: string): Promise<string[]> {
+  await verifySecondFactor(adminId, code, { pending: true });
+  await prisma.admin.update({
+    where: { id: adminId },
+    data: { totpEnabledAt: new Date() }
+  });
+  return regenerateRecoveryCodes(adminId);
+}
+
+export async function disableTotp(adminId: number): Promise<void> {
+  await prisma.$transaction([
+    prisma.admin.update({
+      where: { id: adminId },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastStep: null }
+    }),
+    prisma.adminRecoveryCode.deleteMany({ where: { adminId } })
+  ]);
+}
@@ -1,10 +1,12 @@
 import { NextResponse } from 'next/server';
+import { AdminRole } from '@prisma/client';
 import { verifyToken } from './auth';
 
 interface TokenPayload {
   userId?: number;
   adminId?: number;
-  role: 'USER' | 'ADMIN' | 'OWNER';
+  role: 'USER' | 'ADMIN' | AdminRole;
+  sessionId: string;
   [key: string]: unknown;
 }
 
@@ -13,15 +15,13 @@ interface AuthResult {
   response?: NextResponse;
   userId?: number;
   adminId?: number;
-  role?: 'USER' | 'ADMIN' | 'OWNER';
+  role?: 'USER' | 'ADMIN' | AdminRole;
+  // The session family the access token belongs to
+  sessionId?: string;
   error?: string;
 }
 
 export async function authenticateRequest(request: Request): Promise<AuthResult> {
-  console.log('=== Authentication Debug ===');
-  console.log('Request URL:', request.url);
-  console.log('Request Headers:', Object.fromEntries(request.headers.entries()));
-  
   // Check for token in Authorization header first
   let token: string | null = null;
   let isAdminRoute = false;
@@ -32,14 +32,10 @@ export async function authenticateRequest(request: Request): Promise<AuthResult>
   
   if (authHeader?.startsWith('Bearer ')) {
     token = authHeader.split(' ')[1];
-    console.log('Found token in Authorization header');
   } else {
-    console.log('No Bearer token in Authorization header');
-    
     // Check for token in cookies
     const cookieHeader = request.headers.get('cookie');
-    console.log('Raw Cookie Header:', cookieHeader);
-    
+
     if (cookieHeader) {
       const cookies = cookieHeader.split(';').reduce((acc: Record<string, string>, cookie) => {
         const [name, value] = cookie.trim().split('=');
@@ -48,16 +44,12 @@ export async function authenticateRequest(request: Request): Promise<AuthResult>
         }
         return acc;
       }, {});
-      
-      console.log('Parsed Cookies:', cookies);
-      
+
       // For admin routes, only accept admin tokens
       if (isAdminRoute) {
         if (cookies['adminToken']) {
           token = cookies['adminToken'];
-          console.log('Found admin token in cookies');
         } else {
-          console.log('Admin route accessed without admin token');
           return {
             success: false,
             response: NextResponse.json(
@@ -70,17 +62,11 @@ export async function authenticateRequest(request: Request): Promise<AuthResult>
       // For non-admin routes, accept either token type
       else if (cookies['auth_token']) {
         token = cookies['auth_token'];
-        console.log('Found user token in cookies');
-      } else {
-        console.log('No auth token found in cookies');
       }
-    } else {
-      console.log('No cookies found in request');
     }
   }
   
   if (!token) {
-    console.log('No token found in request');
     return {
       success: false,
       response: NextResponse.json(
@@ -90,12 +76,7 @@ export async function authenticateRequest(request: Request): Promise<AuthResult>
     };
   }
   
-  console.log('Extracted token from cookies:', token ? 'Token exists' : 'No token');
-  
   try {
-    console.log('Verifying token...');
-    console.log('Token:', token ? `${token.substring(0, 10)}...` : 'No token provided');
-    
     if (!process.env.JWT_SECRET) {
       console.error('JWT_SECRET is not defined in environment variables');
       return {
@@ -108,7 +89,6 @@ export async function authenticateRequest(request: Request): Promise<AuthResult>
     }
     
     const decoded = verifyToken(token) as TokenPayload | null;
-    console.log('Token payload:', decoded);
     
     if (!decoded) {
       console.error('Token verification failed');
@@ -122,7 +102,7 @@ export async function authenticateRequest(request: Request): Promise<AuthResult>
     }
     
     // For admin routes, we need to ensure the token is an admin token
-    const isAdminToken = decoded.role === 'ADMIN' || decoded.role === 'OWNER';
+    const isAdminToken = decoded.adminId !== undefined;
     
     if (isAdminRoute && !isAdminToken) {
       console.error('Admin route accessed with non-admin token');
@@ -135,10 +115,11 @@ export async function authenticateRequest(request: Request): Promise<AuthResult>
       };
     }
     
-    const userId = decoded.userId;
-    const adminId = decoded.adminId || (isAdminToken ? decoded.userId : undefined);
+    // An admin token never stands in for a customer, even on shared routes
+    const userId = isAdminToken ? undefined : decoded.userId;
+    const adminId = decoded.adminId;
     
-    if ((!userId && !adminId) || (isAdminRoute && !adminId)) {
+    if (!userId && !adminId) {
       return {
         success: false,
         response: NextResponse.json(
@@ -150,9 +131,10 @@ export async function authenticateRequest(request: Request): Promise<AuthResult>
 
     return {
       success: true,
-      userId: isAdminRoute ? undefined : userId,
-      adminId: isAdminRoute ? adminId : undefined,
-      role: decoded.role
+      userId,
+      adminId,
+      role: decoded.role,
+      sessionId: decoded.sessionId
     };
   } catch (error) {
     console.error('Token verification error:', error);
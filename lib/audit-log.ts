@@ -0,0 +1,147 @@
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { getRequestIp } from './payment-utils';
+
+export const AUDIT_ENTITY_TYPES = [
+  'ADMIN',
+  'ADMIN_SESSION',
+  'CATEGORY',
+  'COUPON',
+  'MEDIA',
+  'ORDER',
+  'PRODUCT',
+  'RETURN',
+  'TICKET',
+  'USER',
+  'VARIANT'
+] as const;
+
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+
+export interface AdminAction {
+  // What was done, e.g. order.update
+  action: string;
+  entityType: AuditEntityType;
+  entityId: string | number;
+  // The record before and after the change; only fields that differ are kept
+  before?: object | null;
+  after?: object | null;
+}
+
+export interface AuditLogFilters {
+  adminId?: number;
+  entityType?: string;
+  entityId?: string;
+  action?: string;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+type Snapshot = Record<string, Prisma.JsonValue>;
+
+// Logged as changed, but never copied into the log
+const REDACTED_FIELD = /password|token|secret|hash/i;
+// Bumped by every update, so never worth reporting
+const IGNORED_FIELDS = ['updatedAt'];
+
+// Round-trips through JSON so Dates and Decimals become plain values
+function toSnapshot(value: object): Snapshot {
+  return JSON.parse(JSON.stringify(value)) as Snapshot;
+}
+
+function redact(snapshot: Snapshot): Prisma.InputJsonObject {
+  return Object.fromEntries(
+    Object.entries(snapshot).map(([key, value]) => [key, REDACTED_FIELD.test(key) ? '[redacted]' : value])
+  );
+}
+
+/**
+ * Keeps only the fields that differ between two snapshots of a record.
+ * `after` may be partial, e.g. just the fields an update wrote: fields it
+ * leaves out count as unchanged.
+ */
+export function diffSnapshots(before?: object | null, after?: object | null) {
+  const from = before ? toSnapshot(before) : null;
+  const to = after ? toSnapshot(after) : null;
+  if (!from || !to) {
+    return { before: from && redact(from), after: to && redact(to) };
+  }
+
+  const changedFrom: Snapshot = {};
+  const changedTo: Snapshot = {};
+  for (const [key, value] of Object.entries(to)) {
+    if (IGNORED_FIELDS.includes(key) || JSON.stringify(from[key]) === JSON.stringify(value)) continue;
+    if (key in from) changedFrom[key] = from[key];
+    changedTo[key] = value;
+  }
+  return { before: redact(changedFrom), after: redact(changedTo) };
+}
+
+/**
+ * Records a write made by `adminId`. Failures are logged rather than
+ * thrown: by the time this runs the change itself has been made.
+ */
+export async function recordAdminAction(request: Request, adminId: number, action: AdminAction): Promise<void> {
+  try {
+    const { before, after } = diffSnapshots(action.before, action.after);
+    await prisma.auditLog.create({
+      data: {
+        adminId,
+        action: action.action,
+        entityType: action.entityType,
+        entityId: String(action.entityId),
+        ...(before && { before }),
+        ...(after && { after }),
+        ipAddress: getRequestIp(request)?.slice(0, 45) ?? null,
+        userAgent: request.headers.get('user-agent')?.slice(0, 255) ?? null
+      }
+    });
+  } catch (error) {
+    console.error('Failed to record admin action:', action.action, action.entityId, error);
+  }
+}
+
+/**
+ * Newest first, with the admin who made each change
+ */
+export async function listAuditLogs(filters: AuditLogFilters = {}) {
+  const page = filters.page ?? 1;
+  const limit = filters.limit ?? 50;
+  const where: Prisma.AuditLogWhereInput = {
+    ...(filters.adminId !== undefined && { adminId: filters.adminId }),
+    ...(filters.entityType && { entityType: filters.entityType }),
+    ...(filters.entityId && { entityId: filters.entityId }),
+    ...(filters.action && { action: filters.action }),
+    ...((filters.from || filters.to) && {
+      createdAt: {
+        ...(filters.from && { gte: filters.from }),
+        ...(filters.to && { lte: filters.to })
+      }
+    })
+  };
+
+  const [entries, total] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      include: {
+        admin: { select: { id: true, firstName: true, lastName: true, role: true } }
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit
+    }),
+    prisma.auditLog.count({ where })
+  ]);
+
+  return {
+    entries,
+    pagination: {
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+      limit
+    }
+  };
+}
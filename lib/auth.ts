@@ -4,6 +4,12 @@ import { NextRequest, NextResponse } from 'next/server';
 
 export type UserType = 'USER' | 'ADMIN';
 
+// Access tokens are short lived; a session outlives them through its refresh token
+export const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.ACCESS_TOKEN_TTL_SECONDS) || 15 * 60;
+
+// Customers are identified by userId, admins by adminId
+export type TokenSubject = { userId: number } | { adminId: number };
+
 // Hash a password
 export async function hashPassword(password: string): Promise<string> {
   const saltRounds = 10;
@@ -15,20 +21,16 @@ export async function comparePassword(password: string, hash: string): Promise<b
   return await bcrypt.compare(password, hash);
 }
 
-// Generate JWT token
-export function generateToken(userId: number, role: UserType = 'USER'): string {
-  // Ensure role is always set, default to 'USER' if not provided
-  const tokenRole = role || 'USER';
-  
+// Generate a JWT access token for the session family `sessionId`
+export function generateToken(subject: TokenSubject, role: string, sessionId: string): string {
   const payload = {
-    userId,
-    role: tokenRole,
+    ...subject,
+    role,
+    sid: sessionId,
     iat: Math.floor(Date.now() / 1000),
-    exp: Math.floor(Date.now() / 1000) + (30 * 24 * 60 * 60) // 30 days
+    exp: Math.floor(Date.now() / 1000) + ACCESS_TOKEN_TTL_SECONDS
   };
-  
-  console.log('Generating token with payload:', payload);
-  
+
   if (!process.env.JWT_SECRET) {
     throw new Error('JWT_SECRET is not defined in environment variables');
   }
@@ -41,11 +43,10 @@ export function generateToken(userId: number, role: UserType = 'USER'): string {
 }
 
 // Verify JWT token
-export function verifyToken(token: string): { userId?: number; adminId?: number; role: UserType } | null {
+export function verifyToken(
+  token: string
+): { userId?: number; adminId?: number; role: UserType; sessionId: string } | null {
   try {
-    console.log('Verifying token...');
-    console.log('Token:', token ? `${token.substring(0, 10)}...` : 'No token provided');
-    
     if (!token) {
       console.error('No token provided for verification');
       return null;
@@ -59,9 +60,7 @@ export function verifyToken(token: string): { userId?: number; adminId?: number;
     const payload = jwt.verify(token, process.env.JWT_SECRET, {
       algorithms: ['HS256']
     });
-    
-    console.log('Token payload:', payload);
-    
+
     if (typeof payload === 'string') {
       console.error('Token payload is a string, expected an object');
       return null;
@@ -80,12 +79,19 @@ export function verifyToken(token: string): { userId?: number; adminId?: number;
       adminId?: number | string;
       admin_id?: number | string;
       role?: string;
+      sid?: string;
       iat?: number;
       exp?: number;
       [key: string]: unknown;
     };
 
     const tokenPayload = payload as TokenPayload;
+
+    // Tokens from before refresh rotation belong to no session and can't be revoked
+    if (!tokenPayload.sid) {
+      console.error('Token is not bound to a session');
+      return null;
+    }
     
     // If role is missing, try to determine it from the token type
     if (!tokenPayload.role) {
@@ -112,10 +118,10 @@ export function verifyToken(token: string): { userId?: number; adminId?: number;
     const result = {
       ...(userId !== undefined && { userId }),
       ...(adminId !== undefined && { adminId }),
-      role: role as UserType
+      role: role as UserType,
+      sessionId: tokenPayload.sid
     };
     
-    console.log('Token verification successful. User info:', result);
     return result;
     
   } catch (error: unknown) {
@@ -136,16 +142,6 @@ export function verifyToken(token: string): { userId?: number; adminId?: number;
   }
 }
 
-// Generate OTP
-export function generateOTP(length: number = 6): string {
-  const digits = '0123456789';
-  let otp = '';
-  for (let i = 0; i < length; i++) {
-    otp += digits[Math.floor(Math.random() * 10)];
-  }
-  return otp;
-}
-
 // Check if user is authenticated from request headers
 export function isAuthenticated(request: NextRequest, userType: UserType): boolean {
   const token = getTokenFromRequest(request, userType);
@@ -0,0 +1,256 @@
+import crypto from 'crypto';
+import { CartRecoveryStatus, CouponType, UserStatus } from '@prisma/client';
+import prisma from './prisma';
+import { cartService } from './cart-service';
+import { toPriceNumber } from './pricing-utils';
+import { SmsSender, getSmsSender } from './sms-sender';
+
+// A cart counts as abandoned once none of its lines changed for this long
+export const CART_RECOVERY_IDLE_HOURS = Number(process.env.CART_RECOVERY_IDLE_HOURS) || 24;
+// Minimum gap between two reminders to the same customer
+export const CART_RECOVERY_COOLDOWN_HOURS = Number(process.env.CART_RECOVERY_COOLDOWN_HOURS) || 72;
+// An order paid within this many days of a reminder counts as recovered
+export const CART_RECOVERY_ATTRIBUTION_DAYS = Number(process.env.CART_RECOVERY_ATTRIBUTION_DAYS) || 7;
+// Percentage off for the one-time recovery coupon; 0 sends no coupon
+export const CART_RECOVERY_COUPON_PERCENT = Number(process.env.CART_RECOVERY_COUPON_PERCENT) || 0;
+export const CART_RECOVERY_COUPON_VALID_DAYS = Number(process.env.CART_RECOVERY_COUPON_VALID_DAYS) || 3;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface CartRecoveryOptions {
+  idleHours?: number;
+  couponPercent?: number;
+  // Most carts handled in one run
+  limit?: number;
+  sender?: SmsSender;
+  now?: Date;
+}
+
+export interface CartRecoveryRunResult {
+  candidates: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface CartRecoveryStats {
+  attempts: number;
+  sent: number;
+  failed: number;
+  recovered: number;
+  recoveredRevenue: number;
+  // Share of delivered reminders that led to a paid order, as a percentage
+  recoveryRate: number;
+}
+
+function generateRecoveryCouponCode(): string {
+  return `BACK${crypto.randomBytes(4).toString('hex').toUpperCase()}`;
+}
+
+/**
+ * Carts of reachable customers that have sat untouched for `idleHours`,
+ * oldest first. Customers reminded within the cooldown are left out.
+ */
+export async function findAbandonedCarts(options: Pick<CartRecoveryOptions, 'idleHours' | 'limit' | 'now'> = {}) {
+  const now = options.now ?? new Date();
+  const idleSince = new Date(now.getTime() - (options.idleHours ?? CART_RECOVERY_IDLE_HOURS) * HOUR_MS);
+  const cooldownSince = new Date(now.getTime() - CART_RECOVERY_COOLDOWN_HOURS * HOUR_MS);
+
+  return prisma.cart.findMany({
+    where: {
+      userId: { not: null },
+      items: { some: {}, none: { updatedAt: { gt: idleSince } } },
+      user: {
+        status: UserStatus.ACTIVE,
+        deletedAt: null,
+        phoneVerified: true,
+        cartRecoveryAttempts: { none: { createdAt: { gt: cooldownSince } } }
+      }
+    },
+    select: {
+      id: true,
+      user: {
+        select: {
+          id: true,
+          firstName: true,
+          phoneNumber: true,
+          orders: { select: { createdAt: true }, orderBy: { createdAt: 'desc' }, take: 1 }
+        }
+      },
+      items: { select: { updatedAt: true } }
+    },
+    orderBy: { updatedAt: 'asc' },
+    take: options.limit ?? 100
+  });
+}
+
+async function createRecoveryCoupon(percent: number, now: Date) {
+  return prisma.coupon.create({
+    data: {
+      code: generateRecoveryCouponCode(),
+      name: 'کد تخفیف بازگشت به سبد خرید',
+      type: CouponType.PERCENTAGE,
+      value: percent,
+      usageLimit: 1,
+      usageLimitPerUser: 1,
+      startsAt: now,
+      endsAt: new Date(now.getTime() + CART_RECOVERY_COUPON_VALID_DAYS * 24 * HOUR_MS)
+    },
+    select: { id: true, code: true }
+  });
+}
+
+/**
+ * Sends one recovery SMS per abandoned cart and records every attempt.
+ *
+ * A cart is reminded at most once per abandonment: editing it starts a new
+ * one. Customers who ordered since they last touched their cart are skipped.
+ * Failed sends are recorded too, so a broken number isn't retried every run.
+ */
+export async function runCartRecoveryJob(options: CartRecoveryOptions = {}): Promise<CartRecoveryRunResult> {
+  const sender = options.sender ?? getSmsSender();
+  const couponPercent = options.couponPercent ?? CART_RECOVERY_COUPON_PERCENT;
+  const now = options.now ?? new Date();
+
+  const template = couponPercent > 0
+    ? process.env.KAVENEGAR_CART_RECOVERY_COUPON_TEMPLATE || process.env.KAVENEGAR_CART_RECOVERY_TEMPLATE
+    : process.env.KAVENEGAR_CART_RECOVERY_TEMPLATE;
+  if (!template && sender.name === 'KAVENEGAR') {
+    console.warn('Cart recovery skipped: KAVENEGAR_CART_RECOVERY_TEMPLATE is not set');
+    return { candidates: 0, sent: 0, failed: 0, skipped: 0 };
+  }
+
+  const carts = await findAbandonedCarts({ ...options, now });
+  const previousAttempts = await prisma.cartRecoveryAttempt.findMany({
+    where: { cartId: { in: carts.map(cart => cart.id) } },
+    select: { cartId: true, createdAt: true }
+  });
+
+  const result: CartRecoveryRunResult = { candidates: carts.length, sent: 0, failed: 0, skipped: 0 };
+
+  for (const cart of carts) {
+    const user = cart.user;
+    if (!user) continue;
+
+    const lastActivity = Math.max(...cart.items.map(item => item.updatedAt.getTime()));
+    const alreadyReminded = previousAttempts.some(
+      attempt => attempt.cartId === cart.id && attempt.createdAt.getTime() > lastActivity
+    );
+    const orderedSince = user.orders.some(order => order.createdAt.getTime() > lastActivity);
+
+    const summary = await cartService.getCart({ userId: user.id });
+    if (alreadyReminded || orderedSince || summary.totalItems === 0) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      const coupon = couponPercent > 0 ? await createRecoveryCoupon(couponPercent, now) : null;
+      const tokens = [user.firstName || 'مشتری', String(summary.totalItems), ...(coupon ? [coupon.code] : [])];
+
+      const delivered = await sender.sendTemplate(user.phoneNumber, template ?? 'cart-recovery', tokens);
+
+      // An undelivered code is useless and shouldn't stay redeemable
+      if (coupon && !delivered) {
+        await prisma.coupon.update({ where: { id: coupon.id }, data: { isActive: false } });
+      }
+
+      await prisma.cartRecoveryAttempt.create({
+        data: {
+          cartId: cart.id,
+          userId: user.id,
+          phoneNumber: user.phoneNumber,
+          status: delivered ? CartRecoveryStatus.SENT : CartRecoveryStatus.FAILED,
+          itemCount: summary.totalItems,
+          cartValue: summary.subtotal,
+          couponId: coupon?.id,
+          ...(!delivered && { error: 'SMS was not accepted by the provider' })
+        }
+      });
+
+      if (delivered) result.sent++;
+      else result.failed++;
+    } catch (error) {
+      console.error('Error sending cart recovery SMS:', { cartId: cart.id, userId: user.id, error });
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Credits a paid order to the reminder that brought the customer back: the
+ * one whose coupon it used, else the latest delivered within the attribution
+ * window. Best effort; never fails the payment.
+ */
+export async function attributeRecoveredOrder(orderId: string) {
+  try {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: { id: true, userId: true, couponId: true, total: true, createdAt: true }
+    });
+    if (!order) return;
+
+    const windowStart = new Date(order.createdAt.getTime() - CART_RECOVERY_ATTRIBUTION_DAYS * 24 * HOUR_MS);
+    const attempt = await prisma.cartRecoveryAttempt.findFirst({
+      where: {
+        userId: order.userId,
+        status: CartRecoveryStatus.SENT,
+        createdAt: { lte: order.createdAt },
+        OR: [
+          ...(order.couponId ? [{ couponId: order.couponId }] : []),
+          { createdAt: { gte: windowStart } }
+        ]
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true }
+    });
+    if (!attempt) return;
+
+    await prisma.cartRecoveryAttempt.update({
+      where: { id: attempt.id },
+      data: {
+        status: CartRecoveryStatus.RECOVERED,
+        orderId: order.id,
+        recoveredAmount: order.total,
+        recoveredAt: new Date()
+      }
+    });
+  } catch (error) {
+    console.error('Error attributing recovered cart:', { orderId, error });
+  }
+}
+
+/**
+ * Reminders sent since `since` and the revenue recovered in the same period
+ */
+export async function getCartRecoveryStats(since: Date, until: Date = new Date()): Promise<CartRecoveryStats> {
+  const [byStatus, recovered] = await Promise.all([
+    prisma.cartRecoveryAttempt.groupBy({
+      by: ['status'],
+      where: { createdAt: { gte: since, lte: until } },
+      _count: { _all: true }
+    }),
+    prisma.cartRecoveryAttempt.aggregate({
+      where: { status: CartRecoveryStatus.RECOVERED, recoveredAt: { gte: since, lte: until } },
+      _sum: { recoveredAmount: true },
+      _count: { _all: true }
+    })
+  ]);
+
+  const count = (status: CartRecoveryStatus) =>
+    byStatus.find(group => group.status === status)?._count._all ?? 0;
+
+  // Recovered attempts were delivered too
+  const delivered = count(CartRecoveryStatus.SENT) + count(CartRecoveryStatus.RECOVERED);
+
+  return {
+    attempts: delivered + count(CartRecoveryStatus.FAILED),
+    sent: delivered,
+    failed: count(CartRecoveryStatus.FAILED),
+    recovered: recovered._count._all,
+    recoveredRevenue: toPriceNumber(recovered._sum.recoveredAmount),
+    recoveryRate: delivered > 0 ? Number(((count(CartRecoveryStatus.RECOVERED) / delivered) * 100).toFixed(1)) : 0
+  };
+}
@@ -0,0 +1,339 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CartError, createCartService } from './cart-service';
+import { GUEST_CART_COOKIE, mergeGuestCartOnLogin, signGuestCartToken } from './guest-cart';
+import { MAX_LINE_QUANTITY } from './stock-utils';
+
+interface FakeProduct {
+  id: string;
+  name: string;
+  mainImage: string | null;
+  price: number;
+  categoryId: string;
+  type: string;
+  isActive: boolean;
+  publishedAt: Date | null;
+  manageStock: boolean;
+  totalStock: number;
+}
+
+interface FakeVariant {
+  id: string;
+  productId: string;
+  color: string | null;
+  size: string | null;
+  price: number | null;
+  isActive: boolean;
+  stock: number;
+  reservedStock: number;
+}
+
+interface FakeCart {
+  id: string;
+  userId: number | null;
+  guestToken: string | null;
+}
+
+interface FakeCartItem {
+  id: string;
+  cartId: string;
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+  price: number;
+  createdAt: Date;
+}
+
+type Where = Record<string, unknown>;
+
+// The cart tables in memory, with just the queries the cart code makes
+const db = vi.hoisted(() => {
+  const state = {
+    products: new Map<string, FakeProduct>(),
+    variants: new Map<string, FakeVariant>(),
+    carts: [] as FakeCart[],
+    items: [] as FakeCartItem[],
+    nextId: 1
+  };
+
+  const newId = (prefix: string) => `${prefix}-${state.nextId++}`;
+
+  const cartMatches = (cart: FakeCart, where: Where) =>
+    'id' in where ? cart.id === where.id
+      : 'userId' in where ? cart.userId === where.userId
+        : cart.guestToken === where.guestToken;
+
+  const itemMatches = (item: FakeCartItem, where: Where) => {
+    const { cart, ...fields } = where as { cart?: Where };
+    const matchesFields = Object.entries(fields).every(([field, value]) => item[field as keyof FakeCartItem] === value);
+    const owner = state.carts.find(row => row.id === item.cartId);
+    return matchesFields && (!cart || (!!owner && cartMatches(owner, cart)));
+  };
+
+  const withRelations = (item: FakeCartItem) => ({
+    ...item,
+    product: state.products.get(item.productId)!,
+    variant: item.variantId ? state.variants.get(item.variantId)! : null
+  });
+
+  const withItems = (cart: FakeCart) => ({
+    ...cart,
+    items: state.items.filter(item => item.cartId === cart.id).map(withRelations)
+  });
+
+  const findCart = (where: Where) => state.carts.find(cart => cartMatches(cart, where));
+
+  const removeItems = (where: Where) => {
+    const removed = state.items.filter(item => itemMatches(item, where));
+    state.items = state.items.filter(item => !removed.includes(item));
+    return removed;
+  };
+
+  const client = {
+    state,
+    product: {
+      findUnique: async ({ where }: { where: { id: string } }) => state.products.get(where.id) ?? null
+    },
+    variant: {
+      findFirst: async ({ where }: { where: { id: string; productId: string } }) => {
+        const variant = state.variants.get(where.id);
+        return variant?.productId === where.productId ? variant : null;
+      }
+    },
+    cart: {
+      findUnique: async ({ where }: { where: Where }) => {
+        const cart = findCart(where);
+        return cart ? withItems(cart) : null;
+      },
+      upsert: async ({ where, create }: { where: Where; create: Partial<FakeCart> }) => {
+        let cart = findCart(where);
+        if (!cart) {
+          cart = { id: newId('cart'), userId: null, guestToken: null, ...create };
+          state.carts.push(cart);
+        }
+        return withItems(cart);
+      },
+      // Items go with their cart, as the foreign key cascades
+      delete: async ({ where }: { where: { id: string } }) => {
+        state.carts = state.carts.filter(cart => cart.id !== where.id);
+        removeItems({ cartId: where.id });
+      }
+    },
+    cartItem: {
+      findFirst: async ({ where }: { where: Where }) => {
+        const item = state.items.find(row => itemMatches(row, where));
+        return item ? withRelations(item) : null;
+      },
+      findMany: async ({ where }: { where: Where }) =>
+        state.items.filter(item => itemMatches(item, where)).map(withRelations),
+      create: async ({ data }: { data: Omit<FakeCartItem, 'id' | 'createdAt'> }) => {
+        const item = { id: newId('item'), createdAt: new Date(), ...data };
+        state.items.push(item);
+        return item;
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Partial<FakeCartItem> }) =>
+        Object.assign(state.items.find(item => item.id === where.id)!, data),
+      updateMany: async ({ where, data }: { where: Where; data: Partial<FakeCartItem> }) => {
+        const matched = state.items.filter(item => itemMatches(item, where));
+        matched.forEach(item => Object.assign(item, data));
+        return { count: matched.length };
+      },
+      delete: async ({ where }: { where: { id: string } }) => removeItems({ id: where.id })[0],
+      deleteMany: async ({ where }: { where: Where }) => ({ count: removeItems(where).length })
+    },
+    $transaction: async <T>(work: (tx: unknown) => Promise<T>) => work(client)
+  };
+  return client;
+});
+
+vi.mock('./prisma', () => ({ default: db }));
+
+const cartService = createCartService(db as unknown as Parameters<typeof createCartService>[0]);
+
+function addProduct(id: string, overrides: Partial<FakeProduct> = {}): FakeProduct {
+  const product: FakeProduct = {
+    id,
+    name: `Product ${id}`,
+    mainImage: null,
+    price: 100000,
+    categoryId: 'category-1',
+    type: 'PHYSICAL',
+    isActive: true,
+    publishedAt: null,
+    manageStock: true,
+    totalStock: 10,
+    ...overrides
+  };
+  db.state.products.set(id, product);
+  return product;
+}
+
+function addVariant(id: string, productId: string, overrides: Partial<FakeVariant> = {}): FakeVariant {
+  const variant: FakeVariant = {
+    id,
+    productId,
+    color: 'Red',
+    size: 'M',
+    price: null,
+    isActive: true,
+    stock: 5,
+    reservedStock: 0,
+    ...overrides
+  };
+  db.state.variants.set(id, variant);
+  return variant;
+}
+
+function quantities(owner: { userId: number } | { guestToken: string }) {
+  const cart = db.state.carts.find(row =>
+    'userId' in owner ? row.userId === owner.userId : row.guestToken === owner.guestToken
+  );
+  return Object.fromEntries(
+    db.state.items
+      .filter(item => item.cartId === cart?.id)
+      .map(item => [item.variantId ?? item.productId, item.quantity])
+  );
+}
+
+function loginRequest(guestCookie?: string) {
+  return new Request('http://localhost:3000/api/users/login/password', {
+    method: 'POST',
+    headers: guestCookie ? { cookie: `${GUEST_CART_COOKIE}=${encodeURIComponent(guestCookie)}` } : {}
+  });
+}
+
+beforeEach(() => {
+  db.state.products.clear();
+  db.state.variants.clear();
+  db.state.carts = [];
+  db.state.items = [];
+  db.state.nextId = 1;
+});
+
+describe('cart quantity caps', () => {
+  const owner = { userId: 1 };
+
+  it('adds to a line up to the unreserved stock of its variant', async () => {
+    addProduct('shirt');
+    addVariant('shirt-red', 'shirt', { stock: 5, reservedStock: 2 });
+
+    await cartService.addToCart(owner, { productId: 'shirt', variantId: 'shirt-red', quantity: 2 });
+    const error = await cartService
+      .addToCart(owner, { productId: 'shirt', variantId: 'shirt-red', quantity: 2 })
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(CartError);
+    expect(error).toMatchObject({ code: 'INSUFFICIENT_STOCK', details: { requested: 4, available: 3 } });
+    expect(quantities(owner)).toEqual({ 'shirt-red': 2 });
+
+    const cart = await cartService.addToCart(owner, { productId: 'shirt', variantId: 'shirt-red', quantity: 1 });
+    expect(cart).toMatchObject({ totalItems: 3, subtotal: 300000 });
+  });
+
+  it('caps products without variants at their total stock, unless stock is not managed', async () => {
+    addProduct('mug', { totalStock: 3 });
+    addProduct('ebook', { manageStock: false, totalStock: 0 });
+
+    await expect(cartService.addToCart(owner, { productId: 'mug', quantity: 4 }))
+      .rejects.toMatchObject({ code: 'INSUFFICIENT_STOCK' });
+    await cartService.addToCart(owner, { productId: 'ebook', quantity: 500 });
+
+    expect(quantities(owner)).toEqual({ ebook: 500 });
+  });
+
+  it('caps every line at MAX_LINE_QUANTITY, even when stock is not managed', async () => {
+    addProduct('ebook', { manageStock: false });
+    await cartService.addToCart(owner, { productId: 'ebook', quantity: MAX_LINE_QUANTITY });
+
+    await expect(cartService.addToCart(owner, { productId: 'ebook', quantity: 1 }))
+      .rejects.toMatchObject({ code: 'INSUFFICIENT_STOCK', details: { available: MAX_LINE_QUANTITY } });
+    expect(quantities(owner)).toEqual({ ebook: MAX_LINE_QUANTITY });
+  });
+
+  it('refuses products that are not on sale yet', async () => {
+    addProduct('preorder', { publishedAt: new Date(Date.now() + 24 * 60 * 60 * 1000) });
+
+    await expect(cartService.addToCart(owner, { productId: 'preorder', quantity: 1 }))
+      .rejects.toMatchObject({ code: 'PRODUCT_UNAVAILABLE' });
+  });
+
+  it('checks stock when a quantity is raised but always allows lowering it', async () => {
+    addProduct('shirt');
+    const variant = addVariant('shirt-red', 'shirt', { stock: 4 });
+    const { items: [line] } = await cartService.addToCart(owner, { productId: 'shirt', variantId: 'shirt-red', quantity: 4 });
+
+    await expect(cartService.updateCartItem(owner, line.id, { quantity: 5 }))
+      .rejects.toMatchObject({ code: 'INSUFFICIENT_STOCK' });
+
+    // Sold elsewhere since; the customer can still trim the line
+    variant.stock = 1;
+    await cartService.updateCartItem(owner, line.id, { quantity: 2 });
+
+    expect(quantities(owner)).toEqual({ 'shirt-red': 2 });
+  });
+
+  it('lowers lines to what is in stock when validating with autoFix', async () => {
+    addProduct('shirt');
+    const variant = addVariant('shirt-red', 'shirt', { stock: 5 });
+    await cartService.addToCart(owner, { productId: 'shirt', variantId: 'shirt-red', quantity: 5 });
+    variant.reservedStock = 3;
+
+    const result = await cartService.validate(owner, { autoFix: true });
+
+    expect(result.issues).toEqual([
+      expect.objectContaining({ type: 'INSUFFICIENT_STOCK', requested: 5, maxQuantity: 2 })
+    ]);
+    expect(result).toMatchObject({ valid: true, fixed: true, cart: { totalItems: 2 } });
+  });
+});
+
+describe('merging a guest cart on login', () => {
+  const guest = { guestToken: 'guest-token' };
+  const user = { userId: 42 };
+
+  it('moves guest lines into the user cart and adds up lines both carts have', async () => {
+    addProduct('mug', { totalStock: 10 });
+    addProduct('shirt');
+    addVariant('shirt-red', 'shirt', { stock: 5 });
+    await cartService.addToCart(user, { productId: 'mug', quantity: 2 });
+    await cartService.addToCart(guest, { productId: 'mug', quantity: 3 });
+    await cartService.addToCart(guest, { productId: 'shirt', variantId: 'shirt-red', quantity: 1 });
+
+    const result = await mergeGuestCartOnLogin(loginRequest(signGuestCartToken(guest.guestToken)), user.userId);
+
+    expect(result).toEqual({ merged: 2, adjustments: [] });
+    expect(quantities(user)).toEqual({ mug: 5, 'shirt-red': 1 });
+    expect(db.state.carts.some(cart => cart.guestToken === guest.guestToken)).toBe(false);
+  });
+
+  it('caps merged lines at the stock left and drops lines that can no longer be bought', async () => {
+    addProduct('mug', { totalStock: 4 });
+    addProduct('shirt');
+    const variant = addVariant('shirt-red', 'shirt', { stock: 5 });
+    await cartService.addToCart(user, { productId: 'mug', quantity: 3 });
+    await cartService.addToCart(user, { productId: 'shirt', variantId: 'shirt-red', quantity: 1 });
+    await cartService.addToCart(guest, { productId: 'mug', quantity: 3 });
+    await cartService.addToCart(guest, { productId: 'shirt', variantId: 'shirt-red', quantity: 2 });
+    variant.isActive = false;
+
+    const result = await mergeGuestCartOnLogin(loginRequest(signGuestCartToken(guest.guestToken)), user.userId);
+
+    expect(result?.merged).toBe(1);
+    expect(result?.adjustments).toEqual([
+      { productId: 'mug', variantId: null, requested: 6, applied: 4, reason: 'QUANTITY_LIMITED' },
+      { productId: 'shirt', variantId: 'shirt-red', requested: 3, applied: 0, reason: 'UNAVAILABLE' }
+    ]);
+    expect(quantities(user)).toEqual({ mug: 4 });
+  });
+
+  it('leaves both carts alone without a valid guest cookie', async () => {
+    addProduct('mug');
+    await cartService.addToCart(guest, { productId: 'mug', quantity: 1 });
+
+    const forged = loginRequest(`${guest.guestToken}.forged`);
+
+    expect(await mergeGuestCartOnLogin(loginRequest(), user.userId)).toBeNull();
+    expect(await mergeGuestCartOnLogin(forged, user.userId)).toBeNull();
+    expect(quantities(guest)).toEqual({ mug: 1 });
+    expect(db.state.carts.some(cart => cart.userId === user.userId)).toBe(false);
+  });
+});
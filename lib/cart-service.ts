@@ -0,0 +1,438 @@
+import { Prisma, ProductType } from '@prisma/client';
+import prisma from './prisma';
+import { PriceLike, resolveUnitPrice, toPriceNumber } from './pricing-utils';
+import { getAvailableQuantity } from './stock-utils';
+import { CartOwner, cartOwnerCreate, cartOwnerWhere } from './guest-cart';
+
+// Cart rules live here rather than in the route handlers, so they run the
+// same for users and guests and can be exercised without HTTP.
+
+export interface CartItemResponse {
+  id: string;
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  // Current unit price, not the one the line was added at
+  price: number;
+  productName: string;
+  variantName?: string;
+  image?: string | null;
+}
+
+export interface CartResponse {
+  items: CartItemResponse[];
+  totalItems: number;
+  subtotal: number;
+}
+
+export interface AddToCartInput {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+}
+
+export interface UpdateCartItemInput {
+  quantity: number;
+}
+
+export type CartIssueType =
+  | 'PRICE_CHANGED'
+  | 'PRODUCT_UNPUBLISHED'
+  | 'VARIANT_INACTIVE'
+  | 'INSUFFICIENT_STOCK';
+
+export interface CartIssue {
+  type: CartIssueType;
+  // Blocking issues stop checkout; the rest only need the customer's attention
+  blocking: boolean;
+  itemId?: string;
+  productId: string;
+  variantId: string | null;
+  // PRICE_CHANGED
+  oldPrice?: number;
+  newPrice?: number;
+  // INSUFFICIENT_STOCK: the most that can be bought right now
+  requested?: number;
+  maxQuantity?: number;
+}
+
+/**
+ * A cart or checkout line together with the catalogue rows it points at
+ */
+export interface CartLineState {
+  itemId?: string;
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+  // Price frozen on the line or quoted by the client; absent means none to compare
+  price?: PriceLike;
+  product: {
+    price: PriceLike;
+    isActive: boolean;
+    publishedAt: Date | null;
+    manageStock: boolean;
+    totalStock: number;
+  };
+  variant: {
+    price: PriceLike;
+    isActive: boolean;
+    stock: number;
+    reservedStock: number;
+  } | null;
+}
+
+export interface CartValidationResult {
+  // No blocking issues are left
+  valid: boolean;
+  issues: CartIssue[];
+  // Whether the issues were fixed in the cart itself
+  fixed: boolean;
+  cart: CartResponse;
+}
+
+export interface CartLine {
+  itemId: string;
+  productId: string;
+  variantId: string | null;
+  categoryId: string;
+  productType: ProductType;
+  quantity: number;
+  unitPrice: number;
+}
+
+export type CartErrorCode =
+  | 'PRODUCT_NOT_FOUND'
+  | 'VARIANT_NOT_FOUND'
+  | 'PRODUCT_UNAVAILABLE'
+  | 'INSUFFICIENT_STOCK'
+  | 'ITEM_NOT_FOUND';
+
+const CART_MESSAGES: Record<CartErrorCode, string> = {
+  PRODUCT_NOT_FOUND: 'محصول یافت نشد',
+  VARIANT_NOT_FOUND: 'تنوع انتخاب شده برای این محصول یافت نشد',
+  PRODUCT_UNAVAILABLE: 'این محصول در حال حاضر قابل خرید نیست',
+  INSUFFICIENT_STOCK: 'موجودی محصول کافی نیست',
+  ITEM_NOT_FOUND: 'آیتم در سبد خرید یافت نشد'
+};
+
+export class CartError extends Error {
+  constructor(public code: CartErrorCode, public details?: Record<string, unknown>) {
+    super(CART_MESSAGES[code]);
+    this.name = 'CartError';
+  }
+}
+
+type DbClient = typeof prisma | Prisma.TransactionClient;
+
+const cartItemInclude = {
+  product: {
+    select: {
+      name: true,
+      mainImage: true,
+      price: true,
+      categoryId: true,
+      type: true,
+      isActive: true,
+      publishedAt: true,
+      manageStock: true,
+      totalStock: true
+    }
+  },
+  variant: {
+    select: {
+      color: true,
+      size: true,
+      price: true,
+      isActive: true,
+      stock: true,
+      reservedStock: true
+    }
+  }
+} satisfies Prisma.CartItemInclude;
+
+type CartItemWithProduct = Prisma.CartItemGetPayload<{ include: typeof cartItemInclude }>;
+
+const EMPTY_CART: CartResponse = { items: [], totalItems: 0, subtotal: 0 };
+
+/**
+ * Inactive products are hidden from the shop, and so are ones scheduled to
+ * be published later.
+ */
+export function isProductPublished(product: Pick<CartLineState['product'], 'isActive' | 'publishedAt'>, now = new Date()): boolean {
+  return product.isActive && (!product.publishedAt || product.publishedAt <= now);
+}
+
+/**
+ * Everything wrong with a set of lines against the current catalogue.
+ * A line that can't be sold at all reports only that; price and stock are
+ * checked for the rest.
+ */
+export function findCartIssues(lines: CartLineState[], now = new Date()): CartIssue[] {
+  return lines.flatMap((line): CartIssue[] => {
+    const base = { itemId: line.itemId, productId: line.productId, variantId: line.variantId };
+
+    if (!isProductPublished(line.product, now)) {
+      return [{ ...base, type: 'PRODUCT_UNPUBLISHED', blocking: true }];
+    }
+    if (line.variant && !line.variant.isActive) {
+      return [{ ...base, type: 'VARIANT_INACTIVE', blocking: true }];
+    }
+
+    const issues: CartIssue[] = [];
+
+    // Lines saved before prices were frozen hold 0, which isn't a real quote
+    const oldPrice = toPriceNumber(line.price);
+    const newPrice = resolveUnitPrice(line.product.price, line.variant?.price);
+    if (oldPrice > 0 && Math.round(oldPrice * 100) !== Math.round(newPrice * 100)) {
+      issues.push({ ...base, type: 'PRICE_CHANGED', blocking: false, oldPrice, newPrice });
+    }
+
+    const available = getAvailableQuantity(line.product, line.variant);
+    if (line.quantity > available) {
+      issues.push({
+        ...base,
+        type: 'INSUFFICIENT_STOCK',
+        blocking: true,
+        requested: line.quantity,
+        maxQuantity: available
+      });
+    }
+
+    return issues;
+  });
+}
+
+export function hasBlockingIssues(issues: CartIssue[]): boolean {
+  return issues.some(issue => issue.blocking);
+}
+
+function formatVariantName(variant: { color: string | null; size: string | null } | null): string | undefined {
+  if (!variant) return undefined;
+  const parts = [variant.color, variant.size].filter(Boolean);
+  return parts.length > 0 ? parts.join(' / ') : undefined;
+}
+
+function toCartItemResponse(item: CartItemWithProduct): CartItemResponse {
+  return {
+    id: item.id,
+    productId: item.productId,
+    variantId: item.variantId ?? undefined,
+    quantity: item.quantity,
+    price: resolveUnitPrice(item.product.price, item.variant?.price),
+    productName: item.product.name,
+    variantName: formatVariantName(item.variant),
+    image: item.product.mainImage
+  };
+}
+
+/**
+ * Item count and subtotal for a set of cart lines
+ */
+export function calculateCartTotals(items: Array<Pick<CartItemResponse, 'quantity' | 'price'>>) {
+  return {
+    totalItems: items.reduce((sum, item) => sum + item.quantity, 0),
+    subtotal: items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+  };
+}
+
+export function toCartResponse(items: CartItemWithProduct[]): CartResponse {
+  const formatted = items.map(toCartItemResponse);
+  return { items: formatted, ...calculateCartTotals(formatted) };
+}
+
+/**
+ * Builds the cart operations on top of a database client. Routes use the
+ * default `cartService`; anything else can pass its own client or transaction.
+ */
+export function createCartService(db: DbClient = prisma) {
+  async function findItems(owner: CartOwner): Promise<CartItemWithProduct[]> {
+    return db.cartItem.findMany({
+      where: { cart: cartOwnerWhere(owner) },
+      include: cartItemInclude,
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  async function findItem(owner: CartOwner, itemId: string): Promise<CartItemWithProduct> {
+    const item = await db.cartItem.findFirst({
+      where: { id: itemId, cart: cartOwnerWhere(owner) },
+      include: cartItemInclude
+    });
+    if (!item) {
+      throw new CartError('ITEM_NOT_FOUND', { itemId });
+    }
+    return item;
+  }
+
+  function assertAvailable(item: Pick<CartItemWithProduct, 'productId' | 'variantId' | 'product' | 'variant'>, quantity: number) {
+    const available = isProductPublished(item.product) ? getAvailableQuantity(item.product, item.variant) : 0;
+    if (available === 0) {
+      throw new CartError('PRODUCT_UNAVAILABLE', { productId: item.productId, variantId: item.variantId });
+    }
+    if (quantity > available) {
+      throw new CartError('INSUFFICIENT_STOCK', {
+        productId: item.productId,
+        variantId: item.variantId,
+        requested: quantity,
+        available
+      });
+    }
+  }
+
+  async function getCart(owner: CartOwner): Promise<CartResponse> {
+    const items = await findItems(owner);
+    return items.length > 0 ? toCartResponse(items) : EMPTY_CART;
+  }
+
+  /**
+   * Adds units of a product to the cart, on top of any already there.
+   * The total may not exceed what can currently be sold.
+   */
+  async function addToCart(owner: CartOwner, input: AddToCartInput): Promise<CartResponse> {
+    const variantId = input.variantId || null;
+
+    const product = await db.product.findUnique({
+      where: { id: input.productId },
+      select: cartItemInclude.product.select
+    });
+    if (!product) {
+      throw new CartError('PRODUCT_NOT_FOUND', { productId: input.productId });
+    }
+
+    const variant = variantId
+      ? await db.variant.findFirst({
+          where: { id: variantId, productId: input.productId },
+          select: cartItemInclude.variant.select
+        })
+      : null;
+    if (variantId && !variant) {
+      throw new CartError('VARIANT_NOT_FOUND', { productId: input.productId, variantId });
+    }
+
+    const cart = await db.cart.upsert({
+      where: cartOwnerWhere(owner),
+      update: {},
+      create: cartOwnerCreate(owner),
+      select: { id: true }
+    });
+
+    const existing = await db.cartItem.findFirst({
+      where: { cartId: cart.id, productId: input.productId, variantId },
+      select: { id: true, quantity: true }
+    });
+    const quantity = (existing?.quantity ?? 0) + input.quantity;
+
+    assertAvailable({ productId: input.productId, variantId, product, variant }, quantity);
+
+    // The price is kept as the one the customer saw, to spot changes before checkout
+    const price = resolveUnitPrice(product.price, variant?.price);
+
+    if (existing) {
+      await db.cartItem.update({
+        where: { id: existing.id },
+        data: { quantity, price }
+      });
+    } else {
+      await db.cartItem.create({
+        data: { cartId: cart.id, productId: input.productId, variantId, quantity, price }
+      });
+    }
+
+    return getCart(owner);
+  }
+
+  /**
+   * Sets a line's quantity; zero removes the line
+   */
+  async function updateCartItem(owner: CartOwner, itemId: string, input: UpdateCartItemInput): Promise<CartResponse> {
+    const item = await findItem(owner, itemId);
+
+    if (input.quantity <= 0) {
+      await db.cartItem.delete({ where: { id: item.id } });
+      return getCart(owner);
+    }
+
+    // Lowering a quantity is always allowed, even when stock has since run short
+    if (input.quantity > item.quantity) {
+      assertAvailable(item, input.quantity);
+    }
+
+    await db.cartItem.update({
+      where: { id: item.id },
+      data: { quantity: input.quantity }
+    });
+
+    return getCart(owner);
+  }
+
+  async function removeItem(owner: CartOwner, itemId: string): Promise<CartResponse> {
+    const item = await findItem(owner, itemId);
+    await db.cartItem.delete({ where: { id: item.id } });
+    return getCart(owner);
+  }
+
+  /**
+   * Empties the cart but keeps it, so a guest's cookie stays valid
+   */
+  async function clear(owner: CartOwner): Promise<{ itemsRemoved: number }> {
+    const { count } = await db.cartItem.deleteMany({
+      where: { cart: cartOwnerWhere(owner) }
+    });
+    return { itemsRemoved: count };
+  }
+
+  /**
+   * Checks every line against the current catalogue. With `autoFix` the cart
+   * is brought in line: prices are refreshed, lines that can't be sold are
+   * removed and quantities are lowered to what's in stock.
+   */
+  async function validate(owner: CartOwner, options: { autoFix?: boolean } = {}): Promise<CartValidationResult> {
+    const items = await findItems(owner);
+    const issues = findCartIssues(items.map(item => ({ ...item, itemId: item.id })));
+
+    if (!options.autoFix || issues.length === 0) {
+      return {
+        valid: !hasBlockingIssues(issues),
+        issues,
+        fixed: false,
+        cart: items.length > 0 ? toCartResponse(items) : EMPTY_CART
+      };
+    }
+
+    for (const issue of issues) {
+      const itemId = issue.itemId as string;
+
+      if (issue.type === 'PRODUCT_UNPUBLISHED' || issue.type === 'VARIANT_INACTIVE' || issue.maxQuantity === 0) {
+        await db.cartItem.deleteMany({ where: { id: itemId } });
+      } else if (issue.type === 'PRICE_CHANGED') {
+        await db.cartItem.updateMany({ where: { id: itemId }, data: { price: issue.newPrice } });
+      } else {
+        await db.cartItem.updateMany({ where: { id: itemId }, data: { quantity: issue.maxQuantity } });
+      }
+    }
+
+    return { valid: true, issues, fixed: true, cart: await getCart(owner) };
+  }
+
+  /**
+   * The cart as priced lines, in the shape coupon and tax calculations take
+   */
+  async function getLines(owner: CartOwner): Promise<CartLine[]> {
+    const items = await findItems(owner);
+    return items.map(item => ({
+      itemId: item.id,
+      productId: item.productId,
+      variantId: item.variantId,
+      categoryId: item.product.categoryId,
+      productType: item.product.type,
+      quantity: item.quantity,
+      unitPrice: resolveUnitPrice(item.product.price, item.variant?.price)
+    }));
+  }
+
+  return { getCart, addToCart, updateCartItem, removeItem, clear, validate, getLines };
+}
+
+export type CartService = ReturnType<typeof createCartService>;
+
+export const cartService = createCartService();
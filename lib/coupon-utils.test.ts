@@ -0,0 +1,61 @@
+import { Coupon, CouponType, Prisma, ProductType } from '@prisma/client';
+import { describe, expect, it } from 'vitest';
+import { CouponError, DiscountableLine, calculateCouponDiscount } from './coupon-utils';
+
+function buyXGetY(buyQuantity: number, getQuantity: number, overrides: Partial<Coupon> = {}): Coupon {
+  return {
+    id: 'coupon-1',
+    code: 'BUY2GET1',
+    type: CouponType.BUY_X_GET_Y,
+    value: new Prisma.Decimal(0),
+    maxDiscount: null,
+    minSubtotal: null,
+    buyQuantity,
+    getQuantity,
+    productIds: [],
+    categoryIds: [],
+    productTypes: [],
+    isActive: true,
+    startsAt: null,
+    endsAt: null,
+    ...overrides
+  } as Coupon;
+}
+
+function line(productId: string, unitPrice: number, quantity: number): DiscountableLine {
+  return { productId, categoryId: 'category-1', productType: ProductType.T_SHIRT, unitPrice, quantity };
+}
+
+describe('buy X get Y coupons', () => {
+  it('gives away the cheapest units, across lines', () => {
+    const result = calculateCouponDiscount(buyXGetY(2, 1), [
+      line('shirt', 300000, 2),
+      line('socks', 50000, 1),
+      line('hat', 100000, 3)
+    ]);
+
+    // Six units make two groups, so the socks and one hat are free
+    expect(result.lineDiscounts).toEqual([0, 50000, 100000]);
+    expect(result.totalDiscount).toBe(150000);
+  });
+
+  it('takes a percentage off the free units when the coupon has a value', () => {
+    const result = calculateCouponDiscount(buyXGetY(1, 1, { value: new Prisma.Decimal(50) }), [
+      line('shirt', 300000, 3),
+      line('socks', 50000, 1)
+    ]);
+
+    expect(result.lineDiscounts).toEqual([150000, 25000]);
+  });
+
+  it('needs a full group to apply', () => {
+    expect(() => calculateCouponDiscount(buyXGetY(2, 1), [line('shirt', 300000, 2)]))
+      .toThrow(CouponError);
+  });
+
+  it('counts huge quantities without expanding them into units', () => {
+    const result = calculateCouponDiscount(buyXGetY(2, 1), [line('ebook', 1000, 1e9), line('course', 5000, 3)]);
+
+    expect(result.lineDiscounts).toEqual([1000 * 333333334, 0]);
+  });
+});
@@ -0,0 +1,307 @@
+import { Coupon, CouponType, OrderStatus, Prisma, ProductType } from '@prisma/client';
+import { z } from 'zod';
+import prisma from './prisma';
+import { toPriceNumber } from './pricing-utils';
+
+export interface DiscountableLine {
+  productId: string;
+  variantId?: string | null;
+  categoryId: string;
+  productType: ProductType;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface CouponEvaluation {
+  couponId: string;
+  code: string;
+  type: CouponType;
+  // Discount per input line, in the same order as the lines passed in
+  lineDiscounts: number[];
+  itemsDiscount: number;
+  shippingDiscount: number;
+  totalDiscount: number;
+  freeShipping: boolean;
+}
+
+export type CouponErrorCode =
+  | 'COUPON_NOT_FOUND'
+  | 'COUPON_INACTIVE'
+  | 'COUPON_NOT_STARTED'
+  | 'COUPON_EXPIRED'
+  | 'COUPON_MIN_SUBTOTAL'
+  | 'COUPON_NOT_APPLICABLE'
+  | 'COUPON_USAGE_LIMIT'
+  | 'COUPON_USER_LIMIT';
+
+const COUPON_MESSAGES: Record<CouponErrorCode, string> = {
+  COUPON_NOT_FOUND: 'کد تخفیف معتبر نیست',
+  COUPON_INACTIVE: 'کد تخفیف غیرفعال است',
+  COUPON_NOT_STARTED: 'زمان استفاده از این کد تخفیف هنوز فرا نرسیده است',
+  COUPON_EXPIRED: 'مهلت استفاده از این کد تخفیف به پایان رسیده است',
+  COUPON_MIN_SUBTOTAL: 'مبلغ سبد خرید برای استفاده از این کد تخفیف کافی نیست',
+  COUPON_NOT_APPLICABLE: 'این کد تخفیف برای محصولات سبد خرید شما قابل استفاده نیست',
+  COUPON_USAGE_LIMIT: 'ظرفیت استفاده از این کد تخفیف تکمیل شده است',
+  COUPON_USER_LIMIT: 'شما قبلاً از این کد تخفیف استفاده کرده‌اید'
+};
+
+export class CouponError extends Error {
+  constructor(public code: CouponErrorCode, public details?: Record<string, unknown>) {
+    super(COUPON_MESSAGES[code]);
+    this.name = 'CouponError';
+  }
+}
+
+// Orders in these states don't count against usage limits
+const VOID_ORDER_STATUSES: OrderStatus[] = [OrderStatus.CANCELLED, OrderStatus.FAILED];
+
+type DbClient = typeof prisma | Prisma.TransactionClient;
+
+const couponBaseSchema = z.object({
+  code: z.string().trim().min(3, 'کد تخفیف حداقل باید ۳ کاراکتر باشد').max(50)
+    .regex(/^[A-Za-z0-9_-]+$/, 'کد تخفیف فقط می‌تواند شامل حروف انگلیسی، اعداد، خط تیره و زیرخط باشد'),
+  name: z.string().min(1, 'عنوان کد تخفیف الزامی است'),
+  description: z.string().optional().nullable(),
+  type: z.nativeEnum(CouponType),
+  value: z.number().min(0, 'مقدار تخفیف نمی‌تواند منفی باشد').default(0),
+  maxDiscount: z.number().min(0).optional().nullable(),
+  minSubtotal: z.number().min(0).optional().nullable(),
+  buyQuantity: z.number().int().min(1).optional().nullable(),
+  getQuantity: z.number().int().min(1).optional().nullable(),
+  productIds: z.array(z.string()).default([]),
+  categoryIds: z.array(z.string()).default([]),
+  productTypes: z.array(z.nativeEnum(ProductType)).default([]),
+  usageLimit: z.number().int().min(1).optional().nullable(),
+  usageLimitPerUser: z.number().int().min(1).optional().nullable(),
+  startsAt: z.coerce.date().optional().nullable(),
+  endsAt: z.coerce.date().optional().nullable(),
+  isActive: z.boolean().default(true)
+});
+
+type CouponInput = Partial<z.infer<typeof couponBaseSchema>>;
+
+// Rules shared by the admin create and update schemas
+function refineCoupon(data: CouponInput, ctx: z.RefinementCtx) {
+  if (data.type === CouponType.PERCENTAGE && data.value !== undefined && data.value > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: 'درصد تخفیف نمی‌تواند بیشتر از ۱۰۰ باشد' });
+  }
+  if (data.type === CouponType.BUY_X_GET_Y && (!data.buyQuantity || !data.getQuantity)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['buyQuantity'], message: 'تعداد خرید و تعداد هدیه الزامی است' });
+  }
+  if (data.startsAt && data.endsAt && data.startsAt >= data.endsAt) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endsAt'], message: 'تاریخ پایان باید بعد از تاریخ شروع باشد' });
+  }
+}
+
+export const couponCreateSchema = couponBaseSchema.superRefine(refineCoupon);
+export const couponUpdateSchema = couponBaseSchema.partial().superRefine(refineCoupon);
+
+/**
+ * Normalizes a coupon code for storage and lookup
+ */
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * A line is eligible when the coupon has no scope at all, or when it matches
+ * any of the scoped products, categories or product types.
+ */
+function isLineEligible(coupon: Coupon, line: DiscountableLine): boolean {
+  const hasScope =
+    coupon.productIds.length > 0 ||
+    coupon.categoryIds.length > 0 ||
+    coupon.productTypes.length > 0;
+
+  if (!hasScope) return true;
+
+  return (
+    coupon.productIds.includes(line.productId) ||
+    coupon.categoryIds.includes(line.categoryId) ||
+    coupon.productTypes.includes(line.productType)
+  );
+}
+
+/**
+ * Splits an amount across weights, rounding to whole Rials.
+ * Rounding drift is put on the heaviest weight so the parts always sum up.
+ */
+function allocate(amount: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (amount <= 0 || totalWeight <= 0) return weights.map(() => 0);
+
+  const parts = weights.map(w => Math.floor((amount * w) / totalWeight));
+  const drift = amount - parts.reduce((sum, p) => sum + p, 0);
+  const heaviest = weights.indexOf(Math.max(...weights));
+  parts[heaviest] += drift;
+  return parts;
+}
+
+/**
+ * Works out the discount a coupon gives a set of lines.
+ * Pure: usage limits are checked separately because they need the database.
+ */
+export function calculateCouponDiscount(
+  coupon: Coupon,
+  lines: DiscountableLine[],
+  shippingCost: number = 0,
+  now: Date = new Date()
+): CouponEvaluation {
+  if (!coupon.isActive) throw new CouponError('COUPON_INACTIVE');
+  if (coupon.startsAt && coupon.startsAt > now) throw new CouponError('COUPON_NOT_STARTED');
+  if (coupon.endsAt && coupon.endsAt < now) throw new CouponError('COUPON_EXPIRED');
+
+  const subtotal = lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+  const minSubtotal = toPriceNumber(coupon.minSubtotal);
+  if (minSubtotal > 0 && subtotal < minSubtotal) {
+    throw new CouponError('COUPON_MIN_SUBTOTAL', { minSubtotal, subtotal });
+  }
+
+  const eligible = lines.map(line => isLineEligible(coupon, line));
+  if (!eligible.some(Boolean)) throw new CouponError('COUPON_NOT_APPLICABLE');
+
+  const lineTotals = lines.map((line, i) => (eligible[i] ? line.unitPrice * line.quantity : 0));
+  const eligibleSubtotal = lineTotals.reduce((sum, total) => sum + total, 0);
+  const value = toPriceNumber(coupon.value);
+
+  let lineDiscounts = lines.map(() => 0);
+  let shippingDiscount = 0;
+
+  switch (coupon.type) {
+    case CouponType.PERCENTAGE: {
+      let amount = Math.round((eligibleSubtotal * Math.min(value, 100)) / 100);
+      const maxDiscount = toPriceNumber(coupon.maxDiscount);
+      if (maxDiscount > 0) amount = Math.min(amount, maxDiscount);
+      lineDiscounts = allocate(amount, lineTotals);
+      break;
+    }
+
+    case CouponType.FIXED_AMOUNT: {
+      lineDiscounts = allocate(Math.round(Math.min(value, eligibleSubtotal)), lineTotals);
+      break;
+    }
+
+    case CouponType.FREE_SHIPPING: {
+      shippingDiscount = shippingCost;
+      break;
+    }
+
+    case CouponType.BUY_X_GET_Y: {
+      const buy = coupon.buyQuantity ?? 0;
+      const get = coupon.getQuantity ?? 0;
+      if (buy < 1 || get < 1) throw new CouponError('COUPON_NOT_APPLICABLE');
+
+      const unitCount = lines.reduce((sum, line, index) => sum + (eligible[index] ? line.quantity : 0), 0);
+      let freeCount = Math.floor(unitCount / (buy + get)) * get;
+      if (freeCount === 0) {
+        throw new CouponError('COUPON_NOT_APPLICABLE', { requiredQuantity: buy + get });
+      }
+
+      // The cheapest units are the free ones, counted per line rather than unit by unit
+      const cheapestFirst = lines
+        .map((line, index) => ({ index, price: line.unitPrice, quantity: line.quantity }))
+        .filter(line => eligible[line.index])
+        .sort((a, b) => a.price - b.price || b.index - a.index);
+
+      const percentOff = value > 0 ? Math.min(value, 100) : 100;
+      for (const line of cheapestFirst) {
+        if (freeCount === 0) break;
+        const free = Math.min(freeCount, line.quantity);
+        lineDiscounts[line.index] += free * Math.round((line.price * percentOff) / 100);
+        freeCount -= free;
+      }
+      break;
+    }
+  }
+
+  const itemsDiscount = lineDiscounts.reduce((sum, d) => sum + d, 0);
+
+  return {
+    couponId: coupon.id,
+    code: coupon.code,
+    type: coupon.type,
+    lineDiscounts,
+    itemsDiscount,
+    shippingDiscount,
+    totalDiscount: itemsDiscount + shippingDiscount,
+    freeShipping: coupon.type === CouponType.FREE_SHIPPING
+  };
+}
+
+/**
+ * Counts redemptions that still count against a coupon's limits
+ */
+export async function countCouponUsage(db: DbClient, couponId: string, userId?: number): Promise<number> {
+  return db.couponRedemption.count({
+    where: {
+      couponId,
+      ...(userId !== undefined && { userId }),
+      order: { status: { notIn: VOID_ORDER_STATUSES } }
+    }
+  });
+}
+
+// Guests (userId null) are only held to the global limit; checkout re-checks per user
+async function assertUsageAvailable(db: DbClient, coupon: Coupon, userId: number | null) {
+  if (coupon.usageLimit !== null) {
+    const used = await countCouponUsage(db, coupon.id);
+    if (used >= coupon.usageLimit) throw new CouponError('COUPON_USAGE_LIMIT');
+  }
+
+  if (coupon.usageLimitPerUser !== null && userId !== null) {
+    const usedByUser = await countCouponUsage(db, coupon.id, userId);
+    if (usedByUser >= coupon.usageLimitPerUser) throw new CouponError('COUPON_USER_LIMIT');
+  }
+}
+
+/**
+ * Looks up a coupon by code and evaluates it for a user's lines.
+ * Used both for cart previews and for real checkouts.
+ */
+export async function evaluateCouponCode(
+  code: string,
+  userId: number | null,
+  lines: DiscountableLine[],
+  shippingCost: number = 0,
+  db: DbClient = prisma
+): Promise<CouponEvaluation> {
+  const coupon = await db.coupon.findUnique({
+    where: { code: normalizeCouponCode(code) }
+  });
+
+  if (!coupon) throw new CouponError('COUPON_NOT_FOUND');
+
+  const evaluation = calculateCouponDiscount(coupon, lines, shippingCost);
+  await assertUsageAvailable(db, coupon, userId);
+
+  return evaluation;
+}
+
+/**
+ * Records a coupon redemption for an order inside the checkout transaction.
+ *
+ * The coupon row is locked first so concurrent checkouts can't both take the
+ * last use; limits are then re-checked under the lock.
+ */
+export async function redeemCoupon(
+  tx: Prisma.TransactionClient,
+  evaluation: CouponEvaluation,
+  userId: number,
+  orderId: string
+) {
+  await tx.$queryRaw`SELECT "id" FROM "Coupon" WHERE "id" = ${evaluation.couponId} FOR UPDATE`;
+
+  const coupon = await tx.coupon.findUnique({ where: { id: evaluation.couponId } });
+  if (!coupon) throw new CouponError('COUPON_NOT_FOUND');
+
+  await assertUsageAvailable(tx, coupon, userId);
+
+  return tx.couponRedemption.create({
+    data: {
+      couponId: coupon.id,
+      userId,
+      orderId,
+      discountAmount: evaluation.totalDiscount
+    }
+  });
+}
@@ -0,0 +1,87 @@
+// Publish/subscribe for live updates. The in-memory bus below only reaches
+// subscribers in the same process; a bus backed by Redis or Postgres
+// LISTEN/NOTIFY can implement the same interface when the app is scaled out.
+
+// Events kept for Last-Event-ID resume
+export const EVENT_BUS_BUFFER_SIZE = Number(process.env.EVENT_BUS_BUFFER_SIZE) || 1000;
+
+export interface BusEvent<T = unknown> {
+  // Increasing within one bus; sent to clients as the SSE event id
+  id: string;
+  topic: string;
+  data: T;
+  createdAt: Date;
+}
+
+export type BusListener = (event: BusEvent) => void;
+
+export interface EventBus {
+  publish<T>(topic: string, data: T): Promise<BusEvent<T>>;
+  // Returns the unsubscribe function
+  subscribe(listener: BusListener): () => void;
+  /**
+   * Events published after `lastEventId`, oldest first. Null when that id
+   * is no longer retained, e.g. it came from before a restart, so the client
+   * has to reload instead of resuming.
+   */
+  replay(lastEventId: string): Promise<BusEvent[] | null>;
+}
+
+/**
+ * An event bus held in memory. Event ids carry the bus's start time so ids
+ * handed out by an earlier process are recognised as unknown.
+ */
+export function createMemoryEventBus(bufferSize: number = EVENT_BUS_BUFFER_SIZE): EventBus {
+  const epoch = Date.now().toString(36);
+  const listeners = new Set<BusListener>();
+  const buffer: BusEvent[] = [];
+  let sequence = 0;
+
+  function parseSequence(id: string): number | null {
+    const [idEpoch, seq] = id.split('-');
+    const parsed = Number(seq);
+    return idEpoch === epoch && Number.isInteger(parsed) ? parsed : null;
+  }
+
+  return {
+    async publish<T>(topic: string, data: T) {
+      const event: BusEvent<T> = { id: `${epoch}-${++sequence}`, topic, data, createdAt: new Date() };
+
+      buffer.push(event);
+      if (buffer.length > bufferSize) buffer.shift();
+
+      for (const listener of listeners) {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error('Event listener failed:', { topic, error });
+        }
+      }
+      return event;
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    async replay(lastEventId) {
+      const last = parseSequence(lastEventId);
+      if (last === null || last > sequence) return null;
+
+      const oldest = buffer.length > 0 ? (parseSequence(buffer[0].id) as number) : sequence + 1;
+      // Events between the last one seen and the oldest retained are lost
+      if (last < oldest - 1) return null;
+
+      return buffer.filter(event => (parseSequence(event.id) as number) > last);
+    }
+  };
+}
+
+// Kept on globalThis so every route bundle, and dev hot reloads, share one bus
+const globalForEventBus = globalThis as unknown as { eventBus?: EventBus };
+
+export const eventBus: EventBus = globalForEventBus.eventBus ?? createMemoryEventBus();
+globalForEventBus.eventBus = eventBus;
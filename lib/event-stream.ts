@@ -0,0 +1,121 @@
+import { BusEvent, EventBus, eventBus } from './event-bus';
+import { RealtimeSubscriber, asRealtimeEvent, isEventFor } from './realtime-events';
+
+// Comment lines sent this often keep proxies from closing an idle stream
+export const SSE_HEARTBEAT_MS = Number(process.env.SSE_HEARTBEAT_MS) || 25_000;
+// How long browsers wait before reconnecting
+const SSE_RETRY_MS = 5_000;
+
+const encoder = new TextEncoder();
+
+function formatEvent(event: BusEvent): string | null {
+  const realtime = asRealtimeEvent(event);
+  if (!realtime) return null;
+  return `id: ${event.id}\nevent: ${realtime.type}\ndata: ${JSON.stringify(realtime.payload)}\n\n`;
+}
+
+/**
+ * Reads the subscriber's watch list from ?ticketId= and ?orderId=, each
+ * repeatable or comma separated
+ */
+export function parseWatchList(request: Request): Pick<RealtimeSubscriber, 'ticketIds' | 'orderIds'> {
+  const { searchParams } = new URL(request.url);
+  const read = (name: string) =>
+    searchParams.getAll(name).flatMap(value => value.split(',')).map(value => value.trim()).filter(Boolean);
+
+  return { ticketIds: read('ticketId'), orderIds: read('orderId') };
+}
+
+/**
+ * Opens a Server-Sent Events stream of the realtime events meant for
+ * `subscriber`.
+ *
+ * A reconnecting client sends Last-Event-ID (or ?lastEventId= where the
+ * client can't set headers) and first receives what it missed. If those
+ * events are gone it gets a `reset` event and should reload its data.
+ */
+export function createEventStreamResponse(
+  request: Request,
+  subscriber: RealtimeSubscriber,
+  bus: EventBus = eventBus
+): Response {
+  const lastEventId = request.headers.get('last-event-id') || new URL(request.url).searchParams.get('lastEventId');
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const send = (event: BusEvent) => {
+        const realtime = asRealtimeEvent(event);
+        if (!realtime || !isEventFor(realtime, subscriber)) return;
+        const chunk = formatEvent(event);
+        if (chunk) write(chunk);
+      };
+
+      // Events published while the backlog is read wait here so none are lost or sent twice
+      let pending: BusEvent[] | null = [];
+      const unsubscribe = bus.subscribe(event => {
+        if (pending) pending.push(event);
+        else send(event);
+      });
+      const heartbeat = setInterval(() => write(': ping\n\n'), SSE_HEARTBEAT_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        request.signal.removeEventListener('abort', cleanup);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      request.signal.addEventListener('abort', cleanup);
+
+      write(`retry: ${SSE_RETRY_MS}\n\n`);
+
+      const sent = new Set<string>();
+      if (lastEventId) {
+        const missed = await bus.replay(lastEventId);
+        if (missed === null) {
+          write('event: reset\ndata: {}\n\n');
+        } else {
+          for (const event of missed) {
+            sent.add(event.id);
+            send(event);
+          }
+        }
+      }
+
+      const queued = pending;
+      pending = null;
+      for (const event of queued) {
+        if (!sent.has(event.id)) send(event);
+      }
+    },
+
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Stops nginx from buffering the stream
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
@@ -0,0 +1,44 @@
+import type { SmsSender } from './sms-sender';
+
+export interface FakeSmsMessage {
+  phoneNumber: string;
+  template: string;
+  tokens: string[];
+  sentAt: Date;
+}
+
+// Kept in memory on purpose: the fake only has to survive one process
+const messages: FakeSmsMessage[] = [];
+
+/**
+ * Records messages instead of sending them, for development and tests.
+ * Numbers starting with the FAKE_SMS_FAIL_PREFIX env value are refused,
+ * so delivery failures can be exercised too.
+ */
+export const fakeSmsSender: SmsSender = {
+  name: 'FAKE',
+
+  async sendTemplate(phoneNumber: string, template: string, tokens: string[]): Promise<boolean> {
+    const failPrefix = process.env.FAKE_SMS_FAIL_PREFIX;
+    if (failPrefix && phoneNumber.startsWith(failPrefix)) {
+      return false;
+    }
+
+    messages.push({ phoneNumber, template, tokens, sentAt: new Date() });
+    return true;
+  }
+};
+
+/**
+ * Messages "sent" so far, oldest first
+ */
+export function getFakeSmsMessages(): readonly FakeSmsMessage[] {
+  return messages;
+}
+
+/**
+ * Forgets every recorded message, so each test starts from a clean slate
+ */
+export function resetFakeSms() {
+  messages.length = 0;
+}
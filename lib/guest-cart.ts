@@ -0,0 +1,256 @@
+import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { getAvailableQuantity } from './stock-utils';
+
+export const GUEST_CART_COOKIE = 'guest_cart';
+export const GUEST_CART_TTL_DAYS = Number(process.env.GUEST_CART_TTL_DAYS) || 30;
+
+function getCookieSecret(): string {
+  const secret = process.env.CART_COOKIE_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('CART_COOKIE_SECRET or JWT_SECRET must be set to sign guest cart cookies');
+  }
+  return secret;
+}
+
+function sign(token: string): string {
+  return crypto.createHmac('sha256', getCookieSecret()).update(token).digest('base64url');
+}
+
+/**
+ * Cookie value is `<token>.<hmac>`, so a visitor can't guess or swap in
+ * someone else's cart id.
+ */
+export function signGuestCartToken(token: string): string {
+  return `${token}.${sign(token)}`;
+}
+
+export function verifyGuestCartCookie(value: string | undefined | null): string | null {
+  if (!value) return null;
+
+  const separator = value.lastIndexOf('.');
+  if (separator <= 0) return null;
+
+  const token = value.slice(0, separator);
+  const expected = Buffer.from(sign(token));
+  const actual = Buffer.from(value.slice(separator + 1));
+
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return token;
+}
+
+export function readGuestCartToken(request: Request): string | null {
+  const cookieHeader = request.headers.get('cookie');
+  if (!cookieHeader) return null;
+
+  const match = cookieHeader
+    .split(';')
+    .map(cookie => cookie.trim())
+    .find(cookie => cookie.startsWith(`${GUEST_CART_COOKIE}=`));
+
+  return match ? verifyGuestCartCookie(decodeURIComponent(match.slice(GUEST_CART_COOKIE.length + 1))) : null;
+}
+
+export function setGuestCartCookie(response: NextResponse, token: string) {
+  response.cookies.set({
+    name: GUEST_CART_COOKIE,
+    value: signGuestCartToken(token),
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: GUEST_CART_TTL_DAYS * 24 * 60 * 60,
+    path: '/',
+  });
+}
+
+export function clearGuestCartCookie(response: NextResponse) {
+  response.cookies.set({
+    name: GUEST_CART_COOKIE,
+    value: '',
+    maxAge: 0,
+    path: '/',
+  });
+}
+
+function getGuestCartExpiry(): Date {
+  return new Date(Date.now() + GUEST_CART_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Who a cart belongs to: a signed-in user or an anonymous visitor's token
+ */
+export type CartOwner = { userId: number } | { guestToken: string };
+
+export function cartOwnerWhere(owner: CartOwner): Prisma.CartWhereUniqueInput {
+  return 'userId' in owner ? { userId: owner.userId } : { guestToken: owner.guestToken };
+}
+
+export function cartOwnerCreate(owner: CartOwner): Prisma.CartUncheckedCreateInput {
+  return 'userId' in owner
+    ? { userId: owner.userId }
+    : { guestToken: owner.guestToken, expiresAt: getGuestCartExpiry() };
+}
+
+/**
+ * The cart a request works on: the signed-in user's, else the guest cart
+ * named by a valid cookie, else none yet.
+ */
+export function getRequestCartOwner(request: Request, userId: number | null): CartOwner | null {
+  if (userId) return { userId };
+  const guestToken = readGuestCartToken(request);
+  return guestToken ? { guestToken } : null;
+}
+
+/**
+ * The visitor's guest cart token, minting a new one when they don't have a
+ * valid cookie yet. `isNew` tells the caller to set the cookie.
+ */
+export function resolveGuestCartToken(request: Request): { token: string; isNew: boolean } {
+  const existing = readGuestCartToken(request);
+  if (existing) return { token: existing, isNew: false };
+  return { token: crypto.randomBytes(24).toString('base64url'), isNew: true };
+}
+
+/**
+ * Pushes a guest cart's expiry forward; called whenever the visitor changes it
+ */
+export async function touchGuestCart(token: string) {
+  await prisma.cart.updateMany({
+    where: { guestToken: token },
+    data: { expiresAt: getGuestCartExpiry() }
+  });
+}
+
+/**
+ * Deletes guest carts nobody has touched within the TTL.
+ * Safe to call opportunistically from request handlers.
+ */
+export async function purgeExpiredGuestCarts(): Promise<number> {
+  const { count } = await prisma.cart.deleteMany({
+    where: { userId: null, expiresAt: { lt: new Date() } }
+  });
+  return count;
+}
+
+export type CartMergeAdjustmentReason = 'UNAVAILABLE' | 'QUANTITY_LIMITED';
+
+export interface CartMergeAdjustment {
+  productId: string;
+  variantId: string | null;
+  requested: number;
+  applied: number;
+  reason: CartMergeAdjustmentReason;
+}
+
+export interface CartMergeResult {
+  merged: number;
+  adjustments: CartMergeAdjustment[];
+}
+
+/**
+ * Moves a guest cart's lines into the user's cart and deletes the guest cart.
+ *
+ * Lines present in both carts add up. Every merged line is then capped at
+ * what is actually in stock, and lines for products or variants that are no
+ * longer sold are dropped; each such change is reported back so the client
+ * can tell the customer.
+ */
+export async function mergeGuestCartIntoUser(guestToken: string, userId: number): Promise<CartMergeResult> {
+  return prisma.$transaction(async (tx) => {
+    const guestCart = await tx.cart.findUnique({
+      where: { guestToken },
+      include: {
+        items: {
+          include: {
+            product: { select: { isActive: true, manageStock: true, totalStock: true } },
+            variant: { select: { isActive: true, stock: true, reservedStock: true } }
+          }
+        }
+      }
+    });
+
+    if (!guestCart || guestCart.items.length === 0) {
+      if (guestCart) await tx.cart.delete({ where: { id: guestCart.id } });
+      return { merged: 0, adjustments: [] };
+    }
+
+    const userCart = await tx.cart.upsert({
+      where: { userId },
+      update: {},
+      create: { userId },
+      include: { items: true }
+    });
+
+    const adjustments: CartMergeAdjustment[] = [];
+    let merged = 0;
+
+    for (const guestItem of guestCart.items) {
+      const existing = userCart.items.find(
+        item => item.productId === guestItem.productId && item.variantId === guestItem.variantId
+      );
+      const requested = (existing?.quantity ?? 0) + guestItem.quantity;
+
+      const available = getAvailableQuantity(guestItem.product, guestItem.variant);
+      const applied = Math.min(requested, available);
+
+      if (applied < requested) {
+        adjustments.push({
+          productId: guestItem.productId,
+          variantId: guestItem.variantId,
+          requested,
+          applied,
+          reason: applied === 0 ? 'UNAVAILABLE' : 'QUANTITY_LIMITED'
+        });
+      }
+
+      if (applied === 0) {
+        // Nothing left to sell: the user's own line goes too rather than pretending it's buyable
+        if (existing) await tx.cartItem.delete({ where: { id: existing.id } });
+        continue;
+      }
+
+      if (existing) {
+        await tx.cartItem.update({
+          where: { id: existing.id },
+          data: { quantity: applied }
+        });
+      } else {
+        await tx.cartItem.create({
+          data: {
+            cartId: userCart.id,
+            productId: guestItem.productId,
+            variantId: guestItem.variantId,
+            quantity: applied,
+            price: guestItem.price
+          }
+        });
+      }
+      merged++;
+    }
+
+    await tx.cart.delete({ where: { id: guestCart.id } });
+
+    return { merged, adjustments };
+  });
+}
+
+/**
+ * Login/signup hook: merges the request's guest cart, if any, into the
+ * user's cart. Never fails the login; on success the caller clears the
+ * guest cookie, otherwise it's kept so the next login can try again.
+ */
+export async function mergeGuestCartOnLogin(request: Request, userId: number): Promise<CartMergeResult | null> {
+  const token = readGuestCartToken(request);
+  if (!token) return null;
+
+  try {
+    return await mergeGuestCartIntoUser(token, userId);
+  } catch (error) {
+    console.error('Error merging guest cart:', { userId, error });
+    return null;
+  }
+}
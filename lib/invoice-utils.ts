@@ -0,0 +1,290 @@
+import { Prisma, ShippingMethod } from '@prisma/client';
+import { toPriceNumber } from './pricing-utils';
+import { ORDER_STATUS_LABELS } from './order-status';
+
+// Everything here renders self-contained HTML: no remote fonts, scripts or
+// images, so documents print the same offline and leak nothing to third parties.
+
+export const printableOrderInclude = {
+  items: {
+    orderBy: { createdAt: 'asc' }
+  },
+  shippingAddress: true,
+  billingAddress: true,
+  user: {
+    select: { id: true, firstName: true, lastName: true, phoneNumber: true, email: true }
+  }
+} satisfies Prisma.OrderInclude;
+
+export type PrintableOrder = Prisma.OrderGetPayload<{ include: typeof printableOrderInclude }>;
+
+const SHIPPING_METHOD_LABELS: Record<ShippingMethod, string> = {
+  STANDARD: 'پست عادی',
+  EXPRESS: 'پست پیشتاز',
+  NEXT_DAY: 'تحویل روز بعد',
+  PICKUP: 'تحویل حضوری',
+  IMMIDIATE: 'پیک فوری',
+  FREE: 'ارسال رایگان'
+};
+
+function getStoreInfo() {
+  return {
+    name: process.env.STORE_NAME || 'کاویان',
+    address: process.env.STORE_ADDRESS || '',
+    phone: process.env.STORE_PHONE || '',
+    // Iranian invoices carry the seller's economic code and national ID
+    economicCode: process.env.STORE_ECONOMIC_CODE || '',
+    nationalId: process.env.STORE_NATIONAL_ID || ''
+  };
+}
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Solar Hijri date in Persian digits, e.g. ۲۷ مهر ۱۴۰۵
+ */
+export function formatJalaliDate(date: Date | null | undefined, withTime = false): string {
+  if (!date) return '-';
+  return new Intl.DateTimeFormat('fa-IR-u-ca-persian', {
+    dateStyle: 'long',
+    ...(withTime && { timeStyle: 'short' }),
+    timeZone: 'Asia/Tehran'
+  }).format(date);
+}
+
+export function formatRials(value: Prisma.Decimal | number | null | undefined): string {
+  return `${Math.round(toPriceNumber(value)).toLocaleString('fa-IR')} ریال`;
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString('fa-IR');
+}
+
+function renderAddress(address: PrintableOrder['shippingAddress']): string {
+  if (!address) return '<p>-</p>';
+
+  const lines = [
+    `${address.firstName} ${address.lastName}`,
+    address.company,
+    [address.state, address.city].filter(Boolean).join('، '),
+    [address.addressLine1, address.addressLine2].filter(Boolean).join('، '),
+    `کد پستی: ${address.postalCode}`,
+    address.phoneNumber && `تلفن: ${address.phoneNumber}`
+  ].filter(Boolean);
+
+  return lines.map(line => `<p>${escapeHtml(line)}</p>`).join('');
+}
+
+const BASE_STYLES = `
+  @page { size: A4; margin: 12mm; }
+  * { box-sizing: border-box; }
+  body { font-family: Vazirmatn, Vazir, Tahoma, 'Segoe UI', sans-serif; font-size: 12px; color: #111; margin: 0; direction: rtl; }
+  .document { padding: 8mm 0; }
+  .document + .document { page-break-before: always; break-before: page; }
+  header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #111; padding-bottom: 8px; margin-bottom: 12px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  h2 { font-size: 13px; margin: 0 0 6px; }
+  p { margin: 2px 0; }
+  .meta p { text-align: left; }
+  .parties { display: flex; gap: 16px; margin-bottom: 12px; }
+  .parties section { flex: 1; border: 1px solid #999; padding: 8px; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 12px; }
+  th, td { border: 1px solid #999; padding: 4px 6px; text-align: right; }
+  th { background: #eee; }
+  td.num { text-align: left; white-space: nowrap; }
+  .ltr { direction: ltr; unicode-bidi: embed; }
+  .totals { width: 45%; margin-right: auto; }
+  .totals td:first-child { font-weight: bold; }
+  .grand td { font-size: 14px; font-weight: bold; background: #f5f5f5; }
+  .check { width: 28px; }
+  footer { margin-top: 16px; font-size: 11px; color: #555; }
+  @media print { .no-print { display: none; } }
+`;
+
+function wrapDocument(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="fa" dir="rtl">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${BASE_STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+function renderInvoiceBody(order: PrintableOrder): string {
+  const store = getStoreInfo();
+  const customer = order.user;
+
+  const rows = order.items.map((item, index) => {
+    const gross = toPriceNumber(item.price) * item.quantity;
+    return `<tr>
+      <td>${formatNumber(index + 1)}</td>
+      <td>${escapeHtml(item.productName)}${item.variantName ? ` - ${escapeHtml(item.variantName)}` : ''}</td>
+      <td class="ltr">${escapeHtml(item.sku)}</td>
+      <td class="ltr">${escapeHtml(item.barcode || '-')}</td>
+      <td class="num">${formatNumber(item.quantity)}</td>
+      <td class="num">${formatRials(item.price)}</td>
+      <td class="num">${formatRials(gross)}</td>
+      <td class="num">${formatRials(item.discountAmount)}</td>
+      <td class="num">${formatNumber(toPriceNumber(item.taxRate))}٪</td>
+      <td class="num">${formatRials(item.taxAmount)}</td>
+      <td class="num">${formatRials(item.total)}</td>
+    </tr>`;
+  }).join('');
+
+  return `<div class="document">
+  <header>
+    <div>
+      <h1>صورتحساب فروش کالا</h1>
+      <p>${escapeHtml(store.name)}</p>
+      ${store.economicCode ? `<p>کد اقتصادی: <span class="ltr">${escapeHtml(store.economicCode)}</span></p>` : ''}
+      ${store.nationalId ? `<p>شناسه ملی: <span class="ltr">${escapeHtml(store.nationalId)}</span></p>` : ''}
+      ${store.address ? `<p>${escapeHtml(store.address)}</p>` : ''}
+      ${store.phone ? `<p>تلفن: <span class="ltr">${escapeHtml(store.phone)}</span></p>` : ''}
+    </div>
+    <div class="meta">
+      <p>شماره سفارش: <strong class="ltr">${escapeHtml(order.orderNumber)}</strong></p>
+      <p>تاریخ سفارش: ${formatJalaliDate(order.createdAt)}</p>
+      <p>تاریخ پرداخت: ${formatJalaliDate(order.paidAt)}</p>
+      <p>وضعیت: ${escapeHtml(ORDER_STATUS_LABELS[order.status])}</p>
+      ${order.paymentId ? `<p>کد پیگیری پرداخت: <span class="ltr">${escapeHtml(order.paymentId)}</span></p>` : ''}
+    </div>
+  </header>
+
+  <div class="parties">
+    <section>
+      <h2>خریدار</h2>
+      <p>${escapeHtml(`${customer.firstName ?? ''} ${customer.lastName ?? ''}`.trim() || '-')}</p>
+      <p>تلفن: <span class="ltr">${escapeHtml(customer.phoneNumber)}</span></p>
+      ${customer.email ? `<p>${escapeHtml(customer.email)}</p>` : ''}
+    </section>
+    <section>
+      <h2>آدرس ارسال</h2>
+      ${renderAddress(order.shippingAddress)}
+    </section>
+  </div>
+
+  <table>
+    <thead>
+      <tr>
+        <th>ردیف</th>
+        <th>شرح کالا</th>
+        <th>کد کالا</th>
+        <th>بارکد</th>
+        <th>تعداد</th>
+        <th>مبلغ واحد</th>
+        <th>مبلغ کل</th>
+        <th>تخفیف</th>
+        <th>نرخ مالیات</th>
+        <th>مالیات و عوارض</th>
+        <th>مبلغ نهایی</th>
+      </tr>
+    </thead>
+    <tbody>${rows}</tbody>
+  </table>
+
+  <table class="totals">
+    <tr><td>جمع کالاها</td><td class="num">${formatRials(order.subtotal)}</td></tr>
+    <tr><td>تخفیف${order.couponCode ? ` (<span class="ltr">${escapeHtml(order.couponCode)}</span>)` : ''}</td><td class="num">${formatRials(order.discountAmount)}</td></tr>
+    <tr><td>هزینه ارسال${order.shippingMethod ? ` (${SHIPPING_METHOD_LABELS[order.shippingMethod]})` : ''}</td><td class="num">${formatRials(order.shippingCost)}</td></tr>
+    <tr><td>مالیات بر ارزش افزوده</td><td class="num">${formatRials(order.taxAmount)}</td></tr>
+    <tr class="grand"><td>مبلغ قابل پرداخت</td><td class="num">${formatRials(order.total)}</td></tr>
+  </table>
+
+  <footer>
+    <p>مالیات بر ارزش افزوده طبق قوانین جاری محاسبه شده است.</p>
+    <p>تاریخ صدور: ${formatJalaliDate(new Date(), true)}</p>
+  </footer>
+</div>`;
+}
+
+function renderPackingSlipBody(order: PrintableOrder): string {
+  const store = getStoreInfo();
+  const totalUnits = order.items.reduce((sum, item) => sum + item.quantity, 0);
+
+  const rows = order.items.map((item, index) => `<tr>
+      <td>${formatNumber(index + 1)}</td>
+      <td>${escapeHtml(item.productName)}</td>
+      <td>${escapeHtml(item.variantName || '-')}</td>
+      <td class="ltr">${escapeHtml(item.sku)}</td>
+      <td class="ltr">${escapeHtml(item.barcode || '-')}</td>
+      <td class="num">${formatNumber(item.quantity)}</td>
+      <td class="check"></td>
+    </tr>`).join('');
+
+  return `<div class="document">
+  <header>
+    <div>
+      <h1>برگه بسته‌بندی</h1>
+      <p>${escapeHtml(store.name)}</p>
+    </div>
+    <div class="meta">
+      <p>شماره سفارش: <strong class="ltr">${escapeHtml(order.orderNumber)}</strong></p>
+      <p>تاریخ سفارش: ${formatJalaliDate(order.createdAt)}</p>
+      <p>روش ارسال: ${order.shippingMethod ? SHIPPING_METHOD_LABELS[order.shippingMethod] : '-'}</p>
+    </div>
+  </header>
+
+  <div class="parties">
+    <section>
+      <h2>گیرنده</h2>
+      ${renderAddress(order.shippingAddress)}
+    </section>
+  </div>
+
+  <table>
+    <thead>
+      <tr>
+        <th>ردیف</th>
+        <th>کالا</th>
+        <th>مشخصات</th>
+        <th>کد کالا</th>
+        <th>بارکد</th>
+        <th>تعداد</th>
+        <th class="check">✓</th>
+      </tr>
+    </thead>
+    <tbody>${rows}</tbody>
+  </table>
+
+  <p>تعداد کل اقلام: ${formatNumber(totalUnits)}</p>
+
+  <footer>
+    <p>تاریخ چاپ: ${formatJalaliDate(new Date(), true)}</p>
+  </footer>
+</div>`;
+}
+
+export function renderInvoiceHtml(order: PrintableOrder): string {
+  return wrapDocument(`صورتحساب ${order.orderNumber}`, renderInvoiceBody(order));
+}
+
+/**
+ * One slip per order, each starting on a new page when printed
+ */
+export function renderPackingSlipsHtml(orders: PrintableOrder[]): string {
+  const title = orders.length === 1 ? `برگه بسته‌بندی ${orders[0].orderNumber}` : 'برگه‌های بسته‌بندی';
+  return wrapDocument(title, orders.map(renderPackingSlipBody).join('\n'));
+}
+
+/**
+ * Response headers for a rendered document; `download` forces a save dialog
+ */
+export function documentHeaders(filename: string, download: boolean): HeadersInit {
+  return {
+    'Content-Type': 'text/html; charset=utf-8',
+    'Content-Disposition': `${download ? 'attachment' : 'inline'}; filename="${filename}.html"`,
+    'Cache-Control': 'private, no-store'
+  };
+}
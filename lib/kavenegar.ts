@@ -1,29 +1,59 @@
 // lib/kavenegar.ts
 import axios from 'axios';
 
-export async function sendOTP(phoneNumber: string, otp: string): Promise<boolean> {
-  const apiKey = process.env.KAVENEGAR_API_KEY as string;
-  const template = process.env.KAVENEGAR_TEMPLATE as string;
+// A send that hasn't answered by then is given up on and may be retried
+const REQUEST_TIMEOUT_MS = 10_000;
 
-  // Normalize phone number to Kavenegar's expected format
-  let normalizedPhone = phoneNumber;
-  
+/**
+ * Normalizes an Iranian mobile number to Kavenegar's 989XXXXXXXXX format
+ * @returns The normalized number, or null if it isn't a valid mobile number
+ */
+function normalizePhoneNumber(phoneNumber: string): string | null {
   // Remove any non-digit characters
-  normalizedPhone = normalizedPhone.replace(/\D/g, '');
-  
+  let normalizedPhone = phoneNumber.replace(/\D/g, '');
+
   // Convert to Kavenegar format (989...)
-  if (normalizedPhone.startsWith('0')) {
-    normalizedPhone = '98' + normalizedPhone.substring(1);
-  } else if (normalizedPhone.startsWith('+98')) {
-    normalizedPhone = normalizedPhone.substring(1);
-  } else if (normalizedPhone.startsWith('0098')) {
+  if (normalizedPhone.startsWith('0098')) {
     normalizedPhone = normalizedPhone.substring(2);
+  } else if (normalizedPhone.startsWith('0')) {
+    normalizedPhone = '98' + normalizedPhone.substring(1);
   }
 
   // Ensure the number starts with 98 and has the correct length
   if (!normalizedPhone.startsWith('98') || normalizedPhone.length !== 12) {
+    return null;
+  }
+
+  return normalizedPhone;
+}
+
+/**
+ * A message Kavenegar didn't accept. `retryable` is set for network errors,
+ * throttling and server-side failures; anything else will fail again as is.
+ */
+export class KavenegarError extends Error {
+  constructor(message: string, public status?: number, public retryable = false) {
+    super(message);
+    this.name = 'KavenegarError';
+  }
+}
+
+/**
+ * Sends a message through one of the verify/lookup templates defined in the
+ * Kavenegar panel. `tokens` fill the template's %token, %token2 and %token3.
+ * Throws a KavenegarError when the message isn't accepted.
+ */
+export async function requestTemplateSMS(
+  phoneNumber: string,
+  template: string,
+  tokens: string[]
+): Promise<void> {
+  const apiKey = process.env.KAVENEGAR_API_KEY as string;
+
+  const normalizedPhone = normalizePhoneNumber(phoneNumber);
+  if (!normalizedPhone) {
     console.error('Invalid phone number format:', phoneNumber);
-    return false;
+    throw new KavenegarError(`Invalid phone number format: ${phoneNumber}`);
   }
 
   try {
@@ -33,29 +63,70 @@ export async function sendOTP(phoneNumber: string, otp: string): Promise<boolean
       {
         params: {
           receptor: normalizedPhone,
-          token: otp,
           template: template,
+          // Lookup tokens can't contain spaces
+          ...Object.fromEntries(tokens.slice(0, 3).map((token, index) => [
+            index === 0 ? 'token' : `token${index + 1}`,
+            token.replace(/\s+/g, '_')
+          ]))
         },
+        timeout: REQUEST_TIMEOUT_MS
       }
     );
 
-    return response.data.return?.status === 200;
+    const status = response.data.return?.status;
+    if (status !== 200) {
+      throw new KavenegarError(response.data.return?.message || 'Kavenegar rejected the message', status, !status || status >= 500);
+    }
   } catch (error: unknown) {
+    if (error instanceof KavenegarError) throw error;
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    const errorResponse = error && 
-      typeof error === 'object' && 
-      'response' in error && 
-      error.response && 
-      typeof error.response === 'object' && 
-      'data' in error.response 
-        ? error.response.data 
+    const errorResponse = error &&
+      typeof error === 'object' &&
+      'response' in error &&
+      error.response &&
+      typeof error.response === 'object' &&
+      'data' in error.response
+        ? error.response.data
         : undefined;
-      
+
+    const status = error && typeof error === 'object' && 'response' in error
+      ? (error.response as { status?: number } | undefined)?.status
+      : undefined;
+
+    // Axios reports an exceeded timeout as ECONNABORTED, or ETIMEDOUT when
+    // timeout errors are clarified
+    const timedOut = axios.isAxiosError(error) && (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT');
+
     console.error('Kavenegar API error:', {
       message: errorMessage,
+      timedOut,
       response: errorResponse,
-      phoneNumber: normalizedPhone
+      phoneNumber: normalizedPhone,
+      template
     });
-    return false;
+    throw new KavenegarError(errorMessage, status, timedOut || status === undefined || status === 429 || status >= 500);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Same as requestTemplateSMS, but reports failure as `false` instead of throwing
+ */
+export async function sendTemplateSMS(
+  phoneNumber: string,
+  template: string,
+  tokens: string[]
+): Promise<boolean> {
+  try {
+    await requestTemplateSMS(phoneNumber, template, tokens);
+    return true;
+  } catch (error) {
+    if (error instanceof KavenegarError) return false;
+    throw error;
+  }
+}
+
+export async function sendOTP(phoneNumber: string, otp: string): Promise<boolean> {
+  return sendTemplateSMS(phoneNumber, process.env.KAVENEGAR_TEMPLATE as string, [otp]);
+}
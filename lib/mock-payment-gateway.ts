@@ -0,0 +1,127 @@
+import { createHash } from 'crypto';
+import type {
+  PaymentGateway,
+  PaymentInquiryResult,
+  PaymentRefundInput,
+  PaymentRefundResult,
+  PaymentRequestInput,
+  PaymentRequestResult,
+  PaymentVerifyInput,
+  PaymentVerifyResult
+} from './payment-gateway';
+
+interface MockPayment {
+  orderId: string;
+  amount: number;
+  status: 'PENDING' | 'VERIFIED' | 'REVERSED';
+  refunded: number;
+}
+
+// Kept in memory on purpose: the mock only has to survive one process
+const payments = new Map<string, MockPayment>();
+
+function digest(value: string) {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// Same order and amount always produce the same authority and reference id
+function mockAuthority(orderId: string, amount: number) {
+  return `MOCK${digest(`${orderId}:${amount}`).slice(0, 32).toUpperCase()}`;
+}
+
+function mockRefId(authority: string) {
+  return (BigInt(`0x${digest(authority).slice(0, 12)}`) % BigInt(10 ** 10)).toString().padStart(10, '0');
+}
+
+/**
+ * In-process stand-in for a real gateway, used in development and tests.
+ *
+ * The payment URL points straight back at the callback with `Status=OK`,
+ * so following it completes the flow without any network access. Hitting the
+ * callback with `Status=NOK` instead simulates a customer cancelling.
+ * Response codes mirror Zarinpal: 100 success, 101 already verified,
+ * -50 amount mismatch, -54 unknown authority.
+ */
+export const mockPaymentGateway: PaymentGateway = {
+  name: 'MOCK',
+
+  async request(input: PaymentRequestInput): Promise<PaymentRequestResult> {
+    const amount = Math.round(input.amount);
+    if (amount <= 0) {
+      return { success: false, code: -9, message: 'Invalid amount' };
+    }
+
+    const authority = mockAuthority(input.orderId, amount);
+    if (!payments.has(authority)) {
+      payments.set(authority, { orderId: input.orderId, amount, status: 'PENDING', refunded: 0 });
+    }
+
+    const paymentUrl = new URL(input.callbackUrl);
+    paymentUrl.searchParams.set('Authority', authority);
+    paymentUrl.searchParams.set('Status', 'OK');
+
+    return { success: true, code: 100, authority, paymentUrl: paymentUrl.toString() };
+  },
+
+  async verify(input: PaymentVerifyInput): Promise<PaymentVerifyResult> {
+    const payment = payments.get(input.authority);
+    if (!payment) {
+      return { success: false, alreadyVerified: false, code: -54, message: 'Invalid authority' };
+    }
+    if (payment.amount !== Math.round(input.amount)) {
+      return { success: false, alreadyVerified: false, code: -50, message: 'Session is not valid, amounts values is not the same' };
+    }
+
+    const code = payment.status === 'PENDING' ? 100 : 101;
+    payment.status = 'VERIFIED';
+
+    return {
+      success: true,
+      alreadyVerified: code === 101,
+      code,
+      refId: mockRefId(input.authority),
+      cardPan: '603799******0000',
+      cardHash: digest(`card:${payment.orderId}`).toUpperCase(),
+      fee: 0
+    };
+  },
+
+  async refund(input: PaymentRefundInput): Promise<PaymentRefundResult> {
+    const payment = payments.get(input.authority);
+    if (!payment || payment.status !== 'VERIFIED') {
+      return { success: false, code: -54, message: 'Payment is not refundable' };
+    }
+
+    const amount = Math.round(input.amount);
+    if (amount <= 0 || payment.refunded + amount > payment.amount) {
+      return { success: false, code: -9, message: 'Refund amount exceeds the paid amount' };
+    }
+
+    payment.refunded += amount;
+
+    return {
+      success: true,
+      code: 100,
+      refundId: `MOCKREF-${mockRefId(`${input.authority}:${payment.refunded}`)}`
+    };
+  },
+
+  async inquiry(authority: string): Promise<PaymentInquiryResult> {
+    const payment = payments.get(authority);
+    if (!payment) {
+      return { status: 'UNKNOWN', code: -54, message: 'Invalid authority' };
+    }
+
+    return {
+      status: payment.refunded >= payment.amount ? 'REVERSED' : payment.status,
+      code: 100
+    };
+  }
+};
+
+/**
+ * Forgets every mock payment, so each test starts from a clean slate
+ */
+export function resetMockPayments() {
+  payments.clear();
+}
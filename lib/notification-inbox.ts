@@ -0,0 +1,120 @@
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+
+// Whose inbox: a customer's or an admin's
+export type InboxOwner = { userId: number } | { adminId: number };
+
+export interface InboxListOptions {
+  page?: number;
+  limit?: number;
+  unreadOnly?: boolean;
+}
+
+export interface NewInboxNotification {
+  type: string;
+  title: string;
+  body: string;
+  link?: string | null;
+  data?: Prisma.InputJsonValue;
+}
+
+const inboxSelect = {
+  id: true,
+  type: true,
+  title: true,
+  body: true,
+  link: true,
+  data: true,
+  readAt: true,
+  createdAt: true
+} satisfies Prisma.NotificationSelect;
+
+function ownerWhere(owner: InboxOwner): Prisma.NotificationWhereInput {
+  return 'userId' in owner ? { userId: owner.userId } : { adminId: owner.adminId };
+}
+
+export async function createInboxNotification(owner: InboxOwner, notification: NewInboxNotification) {
+  return prisma.notification.create({
+    data: {
+      ...owner,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body,
+      link: notification.link ?? null,
+      ...(notification.data !== undefined && { data: notification.data })
+    },
+    select: inboxSelect
+  });
+}
+
+/**
+ * Newest first, with the unread count so a badge needs no second request
+ */
+export async function listInboxNotifications(owner: InboxOwner, options: InboxListOptions = {}) {
+  const page = options.page ?? 1;
+  const limit = options.limit ?? 20;
+  const where: Prisma.NotificationWhereInput = {
+    ...ownerWhere(owner),
+    ...(options.unreadOnly && { readAt: null })
+  };
+
+  const [notifications, total, unreadCount] = await Promise.all([
+    prisma.notification.findMany({
+      where,
+      select: inboxSelect,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit
+    }),
+    prisma.notification.count({ where }),
+    countUnreadNotifications(owner)
+  ]);
+
+  return {
+    notifications,
+    unreadCount,
+    pagination: {
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+      limit
+    }
+  };
+}
+
+export async function countUnreadNotifications(owner: InboxOwner): Promise<number> {
+  return prisma.notification.count({ where: { ...ownerWhere(owner), readAt: null } });
+}
+
+/**
+ * Marks one notification read. Returns null when it isn't in the owner's
+ * inbox; reading it again keeps the first read time.
+ */
+export async function markNotificationRead(owner: InboxOwner, id: string) {
+  const notification = await prisma.notification.findFirst({
+    where: { id, ...ownerWhere(owner) },
+    select: { id: true, readAt: true }
+  });
+  if (!notification) return null;
+
+  if (notification.readAt) {
+    return prisma.notification.findUnique({ where: { id }, select: inboxSelect });
+  }
+
+  return prisma.notification.update({
+    where: { id },
+    data: { readAt: new Date() },
+    select: inboxSelect
+  });
+}
+
+/**
+ * @returns How many notifications were unread
+ */
+export async function markAllNotificationsRead(owner: InboxOwner): Promise<number> {
+  const { count } = await prisma.notification.updateMany({
+    where: { ...ownerWhere(owner), readAt: null },
+    data: { readAt: new Date() }
+  });
+  return count;
+}
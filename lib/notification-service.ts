@@ -0,0 +1,241 @@
+import { AdminRole, NotificationChannel, NotificationStatus, Prisma } from '@prisma/client';
+import prisma from './prisma';
+import {
+  NOTIFICATION_TEMPLATES,
+  NotificationTemplateData,
+  NotificationTemplateName,
+  renderNotification
+} from './notification-templates';
+import {
+  NotificationDeliveryError,
+  NotificationMessage,
+  NotificationTransport,
+  getNotificationTransports
+} from './notification-transports';
+
+export const NOTIFICATION_MAX_ATTEMPTS = Number(process.env.NOTIFICATION_MAX_ATTEMPTS) || 3;
+// First retry waits this long; each later one waits twice as long as the last
+export const NOTIFICATION_RETRY_BASE_MS = Number(process.env.NOTIFICATION_RETRY_BASE_MS) || 500;
+
+/**
+ * Who to notify. Missing phone numbers and emails are looked up from the
+ * user or admin; a channel without an address is skipped.
+ */
+export interface NotificationRecipient {
+  userId?: number;
+  adminId?: number;
+  phoneNumber?: string | null;
+  email?: string | null;
+}
+
+export interface NotifyOptions {
+  // Defaults to the template's own channels
+  channels?: NotificationChannel[];
+}
+
+export interface NotificationResult {
+  channel: NotificationChannel;
+  status: NotificationStatus;
+  logId?: string;
+  error?: string;
+}
+
+export interface NotificationServiceOptions {
+  db?: typeof prisma;
+  transports?: Record<NotificationChannel, NotificationTransport>;
+  maxAttempts?: number;
+  retryBaseMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Builds a notification service. Tests can pass their own transports,
+ * database client and sleep; routes use the default `notificationService`.
+ */
+export function createNotificationService(options: NotificationServiceOptions = {}) {
+  const db = options.db ?? prisma;
+  const maxAttempts = options.maxAttempts ?? NOTIFICATION_MAX_ATTEMPTS;
+  const retryBaseMs = options.retryBaseMs ?? NOTIFICATION_RETRY_BASE_MS;
+  const sleep = options.sleep ?? defaultSleep;
+
+  async function resolveRecipient(recipient: NotificationRecipient): Promise<NotificationRecipient> {
+    if (recipient.phoneNumber !== undefined && recipient.email !== undefined) return recipient;
+
+    const contact = recipient.userId
+      ? await db.user.findUnique({ where: { id: recipient.userId }, select: { phoneNumber: true, email: true } })
+      : recipient.adminId
+        ? await db.admin.findUnique({ where: { id: recipient.adminId }, select: { phoneNumber: true, email: true } })
+        : null;
+
+    return {
+      ...recipient,
+      phoneNumber: recipient.phoneNumber !== undefined ? recipient.phoneNumber : contact?.phoneNumber ?? null,
+      email: recipient.email !== undefined ? recipient.email : contact?.email ?? null
+    };
+  }
+
+  function addressFor(channel: NotificationChannel, recipient: NotificationRecipient): string | null | undefined {
+    if (channel === 'SMS') return recipient.phoneNumber;
+    if (channel === 'EMAIL') return recipient.email;
+    // In-app messages go to an account rather than an address
+    return recipient.userId || recipient.adminId ? null : undefined;
+  }
+
+  /**
+   * Tries a transport up to `maxAttempts` times with exponential backoff,
+   * stopping early on failures that retrying can't fix
+   */
+  async function deliverWithRetry(transport: NotificationTransport, message: NotificationMessage) {
+    let attempts = 0;
+    let lastError: string | undefined;
+
+    while (attempts < maxAttempts) {
+      attempts++;
+      try {
+        await transport.deliver(message);
+        return { delivered: true, attempts };
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+        const retryable = !(error instanceof NotificationDeliveryError) || error.retryable;
+        if (!retryable || attempts >= maxAttempts) break;
+        await sleep(retryBaseMs * 2 ** (attempts - 1));
+      }
+    }
+
+    return { delivered: false, attempts, error: lastError };
+  }
+
+  async function sendOnChannel<T extends NotificationTemplateName>(
+    template: T,
+    channel: NotificationChannel,
+    recipient: NotificationRecipient,
+    data: NotificationTemplateData[T],
+    transport: NotificationTransport
+  ): Promise<NotificationResult> {
+    const address = addressFor(channel, recipient);
+    const content = renderNotification(template, channel, data);
+    if (address === undefined || (address === null && channel !== 'IN_APP') || !content) {
+      return { channel, status: NotificationStatus.SKIPPED };
+    }
+
+    const sensitive = NOTIFICATION_TEMPLATES[template].sensitive;
+    const log = await db.notificationLog.create({
+      data: {
+        channel,
+        template,
+        transport: transport.name,
+        recipient: address,
+        userId: recipient.userId,
+        adminId: recipient.adminId,
+        payload: sensitive ? Prisma.JsonNull : (content as unknown as Prisma.InputJsonValue)
+      },
+      select: { id: true }
+    });
+
+    if (transport.isConfigured && !transport.isConfigured()) {
+      await db.notificationLog.update({
+        where: { id: log.id },
+        data: { status: NotificationStatus.SKIPPED, lastError: `${transport.name} is not configured` }
+      });
+      return { channel, status: NotificationStatus.SKIPPED, logId: log.id };
+    }
+
+    const outcome = await deliverWithRetry(transport, {
+      channel,
+      template,
+      recipient: address,
+      userId: recipient.userId,
+      adminId: recipient.adminId,
+      content,
+      ...(!sensitive && { data })
+    });
+
+    const status = outcome.delivered ? NotificationStatus.SENT : NotificationStatus.FAILED;
+    await db.notificationLog.update({
+      where: { id: log.id },
+      data: {
+        status,
+        attempts: outcome.attempts,
+        lastError: outcome.error ?? null,
+        sentAt: outcome.delivered ? new Date() : null
+      }
+    });
+
+    if (!outcome.delivered) {
+      console.error('Notification delivery failed:', { logId: log.id, template, channel, error: outcome.error });
+    }
+
+    return { channel, status, logId: log.id, ...(outcome.error && { error: outcome.error }) };
+  }
+
+  /**
+   * Sends a template on each of its channels and logs every attempt.
+   * Never throws: a failed notification must not fail the action behind it,
+   * so callers that care inspect the returned results.
+   */
+  async function notify<T extends NotificationTemplateName>(
+    template: T,
+    recipient: NotificationRecipient,
+    data: NotificationTemplateData[T],
+    notifyOptions: NotifyOptions = {}
+  ): Promise<NotificationResult[]> {
+    const channels = notifyOptions.channels ?? NOTIFICATION_TEMPLATES[template].defaultChannels;
+    const transports = options.transports ?? getNotificationTransports();
+
+    try {
+      const resolved = await resolveRecipient(recipient);
+      const results: NotificationResult[] = [];
+      for (const channel of channels) {
+        results.push(await sendOnChannel(template, channel, resolved, data, transports[channel]));
+      }
+      return results;
+    } catch (error) {
+      console.error('Error sending notification:', { template, recipient, error });
+      return channels.map(channel => ({
+        channel,
+        status: NotificationStatus.FAILED,
+        error: error instanceof Error ? error.message : String(error)
+      }));
+    }
+  }
+
+  /**
+   * Sends a template to every active admin holding one of `roles`
+   */
+  async function notifyAdmins<T extends NotificationTemplateName>(
+    template: T,
+    roles: AdminRole[],
+    data: NotificationTemplateData[T],
+    notifyOptions: NotifyOptions = {}
+  ): Promise<NotificationResult[]> {
+    try {
+      const admins = await db.admin.findMany({
+        where: { role: { in: roles }, isActive: true, deletedAt: null },
+        select: { id: true }
+      });
+      const results: NotificationResult[] = [];
+      for (const admin of admins) {
+        results.push(...await notify(template, { adminId: admin.id }, data, notifyOptions));
+      }
+      return results;
+    } catch (error) {
+      console.error('Error notifying admins:', { template, roles, error });
+      return [];
+    }
+  }
+
+  return { notify, notifyAdmins };
+}
+
+export type NotificationService = ReturnType<typeof createNotificationService>;
+
+export const notificationService = createNotificationService();
+
+/**
+ * Whether at least one channel got the message out
+ */
+export function wasDelivered(results: NotificationResult[]): boolean {
+  return results.some(result => result.status === NotificationStatus.SENT);
+}
@@ -0,0 +1,204 @@
+import { NotificationChannel } from '@prisma/client';
+import { formatRials } from './invoice-utils';
+
+// Each template renders per channel. A channel a template doesn't render
+// (or whose Kavenegar template isn't configured) is skipped for it.
+
+export interface NotificationTemplateData {
+  ORDER_PLACED: { orderId: string; orderNumber: string; total: number };
+  ORDER_PAID: { orderId: string; orderNumber: string; total: number };
+  ORDER_SHIPPED: { orderId: string; orderNumber: string; trackingCode?: string | null };
+  ORDER_STATUS_CHANGED: { orderId: string; orderNumber: string; statusLabel: string };
+  PAYMENT_FAILED: { orderId: string; orderNumber: string };
+  TICKET_REPLY: { ticketId: string; subject: string };
+  // For admins: a customer wrote on a ticket
+  TICKET_MESSAGE: { ticketId: string; subject: string; customerName: string };
+  // For admins: a variant is running out
+  LOW_STOCK: { productId: string; variantId: string; productName: string; variantName?: string; available: number };
+  PASSWORD_RESET: { code: string; expiresInMinutes: number };
+}
+
+export type NotificationTemplateName = keyof NotificationTemplateData;
+
+export interface SmsContent {
+  // Kavenegar verify/lookup template
+  template: string;
+  tokens: string[];
+}
+
+export interface EmailContent {
+  subject: string;
+  text: string;
+}
+
+export interface InAppContent {
+  title: string;
+  body: string;
+  // Storefront path the notification opens
+  link?: string;
+}
+
+export interface NotificationContent {
+  SMS: SmsContent;
+  EMAIL: EmailContent;
+  IN_APP: InAppContent;
+}
+
+export interface NotificationTemplate<T> {
+  // Channels used when the caller doesn't pick
+  defaultChannels: NotificationChannel[];
+  // Messages carrying secrets, e.g. codes, are not stored in the log
+  sensitive?: boolean;
+  sms?: (data: T) => SmsContent | null;
+  email?: (data: T) => EmailContent;
+  inApp?: (data: T) => InAppContent;
+}
+
+type NotificationTemplates = {
+  [K in NotificationTemplateName]: NotificationTemplate<NotificationTemplateData[K]>;
+};
+
+/**
+ * The SMS content for the first Kavenegar template configured among
+ * `envNames`, or null when none is
+ */
+function smsFromEnv(envNames: string[], tokens: string[]): SmsContent | null {
+  const template = envNames.map(name => process.env[name]).find(Boolean);
+  return template ? { template, tokens } : null;
+}
+
+export const NOTIFICATION_TEMPLATES: NotificationTemplates = {
+  ORDER_PLACED: {
+    defaultChannels: ['SMS', 'EMAIL', 'IN_APP'],
+    sms: data => smsFromEnv(['KAVENEGAR_ORDER_PLACED_TEMPLATE'], [data.orderNumber]),
+    email: data => ({
+      subject: `ثبت سفارش ${data.orderNumber}`,
+      text: `سفارش شما با شماره ${data.orderNumber} و مبلغ ${formatRials(data.total)} ثبت شد و در انتظار پرداخت است.`
+    }),
+    inApp: data => ({
+      title: 'سفارش شما ثبت شد',
+      body: `سفارش ${data.orderNumber} ثبت شد و در انتظار پرداخت است.`,
+      link: `/orders/${data.orderId}`
+    })
+  },
+
+  ORDER_PAID: {
+    defaultChannels: ['SMS', 'EMAIL', 'IN_APP'],
+    sms: data => smsFromEnv(
+      ['KAVENEGAR_ORDER_PAID_TEMPLATE', 'KAVENEGAR_ORDER_STATUS_TEMPLATE'],
+      [data.orderNumber, 'پرداخت شده']
+    ),
+    email: data => ({
+      subject: `پرداخت سفارش ${data.orderNumber}`,
+      text: `پرداخت سفارش ${data.orderNumber} به مبلغ ${formatRials(data.total)} با موفقیت انجام شد.`
+    }),
+    inApp: data => ({
+      title: 'پرداخت موفق',
+      body: `پرداخت سفارش ${data.orderNumber} انجام شد.`,
+      link: `/orders/${data.orderId}`
+    })
+  },
+
+  ORDER_SHIPPED: {
+    defaultChannels: ['SMS', 'EMAIL', 'IN_APP'],
+    sms: data => process.env.KAVENEGAR_ORDER_SHIPPED_TEMPLATE
+      ? smsFromEnv(['KAVENEGAR_ORDER_SHIPPED_TEMPLATE'], [data.orderNumber, data.trackingCode || '-'])
+      : smsFromEnv(['KAVENEGAR_ORDER_STATUS_TEMPLATE'], [data.orderNumber, 'ارسال شده']),
+    email: data => ({
+      subject: `ارسال سفارش ${data.orderNumber}`,
+      text: `سفارش ${data.orderNumber} ارسال شد.${data.trackingCode ? ` کد رهگیری مرسوله: ${data.trackingCode}` : ''}`
+    }),
+    inApp: data => ({
+      title: 'سفارش شما ارسال شد',
+      body: `سفارش ${data.orderNumber} ارسال شد.${data.trackingCode ? ` کد رهگیری: ${data.trackingCode}` : ''}`,
+      link: `/orders/${data.orderId}`
+    })
+  },
+
+  ORDER_STATUS_CHANGED: {
+    defaultChannels: ['SMS', 'IN_APP'],
+    sms: data => smsFromEnv(['KAVENEGAR_ORDER_STATUS_TEMPLATE'], [data.orderNumber, data.statusLabel]),
+    email: data => ({
+      subject: `وضعیت سفارش ${data.orderNumber}`,
+      text: `وضعیت سفارش ${data.orderNumber} به «${data.statusLabel}» تغییر کرد.`
+    }),
+    inApp: data => ({
+      title: 'تغییر وضعیت سفارش',
+      body: `وضعیت سفارش ${data.orderNumber} به «${data.statusLabel}» تغییر کرد.`,
+      link: `/orders/${data.orderId}`
+    })
+  },
+
+  PAYMENT_FAILED: {
+    defaultChannels: ['SMS', 'IN_APP'],
+    sms: data => smsFromEnv(['KAVENEGAR_PAYMENT_FAILED_TEMPLATE', 'KAVENEGAR_ORDER_STATUS_TEMPLATE'], [data.orderNumber, 'پرداخت ناموفق']),
+    email: data => ({
+      subject: `پرداخت ناموفق سفارش ${data.orderNumber}`,
+      text: `پرداخت سفارش ${data.orderNumber} انجام نشد. در صورت کسر وجه، مبلغ طی ۷۲ ساعت به حساب شما بازمی‌گردد.`
+    }),
+    inApp: data => ({
+      title: 'پرداخت ناموفق',
+      body: `پرداخت سفارش ${data.orderNumber} انجام نشد. می‌توانید دوباره سفارش دهید.`,
+      link: `/orders/${data.orderId}`
+    })
+  },
+
+  TICKET_REPLY: {
+    defaultChannels: ['SMS', 'IN_APP'],
+    sms: data => smsFromEnv(['KAVENEGAR_TICKET_REPLY_TEMPLATE'], [data.subject.slice(0, 30)]),
+    email: data => ({
+      subject: `پاسخ به تیکت «${data.subject}»`,
+      text: `پشتیبانی به تیکت «${data.subject}» پاسخ داد.`
+    }),
+    inApp: data => ({
+      title: 'پاسخ جدید به تیکت',
+      body: `پشتیبانی به تیکت «${data.subject}» پاسخ داد.`,
+      link: `/tickets/${data.ticketId}`
+    })
+  },
+
+  TICKET_MESSAGE: {
+    defaultChannels: ['IN_APP'],
+    inApp: data => ({
+      title: 'پیام جدید در تیکت',
+      body: `${data.customerName} در تیکت «${data.subject}» پیام جدیدی فرستاد.`,
+      link: `/admin/tickets/${data.ticketId}`
+    })
+  },
+
+  LOW_STOCK: {
+    defaultChannels: ['IN_APP'],
+    inApp: data => ({
+      title: 'موجودی رو به اتمام',
+      body: `موجودی «${data.productName}${data.variantName ? ` - ${data.variantName}` : ''}» به ${data.available} عدد رسید.`,
+      link: `/admin/products/${data.productId}`
+    })
+  },
+
+  PASSWORD_RESET: {
+    defaultChannels: ['SMS'],
+    sensitive: true,
+    sms: data => smsFromEnv(
+      ['KAVENEGAR_PASSWORD_RESET_TEMPLATE', 'KAVENEGAR_FORGOT_PASSWORD_TEMPLATE', 'KAVENEGAR_TEMPLATE'],
+      [data.code]
+    ),
+    email: data => ({
+      subject: 'کد بازیابی رمز عبور',
+      text: `کد بازیابی رمز عبور شما: ${data.code}\nاین کد تا ${data.expiresInMinutes} دقیقه معتبر است.`
+    })
+  }
+};
+
+/**
+ * Renders a template for one channel; null when the template has nothing
+ * to send there
+ */
+export function renderNotification<T extends NotificationTemplateName, C extends NotificationChannel>(
+  name: T,
+  channel: C,
+  data: NotificationTemplateData[T]
+): NotificationContent[C] | null {
+  const template = NOTIFICATION_TEMPLATES[name] as NotificationTemplate<NotificationTemplateData[T]>;
+  const render = { SMS: template.sms, EMAIL: template.email, IN_APP: template.inApp }[channel];
+  return render ? (render(data) as NotificationContent[C] | null) : null;
+}
@@ -0,0 +1,162 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { NotificationChannel, Prisma } from '@prisma/client';
+import { KavenegarError, requestTemplateSMS } from './kavenegar';
+import { createInboxNotification } from './notification-inbox';
+import type { NotificationContent, NotificationTemplateName } from './notification-templates';
+
+export interface NotificationMessage<C extends NotificationChannel = NotificationChannel> {
+  channel: C;
+  template: NotificationTemplateName;
+  // Phone number for SMS, address for email, null in-app
+  recipient: string | null;
+  userId?: number;
+  adminId?: number;
+  content: NotificationContent[C];
+  // Template data, left out for templates carrying secrets
+  data?: object;
+}
+
+/**
+ * Thrown by a transport that couldn't deliver. Only retryable failures are
+ * tried again; the rest would fail the same way.
+ */
+export class NotificationDeliveryError extends Error {
+  constructor(message: string, public retryable = true) {
+    super(message);
+    this.name = 'NotificationDeliveryError';
+  }
+}
+
+/**
+ * Delivers messages for one channel. `isConfigured` lets a transport that
+ * lacks credentials be skipped instead of failing every message.
+ */
+export interface NotificationTransport {
+  readonly name: string;
+  isConfigured?(): boolean;
+  deliver(message: NotificationMessage): Promise<void>;
+}
+
+export const kavenegarSmsTransport: NotificationTransport = {
+  name: 'kavenegar',
+
+  isConfigured() {
+    return !!process.env.KAVENEGAR_API_KEY;
+  },
+
+  async deliver(message) {
+    const { template, tokens } = message.content as NotificationContent['SMS'];
+    try {
+      await requestTemplateSMS(message.recipient as string, template, tokens);
+    } catch (error) {
+      if (error instanceof KavenegarError) {
+        throw new NotificationDeliveryError(error.message, error.retryable);
+      }
+      throw error;
+    }
+  }
+};
+
+/**
+ * Sends email through an HTTP mail API: EMAIL_API_URL receives a JSON body
+ * with from, to, subject and text, authorised by EMAIL_API_KEY.
+ */
+export const httpEmailTransport: NotificationTransport = {
+  name: 'email-http',
+
+  isConfigured() {
+    return !!process.env.EMAIL_API_URL;
+  },
+
+  async deliver(message) {
+    const { subject, text } = message.content as NotificationContent['EMAIL'];
+    try {
+      await axios.post(
+        process.env.EMAIL_API_URL as string,
+        { from: process.env.EMAIL_FROM, to: message.recipient, subject, text },
+        {
+          headers: process.env.EMAIL_API_KEY ? { Authorization: `Bearer ${process.env.EMAIL_API_KEY}` } : {},
+          timeout: 10_000
+        }
+      );
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      throw new NotificationDeliveryError(
+        error instanceof Error ? error.message : 'Email delivery failed',
+        status === undefined || status === 429 || status >= 500
+      );
+    }
+  }
+};
+
+/**
+ * Puts in-app messages in the recipient's inbox (the Notification table)
+ */
+export const inAppInboxTransport: NotificationTransport = {
+  name: 'inbox',
+  async deliver(message) {
+    const { title, body, link } = message.content as NotificationContent['IN_APP'];
+    const owner = message.userId
+      ? { userId: message.userId }
+      : message.adminId
+        ? { adminId: message.adminId }
+        : null;
+    if (!owner) {
+      throw new NotificationDeliveryError('In-app notifications need a user or admin', false);
+    }
+
+    await createInboxNotification(owner, {
+      type: message.template,
+      title,
+      body,
+      link,
+      ...(message.data && { data: message.data as Prisma.InputJsonObject })
+    });
+  }
+};
+
+/**
+ * Prints every message instead of sending it, for local development
+ */
+export const consoleTransport: NotificationTransport = {
+  name: 'console',
+  async deliver(message) {
+    console.log(`[notification:${message.channel}] ${message.template} -> ${message.recipient ?? `user ${message.userId ?? '-'}`}`, message.content);
+  }
+};
+
+/**
+ * Appends every message as a JSON line to NOTIFICATION_LOG_FILE
+ * (logs/notifications.log by default), for local development
+ */
+export const fileTransport: NotificationTransport = {
+  name: 'file',
+  async deliver(message) {
+    const file = process.env.NOTIFICATION_LOG_FILE || path.join(process.cwd(), 'logs', 'notifications.log');
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.appendFile(file, `${JSON.stringify({ ...message, at: new Date().toISOString() })}\n`, 'utf8');
+  }
+};
+
+export type NotificationTransportMode = 'live' | 'console' | 'file';
+
+/**
+ * Transports per channel for NOTIFICATION_TRANSPORT: `live` sends for real,
+ * `console` and `file` keep SMS and email local. Outside production the
+ * default is `console`, so development never texts real customers. In-app
+ * messages always land in the inbox.
+ */
+export function getNotificationTransports(
+  mode: string | undefined = process.env.NOTIFICATION_TRANSPORT
+): Record<NotificationChannel, NotificationTransport> {
+  const resolved = (mode || (process.env.NODE_ENV === 'production' ? 'live' : 'console')).toLowerCase();
+
+  if (resolved === 'console' || resolved === 'file') {
+    const transport = resolved === 'console' ? consoleTransport : fileTransport;
+    return { SMS: transport, EMAIL: transport, IN_APP: inAppInboxTransport };
+  }
+
+  return { SMS: kavenegarSmsTransport, EMAIL: httpEmailTransport, IN_APP: inAppInboxTransport };
+}
@@ -0,0 +1,366 @@
+import { AdminRole, OrderStatus, Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { authenticateRequest } from './api-utils';
+import { getActiveAdmin, hasPermission } from './permissions';
+import { notificationService } from './notification-service';
+import { releaseStockReservations, restockCommittedReservations } from './stock-utils';
+import { attributeRecoveredOrder } from './cart-recovery';
+import { publishOrderHistory } from './realtime-events';
+
+/**
+ * Who is moving an order: an admin (by role), the customer who owns it,
+ * or the shop itself (payment callbacks, refunds, reservation expiry).
+ */
+export type OrderActor = AdminRole | 'CUSTOMER' | 'SYSTEM';
+
+interface OrderTransition {
+  to: OrderStatus;
+  actors: OrderActor[];
+}
+
+const STAFF: OrderActor[] = ['OWNER', 'MANAGER', 'OPERATOR'];
+const FINANCE: OrderActor[] = ['OWNER', 'MANAGER'];
+
+// Refunds are driven by the refund API, which applies them as the system
+const REFUND_EDGES: OrderTransition[] = [
+  { to: OrderStatus.PARTIALLY_REFUNDED, actors: ['SYSTEM'] },
+  { to: OrderStatus.REFUNDED, actors: ['SYSTEM'] }
+];
+
+/**
+ * Every status an order may move to next, and who may move it there.
+ * Anything not listed here is an illegal transition.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderTransition[]> = {
+  DRAFT: [
+    { to: OrderStatus.PENDING_PAYMENT, actors: ['CUSTOMER', 'SYSTEM', ...STAFF] },
+    { to: OrderStatus.CANCELLED, actors: ['CUSTOMER', 'SYSTEM', ...STAFF] }
+  ],
+  PENDING_PAYMENT: [
+    // Staff confirm offline payments such as card-to-card transfers
+    { to: OrderStatus.PAYMENT_RECEIVED, actors: ['SYSTEM', ...FINANCE] },
+    { to: OrderStatus.FAILED, actors: ['SYSTEM', ...STAFF] },
+    { to: OrderStatus.CANCELLED, actors: ['CUSTOMER', 'SYSTEM', ...STAFF] },
+    { to: OrderStatus.ON_HOLD, actors: ['SYSTEM', ...STAFF] }
+  ],
+  PAYMENT_RECEIVED: [
+    { to: OrderStatus.PROCESSING, actors: ['SYSTEM', ...STAFF] },
+    { to: OrderStatus.ON_HOLD, actors: ['SYSTEM', ...STAFF] },
+    { to: OrderStatus.CANCELLED, actors: FINANCE },
+    ...REFUND_EDGES
+  ],
+  PROCESSING: [
+    { to: OrderStatus.SHIPPED, actors: STAFF },
+    { to: OrderStatus.ON_HOLD, actors: ['SYSTEM', ...STAFF] },
+    { to: OrderStatus.CANCELLED, actors: FINANCE },
+    ...REFUND_EDGES
+  ],
+  SHIPPED: [
+    { to: OrderStatus.OUT_FOR_DELIVERY, actors: ['SYSTEM', ...STAFF] },
+    { to: OrderStatus.DELIVERED, actors: ['SYSTEM', ...STAFF] },
+    { to: OrderStatus.ON_HOLD, actors: STAFF },
+    ...REFUND_EDGES
+  ],
+  OUT_FOR_DELIVERY: [
+    { to: OrderStatus.DELIVERED, actors: ['SYSTEM', ...STAFF] },
+    // Failed delivery attempt; the parcel goes back to the carrier
+    { to: OrderStatus.SHIPPED, actors: ['SYSTEM', ...STAFF] },
+    { to: OrderStatus.ON_HOLD, actors: STAFF },
+    ...REFUND_EDGES
+  ],
+  DELIVERED: [
+    ...REFUND_EDGES
+  ],
+  PARTIALLY_REFUNDED: [
+    // The rest of the order can still be fulfilled after a partial refund
+    { to: OrderStatus.PROCESSING, actors: STAFF },
+    { to: OrderStatus.SHIPPED, actors: STAFF },
+    { to: OrderStatus.DELIVERED, actors: ['SYSTEM', ...STAFF] },
+    ...REFUND_EDGES
+  ],
+  ON_HOLD: [
+    { to: OrderStatus.PENDING_PAYMENT, actors: STAFF },
+    { to: OrderStatus.PAYMENT_RECEIVED, actors: ['SYSTEM', ...FINANCE] },
+    { to: OrderStatus.PROCESSING, actors: STAFF },
+    { to: OrderStatus.CANCELLED, actors: FINANCE },
+    ...REFUND_EDGES
+  ],
+  FAILED: [
+    // A late successful callback still wins over an earlier failure; verify
+    // takes the released stock again, or puts the order ON_HOLD if it's gone
+    { to: OrderStatus.PAYMENT_RECEIVED, actors: ['SYSTEM'] },
+    { to: OrderStatus.CANCELLED, actors: ['CUSTOMER', 'SYSTEM', ...STAFF] }
+  ],
+  CANCELLED: [
+    // Paid after the reservation was released; as for FAILED, verify takes
+    // the stock again or puts the order ON_HOLD
+    { to: OrderStatus.PAYMENT_RECEIVED, actors: ['SYSTEM'] },
+    // Money taken for an order cancelled later still has to be returned
+    ...REFUND_EDGES
+  ],
+  REFUNDED: []
+};
+
+// Statuses the customer hears about
+const NOTIFY_CUSTOMER_STATUSES: OrderStatus[] = [
+  OrderStatus.PAYMENT_RECEIVED,
+  OrderStatus.SHIPPED,
+  OrderStatus.DELIVERED,
+  OrderStatus.CANCELLED,
+  OrderStatus.REFUNDED,
+  OrderStatus.FAILED
+];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  DRAFT: 'پیش‌نویس',
+  PENDING_PAYMENT: 'در انتظار پرداخت',
+  PAYMENT_RECEIVED: 'پرداخت شده',
+  PROCESSING: 'در حال پردازش',
+  SHIPPED: 'ارسال شده',
+  OUT_FOR_DELIVERY: 'در حال تحویل',
+  DELIVERED: 'تحویل شده',
+  CANCELLED: 'لغو شده',
+  REFUNDED: 'بازپرداخت شده',
+  PARTIALLY_REFUNDED: 'بازپرداخت جزئی',
+  FAILED: 'ناموفق',
+  ON_HOLD: 'در انتظار بررسی'
+};
+
+/**
+ * Thrown for a transition the table doesn't allow, or one the actor may not make.
+ * `allowed` lists the statuses this actor could move the order to instead.
+ */
+export class OrderTransitionError extends Error {
+  constructor(
+    public from: OrderStatus,
+    public to: OrderStatus,
+    public allowed: OrderStatus[],
+    public reason: 'ILLEGAL_TRANSITION' | 'ROLE_NOT_ALLOWED'
+  ) {
+    super(
+      reason === 'ILLEGAL_TRANSITION'
+        ? `تغییر وضعیت سفارش از «${ORDER_STATUS_LABELS[from]}» به «${ORDER_STATUS_LABELS[to]}» مجاز نیست`
+        : `شما مجوز تغییر وضعیت سفارش به «${ORDER_STATUS_LABELS[to]}» را ندارید`
+    );
+    this.name = 'OrderTransitionError';
+  }
+
+  toDetails() {
+    return {
+      code: this.reason,
+      currentStatus: this.from,
+      requestedStatus: this.to,
+      allowedNextStates: this.allowed
+    };
+  }
+}
+
+/**
+ * Statuses the actor may move an order to from `from`
+ */
+export function getAllowedTransitions(from: OrderStatus, actor: OrderActor): OrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[from]
+    .filter(transition => transition.actors.includes(actor))
+    .map(transition => transition.to);
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus, actor: OrderActor): boolean {
+  return getAllowedTransitions(from, actor).includes(to);
+}
+
+export function assertTransition(from: OrderStatus, to: OrderStatus, actor: OrderActor) {
+  const edge = ORDER_STATUS_TRANSITIONS[from].find(transition => transition.to === to);
+  if (!edge) {
+    throw new OrderTransitionError(from, to, getAllowedTransitions(from, actor), 'ILLEGAL_TRANSITION');
+  }
+  if (!edge.actors.includes(actor)) {
+    throw new OrderTransitionError(from, to, getAllowedTransitions(from, actor), 'ROLE_NOT_ALLOWED');
+  }
+}
+
+export interface OrderTransitionOptions {
+  actor: OrderActor;
+  comment?: string;
+  // Stored on the history entry: the customer making the change, or the admin
+  userId?: number;
+  adminId?: number;
+  // Extra order fields written in the same update, e.g. payment details
+  data?: Prisma.OrderUpdateInput;
+}
+
+export interface AppliedTransition {
+  orderId: string;
+  from: OrderStatus;
+  to: OrderStatus;
+  // The OrderHistory entry recording it, when there is one
+  historyId?: string;
+}
+
+// Fields that follow from entering a status
+function getStatusTimestamps(to: OrderStatus): Prisma.OrderUpdateInput {
+  const now = new Date();
+  switch (to) {
+    case OrderStatus.PAYMENT_RECEIVED:
+      return { paidAt: now };
+    case OrderStatus.SHIPPED:
+      return { shippedAt: now };
+    case OrderStatus.DELIVERED:
+      // Starts the return window
+      return { deliveredAt: now };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Moves an order inside the caller's transaction and records the change.
+ * Lock the order row first if concurrent callers may race for it.
+ * Run the returned transition through runTransitionEffects after committing.
+ */
+export async function applyOrderTransition(
+  tx: Prisma.TransactionClient,
+  order: { id: string; status: OrderStatus },
+  to: OrderStatus,
+  options: OrderTransitionOptions
+): Promise<AppliedTransition> {
+  assertTransition(order.status, to, options.actor);
+
+  await tx.order.update({
+    where: { id: order.id },
+    data: {
+      ...getStatusTimestamps(to),
+      ...options.data,
+      status: to
+    }
+  });
+
+  const history = await tx.orderHistory.create({
+    data: {
+      orderId: order.id,
+      status: to,
+      comment: options.comment ?? `وضعیت سفارش از «${ORDER_STATUS_LABELS[order.status]}» به «${ORDER_STATUS_LABELS[to]}» تغییر کرد`,
+      userId: options.userId,
+      adminId: options.adminId
+    },
+    select: { id: true }
+  });
+
+  return { orderId: order.id, from: order.status, to, historyId: history.id };
+}
+
+/**
+ * Side effects of a committed transition: stock goes back on the shelf for
+ * cancelled or failed orders, paid orders are credited to any cart recovery
+ * reminder, live order streams get the history entry and the customer is
+ * told about milestones.
+ */
+export async function runTransitionEffects(transition: AppliedTransition) {
+  const { orderId, to } = transition;
+
+  if (transition.historyId) {
+    await publishOrderHistory([transition.historyId]);
+  }
+
+  if (to === OrderStatus.CANCELLED || to === OrderStatus.FAILED) {
+    await releaseStockReservations(orderId);
+    await restockCommittedReservations(orderId);
+  }
+
+  if (to === OrderStatus.PAYMENT_RECEIVED) {
+    await attributeRecoveredOrder(orderId);
+  }
+
+  if (NOTIFY_CUSTOMER_STATUSES.includes(to)) {
+    await notifyCustomer(orderId, to);
+  }
+}
+
+// Best effort: a failed notification never blocks the status change
+async function notifyCustomer(orderId: string, status: OrderStatus) {
+  try {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: { id: true, orderNumber: true, total: true, trackingCode: true, userId: true }
+    });
+    if (!order) return;
+
+    const recipient = { userId: order.userId };
+    if (status === OrderStatus.PAYMENT_RECEIVED) {
+      await notificationService.notify('ORDER_PAID', recipient, {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        total: order.total.toNumber()
+      });
+    } else if (status === OrderStatus.FAILED) {
+      await notificationService.notify('PAYMENT_FAILED', recipient, {
+        orderId: order.id,
+        orderNumber: order.orderNumber
+      });
+    } else if (status === OrderStatus.SHIPPED) {
+      await notificationService.notify('ORDER_SHIPPED', recipient, {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        trackingCode: order.trackingCode
+      });
+    } else {
+      await notificationService.notify('ORDER_STATUS_CHANGED', recipient, {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        statusLabel: ORDER_STATUS_LABELS[status]
+      });
+    }
+  } catch (error) {
+    console.error('Error notifying customer about order status:', { orderId, status, error });
+  }
+}
+
+/**
+ * Locks an order, moves it and runs the side effects once committed
+ */
+export async function transitionOrderStatus(
+  orderId: string,
+  to: OrderStatus,
+  options: OrderTransitionOptions
+) {
+  const transition = await prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT "id" FROM "Order" WHERE "id" = ${orderId} FOR UPDATE`;
+
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      select: { id: true, status: true }
+    });
+    if (!order) {
+      throw new Prisma.PrismaClientKnownRequestError('Order not found', {
+        code: 'P2025',
+        clientVersion: Prisma.prismaVersion.client
+      });
+    }
+
+    return applyOrderTransition(tx, order, to, options);
+  });
+
+  await runTransitionEffects(transition);
+  return transition;
+}
+
+/**
+ * Works out who is acting on an order from the request's credentials:
+ * an admin with orders:manage acts with their role, a signed-in customer
+ * only on their own order.
+ */
+export async function getOrderActor(request: Request, orderUserId: number) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) return null;
+
+  if (auth.adminId) {
+    const admin = await getActiveAdmin(request);
+    if (!admin || !hasPermission(admin.role, 'orders:manage')) return null;
+    return { actor: admin.role as OrderActor, adminId: admin.id };
+  }
+
+  if (auth.userId && auth.userId === orderUserId) {
+    return { actor: 'CUSTOMER' as OrderActor, userId: auth.userId };
+  }
+
+  return null;
+}
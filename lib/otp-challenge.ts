@@ -0,0 +1,242 @@
+import crypto from 'crypto';
+import { OtpPurpose, Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { generateOTP } from './otp-utils';
+import { normalizePhoneNumber } from './phone-utils';
+import type { ErrorCode } from './error-handler';
+
+export const OTP_LENGTH = 6;
+// Overrides the per-purpose lifetimes below when set
+const OTP_TTL_OVERRIDE_MINUTES = Number(process.env.OTP_TTL_MINUTES) || 0;
+// Wrong codes allowed before the phone is locked out for that purpose
+export const OTP_MAX_ATTEMPTS = Number(process.env.OTP_MAX_ATTEMPTS) || 5;
+export const OTP_LOCKOUT_MINUTES = Number(process.env.OTP_LOCKOUT_MINUTES) || 15;
+// Minimum gap between two codes sent to the same phone for the same purpose
+export const OTP_RESEND_COOLDOWN_SECONDS = Number(process.env.OTP_RESEND_COOLDOWN_SECONDS) || 120;
+
+const OTP_TTL_MINUTES: Record<OtpPurpose, number> = {
+  SIGNUP: 15,
+  LOGIN: 15,
+  PASSWORD_RESET: 15,
+  ADMIN_LOGIN: 5,
+  ADMIN_PASSWORD_RESET: 15
+};
+
+export type OtpErrorReason = 'COOLDOWN' | 'LOCKED' | 'INVALID_CODE' | 'EXPIRED' | 'DELIVERY_FAILED';
+
+export interface OtpErrorDetails {
+  // Seconds until another code may be requested or tried
+  retryAfter?: number;
+  attemptsLeft?: number;
+}
+
+const OTP_ERROR_STATUS: Record<OtpErrorReason, { code: ErrorCode; statusCode: number }> = {
+  COOLDOWN: { code: 'TOO_MANY_REQUESTS', statusCode: 429 },
+  LOCKED: { code: 'TOO_MANY_REQUESTS', statusCode: 429 },
+  INVALID_CODE: { code: 'INVALID_INPUT', statusCode: 400 },
+  EXPIRED: { code: 'INVALID_INPUT', statusCode: 400 },
+  DELIVERY_FAILED: { code: 'SERVER_ERROR', statusCode: 502 }
+};
+
+function otpErrorMessage(reason: OtpErrorReason, details: OtpErrorDetails = {}): string {
+  switch (reason) {
+    case 'COOLDOWN':
+      return `لطفاً ${details.retryAfter} ثانیه دیگر برای درخواست کد جدید صبر کنید.`;
+    case 'LOCKED':
+      return `به دلیل تلاش‌های ناموفق متعدد، تا ${Math.ceil((details.retryAfter ?? 0) / 60)} دقیقه دیگر امکان ورود کد وجود ندارد.`;
+    case 'INVALID_CODE':
+      return `کد تایید نامعتبر است. ${details.attemptsLeft} تلاش دیگر باقی مانده است.`;
+    case 'EXPIRED':
+      return 'کد تایید نامعتبر یا منقضی شده است. لطفاً کد جدید درخواست کنید.';
+    case 'DELIVERY_FAILED':
+      return 'ارسال کد تایید با خطا مواجه شد. لطفاً دوباره تلاش کنید.';
+  }
+}
+
+/**
+ * Carries `code` and `statusCode` like the errors from lib/error-handler,
+ * so routes can pass it straight to handleError
+ */
+export class OtpError extends Error {
+  readonly code: ErrorCode;
+  readonly statusCode: number;
+
+  constructor(public reason: OtpErrorReason, public details?: OtpErrorDetails) {
+    super(otpErrorMessage(reason, details));
+    this.name = 'OtpError';
+    this.code = OTP_ERROR_STATUS[reason].code;
+    this.statusCode = OTP_ERROR_STATUS[reason].statusCode;
+  }
+}
+
+// Sends the code; resolves false when it couldn't be delivered
+export type OtpDeliver = (code: string, expiresInMinutes: number) => Promise<boolean>;
+
+function hashCode(phoneNumber: string, purpose: OtpPurpose, code: string): string {
+  const secret = process.env.OTP_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('OTP_SECRET or JWT_SECRET must be set');
+  }
+  // Keyed so a leaked table can't be brute-forced over the million possible codes
+  return crypto.createHmac('sha256', secret).update(`${purpose}:${phoneNumber}:${code}`).digest('hex');
+}
+
+function secondsUntil(date: Date, now: Date): number {
+  return Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000));
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+/**
+ * Creates a new code for `purpose`, replacing any earlier one, and hands it
+ * to `deliver`. Throws OtpError COOLDOWN when a code went out too recently,
+ * LOCKED during a lockout and DELIVERY_FAILED when it couldn't be sent (the
+ * cooldown then doesn't apply, so the user can try again straight away).
+ */
+export async function issueOtpChallenge(phone: string, purpose: OtpPurpose, deliver: OtpDeliver) {
+  const phoneNumber = normalizePhoneNumber(phone);
+  const now = new Date();
+  const ttlMinutes = OTP_TTL_OVERRIDE_MINUTES || OTP_TTL_MINUTES[purpose];
+  const expiresAt = new Date(now.getTime() + ttlMinutes * 60 * 1000);
+
+  const existing = await prisma.otpChallenge.findUnique({
+    where: { phoneNumber_purpose: { phoneNumber, purpose } }
+  });
+
+  if (existing?.lockedUntil && existing.lockedUntil > now) {
+    throw new OtpError('LOCKED', { retryAfter: secondsUntil(existing.lockedUntil, now) });
+  }
+
+  const cooldownEnds = existing?.lastSentAt
+    ? new Date(existing.lastSentAt.getTime() + OTP_RESEND_COOLDOWN_SECONDS * 1000)
+    : null;
+  if (cooldownEnds && cooldownEnds > now) {
+    throw new OtpError('COOLDOWN', { retryAfter: secondsUntil(cooldownEnds, now) });
+  }
+
+  const code = generateOTP(OTP_LENGTH);
+  const challenge = {
+    codeHash: hashCode(phoneNumber, purpose, code),
+    expiresAt,
+    lastSentAt: now,
+    consumedAt: null
+  };
+
+  let challengeId: string;
+  if (existing) {
+    // Conditional on lastSentAt so two requests racing past the cooldown send one code
+    const claimed = await prisma.otpChallenge.updateMany({
+      where: { id: existing.id, lastSentAt: existing.lastSentAt },
+      data: {
+        ...challenge,
+        // An expired lockout starts the count afresh
+        ...(existing.lockedUntil && { attempts: 0, lockedUntil: null })
+      }
+    });
+    if (claimed.count === 0) {
+      throw new OtpError('COOLDOWN', { retryAfter: OTP_RESEND_COOLDOWN_SECONDS });
+    }
+    challengeId = existing.id;
+  } else {
+    try {
+      const created = await prisma.otpChallenge.create({
+        data: { phoneNumber, purpose, ...challenge },
+        select: { id: true }
+      });
+      challengeId = created.id;
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new OtpError('COOLDOWN', { retryAfter: OTP_RESEND_COOLDOWN_SECONDS });
+      }
+      throw error;
+    }
+  }
+
+  const delivered = await deliver(code, ttlMinutes);
+  if (!delivered) {
+    await prisma.otpChallenge.update({
+      where: { id: challengeId },
+      data: { expiresAt: now, lastSentAt: existing?.lastSentAt ?? null }
+    });
+    throw new OtpError('DELIVERY_FAILED');
+  }
+
+  return { expiresAt, resendAfter: OTP_RESEND_COOLDOWN_SECONDS };
+}
+
+/**
+ * Checks a code. Every wrong guess counts; after OTP_MAX_ATTEMPTS the code is
+ * voided and the phone locked out for OTP_LOCKOUT_MINUTES.
+ *
+ * With `consume: false` the code stays usable so the caller can run further
+ * checks first; it must then call consumeOtpChallenge.
+ *
+ * @returns The challenge id
+ */
+export async function verifyOtpChallenge(
+  phone: string,
+  purpose: OtpPurpose,
+  code: string,
+  options: { consume?: boolean } = {}
+): Promise<string> {
+  const phoneNumber = normalizePhoneNumber(phone);
+  const now = new Date();
+
+  const challenge = await prisma.otpChallenge.findUnique({
+    where: { phoneNumber_purpose: { phoneNumber, purpose } }
+  });
+
+  if (!challenge || challenge.consumedAt) {
+    throw new OtpError('EXPIRED');
+  }
+  if (challenge.lockedUntil && challenge.lockedUntil > now) {
+    throw new OtpError('LOCKED', { retryAfter: secondsUntil(challenge.lockedUntil, now) });
+  }
+  if (challenge.expiresAt <= now) {
+    throw new OtpError('EXPIRED');
+  }
+
+  const expected = Buffer.from(challenge.codeHash, 'hex');
+  const actual = Buffer.from(hashCode(phoneNumber, purpose, code), 'hex');
+  const matches = expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+
+  if (!matches) {
+    const { attempts } = await prisma.otpChallenge.update({
+      where: { id: challenge.id },
+      data: { attempts: { increment: 1 } },
+      select: { attempts: true }
+    });
+
+    if (attempts >= OTP_MAX_ATTEMPTS) {
+      const lockedUntil = new Date(now.getTime() + OTP_LOCKOUT_MINUTES * 60 * 1000);
+      await prisma.otpChallenge.update({
+        where: { id: challenge.id },
+        data: { lockedUntil, expiresAt: now, lastSentAt: null }
+      });
+      throw new OtpError('LOCKED', { retryAfter: secondsUntil(lockedUntil, now) });
+    }
+
+    throw new OtpError('INVALID_CODE', { attemptsLeft: OTP_MAX_ATTEMPTS - attempts });
+  }
+
+  if (options.consume !== false) {
+    await consumeOtpChallenge(challenge.id);
+  }
+  return challenge.id;
+}
+
+/**
+ * Uses up a verified code. Throws OtpError EXPIRED if a concurrent request
+ * already used it.
+ */
+export async function consumeOtpChallenge(challengeId: string) {
+  const consumed = await prisma.otpChallenge.updateMany({
+    where: { id: challengeId, consumedAt: null },
+    data: { consumedAt: new Date(), attempts: 0 }
+  });
+  if (consumed.count === 0) {
+    throw new OtpError('EXPIRED');
+  }
+}
@@ -1,13 +1,15 @@
+import crypto from 'crypto';
+
 /**
- * Generates a random OTP (One-Time Password)
+ * Generates a random OTP (One-Time Password) from a cryptographically
+ * secure source
  * @param length - Length of the OTP (default: 6)
  * @returns A string containing only digits
  */
 export function generateOTP(length: number = 6): string {
-  const digits = '0123456789';
   let otp = '';
   for (let i = 0; i < length; i++) {
-    otp += digits[Math.floor(Math.random() * 10)];
+    otp += crypto.randomInt(10).toString();
   }
   return otp;
 }
@@ -0,0 +1,122 @@
+import { zarinpalGateway } from './zarinpal';
+import { mockPaymentGateway } from './mock-payment-gateway';
+
+export type PaymentGatewayName = 'ZARINPAL' | 'MOCK';
+
+export interface PaymentRequestInput {
+  orderId: string;
+  orderNumber: string;
+  amount: number;
+  callbackUrl: string;
+  description: string;
+  mobile?: string;
+  email?: string;
+}
+
+export interface PaymentRequestResult {
+  success: boolean;
+  authority?: string;
+  paymentUrl?: string;
+  code: number;
+  message?: string;
+  raw?: unknown;
+}
+
+export interface PaymentVerifyInput {
+  authority: string;
+  amount: number;
+}
+
+export interface PaymentVerifyResult {
+  success: boolean;
+  // The gateway had already confirmed this authority (Zarinpal code 101)
+  alreadyVerified: boolean;
+  code: number;
+  refId?: string;
+  cardPan?: string;
+  cardHash?: string;
+  fee?: number;
+  message?: string;
+  raw?: unknown;
+}
+
+export interface PaymentRefundInput {
+  authority: string;
+  amount: number;
+  description?: string;
+}
+
+export interface PaymentRefundResult {
+  success: boolean;
+  code: number;
+  refundId?: string;
+  message?: string;
+  raw?: unknown;
+}
+
+export type PaymentInquiryStatus = 'PENDING' | 'PAID' | 'VERIFIED' | 'FAILED' | 'REVERSED' | 'UNKNOWN';
+
+export interface PaymentInquiryResult {
+  status: PaymentInquiryStatus;
+  code: number;
+  message?: string;
+  raw?: unknown;
+}
+
+/**
+ * A payment provider the shop can send customers to.
+ * Implementations never throw for a declined payment; they return
+ * `success: false` with the provider's code and only throw on transport errors.
+ */
+export interface PaymentGateway {
+  readonly name: PaymentGatewayName;
+  request(input: PaymentRequestInput): Promise<PaymentRequestResult>;
+  verify(input: PaymentVerifyInput): Promise<PaymentVerifyResult>;
+  refund(input: PaymentRefundInput): Promise<PaymentRefundResult>;
+  inquiry(authority: string): Promise<PaymentInquiryResult>;
+}
+
+const gateways: Record<PaymentGatewayName, PaymentGateway> = {
+  ZARINPAL: zarinpalGateway,
+  MOCK: mockPaymentGateway
+};
+
+export const PAYMENT_GATEWAY_NAMES = Object.keys(gateways) as PaymentGatewayName[];
+
+/**
+ * Gateway used for new orders that don't ask for a specific one
+ */
+export function getDefaultPaymentGatewayName(): PaymentGatewayName {
+  const configured = process.env.PAYMENT_GATEWAY?.toUpperCase();
+  return isPaymentGatewayName(configured) ? configured : 'ZARINPAL';
+}
+
+export function isPaymentGatewayName(value: unknown): value is PaymentGatewayName {
+  return typeof value === 'string' && value in gateways;
+}
+
+/**
+ * Whether orders may be paid through the mock gateway. It marks orders paid
+ * for free, so production only allows it with ALLOW_MOCK_PAYMENTS=true.
+ */
+export function isMockPaymentEnabled(): boolean {
+  return process.env.NODE_ENV !== 'production' || process.env.ALLOW_MOCK_PAYMENTS === 'true';
+}
+
+/**
+ * Resolves the gateway an order was (or will be) paid through.
+ * Orders created before gateways were selectable have no value and use the default.
+ * The mock gateway is refused in production so it can't be used to mark orders paid.
+ */
+export function getPaymentGateway(name?: string | null): PaymentGateway {
+  const resolved = name ? name.toUpperCase() : getDefaultPaymentGatewayName();
+
+  if (!isPaymentGatewayName(resolved)) {
+    throw new Error(`Unknown payment gateway: ${name}`);
+  }
+  if (resolved === 'MOCK' && !isMockPaymentEnabled()) {
+    throw new Error('The mock payment gateway is disabled in production');
+  }
+
+  return gateways[resolved];
+}
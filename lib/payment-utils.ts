@@ -0,0 +1,85 @@
+import {
+  OrderStatus,
+  PaymentMethod,
+  PaymentTransactionStatus,
+  PaymentTransactionType,
+  Prisma
+} from '@prisma/client';
+import prisma from './prisma';
+
+// Orders in these states have been paid and must never be marked failed again
+export const PAID_ORDER_STATUSES: OrderStatus[] = [
+  OrderStatus.PAYMENT_RECEIVED,
+  OrderStatus.PROCESSING,
+  OrderStatus.SHIPPED,
+  OrderStatus.OUT_FOR_DELIVERY,
+  OrderStatus.DELIVERED,
+  OrderStatus.REFUNDED,
+  OrderStatus.PARTIALLY_REFUNDED
+];
+
+// Settled outside any gateway, so there is no payment deadline to hold stock against
+export const OFFLINE_PAYMENT_METHODS: PaymentMethod[] = [
+  PaymentMethod.CASH_ON_DELIVERY,
+  PaymentMethod.BANK_TRANSFER
+];
+
+export interface PaymentTransactionInput {
+  orderId: string;
+  gateway: string;
+  type: PaymentTransactionType;
+  status: PaymentTransactionStatus;
+  amount: number | Prisma.Decimal;
+  authority?: string | null;
+  refId?: string | null;
+  cardPan?: string | null;
+  code?: number | null;
+  message?: string | null;
+  ipAddress?: string | null;
+  requestData?: unknown;
+  responseData?: unknown;
+}
+
+// Gateway payloads are arbitrary JSON; drop anything JSON can't hold
+function toJson(value: unknown): Prisma.InputJsonValue | undefined {
+  if (value === undefined || value === null) return undefined;
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Appends an entry to an order's payment audit trail.
+ * Pass the transaction client when the entry must commit with other writes.
+ */
+export async function recordPaymentTransaction(
+  input: PaymentTransactionInput,
+  db: Prisma.TransactionClient = prisma
+) {
+  return db.paymentTransaction.create({
+    data: {
+      orderId: input.orderId,
+      gateway: input.gateway,
+      type: input.type,
+      status: input.status,
+      amount: input.amount,
+      authority: input.authority,
+      refId: input.refId,
+      cardPan: input.cardPan,
+      code: input.code,
+      message: input.message,
+      ipAddress: input.ipAddress,
+      requestData: toJson(input.requestData),
+      responseData: toJson(input.responseData)
+    }
+  });
+}
+
+/**
+ * Best-effort client IP for audit records
+ */
+export function getRequestIp(request: Request): string | null {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim();
+  }
+  return request.headers.get('cf-connecting-ip') || request.headers.get('x-real-ip');
+}
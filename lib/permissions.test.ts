@@ -0,0 +1,139 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { PERMISSIONS, ROLE_PERMISSIONS, canManageRole, hasPermission, type Permission } from './permissions';
+
+const API_DIR = path.join(__dirname, '../src/app/api');
+
+type Access = 'public' | 'customer' | 'own admin account' | 'cron';
+
+// Routes that ask for no permission, and who they are for. Every other
+// route must name at least one permission from the matrix.
+const ROUTES_WITHOUT_PERMISSION: Record<string, Access> = {
+  'admin/2fa/verify': 'public',
+  'admin/forgot-password/request': 'public',
+  'admin/forgot-password/verify': 'public',
+  'admin/login': 'public',
+  'admin/logout': 'public',
+  'admin/otp/request': 'public',
+  'admin/otp/verify': 'public',
+  'admin/token/refresh': 'public',
+  'admin/events': 'own admin account',
+  'admin/me': 'own admin account',
+  'admin/me/2fa': 'own admin account',
+  'admin/me/2fa/activate': 'own admin account',
+  'admin/me/2fa/enroll': 'own admin account',
+  'admin/me/2fa/recovery-codes': 'own admin account',
+  'admin/me/notifications': 'own admin account',
+  'admin/me/notifications/[id]/read': 'own admin account',
+  'admin/me/notifications/read-all': 'own admin account',
+  'admin/me/notifications/unread-count': 'own admin account',
+  'admin/me/sessions': 'own admin account',
+  'admin/me/sessions/[id]': 'own admin account',
+  'admin/me/sessions/revoke-others': 'own admin account',
+  'cart': 'public',
+  'cart/[itemId]': 'public',
+  'cart/validate': 'public',
+  // Admins reach these through getOrderActor, which asks for orders:manage
+  'checkout': 'customer',
+  'checkout/[id]': 'customer',
+  'events': 'customer',
+  'jobs/cart-recovery': 'cron',
+  'payment/request': 'customer',
+  // The gateway's callback
+  'payment/verify': 'public',
+  'returns': 'customer',
+  'returns/[id]': 'customer',
+  'search': 'public',
+  'shipping/quote': 'public',
+  'users/forgot-password/request': 'public',
+  'users/forgot-password/verify': 'public',
+  'users/login/otp/request': 'public',
+  'users/login/otp/verify': 'public',
+  'users/login/password': 'public',
+  'users/logout': 'public',
+  'users/me': 'customer',
+  'users/me/notifications': 'customer',
+  'users/me/notifications/[id]/read': 'customer',
+  'users/me/notifications/read-all': 'customer',
+  'users/me/notifications/unread-count': 'customer',
+  'users/me/sessions': 'customer',
+  'users/me/sessions/[id]': 'customer',
+  'users/me/sessions/revoke-others': 'customer',
+  'users/signup/request': 'public',
+  'users/signup/verify': 'public',
+  'users/token/refresh': 'public',
+  'wishlist': 'customer',
+  'wishlist/[id]': 'customer'
+};
+
+function findRoutes(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return findRoutes(full);
+    return entry.name === 'route.ts' ? [full] : [];
+  });
+}
+
+const routes = findRoutes(API_DIR).map(file => ({
+  route: path.relative(API_DIR, path.dirname(file)).split(path.sep).join('/'),
+  source: readFileSync(file, 'utf8')
+}));
+
+// Permissions a route checks by name, against the admin's role in the database
+function declaredPermissions(source: string): string[] {
+  const calls = source.matchAll(/\b(?:requirePermission|adminHasPermission|hasPermission)\([^()]*?'([a-z]+:[a-z]+)'\)/g);
+  return [...calls].map(match => match[1]);
+}
+
+describe('route permissions', () => {
+  it('finds the API routes', () => {
+    expect(routes.length).toBeGreaterThan(50);
+  });
+
+  it.each(routes.map(({ route, source }) => [route, source]))('%s declares its access', (route, source) => {
+    const permissions = declaredPermissions(source);
+    if (route in ROUTES_WITHOUT_PERMISSION) {
+      expect(permissions, `${route} checks permissions, so take it off the list`).toEqual([]);
+    } else {
+      expect(permissions, `${route} names no permission`).not.toEqual([]);
+    }
+    for (const permission of permissions) {
+      expect(PERMISSIONS).toContain(permission);
+    }
+  });
+
+  it.each(routes.map(({ route, source }) => [route, source]))('%s never trusts the role in the token', (_route, source) => {
+    expect(source).not.toMatch(/\bauth(?:Result)?\.role\b/);
+    expect(source).not.toMatch(/\brole\s*[!=]==\s*'ADMIN'/);
+  });
+
+  it('lists no routes that are gone', () => {
+    const existing = new Set(routes.map(({ route }) => route));
+    expect(Object.keys(ROUTES_WITHOUT_PERMISSION).filter(route => !existing.has(route))).toEqual([]);
+  });
+});
+
+describe('role permissions', () => {
+  it('gives the owner every permission', () => {
+    for (const permission of PERMISSIONS) {
+      expect(hasPermission('OWNER', permission)).toBe(true);
+    }
+  });
+
+  it('grants customer roles nothing', () => {
+    expect(hasPermission('USER', 'orders:view')).toBe(false);
+    expect(hasPermission(undefined, 'orders:view')).toBe(false);
+  });
+
+  it('never lets a role manage one with more permissions', () => {
+    expect(canManageRole('MANAGER', 'OWNER')).toBe(false);
+    expect(canManageRole('MANAGER', 'OPERATOR')).toBe(true);
+    expect(canManageRole('OPERATOR', 'SELLER')).toBe(false);
+  });
+
+  it('only grants known permissions', () => {
+    const granted = Object.values(ROLE_PERMISSIONS).flat() as Permission[];
+    expect(granted.every(permission => PERMISSIONS.includes(permission))).toBe(true);
+  });
+});
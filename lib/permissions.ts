@@ -0,0 +1,150 @@
+import { NextResponse } from 'next/server';
+import { AdminRole } from '@prisma/client';
+import prisma from './prisma';
+import { authenticateRequest } from './api-utils';
+
+/**
+ * Everything an admin can be allowed to do. Routes ask for one of these
+ * through requirePermission instead of checking role names themselves.
+ */
+export const PERMISSIONS = [
+  'products:write',
+  'media:write',
+  'orders:view',
+  'orders:manage',
+  'orders:refund',
+  'orders:delete',
+  'returns:manage',
+  'coupons:manage',
+  'tickets:manage',
+  'tickets:assign',
+  'users:view',
+  'users:manage',
+  'admins:view',
+  'admins:manage',
+  'admins:sessions',
+  'audit:view',
+  'reports:view'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+const STAFF_PERMISSIONS: Permission[] = [
+  'orders:view',
+  'orders:manage',
+  'returns:manage',
+  'tickets:manage',
+  'users:view'
+];
+
+// The single source of who may do what
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  OWNER: PERMISSIONS,
+  MANAGER: [
+    ...STAFF_PERMISSIONS,
+    'products:write',
+    'media:write',
+    'orders:refund',
+    'orders:delete',
+    'coupons:manage',
+    'tickets:assign',
+    'users:manage',
+    'admins:view',
+    'admins:manage',
+    'reports:view'
+  ],
+  OPERATOR: STAFF_PERMISSIONS,
+  SELLER: ['products:write', 'media:write'],
+  MARKETER: ['media:write', 'coupons:manage', 'reports:view']
+};
+
+const MESSAGES = {
+  UNAUTHORIZED: 'دسترسی غیر مجاز. لطفا وارد شوید.',
+  FORBIDDEN: 'شما مجوز دسترسی به این منبع را ندارید.'
+} as const;
+
+/**
+ * Whether `role` grants `permission`. Customer roles grant nothing.
+ */
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return !!role && !!ROLE_PERMISSIONS[role as AdminRole]?.includes(permission);
+}
+
+/**
+ * Whether `actorRole` may create, edit or remove admins with `targetRole`:
+ * only when it holds every permission the target role has, so nobody can
+ * hand out more than they have themselves
+ */
+export function canManageRole(actorRole: AdminRole, targetRole: AdminRole): boolean {
+  return hasPermission(actorRole, 'admins:manage')
+    && ROLE_PERMISSIONS[targetRole].every(permission => hasPermission(actorRole, permission));
+}
+
+// Roles granted `permission`, e.g. to pick who gets notified
+export function rolesWithPermission(permission: Permission): AdminRole[] {
+  return (Object.keys(ROLE_PERMISSIONS) as AdminRole[]).filter(role => hasPermission(role, permission));
+}
+
+export interface PermittedAdmin {
+  id: number;
+  role: AdminRole;
+  // The session family of the request's access token
+  sessionId?: string;
+}
+
+type PermissionResult =
+  | { success: true; admin: PermittedAdmin; response?: undefined }
+  | { success: false; response: NextResponse; admin?: undefined };
+
+function denied(status: 401 | 403): PermissionResult {
+  return {
+    success: false,
+    response: NextResponse.json(
+      { success: false, message: status === 401 ? MESSAGES.UNAUTHORIZED : MESSAGES.FORBIDDEN },
+      { status, headers: { 'Content-Type': 'application/json; charset=utf-8' } }
+    )
+  };
+}
+
+/**
+ * Authenticates the request as an admin holding `permission`. The role is
+ * read from the database, so demotions and deactivations apply at once
+ * rather than when the access token is next refreshed.
+ *
+ * On failure `response` is the 401 or 403 to return.
+ */
+export async function requirePermission(request: Request, permission: Permission): Promise<PermissionResult> {
+  const admin = await getActiveAdmin(request);
+  if (!admin) return denied(401);
+  if (!hasPermission(admin.role, permission)) return denied(403);
+  return { success: true, admin };
+}
+
+/**
+ * The active admin behind the request, or null. For routes open to every
+ * admin, and for routes that only narrow what an admin sees by permission.
+ */
+export async function getActiveAdmin(request: Request): Promise<PermittedAdmin | null> {
+  const auth = await authenticateRequest(request);
+  if (!auth.success || !auth.adminId) return null;
+
+  const admin = await findActiveAdmin(auth.adminId);
+  return admin && { ...admin, sessionId: auth.sessionId };
+}
+
+/**
+ * Whether the already authenticated admin `adminId` holds `permission`, by
+ * their role in the database. For routes that serve customers and admins
+ * alike and so can't start with requirePermission.
+ */
+export async function adminHasPermission(adminId: number, permission: Permission): Promise<boolean> {
+  const admin = await findActiveAdmin(adminId);
+  return !!admin && hasPermission(admin.role, permission);
+}
+
+function findActiveAdmin(adminId: number) {
+  return prisma.admin.findFirst({
+    where: { id: adminId, isActive: true, deletedAt: null },
+    select: { id: true, role: true }
+  });
+}
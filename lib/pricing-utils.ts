@@ -0,0 +1,73 @@
+import { Prisma } from '@prisma/client';
+
+export type PriceLike = Prisma.Decimal | { toNumber: () => number } | number | string | null | undefined;
+
+export interface PriceChange {
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+  quotedPrice: number;
+  currentPrice: number;
+  difference: number;
+}
+
+/**
+ * Thrown when the prices a customer saw no longer match the catalogue.
+ * `changes` is the per-line diff the storefront shows before confirming.
+ */
+export class PriceChangedError extends Error {
+  constructor(public changes: PriceChange[], public subtotal: number) {
+    super('قیمت برخی از محصولات تغییر کرده است');
+    this.name = 'PriceChangedError';
+  }
+}
+
+/**
+ * Safely converts a Decimal, string or number price to a number
+ */
+export function toPriceNumber(value: PriceLike): number {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return Number(value) || 0;
+  return value.toNumber();
+}
+
+/**
+ * Resolves the authoritative unit price for a line.
+ * A variant's own price wins; variants without one inherit the product price.
+ */
+export function resolveUnitPrice(productPrice: PriceLike, variantPrice?: PriceLike): number {
+  if (variantPrice !== null && variantPrice !== undefined) {
+    return toPriceNumber(variantPrice);
+  }
+  return toPriceNumber(productPrice);
+}
+
+/**
+ * Compares the prices a client quoted with the current ones.
+ * Lines without a quoted price are treated as accepting the current price.
+ */
+export function findPriceChanges(
+  lines: Array<{
+    productId: string;
+    variantId?: string | null;
+    quantity: number;
+    quotedPrice?: number | null;
+    currentPrice: number;
+  }>
+): PriceChange[] {
+  return lines
+    .filter(line =>
+      line.quotedPrice !== null &&
+      line.quotedPrice !== undefined &&
+      Math.round(line.quotedPrice * 100) !== Math.round(line.currentPrice * 100)
+    )
+    .map(line => ({
+      productId: line.productId,
+      variantId: line.variantId ?? null,
+      quantity: line.quantity,
+      quotedPrice: line.quotedPrice as number,
+      currentPrice: line.currentPrice,
+      difference: line.currentPrice - (line.quotedPrice as number)
+    }));
+}
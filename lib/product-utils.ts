@@ -12,6 +12,7 @@ export async function updateProductAggregations(productId: string) {
     select: {
       price: true,
       stock: true,
+      reservedStock: true,
       size: true,
       image: true,
       isActive: true
@@ -37,7 +38,11 @@ export async function updateProductAggregations(productId: string) {
       .map(v => v.price)
       .filter((p): p is Prisma.Decimal => p !== null);
       
-    const totalStock = activeVariants.reduce((sum, v) => sum + (v.stock || 0), 0);
+    // Units held by unpaid orders are not available to other customers
+    const totalStock = activeVariants.reduce(
+      (sum, v) => sum + Math.max(0, (v.stock || 0) - (v.reservedStock || 0)),
+      0
+    );
     const sizes = Array.from(
       new Set(activeVariants.map(v => v.size).filter((s): s is string => !!s))
     );
@@ -0,0 +1,113 @@
+import prisma from './prisma';
+
+/**
+ * Hit counts for one key in the current fixed window and the one before it.
+ * The limiter weighs the two into a sliding window estimate.
+ */
+export interface RateLimitWindow {
+  // Start of the current window, in ms since the epoch
+  windowStart: number;
+  count: number;
+  previousCount: number;
+}
+
+/**
+ * Where rate limit counters live. `hit` records one request against `key`
+ * and returns the counts including it; it must be atomic, since concurrent
+ * requests for the same key race each other.
+ */
+export interface RateLimitStore {
+  hit(key: string, windowMs: number, now: number): Promise<RateLimitWindow>;
+}
+
+function windowStartOf(now: number, windowMs: number): number {
+  return now - (now % windowMs);
+}
+
+/**
+ * Counters in this process only. Fine for development and single-instance
+ * deployments; they reset on restart and aren't shared between instances.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, RateLimitWindow & { expiresAt: number }>();
+
+  constructor(cleanupIntervalMs = 60 * 60 * 1000) {
+    // unref so the timer never keeps the process alive on its own
+    setInterval(() => this.prune(Date.now()), cleanupIntervalMs).unref?.();
+  }
+
+  async hit(key: string, windowMs: number, now: number): Promise<RateLimitWindow> {
+    const windowStart = windowStartOf(now, windowMs);
+    const entry = this.windows.get(key);
+
+    let previousCount = 0;
+    let count = 1;
+    if (entry?.windowStart === windowStart) {
+      previousCount = entry.previousCount;
+      count = entry.count + 1;
+    } else if (entry?.windowStart === windowStart - windowMs) {
+      previousCount = entry.count;
+    }
+
+    const window = { windowStart, count, previousCount };
+    this.windows.set(key, { ...window, expiresAt: windowStart + 2 * windowMs });
+    return window;
+  }
+
+  private prune(now: number) {
+    for (const [key, entry] of this.windows.entries()) {
+      if (entry.expiresAt < now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Counters in Postgres, shared by every instance and kept across deploys.
+ * Each hit is a single upsert, so concurrent requests can't lose counts.
+ */
+export class PrismaRateLimitStore implements RateLimitStore {
+  private lastPrunedAt = 0;
+
+  constructor(private pruneIntervalMs = 10 * 60 * 1000) {}
+
+  async hit(key: string, windowMs: number, now: number): Promise<RateLimitWindow> {
+    const windowStart = new Date(windowStartOf(now, windowMs));
+    const previousWindowStart = new Date(windowStart.getTime() - windowMs);
+    const expiresAt = new Date(windowStart.getTime() + 2 * windowMs);
+
+    // Every SET expression sees the row as it was before the update
+    const [row] = await prisma.$queryRaw<{ count: number; previousCount: number }[]>`
+      INSERT INTO "RateLimitBucket" ("key", "windowStart", "count", "previousCount", "expiresAt")
+      VALUES (${key}, ${windowStart}, 1, 0, ${expiresAt})
+      ON CONFLICT ("key") DO UPDATE SET
+        "previousCount" = CASE
+          WHEN "RateLimitBucket"."windowStart" = ${windowStart} THEN "RateLimitBucket"."previousCount"
+          WHEN "RateLimitBucket"."windowStart" = ${previousWindowStart} THEN "RateLimitBucket"."count"
+          ELSE 0
+        END,
+        "count" = CASE
+          WHEN "RateLimitBucket"."windowStart" = ${windowStart} THEN "RateLimitBucket"."count" + 1
+          ELSE 1
+        END,
+        "windowStart" = ${windowStart},
+        "expiresAt" = ${expiresAt}
+      RETURNING "count", "previousCount"
+    `;
+
+    this.pruneExpired(now);
+
+    return { windowStart: windowStart.getTime(), count: row.count, previousCount: row.previousCount };
+  }
+
+  // Opportunistic, at most once per interval per instance, and never awaited
+  private pruneExpired(now: number) {
+    if (now - this.lastPrunedAt < this.pruneIntervalMs) return;
+    this.lastPrunedAt = now;
+
+    prisma.rateLimitBucket
+      .deleteMany({ where: { expiresAt: { lt: new Date(now) } } })
+      .catch(error => console.error('Failed to prune rate limit buckets:', error));
+  }
+}
@@ -2,16 +2,26 @@ import { NextRequest } from 'next/server';
 
 type CompatibleRequest = NextRequest | Request;
 import { authenticateRequest } from './api-utils';
-
-// In-memory store for rate limiting
-interface RateLimitEntry {
-  count: number;
-  lastRequest: number;
-  resetTime: number;
-}
+import {
+  MemoryRateLimitStore,
+  PrismaRateLimitStore,
+  type RateLimitStore,
+  type RateLimitWindow
+} from './rate-limit-store';
 
 type RateLimitKey = `${string}:${string}`; // Format: 'ip:endpoint' or 'userId:endpoint'
-const rateLimitStore = new Map<RateLimitKey, RateLimitEntry>();
+
+// Postgres unless RATE_LIMIT_STORE=memory, so limits hold across instances and deploys
+let rateLimitStore: RateLimitStore = process.env.RATE_LIMIT_STORE === 'memory'
+  ? new MemoryRateLimitStore()
+  : new PrismaRateLimitStore();
+
+/**
+ * Swaps where counters are kept, e.g. for a Redis-backed store
+ */
+export function setRateLimitStore(store: RateLimitStore) {
+  rateLimitStore = store;
+}
 
 // Rate limit configurations
 interface RateLimitConfig {
@@ -24,6 +34,8 @@ interface RateLimitConfigs {
   user: RateLimitConfig;
   admin: RateLimitConfig;
   sensitive: RateLimitConfig;
+  checkout: RateLimitConfig;
+  payment: RateLimitConfig;
   product: {
     list: RateLimitConfig;
     detail: RateLimitConfig;
@@ -65,6 +77,16 @@ const RATE_LIMIT_CONFIG: RateLimitConfigs = {
     windowMs: 15 * 60 * 1000, // 15 minutes
     max: 15, // 15 requests per 15 minutes per IP
   },
+  // Placing orders
+  checkout: {
+    windowMs: 10 * 60 * 1000, // 10 minutes
+    max: 10, // 10 checkouts per 10 minutes per user/IP
+  },
+  // Starting a payment with the gateway
+  payment: {
+    windowMs: 10 * 60 * 1000, // 10 minutes
+    max: 20, // 20 payment requests per 10 minutes per user/IP
+  },
   // Product endpoints
   product: {
     list: {
@@ -150,41 +172,90 @@ function generateKey(identifier: string, endpoint: string): RateLimitKey {
   return `${identifier}:${endpoint}` as const;
 }
 
-/**
- * Check if the request has exceeded the rate limit
- */
-export async function isRateLimited(
-  request: CompatibleRequest,
-  endpoint: string,
-  type: keyof typeof RATE_LIMIT_CONFIG | 'product' | 'ticket' = 'public',
+export interface RateLimitResult {
+  isLimited: boolean;
+  // Seconds until another request would be allowed; set when limited
+  retryAfter?: number;
+  limit: number;
+  remaining: number;
+  // When the quota frees up, in ms since the epoch
+  resetTime: number;
+  // Window length in seconds
+  window: number;
+}
+
+function resolveConfig(
+  type: keyof typeof RATE_LIMIT_CONFIG | 'product' | 'ticket',
   subType?: keyof RateLimitConfigs['product'] | keyof RateLimitConfigs['ticket'],
   subSubType?: keyof RateLimitConfigs['ticket']['message']
-): Promise<{ isLimited: boolean; retryAfter?: number; limit?: number; remaining?: number; resetTime?: number }> {
-  // Get the appropriate rate limit config
-  let config: RateLimitConfig;
-  
+): RateLimitConfig {
   if (type === 'product' && subType) {
     // For product-specific rate limits
-    config = RATE_LIMIT_CONFIG.product[subType as keyof RateLimitConfigs['product']];
+    return RATE_LIMIT_CONFIG.product[subType as keyof RateLimitConfigs['product']];
   } else if (type === 'ticket' && subType) {
     // For ticket message rate limits
     if (subType === 'message' && subSubType) {
-      config = RATE_LIMIT_CONFIG.ticket.message[subSubType];
+      return RATE_LIMIT_CONFIG.ticket.message[subSubType];
     } else if (subType !== 'message') {
       // For standard ticket rate limits
-      config = RATE_LIMIT_CONFIG.ticket[subType as keyof Omit<RateLimitConfigs['ticket'], 'message'>];
-    } else {
-      // Default to public rate limit if type is not recognized
-      config = RATE_LIMIT_CONFIG.public;
+      return RATE_LIMIT_CONFIG.ticket[subType as keyof Omit<RateLimitConfigs['ticket'], 'message'>];
     }
   } else if (type !== 'ticket' && type !== 'product') {
     // For standard rate limits
-    config = RATE_LIMIT_CONFIG[type as keyof Omit<RateLimitConfigs, 'product' | 'ticket'>];
-  } else {
-    // Default to public rate limit if type is not recognized
-    config = RATE_LIMIT_CONFIG.public;
+    return RATE_LIMIT_CONFIG[type as keyof Omit<RateLimitConfigs, 'product' | 'ticket'>];
   }
+  // Default to public rate limit if type is not recognized
+  return RATE_LIMIT_CONFIG.public;
+}
+
+/**
+ * Sliding window estimate of the hits in the last windowMs: the current
+ * window's hits plus the previous window's, weighted by how much of it
+ * still overlaps
+ */
+function slidingCount(window: RateLimitWindow, windowMs: number, now: number): number {
+  const elapsed = (now - window.windowStart) / windowMs;
+  return window.previousCount * (1 - elapsed) + window.count;
+}
+
+/**
+ * How long until one more request fits under the limit, assuming no other
+ * requests arrive in the meantime
+ */
+function msUntilAllowed(window: RateLimitWindow, config: RateLimitConfig, now: number): number {
+  const { windowMs, max } = config;
+  const elapsed = now - window.windowStart;
+
+  // Share of the previous window the next request still has room for
+  const room = max - 1 - window.count;
+  if (room >= 0) {
+    if (window.previousCount === 0) return 0;
+    return Math.max(0, windowMs * (1 - room / window.previousCount) - elapsed);
+  }
+
+  // The current window alone is over the limit: wait for it to end and for
+  // its weight as the previous window to drop far enough
+  return windowMs - elapsed + Math.max(0, windowMs * (1 - (max - 1) / window.count));
+}
+
+/**
+ * Check if the request has exceeded the rate limit.
+ *
+ * Counts a sliding window in the configured store. Rejected requests count
+ * too, so a client that keeps retrying stays limited. If the store is
+ * unreachable the request is let through rather than failing the route.
+ */
+export async function isRateLimited(
+  request: CompatibleRequest,
+  endpoint: string,
+  type: keyof typeof RATE_LIMIT_CONFIG | 'product' | 'ticket' = 'public',
+  subType?: keyof RateLimitConfigs['product'] | keyof RateLimitConfigs['ticket'],
+  subSubType?: keyof RateLimitConfigs['ticket']['message']
+): Promise<RateLimitResult> {
+  // Get the appropriate rate limit config
+  const config = resolveConfig(type, subType, subSubType);
   const now = Date.now();
+  const windowSeconds = Math.ceil(config.windowMs / 1000);
   
   // Try to get user ID from session if available
   let identifier = 'unknown-ip';
@@ -206,62 +277,75 @@ export async function isRateLimited(
   }
 
   const key = generateKey(identifier, endpoint);
-  const entry = rateLimitStore.get(key);
-  const resetTime = entry?.resetTime || now + config.windowMs;
-  
-  // Initialize or update the rate limit entry
-  if (!entry) {
-    rateLimitStore.set(key, {
-      count: 1,
-      lastRequest: now,
-      resetTime,
-    });
-    return { 
-      isLimited: false,
-      limit: config.max,
-      remaining: config.max - 1,
-      resetTime
-    };
-  }
 
-  // Reset the counter if the window has passed
-  if (now > entry.resetTime) {
-    entry.count = 1;
-    entry.resetTime = now + config.windowMs;
-    entry.lastRequest = now;
-    return { 
+  let window: RateLimitWindow;
+  try {
+    window = await rateLimitStore.hit(key, config.windowMs, now);
+  } catch (error) {
+    console.error('Rate limit store unavailable, allowing request:', error);
+    return {
       isLimited: false,
       limit: config.max,
-      remaining: config.max - 1,
-      resetTime: entry.resetTime
+      remaining: config.max,
+      resetTime: now + config.windowMs,
+      window: windowSeconds
     };
   }
 
-  // Check if rate limit is exceeded
-  if (entry.count >= config.max) {
-    return { 
-      isLimited: true, 
-      retryAfter: Math.ceil((entry.resetTime - now) / 1000), // in seconds
+  const count = slidingCount(window, config.windowMs, now);
+  if (count > config.max) {
+    const retryAfter = Math.max(1, Math.ceil(msUntilAllowed(window, config, now) / 1000));
+    return {
+      isLimited: true,
+      retryAfter,
       limit: config.max,
       remaining: 0,
-      resetTime: entry.resetTime
+      resetTime: now + retryAfter * 1000,
+      window: windowSeconds
     };
   }
 
-  // Increment the counter
-  entry.count++;
-  entry.lastRequest = now;
-  
-  return { 
+  return {
     isLimited: false,
     limit: config.max,
-    remaining: Math.max(0, config.max - entry.count),
-    resetTime: entry.resetTime
+    remaining: Math.max(0, Math.floor(config.max - count)),
+    resetTime: window.windowStart + config.windowMs,
+    window: windowSeconds
   };
 }
 
+/**
+ * RateLimit-* headers as in the IETF httpapi draft, plus Retry-After once
+ * the limit is reached. Reset is in seconds from now, not a timestamp.
+ */
+export function rateLimitHeaders(rateLimit: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': rateLimit.limit.toString(),
+    'RateLimit-Remaining': rateLimit.remaining.toString(),
+    'RateLimit-Reset': Math.max(0, Math.ceil((rateLimit.resetTime - Date.now()) / 1000)).toString(),
+    'RateLimit-Policy': `${rateLimit.limit};w=${rateLimit.window}`
+  };
+  if (rateLimit.isLimited) {
+    headers['Retry-After'] = (rateLimit.retryAfter ?? rateLimit.window).toString();
+  }
+  return headers;
+}
+
+/**
+ * Copies the headers from rateLimitMiddleware onto a route's own response
+ */
+export function withRateLimitHeaders<T extends Response>(response: T, headers?: Record<string, string>): T {
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
 /**
  * Rate limit middleware for API routes
+ *
+ * When limited, `response` is the 429 to return. Otherwise `headers` are
+ * the RateLimit-* headers for the route to pass on via withRateLimitHeaders.
  */
 export async function rateLimitMiddleware(
   request: CompatibleRequest,
@@ -271,6 +355,7 @@ export async function rateLimitMiddleware(
   subSubType?: keyof RateLimitConfigs['ticket']['message']
 ) {
   const rateLimit = await isRateLimited(request, endpoint, type, subType, subSubType);
+  const headers = rateLimitHeaders(rateLimit);
   
   if (rateLimit.isLimited) {
     const response = new Response(
@@ -284,25 +369,18 @@ export async function rateLimitMiddleware(
         status: 429,
         headers: {
           'Content-Type': 'application/json; charset=utf-8',
-          'Retry-After': rateLimit.retryAfter?.toString() || '60',
-          'X-RateLimit-Limit': rateLimit.limit?.toString() || '0',
-          'X-RateLimit-Remaining': rateLimit.remaining?.toString() || '0',
-          'X-RateLimit-Reset': rateLimit.resetTime?.toString() || '0',
+          ...headers,
         },
       }
     );
     
-    return { response, isRateLimited: true };
+    return { response, isRateLimited: true, headers };
   }
   
   return { 
     response: new Response(null, { status: 200 }),
     isRateLimited: false,
-    headers: {
-      'X-RateLimit-Limit': rateLimit.limit?.toString() || '0',
-      'X-RateLimit-Remaining': rateLimit.remaining?.toString() || '0',
-      'X-RateLimit-Reset': rateLimit.resetTime?.toString() || '0',
-    }
+    headers
   };
 }
 
@@ -391,15 +469,3 @@ export const ticketRateLimiter = {
     return result;
   }
 };
-
-// Clean up old entries periodically
-setInterval(() => {
-  const now = Date.now();
-  const oneHourAgo = now - 60 * 60 * 1000; // Clean up entries older than 1 hour
-  
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (entry.lastRequest < oneHourAgo) {
-      rateLimitStore.delete(key);
-    }
-  }
-}, 60 * 60 * 1000); // Run cleanup every hour
@@ -0,0 +1,161 @@
+import { MessageType, OrderStatus, TicketStatus } from '@prisma/client';
+import prisma from './prisma';
+import { BusEvent, eventBus } from './event-bus';
+
+export type RealtimeEventType = 'ticket.message' | 'ticket.status' | 'order.history';
+
+export interface TicketMessagePayload {
+  ticketId: string;
+  message: {
+    id: string;
+    content: string;
+    type: MessageType;
+    attachments: string[];
+    createdAt: Date;
+  };
+}
+
+export interface TicketStatusPayload {
+  ticketId: string;
+  status: TicketStatus;
+}
+
+export interface OrderHistoryPayload {
+  orderId: string;
+  entry: {
+    id: string;
+    status: OrderStatus;
+    comment: string | null;
+    createdAt: Date;
+  };
+}
+
+/**
+ * What travels on the bus: the payload plus who may see it. The audience is
+ * resolved when publishing so streams never query per event.
+ */
+export interface RealtimeEvent<T = unknown> {
+  type: RealtimeEventType;
+  userIds: number[];
+  adminIds: number[];
+  ticketId?: string;
+  orderId?: string;
+  payload: T;
+}
+
+// Who is listening and what they asked to watch
+export interface RealtimeSubscriber {
+  userId?: number;
+  adminId?: number;
+  // Admins may watch any ticket or order; customers only narrow their own stream
+  ticketIds?: string[];
+  orderIds?: string[];
+}
+
+const REALTIME_TOPIC = 'realtime';
+
+interface TicketAudience {
+  id: string;
+  userId: number;
+  assignedToId: number | null;
+}
+
+function ticketAudience(ticket: TicketAudience) {
+  return {
+    userIds: [ticket.userId],
+    adminIds: ticket.assignedToId ? [ticket.assignedToId] : [],
+    ticketId: ticket.id
+  };
+}
+
+async function publish<T>(event: RealtimeEvent<T>) {
+  try {
+    await eventBus.publish(REALTIME_TOPIC, event);
+  } catch (error) {
+    console.error('Error publishing realtime event:', { type: event.type, error });
+  }
+}
+
+export async function publishTicketMessage(ticket: TicketAudience, message: TicketMessagePayload['message']) {
+  await publish<TicketMessagePayload>({
+    type: 'ticket.message',
+    ...ticketAudience(ticket),
+    payload: {
+      ticketId: ticket.id,
+      message: {
+        id: message.id,
+        content: message.content,
+        type: message.type,
+        attachments: message.attachments,
+        createdAt: message.createdAt
+      }
+    }
+  });
+}
+
+export async function publishTicketStatus(ticket: TicketAudience & { status: TicketStatus }) {
+  await publish<TicketStatusPayload>({
+    type: 'ticket.status',
+    ...ticketAudience(ticket),
+    payload: { ticketId: ticket.id, status: ticket.status }
+  });
+}
+
+/**
+ * Publishes committed OrderHistory entries to the order's customer and to
+ * admins watching the order. Best effort; never fails the caller.
+ */
+export async function publishOrderHistory(historyIds: string[]) {
+  if (historyIds.length === 0) return;
+
+  try {
+    const entries = await prisma.orderHistory.findMany({
+      where: { id: { in: historyIds } },
+      select: {
+        id: true,
+        orderId: true,
+        status: true,
+        comment: true,
+        createdAt: true,
+        order: { select: { userId: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    for (const { order, ...entry } of entries) {
+      await publish<OrderHistoryPayload>({
+        type: 'order.history',
+        userIds: [order.userId],
+        adminIds: [],
+        orderId: entry.orderId,
+        payload: { orderId: entry.orderId, entry }
+      });
+    }
+  } catch (error) {
+    console.error('Error publishing order history:', { historyIds, error });
+  }
+}
+
+/**
+ * Whether a subscriber may receive, and asked for, an event
+ */
+export function isEventFor(event: RealtimeEvent, subscriber: RealtimeSubscriber): boolean {
+  const watchesTicket = !!event.ticketId && !!subscriber.ticketIds?.includes(event.ticketId);
+  const watchesOrder = !!event.orderId && !!subscriber.orderIds?.includes(event.orderId);
+  const narrowed = !!subscriber.ticketIds?.length || !!subscriber.orderIds?.length;
+
+  if (subscriber.userId) {
+    if (!event.userIds.includes(subscriber.userId)) return false;
+    return !narrowed || watchesTicket || watchesOrder;
+  }
+
+  if (subscriber.adminId) {
+    return event.adminIds.includes(subscriber.adminId) || watchesTicket || watchesOrder;
+  }
+
+  return false;
+}
+
+export function asRealtimeEvent(event: BusEvent): RealtimeEvent | null {
+  return event.topic === REALTIME_TOPIC ? (event.data as RealtimeEvent) : null;
+}
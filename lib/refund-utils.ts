@@ -0,0 +1,333 @@
+import {
+  OrderStatus,
+  PaymentStatus,
+  PaymentTransactionStatus,
+  PaymentTransactionType,
+  Prisma,
+  RefundMethod,
+  RefundStatus
+} from '@prisma/client';
+import { z } from 'zod';
+import prisma from './prisma';
+import { getPaymentGateway, PaymentRefundResult } from './payment-gateway';
+import { recordPaymentTransaction } from './payment-utils';
+import { toPriceNumber } from './pricing-utils';
+import { restockCommittedItems, syncProductStock } from './stock-utils';
+import {
+  AppliedTransition,
+  applyOrderTransition,
+  canTransition,
+  getAllowedTransitions,
+  runTransitionEffects
+} from './order-status';
+
+export type RefundErrorCode =
+  | 'ORDER_NOT_FOUND'
+  | 'ORDER_NOT_PAID'
+  | 'INVALID_ORDER_STATUS'
+  | 'ITEM_NOT_FOUND'
+  | 'ITEM_QUANTITY_EXCEEDED'
+  | 'AMOUNT_EXCEEDED'
+  | 'GATEWAY_UNAVAILABLE'
+  | 'GATEWAY_FAILED';
+
+const REFUND_MESSAGES: Record<RefundErrorCode, string> = {
+  ORDER_NOT_FOUND: 'سفارش یافت نشد',
+  ORDER_NOT_PAID: 'این سفارش پرداخت نشده یا قبلاً به طور کامل بازپرداخت شده است',
+  INVALID_ORDER_STATUS: 'وضعیت فعلی سفارش اجازه بازپرداخت را نمی‌دهد',
+  ITEM_NOT_FOUND: 'برخی از اقلام انتخاب‌شده متعلق به این سفارش نیستند',
+  ITEM_QUANTITY_EXCEEDED: 'تعداد بازپرداخت از تعداد قابل بازپرداخت بیشتر است',
+  AMOUNT_EXCEEDED: 'مبلغ بازپرداخت از مبلغ قابل بازپرداخت بیشتر است',
+  GATEWAY_UNAVAILABLE: 'این سفارش از طریق درگاه پرداخت نشده است؛ از واریز دستی استفاده کنید',
+  GATEWAY_FAILED: 'درگاه پرداخت درخواست بازپرداخت را نپذیرفت'
+};
+
+export class RefundError extends Error {
+  constructor(public code: RefundErrorCode, public details?: Record<string, unknown>) {
+    super(REFUND_MESSAGES[code]);
+    this.name = 'RefundError';
+  }
+}
+
+export const refundRequestSchema = z.object({
+  items: z.array(z.object({
+    orderItemId: z.string().min(1),
+    // Defaults to everything on the line that hasn't been refunded yet
+    quantity: z.number().int().min(1).optional()
+  })).optional(),
+  // Overrides the amount computed from the items, e.g. to include shipping
+  amount: z.number().positive().optional(),
+  method: z.nativeEnum(RefundMethod).default(RefundMethod.GATEWAY),
+  bankReference: z.string().trim().min(1).max(100).optional(),
+  restock: z.boolean().default(false),
+  reason: z.string().trim().max(1000).optional()
+}).refine(
+  data => (data.items && data.items.length > 0) || data.amount !== undefined,
+  { message: 'اقلام یا مبلغ بازپرداخت باید مشخص شود', path: ['items'] }
+).refine(
+  data => data.method !== RefundMethod.BANK_TRANSFER || !!data.bankReference,
+  { message: 'شماره پیگیری واریز بانکی الزامی است', path: ['bankReference'] }
+);
+
+export type RefundRequest = z.infer<typeof refundRequestSchema>;
+
+// Refunds that hold or have moved money; failed ones are ignored in every total
+const ACTIVE_REFUND_STATUSES: RefundStatus[] = [RefundStatus.PENDING, RefundStatus.COMPLETED];
+
+type DbClient = typeof prisma | Prisma.TransactionClient;
+
+/**
+ * Totals what has already been refunded on an order, overall and per item
+ */
+export async function getRefundSummary(db: DbClient, orderId: string) {
+  const refunds = await db.refund.findMany({
+    where: { orderId, status: { in: ACTIVE_REFUND_STATUSES } },
+    select: { amount: true, items: { select: { orderItemId: true, quantity: true } } }
+  });
+
+  const refundedQuantities = new Map<string, number>();
+  let refundedAmount = 0;
+
+  for (const refund of refunds) {
+    refundedAmount += toPriceNumber(refund.amount);
+    for (const item of refund.items) {
+      refundedQuantities.set(item.orderItemId, (refundedQuantities.get(item.orderItemId) ?? 0) + item.quantity);
+    }
+  }
+
+  return { refundedAmount, refundedQuantities };
+}
+
+/**
+ * Refunds part or all of a paid order.
+ *
+ * The refund is reserved as PENDING under a row lock first, so concurrent
+ * requests can't refund more than was paid. Money then moves through the
+ * order's gateway (or is recorded as a manual bank transfer) and only a
+ * successful transfer completes the refund and updates the order.
+ */
+export async function refundOrder(orderId: string, input: RefundRequest, adminId?: number) {
+  const pending = await prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT "id" FROM "Order" WHERE "id" = ${orderId} FOR UPDATE`;
+
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      include: { items: true }
+    });
+
+    if (!order) {
+      throw new RefundError('ORDER_NOT_FOUND');
+    }
+    if (order.paymentStatus !== PaymentStatus.COMPLETED) {
+      throw new RefundError('ORDER_NOT_PAID', { paymentStatus: order.paymentStatus });
+    }
+    if (input.method === RefundMethod.GATEWAY && (!order.paymentGateway || !order.paymentRefNum)) {
+      throw new RefundError('GATEWAY_UNAVAILABLE');
+    }
+
+    const { refundedAmount, refundedQuantities } = await getRefundSummary(tx, orderId);
+
+    const lines = (input.items ?? []).map(requested => {
+      const item = order.items.find(orderItem => orderItem.id === requested.orderItemId);
+      if (!item) {
+        throw new RefundError('ITEM_NOT_FOUND', { orderItemId: requested.orderItemId });
+      }
+
+      const remaining = item.quantity - (refundedQuantities.get(item.id) ?? 0);
+      const quantity = requested.quantity ?? remaining;
+      if (quantity < 1 || quantity > remaining) {
+        throw new RefundError('ITEM_QUANTITY_EXCEEDED', { orderItemId: item.id, requested: quantity, remaining });
+      }
+
+      // Line totals already carry the item's share of any discount
+      const amount = Math.round((toPriceNumber(item.total) / item.quantity) * quantity);
+      return { item, quantity, amount };
+    });
+
+    const amount = input.amount !== undefined
+      ? Math.round(input.amount)
+      : lines.reduce((sum, line) => sum + line.amount, 0);
+    const refundable = toPriceNumber(order.total) - refundedAmount;
+
+    if (amount <= 0 || amount > refundable) {
+      throw new RefundError('AMOUNT_EXCEEDED', { amount, refundable });
+    }
+
+    const nextStatus = amount >= refundable ? OrderStatus.REFUNDED : OrderStatus.PARTIALLY_REFUNDED;
+    if (!canTransition(order.status, nextStatus, 'SYSTEM')) {
+      throw new RefundError('INVALID_ORDER_STATUS', {
+        currentStatus: order.status,
+        allowedNextStates: getAllowedTransitions(order.status, 'SYSTEM')
+      });
+    }
+
+    const refund = await tx.refund.create({
+      data: {
+        orderId,
+        amount,
+        method: input.method,
+        reason: input.reason,
+        bankReference: input.bankReference,
+        restock: input.restock,
+        createdById: adminId,
+        items: {
+          create: lines.map(line => ({
+            orderItemId: line.item.id,
+            quantity: line.quantity,
+            amount: line.amount
+          }))
+        }
+      }
+    });
+
+    return { refund, order, lines };
+  });
+
+  const { refund, order, lines } = pending;
+  const amount = toPriceNumber(refund.amount);
+  let gatewayRefundId: string | undefined;
+
+  if (input.method === RefundMethod.GATEWAY) {
+    const gateway = getPaymentGateway(order.paymentGateway);
+    const authority = order.paymentRefNum as string;
+
+    let result: PaymentRefundResult;
+    try {
+      result = await gateway.refund({ authority, amount, description: input.reason });
+    } catch (error) {
+      result = { success: false, code: -1, message: error instanceof Error ? error.message : 'Gateway error' };
+    }
+
+    await recordPaymentTransaction({
+      orderId,
+      gateway: gateway.name,
+      type: PaymentTransactionType.REFUND,
+      status: result.success ? PaymentTransactionStatus.SUCCEEDED : PaymentTransactionStatus.FAILED,
+      amount,
+      authority,
+      refId: result.refundId,
+      code: result.code,
+      message: result.message,
+      requestData: { refundId: refund.id, reason: input.reason },
+      responseData: result.raw
+    });
+
+    if (!result.success) {
+      await prisma.refund.update({
+        where: { id: refund.id },
+        data: { status: RefundStatus.FAILED }
+      });
+      throw new RefundError('GATEWAY_FAILED', { code: result.code, message: result.message });
+    }
+
+    gatewayRefundId = result.refundId;
+  } else {
+    await recordPaymentTransaction({
+      orderId,
+      gateway: RefundMethod.BANK_TRANSFER,
+      type: PaymentTransactionType.REFUND,
+      status: PaymentTransactionStatus.SUCCEEDED,
+      amount,
+      refId: input.bankReference,
+      message: input.reason,
+      requestData: { refundId: refund.id }
+    });
+  }
+
+  const completed = await prisma.$transaction(async (tx) => {
+    // Re-read under lock: the order may have moved while the gateway was called
+    await tx.$queryRaw`SELECT "id" FROM "Order" WHERE "id" = ${orderId} FOR UPDATE`;
+    const current = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      select: { id: true, status: true }
+    });
+
+    const updatedRefund = await tx.refund.update({
+      where: { id: refund.id },
+      data: {
+        status: RefundStatus.COMPLETED,
+        gatewayRefundId,
+        completedAt: new Date()
+      },
+      include: { items: true }
+    });
+
+    const { refundedAmount, refundedQuantities } = await getRefundSummary(tx, orderId);
+
+    // Lines refunded in full count as returned
+    for (const line of lines) {
+      if ((refundedQuantities.get(line.item.id) ?? 0) >= line.item.quantity) {
+        await tx.orderItem.update({
+          where: { id: line.item.id },
+          data: { isReturned: true, returnReason: input.reason ?? line.item.returnReason }
+        });
+      }
+    }
+
+    const fullyRefunded = refundedAmount >= toPriceNumber(order.total);
+    const nextStatus = fullyRefunded ? OrderStatus.REFUNDED : OrderStatus.PARTIALLY_REFUNDED;
+    const paymentData = fullyRefunded ? { paymentStatus: PaymentStatus.REFUNDED } : {};
+
+    const method = input.method === RefundMethod.GATEWAY ? 'درگاه پرداخت' : `واریز بانکی (${input.bankReference})`;
+    const comment = `بازپرداخت ${amount} ریال از طریق ${method}` +
+      (input.restock ? ' و بازگشت اقلام به انبار' : '') +
+      (input.reason ? ` - ${input.reason}` : '');
+
+    let transition: AppliedTransition | null = null;
+    if (canTransition(current.status, nextStatus, 'SYSTEM')) {
+      transition = await applyOrderTransition(tx, current, nextStatus, {
+        actor: 'SYSTEM',
+        comment,
+        data: paymentData
+      });
+    } else {
+      // The money has moved either way; leave the status for someone to look at
+      await tx.order.update({
+        where: { id: orderId },
+        data: {
+          ...paymentData,
+          history: {
+            create: {
+              status: current.status,
+              comment: `${comment} (وضعیت سفارش اجازه ثبت آن را نمی‌دهد)`
+            }
+          }
+        }
+      });
+    }
+
+    // Returned units go back on the shelf, unless a cancellation already put them there
+    const restockedProductIds = input.restock
+      ? await restockCommittedItems(tx, orderId, lines
+        .filter(line => line.item.variantId)
+        .map(line => ({
+          productId: line.item.productId,
+          variantId: line.item.variantId as string,
+          quantity: line.quantity
+        })))
+      : [];
+
+    const updatedOrder = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      select: { id: true, status: true, paymentStatus: true, total: true }
+    });
+
+    return {
+      result: {
+        refund: updatedRefund,
+        order: updatedOrder,
+        refundedAmount,
+        remainingAmount: Math.max(0, toPriceNumber(order.total) - refundedAmount)
+      },
+      transition,
+      restockedProductIds
+    };
+  });
+
+  if (completed.transition) {
+    await runTransitionEffects(completed.transition);
+  }
+  await syncProductStock(completed.restockedProductIds);
+
+  return completed.result;
+}
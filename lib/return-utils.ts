@@ -0,0 +1,498 @@
+import {
+  MessageType,
+  OrderStatus,
+  Prisma,
+  RefundMethod,
+  ReturnResolution,
+  ReturnStatus,
+  TicketCategory,
+  TicketStatus
+} from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import prisma from './prisma';
+import { refundOrder } from './refund-utils';
+import { deductStock, restockCommittedItems, syncProductStock } from './stock-utils';
+import { notifyLowStock } from './stock-alerts';
+import { publishTicketMessage, publishTicketStatus } from './realtime-events';
+
+// Days after delivery during which a customer may ask for a return
+export const RETURN_WINDOW_DAYS = Number(process.env.RETURN_WINDOW_DAYS) || 7;
+
+export type ReturnErrorCode =
+  | 'ORDER_NOT_FOUND'
+  | 'ORDER_NOT_DELIVERED'
+  | 'RETURN_WINDOW_CLOSED'
+  | 'ITEM_NOT_FOUND'
+  | 'ITEM_QUANTITY_EXCEEDED'
+  | 'EXCHANGE_VARIANT_REQUIRED'
+  | 'EXCHANGE_VARIANT_INVALID'
+  | 'PHOTO_NOT_FOUND'
+  | 'RETURN_NOT_FOUND'
+  | 'INVALID_STATE';
+
+const RETURN_MESSAGES: Record<ReturnErrorCode, string> = {
+  ORDER_NOT_FOUND: 'سفارش یافت نشد',
+  ORDER_NOT_DELIVERED: 'فقط سفارش‌های تحویل‌شده قابل مرجوع کردن هستند',
+  RETURN_WINDOW_CLOSED: `مهلت ${RETURN_WINDOW_DAYS} روزه مرجوع کردن این سفارش به پایان رسیده است`,
+  ITEM_NOT_FOUND: 'برخی از اقلام انتخاب‌شده متعلق به این سفارش نیستند',
+  ITEM_QUANTITY_EXCEEDED: 'تعداد درخواستی از تعداد قابل مرجوع کردن بیشتر است',
+  EXCHANGE_VARIANT_REQUIRED: 'برای تعویض، انتخاب مدل جایگزین الزامی است',
+  EXCHANGE_VARIANT_INVALID: 'مدل جایگزین انتخاب‌شده معتبر نیست',
+  PHOTO_NOT_FOUND: 'برخی از تصاویر ارسال‌شده یافت نشدند',
+  RETURN_NOT_FOUND: 'درخواست مرجوعی یافت نشد',
+  INVALID_STATE: 'این عملیات در وضعیت فعلی درخواست مرجوعی امکان‌پذیر نیست'
+};
+
+export class ReturnError extends Error {
+  constructor(public code: ReturnErrorCode, public details?: Record<string, unknown>) {
+    super(RETURN_MESSAGES[code]);
+    this.name = 'ReturnError';
+  }
+}
+
+export const returnCreateSchema = z.object({
+  orderId: z.string().min(1, 'شناسه سفارش الزامی است'),
+  resolution: z.nativeEnum(ReturnResolution),
+  reason: z.string().trim().min(3, 'دلیل مرجوعی الزامی است').max(500),
+  description: z.string().trim().max(2000).optional(),
+  items: z.array(z.object({
+    orderItemId: z.string().min(1),
+    quantity: z.number().int().min(1),
+    exchangeVariantId: z.string().optional()
+  })).min(1, 'حداقل یک کالا باید انتخاب شود'),
+  // Ids returned by /api/media/upload
+  photoIds: z.array(z.string()).max(5, 'حداکثر ۵ تصویر مجاز است').default([])
+});
+
+const refundOptionsSchema = {
+  method: z.nativeEnum(RefundMethod).default(RefundMethod.GATEWAY),
+  bankReference: z.string().trim().min(1).max(100).optional()
+};
+
+export const returnActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('approve'),
+    note: z.string().trim().max(1000).optional(),
+    // Refund straight away instead of waiting for the parcel
+    refundNow: z.boolean().default(false),
+    ...refundOptionsSchema
+  }),
+  z.object({
+    action: z.literal('reject'),
+    note: z.string().trim().min(1, 'دلیل رد درخواست الزامی است').max(1000)
+  }),
+  z.object({
+    action: z.literal('receive'),
+    note: z.string().trim().max(1000).optional(),
+    restock: z.boolean().default(true),
+    ...refundOptionsSchema
+  })
+]).refine(
+  data => data.action === 'reject' || data.method !== RefundMethod.BANK_TRANSFER || !!data.bankReference,
+  { message: 'شماره پیگیری واریز بانکی الزامی است', path: ['bankReference'] }
+);
+
+export type ReturnCreateInput = z.infer<typeof returnCreateSchema>;
+export type ReturnAction = z.infer<typeof returnActionSchema>;
+
+// Returns that still hold on to their items
+const OPEN_RETURN_STATUSES: ReturnStatus[] = [
+  ReturnStatus.REQUESTED,
+  ReturnStatus.APPROVED,
+  ReturnStatus.RECEIVED,
+  ReturnStatus.REFUNDED,
+  ReturnStatus.EXCHANGED
+];
+
+export const returnRequestInclude = {
+  items: {
+    include: {
+      orderItem: {
+        select: { id: true, productName: true, variantName: true, sku: true, quantity: true, price: true }
+      },
+      exchangeVariant: {
+        select: { id: true, sku: true, size: true, color: true }
+      }
+    }
+  },
+  photos: {
+    include: {
+      media: { select: { id: true, url: true, width: true, height: true } }
+    }
+  },
+  order: { select: { id: true, orderNumber: true, status: true } },
+  ticket: { select: { id: true, status: true } },
+  refund: { select: { id: true, amount: true, method: true, status: true } }
+} satisfies Prisma.ReturnRequestInclude;
+
+const generateRmaNumber = () => `RMA-${uuidv4().replace(/-/g, '').toUpperCase().substring(0, 10)}`;
+
+// A partial refund from an earlier return leaves the rest of the order returnable
+const RETURNABLE_ORDER_STATUSES: OrderStatus[] = [OrderStatus.DELIVERED, OrderStatus.PARTIALLY_REFUNDED];
+
+/**
+ * When the return window of an order started, or null if it was never delivered.
+ * Orders delivered before deliveredAt existed fall back to their DELIVERED history entry.
+ */
+async function getDeliveryDate(
+  tx: Prisma.TransactionClient,
+  order: { id: string; status: OrderStatus; deliveredAt: Date | null; updatedAt: Date }
+) {
+  if (order.deliveredAt) return order.deliveredAt;
+
+  const delivered = await tx.orderHistory.findFirst({
+    where: { orderId: order.id, status: OrderStatus.DELIVERED },
+    orderBy: { createdAt: 'desc' },
+    select: { createdAt: true }
+  });
+
+  if (delivered) return delivered.createdAt;
+  return order.status === OrderStatus.DELIVERED ? order.updatedAt : null;
+}
+
+/**
+ * Opens a return for a customer's delivered order and a linked support ticket
+ */
+export async function createReturnRequest(userId: number, input: ReturnCreateInput) {
+  return prisma.$transaction(async (tx) => {
+    const order = await tx.order.findFirst({
+      where: { id: input.orderId, userId },
+      include: { items: true }
+    });
+
+    if (!order) {
+      throw new ReturnError('ORDER_NOT_FOUND');
+    }
+    const deliveredAt = RETURNABLE_ORDER_STATUSES.includes(order.status)
+      ? await getDeliveryDate(tx, order)
+      : null;
+    if (!deliveredAt) {
+      throw new ReturnError('ORDER_NOT_DELIVERED', { status: order.status });
+    }
+
+    const deadline = new Date(deliveredAt.getTime() + RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    if (deadline < new Date()) {
+      throw new ReturnError('RETURN_WINDOW_CLOSED', { deadline: deadline.toISOString() });
+    }
+
+    // Units already claimed by another open return can't be returned twice
+    const claimed = await tx.returnRequestItem.groupBy({
+      by: ['orderItemId'],
+      where: {
+        returnRequest: { orderId: order.id, status: { in: OPEN_RETURN_STATUSES } }
+      },
+      _sum: { quantity: true }
+    });
+    const claimedQuantities = new Map(claimed.map(row => [row.orderItemId, row._sum.quantity ?? 0]));
+
+    for (const requested of input.items) {
+      const item = order.items.find(orderItem => orderItem.id === requested.orderItemId);
+      if (!item) {
+        throw new ReturnError('ITEM_NOT_FOUND', { orderItemId: requested.orderItemId });
+      }
+
+      const remaining = item.quantity - (claimedQuantities.get(item.id) ?? 0);
+      if (requested.quantity > remaining) {
+        throw new ReturnError('ITEM_QUANTITY_EXCEEDED', {
+          orderItemId: item.id,
+          requested: requested.quantity,
+          remaining
+        });
+      }
+
+      if (input.resolution === ReturnResolution.EXCHANGE) {
+        if (!requested.exchangeVariantId) {
+          throw new ReturnError('EXCHANGE_VARIANT_REQUIRED', { orderItemId: item.id });
+        }
+
+        // Exchanges stay within the same product, e.g. another size or colour
+        const variant = await tx.variant.findFirst({
+          where: { id: requested.exchangeVariantId, productId: item.productId, isActive: true },
+          select: { id: true }
+        });
+        if (!variant) {
+          throw new ReturnError('EXCHANGE_VARIANT_INVALID', { orderItemId: item.id });
+        }
+      }
+    }
+
+    if (input.photoIds.length > 0) {
+      const photos = await tx.media.count({
+        where: { id: { in: input.photoIds }, mimeType: { startsWith: 'image/' } }
+      });
+      if (photos !== new Set(input.photoIds).size) {
+        throw new ReturnError('PHOTO_NOT_FOUND');
+      }
+    }
+
+    const rmaNumber = generateRmaNumber();
+
+    const ticket = await tx.ticket.create({
+      data: {
+        subject: `درخواست مرجوعی ${rmaNumber} - سفارش ${order.orderNumber}`,
+        description: [input.reason, input.description].filter(Boolean).join('\n\n'),
+        category: TicketCategory.RETURN_REQUEST,
+        userId
+      }
+    });
+
+    return tx.returnRequest.create({
+      data: {
+        rmaNumber,
+        orderId: order.id,
+        userId,
+        resolution: input.resolution,
+        reason: input.reason,
+        description: input.description,
+        ticketId: ticket.id,
+        items: {
+          create: input.items.map(item => ({
+            orderItemId: item.orderItemId,
+            quantity: item.quantity,
+            exchangeVariantId: input.resolution === ReturnResolution.EXCHANGE ? item.exchangeVariantId : null
+          }))
+        },
+        photos: {
+          create: [...new Set(input.photoIds)].map(mediaId => ({ mediaId }))
+        }
+      },
+      include: returnRequestInclude
+    });
+  });
+}
+
+// Posts an update from the shop into the return's support ticket
+async function notifyTicket(ticketId: string | null, content: string, status?: TicketStatus) {
+  if (!ticketId) return;
+
+  const ticket = await prisma.ticket.update({
+    where: { id: ticketId },
+    data: {
+      ...(status && { status }),
+      ...(status === TicketStatus.RESOLVED && { resolvedAt: new Date() }),
+      ...(status === TicketStatus.CLOSED && { closedAt: new Date() }),
+      messages: {
+        create: { content, type: MessageType.SYSTEM }
+      }
+    },
+    select: {
+      id: true,
+      userId: true,
+      assignedToId: true,
+      status: true,
+      messages: { orderBy: { createdAt: 'desc' }, take: 1 }
+    }
+  });
+
+  if (ticket.messages[0]) await publishTicketMessage(ticket, ticket.messages[0]);
+  if (status) await publishTicketStatus(ticket);
+}
+
+/**
+ * Moves a return through review and receipt.
+ *
+ * approve: REQUESTED → APPROVED, or straight to REFUNDED with `refundNow`
+ * reject:  REQUESTED → REJECTED
+ * receive: APPROVED (or refunded early) → RECEIVED, then REFUNDED or EXCHANGED
+ *
+ * The status change is claimed with a conditional update before any money
+ * or stock moves, so of two concurrent calls only one gets past the claim.
+ * If the refund or stock change then fails, the claim is handed back.
+ *
+ * @returns The updated return and a summary line for the order history
+ */
+export async function applyReturnAction(id: string, action: ReturnAction, adminId: number) {
+  const returnRequest = await prisma.returnRequest.findUnique({
+    where: { id },
+    include: { items: { include: { orderItem: true } } }
+  });
+
+  if (!returnRequest) {
+    throw new ReturnError('RETURN_NOT_FOUND');
+  }
+
+  // Only moves the return if it is still in `from` (and not yet received)
+  const claim = async (from: ReturnStatus, data: Prisma.ReturnRequestUncheckedUpdateManyInput) => {
+    const claimed = await prisma.returnRequest.updateMany({
+      where: { id, status: from, receivedAt: null },
+      data
+    });
+    if (claimed.count !== 1) {
+      throw new ReturnError('INVALID_STATE', { status: returnRequest.status });
+    }
+  };
+
+  // Puts the return back as it was before a claim whose side effects failed
+  const release = async (claimed: ReturnStatus) => {
+    await prisma.returnRequest.updateMany({
+      where: { id, status: claimed },
+      data: {
+        status: returnRequest.status,
+        adminNote: returnRequest.adminNote,
+        reviewedById: returnRequest.reviewedById,
+        reviewedAt: returnRequest.reviewedAt,
+        receivedAt: returnRequest.receivedAt
+      }
+    });
+  };
+
+  const refundReturnedItems = async (restock: boolean, method: RefundMethod, bankReference?: string) => {
+    const result = await refundOrder(returnRequest.orderId, {
+      items: returnRequest.items.map(item => ({ orderItemId: item.orderItemId, quantity: item.quantity })),
+      method,
+      bankReference,
+      restock,
+      reason: `${returnRequest.rmaNumber}: ${returnRequest.reason}`
+    }, adminId);
+    return result.refund.id;
+  };
+
+  // Returned units come out of the order's committed stock, so they can't be restocked twice
+  const restockReturnedUnits = async () => {
+    const productIds = await prisma.$transaction(tx => restockCommittedItems(
+      tx,
+      returnRequest.orderId,
+      returnRequest.items
+        .filter(item => item.orderItem.variantId)
+        .map(item => ({
+          productId: item.orderItem.productId,
+          variantId: item.orderItem.variantId as string,
+          quantity: item.quantity
+        }))
+    ));
+    await syncProductStock(productIds);
+  };
+
+  let data: Prisma.ReturnRequestUncheckedUpdateInput = {};
+  let summary: string;
+  let ticketStatus: TicketStatus | undefined;
+
+  switch (action.action) {
+    case 'approve': {
+      if (returnRequest.status !== ReturnStatus.REQUESTED) {
+        throw new ReturnError('INVALID_STATE', { status: returnRequest.status });
+      }
+
+      const review = {
+        adminNote: action.note,
+        reviewedById: adminId,
+        reviewedAt: new Date()
+      };
+      summary = `درخواست مرجوعی ${returnRequest.rmaNumber} تأیید شد`;
+      ticketStatus = TicketStatus.IN_PROGRESS;
+
+      if (action.refundNow && returnRequest.resolution === ReturnResolution.REFUND) {
+        await claim(ReturnStatus.REQUESTED, { ...review, status: ReturnStatus.REFUNDED });
+        try {
+          const refundId = await refundReturnedItems(false, action.method, action.bankReference);
+          data = { refundId };
+        } catch (error) {
+          await release(ReturnStatus.REFUNDED);
+          throw error;
+        }
+        summary += ' و مبلغ آن بازپرداخت شد';
+      } else {
+        await claim(ReturnStatus.REQUESTED, { ...review, status: ReturnStatus.APPROVED });
+      }
+      break;
+    }
+
+    case 'reject': {
+      if (returnRequest.status !== ReturnStatus.REQUESTED) {
+        throw new ReturnError('INVALID_STATE', { status: returnRequest.status });
+      }
+
+      await claim(ReturnStatus.REQUESTED, {
+        status: ReturnStatus.REJECTED,
+        adminNote: action.note,
+        reviewedById: adminId,
+        reviewedAt: new Date(),
+        completedAt: new Date()
+      });
+      summary = `درخواست مرجوعی ${returnRequest.rmaNumber} رد شد: ${action.note}`;
+      ticketStatus = TicketStatus.RESOLVED;
+      break;
+    }
+
+    case 'receive': {
+      const refundedEarly = returnRequest.status === ReturnStatus.REFUNDED && !returnRequest.receivedAt;
+      if (returnRequest.status !== ReturnStatus.APPROVED && !refundedEarly) {
+        throw new ReturnError('INVALID_STATE', { status: returnRequest.status });
+      }
+
+      await claim(returnRequest.status, {
+        status: ReturnStatus.RECEIVED,
+        receivedAt: new Date(),
+        ...(action.note && { adminNote: action.note })
+      });
+      summary = `کالاهای مرجوعی ${returnRequest.rmaNumber} دریافت شد`;
+
+      try {
+        if (returnRequest.resolution === ReturnResolution.REFUND) {
+          if (refundedEarly) {
+            if (action.restock) await restockReturnedUnits();
+          } else {
+            const refundId = await refundReturnedItems(action.restock, action.method, action.bankReference);
+            data = { refundId };
+          }
+          data = { ...data, status: ReturnStatus.REFUNDED, completedAt: new Date() };
+          summary += ' و مبلغ آن بازپرداخت شد';
+        } else {
+          // Ship the replacement before the returned units are back on sale
+          await deductStock(returnRequest.items.map(item => ({
+            productId: item.orderItem.productId,
+            variantId: item.exchangeVariantId as string,
+            quantity: item.quantity
+          })));
+          await notifyLowStock(returnRequest.items.map(item => item.orderItem.productId));
+          if (action.restock) await restockReturnedUnits();
+
+          data = { status: ReturnStatus.EXCHANGED, completedAt: new Date() };
+          summary += ' و کالای جایگزین ارسال می‌شود';
+        }
+      } catch (error) {
+        await release(ReturnStatus.RECEIVED);
+        throw error;
+      }
+      ticketStatus = TicketStatus.RESOLVED;
+      break;
+    }
+  }
+
+  const updated = await prisma.returnRequest.update({
+    where: { id },
+    data,
+    include: returnRequestInclude
+  });
+
+  await notifyTicket(returnRequest.ticketId, summary, ticketStatus);
+
+  return { returnRequest: updated, summary };
+}
+
+/**
+ * Lets a customer withdraw a return that hasn't been reviewed yet
+ */
+export async function cancelReturnRequest(id: string, userId: number) {
+  const cancelled = await prisma.returnRequest.updateMany({
+    where: { id, userId, status: ReturnStatus.REQUESTED },
+    data: { status: ReturnStatus.CANCELLED, completedAt: new Date() }
+  });
+
+  const returnRequest = await prisma.returnRequest.findFirst({
+    where: { id, userId },
+    include: returnRequestInclude
+  });
+
+  if (!returnRequest) {
+    throw new ReturnError('RETURN_NOT_FOUND');
+  }
+  if (cancelled.count === 0) {
+    throw new ReturnError('INVALID_STATE', { status: returnRequest.status });
+  }
+
+  await notifyTicket(returnRequest.ticketId, `درخواست مرجوعی ${returnRequest.rmaNumber} توسط مشتری لغو شد`, TicketStatus.CLOSED);
+
+  return returnRequest;
+}
@@ -1,140 +1,462 @@
 import prisma from './prisma';
-import { generateToken, verifyToken, UserType } from './auth';
-import { NextRequest } from 'next/server';
-import { Prisma } from '@prisma/client';
+import { generateToken, ACCESS_TOKEN_TTL_SECONDS } from './auth';
+import { Errors } from './error-handler';
+import { getRequestIp } from './payment-utils';
+import { DeviceInfo, parseUserAgent } from './user-agent';
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminRole, Prisma } from '@prisma/client';
+import { randomBytes, randomUUID } from 'crypto';
 
-const TOKEN_NAMES = {
-  USER: 'user_auth_token',
-  ADMIN: 'admin_auth_token'
+// How long a login lasts without activity; each refresh starts the period again
+export const USER_REFRESH_TOKEN_TTL_DAYS = Number(process.env.USER_REFRESH_TOKEN_TTL_DAYS) || 30;
+export const ADMIN_REFRESH_TOKEN_TTL_HOURS = Number(process.env.ADMIN_REFRESH_TOKEN_TTL_HOURS) || 8;
+
+// Access tokens keep the cookie names routes already read
+const COOKIE_NAMES = {
+  USER: { access: 'auth_token', refresh: 'refresh_token' },
+  ADMIN: { access: 'adminToken', refresh: 'adminRefreshToken' }
+} as const;
+
+// Refresh cookies are only sent to the endpoints that exchange or revoke them
+const REFRESH_COOKIE_PATHS = {
+  USER: '/api/users',
+  ADMIN: '/api/admin'
 } as const;
 
+const MESSAGES = {
+  INVALID_REFRESH_TOKEN: 'نشست شما منقضی شده است. لطفاً دوباره وارد شوید.',
+  REFRESH_TOKEN_REUSED: 'این نشست به دلیل استفاده مجدد از توکن باطل شد. لطفاً دوباره وارد شوید.'
+} as const;
+
+export interface SessionClient {
+  ipAddress: string;
+  userAgent: string;
+}
+
+// A login as shown to its owner; `id` is the session family, stable across refreshes
+export interface SessionSummary {
+  id: string;
+  current: boolean;
+  device: DeviceInfo;
+  userAgent: string | null;
+  ipAddress: string;
+  location: string | null;
+  signedInAt: Date;
+  lastActiveAt: Date;
+  expiresAt: Date;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  // Seconds until the access token expires
+  expiresIn: number;
+  refreshExpiresAt: Date;
+}
 
+export function getSessionClient(request: Request): SessionClient {
+  return {
+    ipAddress: (getRequestIp(request) || 'unknown').slice(0, 45),
+    userAgent: (request.headers.get('user-agent') || '').slice(0, 255)
+  };
+}
 
-export async function createUserSession(userId: number, ipAddress: string, userAgent: string = '') {
-  const token = generateToken(userId, 'USER' as UserType);
-  const expiresAt = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000); // 30 days
+function userRefreshExpiry(): Date {
+  return new Date(Date.now() + USER_REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
 
-  // Create user session in database
-  const session = await prisma.userSession.create({
+function adminRefreshExpiry(): Date {
+  return new Date(Date.now() + ADMIN_REFRESH_TOKEN_TTL_HOURS * 60 * 60 * 1000);
+}
+
+function generateRefreshToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Starts a new user session family and returns its first token pair
+ */
+export async function createUserSession(userId: number, client: SessionClient): Promise<SessionTokens> {
+  const familyId = randomUUID();
+  const refreshToken = generateRefreshToken();
+  const refreshExpiresAt = userRefreshExpiry();
+
+  await prisma.userSession.create({
     data: {
-      tokenHash: await hashToken(token),
-      ipAddress,
-      userAgent: userAgent || '',
-      expiresAt,
+      tokenHash: await hashToken(refreshToken),
+      familyId,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+      expiresAt: refreshExpiresAt,
       userId,
       isActive: true
     }
   });
 
-  // Return the token and session, let the route handler create the response
-  return { token, session };
+  return {
+    accessToken: generateToken({ userId }, 'USER', familyId),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    refreshExpiresAt
+  };
 }
 
-export async function createAdminSession(adminId: number, ipAddress: string, userAgent: string = '') {
-  const token = generateToken(adminId, 'ADMIN' as UserType);
-  const expiresAt = new Date(Date.now() + 8 * 60 * 60 * 1000); // 8 hours for admin
+/**
+ * Starts a new admin session family and returns its first token pair
+ */
+export async function createAdminSession(
+  admin: { id: number; role: AdminRole },
+  client: SessionClient
+): Promise<SessionTokens> {
+  const familyId = randomUUID();
+  const refreshToken = generateRefreshToken();
+  const refreshExpiresAt = adminRefreshExpiry();
 
-  // Create admin session in database
-  const session = await prisma.adminSession.create({
+  await prisma.adminSession.create({
     data: {
-      tokenHash: await hashToken(token),
-      ipAddress,
-      userAgent: userAgent || '',
-      expiresAt,
-      adminId,
+      tokenHash: await hashToken(refreshToken),
+      familyId,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+      expiresAt: refreshExpiresAt,
+      adminId: admin.id,
       isValid: true
     }
   });
 
-  // Return the token and session, let the route handler create the response
-  return { token, session };
+  return {
+    accessToken: generateToken({ adminId: admin.id }, admin.role, familyId),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    refreshExpiresAt
+  };
 }
 
-export async function verifyUserSession(token: string) {
-  try {
-    const payload = verifyToken(token);
-    if (!payload || payload.role !== 'USER') return null;
+/**
+ * Exchanges a user refresh token for a new pair. The old refresh token is
+ * spent; if it is ever presented again it was stolen or replayed, and the
+ * whole family is revoked. Access tokens already issued to the family stay
+ * valid until they expire, at most ACCESS_TOKEN_TTL_SECONDS.
+ */
+export async function refreshUserSession(refreshToken: string, client: SessionClient): Promise<SessionTokens> {
+  const now = new Date();
+  const session = await prisma.userSession.findFirst({
+    where: { tokenHash: await hashToken(refreshToken) },
+    include: { user: { select: { status: true } } }
+  });
 
-    const session = await prisma.userSession.findFirst({
-      where: {
-        tokenHash: await hashToken(token),
-        isActive: true,
-        expiresAt: { gt: new Date() },
-        userId: payload.userId
-      }
-    });
+  if (!session) {
+    throw Errors.unauthorized(MESSAGES.INVALID_REFRESH_TOKEN);
+  }
+  if (session.rotatedAt) {
+    await invalidateUserSession(session.userId, session.familyId);
+    throw Errors.unauthorized(MESSAGES.REFRESH_TOKEN_REUSED);
+  }
+  if (!session.isActive || session.expiresAt <= now || session.user.status !== 'ACTIVE') {
+    throw Errors.unauthorized(MESSAGES.INVALID_REFRESH_TOKEN);
+  }
 
-    if (session) {
-      // Update last activity
-      await prisma.userSession.update({
-        where: { id: session.id },
-        data: { lastActivityAt: new Date() }
-      });
-      return { userId: payload.userId, role: 'USER' as const, sessionId: session.id };
-    }
-    return null;
-  } catch (error) {
-    console.error('Session verification failed:', error);
-    return null;
+  // Conditional so two requests racing with the same token can't both rotate it
+  const claimed = await prisma.userSession.updateMany({
+    where: { id: session.id, rotatedAt: null, isActive: true },
+    data: { rotatedAt: now, isActive: false }
+  });
+  if (claimed.count === 0) {
+    await invalidateUserSession(session.userId, session.familyId);
+    throw Errors.unauthorized(MESSAGES.REFRESH_TOKEN_REUSED);
   }
+
+  const nextRefreshToken = generateRefreshToken();
+  const refreshExpiresAt = userRefreshExpiry();
+
+  await prisma.userSession.create({
+    data: {
+      tokenHash: await hashToken(nextRefreshToken),
+      familyId: session.familyId,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+      deviceId: session.deviceId,
+      location: session.location,
+      expiresAt: refreshExpiresAt,
+      userId: session.userId,
+      isActive: true
+    }
+  });
+
+  return {
+    accessToken: generateToken({ userId: session.userId }, 'USER', session.familyId),
+    refreshToken: nextRefreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    refreshExpiresAt
+  };
 }
 
-export async function verifyAdminSession(token: string) {
-  try {
-    const payload = verifyToken(token);
-    if (!payload || payload.role !== 'ADMIN') return null;
+/**
+ * Admin counterpart of refreshUserSession. The new access token carries the
+ * admin's current role, so role changes apply from the next refresh.
+ */
+export async function refreshAdminSession(refreshToken: string, client: SessionClient): Promise<SessionTokens> {
+  const now = new Date();
+  const session = await prisma.adminSession.findFirst({
+    where: { tokenHash: await hashToken(refreshToken) },
+    include: { admin: { select: { role: true, isActive: true, deletedAt: true } } }
+  });
 
-    const session = await prisma.adminSession.findFirst({
-      where: {
-        tokenHash: await hashToken(token),
-        isValid: true,
-        expiresAt: { gt: new Date() },
-        adminId: payload.userId
-      }
-    });
+  if (!session) {
+    throw Errors.unauthorized(MESSAGES.INVALID_REFRESH_TOKEN);
+  }
+  if (session.rotatedAt) {
+    await invalidateAdminSession(session.adminId, session.familyId);
+    throw Errors.unauthorized(MESSAGES.REFRESH_TOKEN_REUSED);
+  }
+  if (!session.isValid || session.expiresAt <= now || !session.admin.isActive || session.admin.deletedAt) {
+    throw Errors.unauthorized(MESSAGES.INVALID_REFRESH_TOKEN);
+  }
+
+  const claimed = await prisma.adminSession.updateMany({
+    where: { id: session.id, rotatedAt: null, isValid: true },
+    data: { rotatedAt: now, isValid: false }
+  });
+  if (claimed.count === 0) {
+    await invalidateAdminSession(session.adminId, session.familyId);
+    throw Errors.unauthorized(MESSAGES.REFRESH_TOKEN_REUSED);
+  }
+
+  const nextRefreshToken = generateRefreshToken();
+  const refreshExpiresAt = adminRefreshExpiry();
+
+  await prisma.adminSession.create({
+    data: {
+      tokenHash: await hashToken(nextRefreshToken),
+      familyId: session.familyId,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+      expiresAt: refreshExpiresAt,
+      adminId: session.adminId,
+      isValid: true
+    }
+  });
 
-    return session ? { userId: payload.userId, role: 'ADMIN' as const, sessionId: session.id } : null;
-  } catch (error) {
-    console.error('Admin session verification failed:', error);
-    return null;
+  return {
+    accessToken: generateToken({ adminId: session.adminId }, session.admin.role, session.familyId),
+    refreshToken: nextRefreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    refreshExpiresAt
+  };
+}
+
+/**
+ * Ends the session family a refresh token belongs to, e.g. on logout when
+ * the access token has already expired
+ */
+export async function revokeUserRefreshToken(refreshToken: string) {
+  const session = await prisma.userSession.findFirst({
+    where: { tokenHash: await hashToken(refreshToken) },
+    select: { userId: true, familyId: true }
+  });
+  if (session) {
+    await invalidateUserSession(session.userId, session.familyId);
+  }
+}
+
+export async function revokeAdminRefreshToken(refreshToken: string) {
+  const session = await prisma.adminSession.findFirst({
+    where: { tokenHash: await hashToken(refreshToken) },
+    select: { adminId: true, familyId: true }
+  });
+  if (session) {
+    await invalidateAdminSession(session.adminId, session.familyId);
   }
 }
 
-export async function invalidateUserSession(userId: number, sessionId?: string) {
-  // Build the where clause based on whether we have a sessionId
-  const whereClause: Prisma.UserSessionWhereInput = sessionId 
-    ? { id: sessionId, userId }
+/**
+ * Revokes one session family, or every session of the user without `familyId`.
+ * Only the latest row of a family is still active, so this counts devices.
+ *
+ * @returns How many sessions were revoked; 0 when there was nothing to revoke
+ */
+export async function invalidateUserSession(userId: number, familyId?: string): Promise<number> {
+  const whereClause: Prisma.UserSessionWhereInput = familyId
+    ? { familyId, userId }
     : { userId };
 
-  // Deactivate the session(s)
-  await prisma.userSession.updateMany({
-    where: whereClause,
+  const { count } = await prisma.userSession.updateMany({
+    where: { ...whereClause, isActive: true },
     data: { isActive: false }
   });
+  return count;
 }
 
-export async function invalidateAdminSession(adminId: number, sessionId?: string) {
-  // Build the where clause with proper typing for Prisma
-  const whereClause: Prisma.AdminSessionWhereInput = sessionId 
-    ? { 
-        id: parseInt(sessionId, 10), // Convert string ID to number
-        adminId: { equals: adminId } 
-      }
-    : { adminId: { equals: adminId } };
+export async function invalidateAdminSession(adminId: number, familyId?: string): Promise<number> {
+  const whereClause: Prisma.AdminSessionWhereInput = familyId
+    ? { familyId, adminId }
+    : { adminId };
 
-  // Deactivate the session(s)
-  await prisma.adminSession.updateMany({
-    where: whereClause,
+  const { count } = await prisma.adminSession.updateMany({
+    where: { ...whereClause, isValid: true },
     data: { isValid: false }
   });
+  return count;
+}
+
+/**
+ * Revokes every session of the user except `currentFamilyId`
+ *
+ * @returns How many session families were revoked
+ */
+export async function invalidateOtherUserSessions(userId: number, currentFamilyId: string): Promise<number> {
+  const { count } = await prisma.userSession.updateMany({
+    where: { userId, isActive: true, familyId: { not: currentFamilyId } },
+    data: { isActive: false }
+  });
+  return count;
+}
+
+export async function invalidateOtherAdminSessions(adminId: number, currentFamilyId: string): Promise<number> {
+  const { count } = await prisma.adminSession.updateMany({
+    where: { adminId, isValid: true, familyId: { not: currentFamilyId } },
+    data: { isValid: false }
+  });
+  return count;
+}
+
+// When each family was first signed in, since rotation gives the live row a later createdAt
+async function familyStartTimes(
+  families: string[],
+  model: 'user' | 'admin'
+): Promise<Map<string, Date>> {
+  const groups = model === 'user'
+    ? await prisma.userSession.groupBy({
+      by: ['familyId'],
+      where: { familyId: { in: families } },
+      _min: { createdAt: true }
+    })
+    : await prisma.adminSession.groupBy({
+      by: ['familyId'],
+      where: { familyId: { in: families } },
+      _min: { createdAt: true }
+    });
+
+  return new Map(groups.map(group => [group.familyId, group._min.createdAt as Date]));
+}
+
+/**
+ * The user's live sessions, most recently active first. `currentFamilyId` is
+ * the session of the request, flagged as `current`.
+ */
+export async function listUserSessions(userId: number, currentFamilyId?: string): Promise<SessionSummary[]> {
+  const sessions = await prisma.userSession.findMany({
+    where: { userId, isActive: true, expiresAt: { gt: new Date() } },
+    orderBy: { lastActivityAt: 'desc' }
+  });
+  const startTimes = await familyStartTimes(sessions.map(session => session.familyId), 'user');
+
+  return sessions.map(session => ({
+    id: session.familyId,
+    current: session.familyId === currentFamilyId,
+    device: parseUserAgent(session.userAgent),
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    location: session.location,
+    signedInAt: startTimes.get(session.familyId) ?? session.createdAt,
+    lastActiveAt: session.lastActivityAt,
+    expiresAt: session.expiresAt
+  }));
+}
+
+/**
+ * Admin counterpart of listUserSessions. The live row of a family is created
+ * on each refresh, so its createdAt is the last activity.
+ */
+export async function listAdminSessions(adminId: number, currentFamilyId?: string): Promise<SessionSummary[]> {
+  const sessions = await prisma.adminSession.findMany({
+    where: { adminId, isValid: true, expiresAt: { gt: new Date() } },
+    orderBy: { createdAt: 'desc' }
+  });
+  const startTimes = await familyStartTimes(sessions.map(session => session.familyId), 'admin');
+
+  return sessions.map(session => ({
+    id: session.familyId,
+    current: session.familyId === currentFamilyId,
+    device: parseUserAgent(session.userAgent),
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    location: null,
+    signedInAt: startTimes.get(session.familyId) ?? session.createdAt,
+    lastActiveAt: session.createdAt,
+    expiresAt: session.expiresAt
+  }));
+}
+
+function setAuthCookies(response: NextResponse, type: 'USER' | 'ADMIN', tokens: SessionTokens) {
+  const secure = process.env.NODE_ENV === 'production';
+
+  response.cookies.set({
+    name: COOKIE_NAMES[type].access,
+    value: tokens.accessToken,
+    httpOnly: true,
+    secure,
+    sameSite: 'strict',
+    maxAge: tokens.expiresIn,
+    path: '/'
+  });
+  response.cookies.set({
+    name: COOKIE_NAMES[type].refresh,
+    value: tokens.refreshToken,
+    httpOnly: true,
+    secure,
+    sameSite: 'strict',
+    expires: tokens.refreshExpiresAt,
+    path: REFRESH_COOKIE_PATHS[type]
+  });
+}
+
+function clearAuthCookies(response: NextResponse, type: 'USER' | 'ADMIN') {
+  const options = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict' as const,
+    maxAge: 0
+  };
+
+  response.cookies.set(COOKIE_NAMES[type].access, '', { ...options, path: '/' });
+  response.cookies.set(COOKIE_NAMES[type].refresh, '', { ...options, path: REFRESH_COOKIE_PATHS[type] });
+}
+
+export function setUserAuthCookies(response: NextResponse, tokens: SessionTokens) {
+  setAuthCookies(response, 'USER', tokens);
+}
+
+export function setAdminAuthCookies(response: NextResponse, tokens: SessionTokens) {
+  setAuthCookies(response, 'ADMIN', tokens);
+}
+
+export function clearUserAuthCookies(response: NextResponse) {
+  clearAuthCookies(response, 'USER');
+}
+
+export function clearAdminAuthCookies(response: NextResponse) {
+  clearAuthCookies(response, 'ADMIN');
+}
+
+export function getUserRefreshToken(request: NextRequest): string | undefined {
+  return request.cookies.get(COOKIE_NAMES.USER.refresh)?.value;
 }
 
-export function getUserToken(request: NextRequest): string | undefined {
-  return request.cookies.get(TOKEN_NAMES.USER)?.value;
+export function getAdminRefreshToken(request: NextRequest): string | undefined {
+  return request.cookies.get(COOKIE_NAMES.ADMIN.refresh)?.value;
 }
 
-export function getAdminToken(request: NextRequest): string | undefined {
-  return request.cookies.get(TOKEN_NAMES.ADMIN)?.value;
+/**
+ * Token fields for response bodies, for clients that send Bearer tokens
+ * instead of relying on cookies
+ */
+export function toTokenResponse(tokens: SessionTokens) {
+  return {
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+    expiresIn: tokens.expiresIn
+  };
 }
 
 async function hashToken(token: string): Promise<string> {
@@ -0,0 +1,368 @@
+import { ShippingMethod } from '@prisma/client';
+import { z } from 'zod';
+import prisma from './prisma';
+
+// Amounts are in Rials (Order.currency) and weights in grams (Product.weight)
+
+const bracketSchema = z.object({
+  // Inclusive upper bound of the bracket
+  maxWeight: z.number().int().positive(),
+  price: z.number().int().min(0)
+});
+
+const methodRateSchema = z.object({
+  // Ascending by maxWeight
+  brackets: z.array(bracketSchema).min(1),
+  // Charged for every started kilogram above the last bracket
+  perExtraKg: z.number().int().min(0),
+  minDays: z.number().int().min(0),
+  maxDays: z.number().int().min(0)
+});
+
+const zoneSchema = z.object({
+  name: z.string(),
+  // Province names as customers type them into Address.state
+  provinces: z.array(z.string()),
+  // Orders at or above this subtotal ship STANDARD for free; null disables it
+  freeShippingThreshold: z.number().int().positive().nullable(),
+  rates: z.record(z.nativeEnum(ShippingMethod), methodRateSchema)
+});
+
+export const shippingConfigSchema = z.object({
+  zones: z.record(z.string(), zoneSchema),
+  // Zone for provinces no other zone lists
+  defaultZone: z.string(),
+  // Used for products without a weight
+  defaultItemWeight: z.number().int().positive(),
+  // Methods limited to certain cities, e.g. same-day courier
+  cityRestrictions: z.record(z.nativeEnum(ShippingMethod), z.array(z.string())).default({})
+});
+
+export type ShippingConfig = z.infer<typeof shippingConfigSchema>;
+
+const DEFAULT_SHIPPING_CONFIG: ShippingConfig = {
+  defaultZone: 'OTHER',
+  defaultItemWeight: 500,
+  zones: {
+    TEHRAN: {
+      name: 'تهران',
+      provinces: ['تهران', 'tehran'],
+      freeShippingThreshold: 20_000_000,
+      rates: {
+        STANDARD: {
+          brackets: [{ maxWeight: 1000, price: 450_000 }, { maxWeight: 3000, price: 650_000 }, { maxWeight: 5000, price: 850_000 }],
+          perExtraKg: 150_000,
+          minDays: 1,
+          maxDays: 3
+        },
+        EXPRESS: {
+          brackets: [{ maxWeight: 1000, price: 700_000 }, { maxWeight: 3000, price: 950_000 }, { maxWeight: 5000, price: 1_200_000 }],
+          perExtraKg: 200_000,
+          minDays: 1,
+          maxDays: 1
+        },
+        NEXT_DAY: {
+          brackets: [{ maxWeight: 5000, price: 900_000 }],
+          perExtraKg: 200_000,
+          minDays: 1,
+          maxDays: 1
+        },
+        IMMIDIATE: {
+          brackets: [{ maxWeight: 3000, price: 1_500_000 }, { maxWeight: 10000, price: 2_200_000 }],
+          perExtraKg: 300_000,
+          minDays: 0,
+          maxDays: 0
+        },
+        PICKUP: {
+          brackets: [{ maxWeight: 1_000_000, price: 0 }],
+          perExtraKg: 0,
+          minDays: 0,
+          maxDays: 1
+        }
+      }
+    },
+    NEIGHBOR: {
+      name: 'استان‌های همجوار',
+      provinces: ['البرز', 'alborz', 'قم', 'qom', 'مرکزی', 'markazi', 'قزوین', 'qazvin', 'سمنان', 'semnan', 'مازندران', 'mazandaran'],
+      freeShippingThreshold: 30_000_000,
+      rates: {
+        STANDARD: {
+          brackets: [{ maxWeight: 1000, price: 650_000 }, { maxWeight: 3000, price: 900_000 }, { maxWeight: 5000, price: 1_150_000 }],
+          perExtraKg: 200_000,
+          minDays: 2,
+          maxDays: 4
+        },
+        EXPRESS: {
+          brackets: [{ maxWeight: 1000, price: 950_000 }, { maxWeight: 3000, price: 1_250_000 }, { maxWeight: 5000, price: 1_600_000 }],
+          perExtraKg: 250_000,
+          minDays: 1,
+          maxDays: 2
+        },
+        NEXT_DAY: {
+          brackets: [{ maxWeight: 5000, price: 1_400_000 }],
+          perExtraKg: 250_000,
+          minDays: 1,
+          maxDays: 1
+        }
+      }
+    },
+    OTHER: {
+      name: 'سایر استان‌ها',
+      provinces: [],
+      freeShippingThreshold: 40_000_000,
+      rates: {
+        STANDARD: {
+          brackets: [{ maxWeight: 1000, price: 850_000 }, { maxWeight: 3000, price: 1_200_000 }, { maxWeight: 5000, price: 1_550_000 }],
+          perExtraKg: 250_000,
+          minDays: 3,
+          maxDays: 7
+        },
+        EXPRESS: {
+          brackets: [{ maxWeight: 1000, price: 1_300_000 }, { maxWeight: 3000, price: 1_700_000 }, { maxWeight: 5000, price: 2_100_000 }],
+          perExtraKg: 300_000,
+          minDays: 2,
+          maxDays: 3
+        }
+      }
+    }
+  },
+  cityRestrictions: {
+    IMMIDIATE: ['تهران', 'tehran']
+  }
+};
+
+let cachedConfig: ShippingConfig | null = null;
+
+/**
+ * Rate tables come from SHIPPING_CONFIG (JSON) when set, so they can change
+ * without a deploy; otherwise the defaults above apply.
+ */
+export function getShippingConfig(): ShippingConfig {
+  if (cachedConfig) return cachedConfig;
+
+  const raw = process.env.SHIPPING_CONFIG;
+  if (!raw) {
+    cachedConfig = DEFAULT_SHIPPING_CONFIG;
+    return cachedConfig;
+  }
+
+  const parsed = shippingConfigSchema.safeParse(JSON.parse(raw));
+  if (!parsed.success) {
+    throw new Error(`Invalid SHIPPING_CONFIG: ${parsed.error.message}`);
+  }
+  if (!parsed.data.zones[parsed.data.defaultZone]) {
+    throw new Error(`Invalid SHIPPING_CONFIG: unknown default zone ${parsed.data.defaultZone}`);
+  }
+
+  cachedConfig = parsed.data;
+  return cachedConfig;
+}
+
+export type ShippingErrorCode =
+  | 'DESTINATION_REQUIRED'
+  | 'METHOD_UNAVAILABLE'
+  | 'PRODUCT_NOT_FOUND';
+
+const SHIPPING_MESSAGES: Record<ShippingErrorCode, string> = {
+  DESTINATION_REQUIRED: 'استان مقصد برای محاسبه هزینه ارسال الزامی است',
+  METHOD_UNAVAILABLE: 'روش ارسال انتخاب‌شده برای این آدرس در دسترس نیست',
+  PRODUCT_NOT_FOUND: 'برخی از محصولات یافت نشدند'
+};
+
+export class ShippingError extends Error {
+  constructor(public code: ShippingErrorCode, public details?: Record<string, unknown>) {
+    super(SHIPPING_MESSAGES[code]);
+    this.name = 'ShippingError';
+  }
+}
+
+export interface ShippingDestination {
+  // Province, as stored in Address.state
+  state?: string | null;
+  city?: string | null;
+}
+
+export interface ShippingItem {
+  productId: string;
+  quantity: number;
+}
+
+export interface ShippingQuote {
+  method: ShippingMethod;
+  available: boolean;
+  cost: number;
+  freeShippingApplied: boolean;
+  estimatedDays: { min: number; max: number } | null;
+  // Why the method can't be used, when unavailable
+  reason?: string;
+}
+
+export interface ShippingQuoteResult {
+  zone: string;
+  zoneName: string;
+  totalWeight: number;
+  subtotal: number;
+  freeShippingThreshold: number | null;
+  // How much more the customer needs to spend for free STANDARD shipping
+  remainingForFreeShipping: number | null;
+  quotes: ShippingQuote[];
+}
+
+/**
+ * Folds Arabic letter forms and spacing so "استان تهران", "تهران " and
+ * "Tehran" all compare equal.
+ */
+export function normalizeRegionName(value: string): string {
+  return value
+    .replace(/ي/g, 'ی')
+    .replace(/ك/g, 'ک')
+    .replace(/‌/g, ' ')
+    .replace(/^\s*(استان|شهر|province of|city of)\s+/i, '')
+    .replace(/\s+(province|city)\s*$/i, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+function matchesRegion(value: string | null | undefined, names: string[]) {
+  if (!value) return false;
+  const normalized = normalizeRegionName(value);
+  return names.some(name => normalizeRegionName(name) === normalized);
+}
+
+export function resolveShippingZone(state: string, config: ShippingConfig = getShippingConfig()) {
+  const entry = Object.entries(config.zones).find(([, zone]) => matchesRegion(state, zone.provinces));
+  const key = entry ? entry[0] : config.defaultZone;
+  return { key, zone: config.zones[key] };
+}
+
+function priceForWeight(rate: z.infer<typeof methodRateSchema>, weight: number): number {
+  const bracket = rate.brackets.find(candidate => weight <= candidate.maxWeight);
+  if (bracket) return bracket.price;
+
+  const last = rate.brackets[rate.brackets.length - 1];
+  const extraKg = Math.ceil((weight - last.maxWeight) / 1000);
+  return last.price + extraKg * rate.perExtraKg;
+}
+
+/**
+ * Prices every shipping method for a parcel of the given weight and value.
+ * Pure: the caller supplies the weight, see getShippingQuotes for carts.
+ */
+export function quoteShipping(
+  weight: number,
+  subtotal: number,
+  destination: ShippingDestination,
+  config: ShippingConfig = getShippingConfig()
+): ShippingQuoteResult {
+  if (!destination.state?.trim()) {
+    throw new ShippingError('DESTINATION_REQUIRED');
+  }
+
+  const { key, zone } = resolveShippingZone(destination.state, config);
+  const qualifiesForFree = zone.freeShippingThreshold !== null && subtotal >= zone.freeShippingThreshold;
+
+  const quotes = Object.values(ShippingMethod).map((method): ShippingQuote => {
+    // FREE isn't a carrier; it's STANDARD once the order is large enough
+    const rate = zone.rates[method === ShippingMethod.FREE ? ShippingMethod.STANDARD : method];
+    const unavailable = (reason: string): ShippingQuote => ({
+      method,
+      available: false,
+      cost: 0,
+      freeShippingApplied: false,
+      estimatedDays: null,
+      reason
+    });
+
+    if (!rate) {
+      return unavailable(`این روش ارسال برای ${zone.name} در دسترس نیست`);
+    }
+
+    const cities = config.cityRestrictions[method];
+    if (cities && !matchesRegion(destination.city, cities)) {
+      return unavailable(`این روش ارسال فقط در ${cities[0]} در دسترس است`);
+    }
+
+    if (method === ShippingMethod.FREE && !qualifiesForFree) {
+      return unavailable(zone.freeShippingThreshold === null
+        ? `ارسال رایگان برای ${zone.name} در دسترس نیست`
+        : `ارسال رایگان برای سفارش‌های بالای ${zone.freeShippingThreshold.toLocaleString('fa-IR')} ریال است`);
+    }
+
+    const free = method === ShippingMethod.FREE || (method === ShippingMethod.STANDARD && qualifiesForFree);
+    return {
+      method,
+      available: true,
+      cost: free ? 0 : priceForWeight(rate, weight),
+      freeShippingApplied: free,
+      estimatedDays: { min: rate.minDays, max: rate.maxDays }
+    };
+  });
+
+  return {
+    zone: key,
+    zoneName: zone.name,
+    totalWeight: weight,
+    subtotal,
+    freeShippingThreshold: zone.freeShippingThreshold,
+    remainingForFreeShipping: zone.freeShippingThreshold === null
+      ? null
+      : Math.max(0, zone.freeShippingThreshold - subtotal),
+    quotes
+  };
+}
+
+/**
+ * Total parcel weight from the catalogue; products without a weight count
+ * as the configured default.
+ */
+export async function calculateParcelWeight(items: ShippingItem[], config: ShippingConfig = getShippingConfig()) {
+  const productIds = [...new Set(items.map(item => item.productId))];
+  const products = await prisma.product.findMany({
+    where: { id: { in: productIds } },
+    select: { id: true, weight: true }
+  });
+
+  const missing = productIds.filter(id => !products.some(product => product.id === id));
+  if (missing.length > 0) {
+    throw new ShippingError('PRODUCT_NOT_FOUND', { missingProducts: missing });
+  }
+
+  const weights = new Map(products.map(product => [product.id, product.weight || config.defaultItemWeight]));
+  return items.reduce((sum, item) => sum + (weights.get(item.productId) ?? config.defaultItemWeight) * item.quantity, 0);
+}
+
+export async function getShippingQuotes(
+  items: ShippingItem[],
+  subtotal: number,
+  destination: ShippingDestination
+): Promise<ShippingQuoteResult> {
+  const config = getShippingConfig();
+  const weight = await calculateParcelWeight(items, config);
+  return quoteShipping(weight, subtotal, destination, config);
+}
+
+/**
+ * Shipping cost for a specific method, or METHOD_UNAVAILABLE if it can't
+ * deliver to the destination.
+ */
+export async function calculateShippingCost(
+  method: ShippingMethod,
+  items: ShippingItem[],
+  subtotal: number,
+  destination: ShippingDestination
+): Promise<number> {
+  const result = await getShippingQuotes(items, subtotal, destination);
+  const quote = result.quotes.find(candidate => candidate.method === method);
+
+  if (!quote?.available) {
+    throw new ShippingError('METHOD_UNAVAILABLE', {
+      method,
+      zone: result.zone,
+      reason: quote?.reason,
+      availableMethods: result.quotes.filter(candidate => candidate.available).map(candidate => candidate.method)
+    });
+  }
+
+  return quote.cost;
+}
@@ -0,0 +1,36 @@
+import { sendTemplateSMS } from './kavenegar';
+import { fakeSmsSender } from './fake-sms-sender';
+
+export type SmsSenderName = 'KAVENEGAR' | 'FAKE';
+
+/**
+ * Something that can deliver a templated SMS. Implementations return false
+ * when the message wasn't accepted and never throw for delivery failures.
+ */
+export interface SmsSender {
+  readonly name: SmsSenderName;
+  sendTemplate(phoneNumber: string, template: string, tokens: string[]): Promise<boolean>;
+}
+
+export const kavenegarSmsSender: SmsSender = {
+  name: 'KAVENEGAR',
+  sendTemplate: sendTemplateSMS
+};
+
+const senders: Record<SmsSenderName, SmsSender> = {
+  KAVENEGAR: kavenegarSmsSender,
+  FAKE: fakeSmsSender
+};
+
+function isSmsSenderName(value: unknown): value is SmsSenderName {
+  return typeof value === 'string' && value in senders;
+}
+
+/**
+ * The sender chosen by SMS_SENDER, Kavenegar unless configured otherwise.
+ * Setting SMS_SENDER=FAKE keeps messages in memory, e.g. locally and in tests.
+ */
+export function getSmsSender(): SmsSender {
+  const configured = process.env.SMS_SENDER?.toUpperCase();
+  return isSmsSenderName(configured) ? senders[configured] : kavenegarSmsSender;
+}
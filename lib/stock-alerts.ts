@@ -0,0 +1,65 @@
+import prisma from './prisma';
+import { notificationService } from './notification-service';
+import { rolesWithPermission } from './permissions';
+
+// A variant is low once this many units or fewer are left for sale
+export const LOW_STOCK_THRESHOLD = Number(process.env.LOW_STOCK_THRESHOLD) || 5;
+// The same variant raises at most one alert per this many hours
+export const LOW_STOCK_ALERT_COOLDOWN_HOURS = Number(process.env.LOW_STOCK_ALERT_COOLDOWN_HOURS) || 24;
+
+// Admins who restock
+const LOW_STOCK_ALERT_ROLES = rolesWithPermission('products:write');
+
+/**
+ * Tells stock admins about active variants of `productIds` that are at or
+ * below LOW_STOCK_THRESHOLD. Call it after stock leaves the shelf, once the
+ * transaction has committed. Best effort; never fails the caller.
+ */
+export async function notifyLowStock(productIds: string[]) {
+  if (productIds.length === 0) return;
+
+  try {
+    const variants = await prisma.variant.findMany({
+      where: {
+        productId: { in: [...new Set(productIds)] },
+        isActive: true,
+        product: { isActive: true, manageStock: true }
+      },
+      select: {
+        id: true,
+        color: true,
+        size: true,
+        stock: true,
+        reservedStock: true,
+        product: { select: { id: true, name: true } }
+      }
+    });
+
+    const cooldownSince = new Date(Date.now() - LOW_STOCK_ALERT_COOLDOWN_HOURS * 60 * 60 * 1000);
+
+    for (const variant of variants) {
+      const available = Math.max(0, variant.stock - variant.reservedStock);
+      if (available > LOW_STOCK_THRESHOLD) continue;
+
+      const recentAlert = await prisma.notification.findFirst({
+        where: {
+          type: 'LOW_STOCK',
+          createdAt: { gt: cooldownSince },
+          data: { path: ['variantId'], equals: variant.id }
+        },
+        select: { id: true }
+      });
+      if (recentAlert) continue;
+
+      await notificationService.notifyAdmins('LOW_STOCK', LOW_STOCK_ALERT_ROLES, {
+        productId: variant.product.id,
+        variantId: variant.id,
+        productName: variant.product.name,
+        variantName: [variant.color, variant.size].filter(Boolean).join(' / ') || undefined,
+        available
+      });
+    }
+  } catch (error) {
+    console.error('Error checking low stock:', { productIds, error });
+  }
+}
@@ -0,0 +1,191 @@
+import { OrderStatus } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { applyOrderTransition } from './order-status';
+import { releaseExpiredReservations, reserveStock, takeStock } from './stock-utils';
+
+interface FakeVariant {
+  id: string;
+  productId: string;
+  isActive: boolean;
+  stock: number;
+  reservedStock: number;
+}
+
+interface FakeReservation {
+  id: string;
+  orderId: string;
+  variantId: string;
+  quantity: number;
+  status: string;
+  expiresAt: Date;
+  releasedAt?: Date;
+}
+
+interface FakeOrder {
+  id: string;
+  status: OrderStatus;
+  paymentMethod: string;
+}
+
+type Tx = Parameters<typeof reserveStock>[0];
+
+// Variants, reservations and orders in memory. The raw stock UPDATEs are
+// told apart by the columns they set.
+const db = vi.hoisted(() => {
+  const state = {
+    variants: new Map<string, FakeVariant>(),
+    reservations: [] as FakeReservation[],
+    orders: new Map<string, FakeOrder>(),
+    nextId: 1
+  };
+
+  const reservationMatches = (reservation: FakeReservation, where: Record<string, unknown>) =>
+    Object.entries(where).every(([field, value]) => {
+      if (field === 'expiresAt') return reservation.expiresAt < (value as { lt: Date }).lt;
+      if (field === 'order') {
+        const { paymentMethod } = value as { paymentMethod: { notIn: string[] } };
+        return !paymentMethod.notIn.includes(state.orders.get(reservation.orderId)!.paymentMethod);
+      }
+      return reservation[field as keyof FakeReservation] === value;
+    });
+
+  const client = {
+    state,
+    $executeRaw: async (sql: TemplateStringsArray, ...values: (string | number)[]) => {
+      const statement = sql.join('?');
+      const quantity = values[0] as number;
+      const variant = state.variants.get(values[1] as string);
+      if (!variant) return 0;
+
+      if (statement.includes('"reservedStock" = "reservedStock" +')) {
+        if (!variant.isActive || variant.stock - variant.reservedStock < quantity) return 0;
+        variant.reservedStock += quantity;
+      } else if (statement.includes('"reservedStock" = GREATEST')) {
+        variant.reservedStock = Math.max(variant.reservedStock - quantity, 0);
+      } else {
+        if (!variant.isActive || variant.stock - variant.reservedStock < quantity) return 0;
+        variant.stock -= quantity;
+      }
+      return 1;
+    },
+    // Only ever used here to lock and re-read one order by id
+    $queryRaw: async (_sql: TemplateStringsArray, id: string) => [state.orders.get(id)],
+    $transaction: async <T>(work: (tx: unknown) => Promise<T>) => work(client),
+    variant: {
+      findUnique: async ({ where }: { where: { id: string } }) => state.variants.get(where.id) ?? null
+    },
+    stockReservation: {
+      createMany: async ({ data }: { data: Omit<FakeReservation, 'id'>[] }) => {
+        state.reservations.push(...data.map(row => ({ id: `reservation-${state.nextId++}`, ...row })));
+        return { count: data.length };
+      },
+      findMany: async ({ where, distinct }: { where: Record<string, unknown>; distinct?: string[] }) => {
+        const found = state.reservations
+          .filter(reservation => reservationMatches(reservation, where))
+          .map(reservation => ({
+            ...reservation,
+            variant: { productId: state.variants.get(reservation.variantId)!.productId }
+          }));
+        return distinct ? found.filter((row, index) => found.findIndex(other => other.orderId === row.orderId) === index) : found;
+      },
+      updateMany: async ({ where, data }: { where: Record<string, unknown>; data: Partial<FakeReservation> }) => {
+        const matched = state.reservations.filter(reservation => reservationMatches(reservation, where));
+        matched.forEach(reservation => Object.assign(reservation, data));
+        return { count: matched.length };
+      }
+    }
+  };
+  return client;
+});
+
+vi.mock('./prisma', () => ({ default: db }));
+vi.mock('./product-utils', () => ({ updateProductAggregations: vi.fn() }));
+vi.mock('./order-status', () => ({
+  applyOrderTransition: vi.fn(async (_tx: unknown, order: FakeOrder, to: OrderStatus) => {
+    const from = order.status;
+    db.state.orders.get(order.id)!.status = to;
+    return { orderId: order.id, from, to };
+  }),
+  runTransitionEffects: vi.fn()
+}));
+
+const tx = db as unknown as Tx;
+const anHourAgo = () => new Date(Date.now() - 60 * 60 * 1000);
+
+function addVariant(id: string, stock: number): FakeVariant {
+  const variant = { id, productId: `product-of-${id}`, isActive: true, stock, reservedStock: 0 };
+  db.state.variants.set(id, variant);
+  return variant;
+}
+
+function placeOrder(id: string, paymentMethod: string): FakeOrder {
+  const order = { id, status: OrderStatus.PENDING_PAYMENT, paymentMethod };
+  db.state.orders.set(id, order);
+  return order;
+}
+
+function line(variant: FakeVariant, quantity: number) {
+  return { productId: variant.productId, variantId: variant.id, quantity };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  db.state.variants.clear();
+  db.state.reservations = [];
+  db.state.orders.clear();
+  db.state.nextId = 1;
+});
+
+describe('releasing expired reservations', () => {
+  it('cancels a card order whose hold ran out and puts its units back', async () => {
+    const variant = addVariant('shirt-red', 5);
+    const order = placeOrder('card-order', 'CREDIT_CARD');
+    await reserveStock(tx, order.id, [line(variant, 2)], anHourAgo());
+
+    expect(await releaseExpiredReservations()).toBe(1);
+
+    expect(order.status).toBe(OrderStatus.CANCELLED);
+    expect(variant).toMatchObject({ stock: 5, reservedStock: 0 });
+    expect(db.state.reservations.map(reservation => reservation.status)).toEqual(['EXPIRED']);
+  });
+
+  it('leaves a cash on delivery order and the stock it took alone', async () => {
+    const variant = addVariant('shirt-red', 5);
+    const order = placeOrder('cod-order', 'CASH_ON_DELIVERY');
+    await takeStock(tx, order.id, [line(variant, 2)]);
+
+    expect(variant).toMatchObject({ stock: 3, reservedStock: 0 });
+    expect(db.state.reservations.map(reservation => reservation.status)).toEqual(['COMMITTED']);
+
+    expect(await releaseExpiredReservations()).toBe(0);
+
+    expect(order.status).toBe(OrderStatus.PENDING_PAYMENT);
+    expect(variant).toMatchObject({ stock: 3, reservedStock: 0 });
+    expect(applyOrderTransition).not.toHaveBeenCalled();
+  });
+
+  it('never expires an offline order that still holds an old reservation', async () => {
+    const variant = addVariant('shirt-red', 5);
+    const bankTransfer = placeOrder('bank-order', 'BANK_TRANSFER');
+    const card = placeOrder('card-order', 'DEBIT_CARD');
+    await reserveStock(tx, bankTransfer.id, [line(variant, 1)], anHourAgo());
+    await reserveStock(tx, card.id, [line(variant, 1)], anHourAgo());
+
+    expect(await releaseExpiredReservations()).toBe(1);
+
+    expect(bankTransfer.status).toBe(OrderStatus.PENDING_PAYMENT);
+    expect(card.status).toBe(OrderStatus.CANCELLED);
+    expect(variant.reservedStock).toBe(1);
+  });
+
+  it('refuses to take more than is left on the shelf', async () => {
+    const variant = addVariant('shirt-red', 3);
+    variant.reservedStock = 2;
+
+    await expect(takeStock(tx, 'cod-order', [line(variant, 2)])).rejects.toMatchObject({
+      items: [{ variantId: 'shirt-red', requested: 2, available: 1 }]
+    });
+    expect(variant.stock).toBe(3);
+    expect(db.state.reservations).toEqual([]);
+  });
+});
@@ -0,0 +1,473 @@
+import { OrderStatus, Prisma, ReservationStatus } from '@prisma/client';
+import prisma from './prisma';
+import { updateProductAggregations } from './product-utils';
+import { applyOrderTransition, runTransitionEffects } from './order-status';
+import { OFFLINE_PAYMENT_METHODS } from './payment-utils';
+
+// How long a PENDING_PAYMENT order may hold stock before it is released
+export const RESERVATION_TTL_MINUTES = Number(process.env.STOCK_RESERVATION_TTL_MINUTES) || 30;
+
+// The most units one cart or order line may hold, however much is in stock
+export const MAX_LINE_QUANTITY = 1000;
+
+export interface StockRequestItem {
+  productId: string;
+  variantId: string;
+  quantity: number;
+}
+
+export interface StockShortage {
+  productId: string;
+  variantId: string;
+  requested: number;
+  available: number;
+}
+
+/**
+ * Thrown when one or more variants can't cover the requested quantity.
+ * `items` holds one entry per short variant so the storefront can show
+ * exactly which lines need to change.
+ */
+export class InsufficientStockError extends Error {
+  constructor(public items: StockShortage[]) {
+    super('موجودی برخی از محصولات کافی نیست');
+    this.name = 'InsufficientStockError';
+  }
+}
+
+/**
+ * How many units of a product (or one of its variants) one line can still buy.
+ * Variants count unreserved shelf stock; products without variants fall back
+ * to their total stock, or only MAX_LINE_QUANTITY when stock isn't managed.
+ */
+export function getAvailableQuantity(
+  product: { isActive: boolean; manageStock: boolean; totalStock: number },
+  variant?: { isActive: boolean; stock: number; reservedStock: number } | null
+): number {
+  if (!product.isActive || (variant && !variant.isActive)) return 0;
+  const inStock = variant
+    ? Math.max(0, variant.stock - variant.reservedStock)
+    : product.manageStock ? product.totalStock : MAX_LINE_QUANTITY;
+  return Math.min(inStock, MAX_LINE_QUANTITY);
+}
+
+/**
+ * Calculates the expiration time for a new reservation
+ * @param minutes - Number of minutes until expiration (default: RESERVATION_TTL_MINUTES)
+ */
+export function getReservationExpiry(minutes: number = RESERVATION_TTL_MINUTES): Date {
+  return new Date(Date.now() + minutes * 60 * 1000);
+}
+
+/**
+ * Reserves variant stock for an order inside the caller's transaction.
+ *
+ * Each variant is claimed with a single conditional UPDATE so two concurrent
+ * checkouts can never both take the last unit. If any line is short, an
+ * InsufficientStockError is thrown and the surrounding transaction rolls back.
+ *
+ * @returns The ids of the products whose availability changed
+ */
+export async function reserveStock(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  items: StockRequestItem[],
+  expiresAt: Date = getReservationExpiry()
+): Promise<string[]> {
+  return claimStock(tx, orderId, items, ReservationStatus.ACTIVE, expiresAt);
+}
+
+/**
+ * Takes variant stock for an order at checkout, inside the caller's
+ * transaction, for orders paid offline (cash on delivery, bank transfer).
+ * They have no payment deadline to hold a reservation against, so the
+ * units leave the shelf straight away as COMMITTED reservations and come
+ * back through restockCommittedReservations if the order is cancelled.
+ *
+ * @returns The ids of the products whose availability changed
+ */
+export async function takeStock(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  items: StockRequestItem[]
+): Promise<string[]> {
+  return claimStock(tx, orderId, items, ReservationStatus.COMMITTED, new Date());
+}
+
+async function claimStock(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  items: StockRequestItem[],
+  status: Extract<ReservationStatus, 'ACTIVE' | 'COMMITTED'>,
+  expiresAt: Date
+): Promise<string[]> {
+  // Merge duplicate lines and lock variants in a stable order to avoid deadlocks
+  const merged = new Map<string, StockRequestItem>();
+  for (const item of items) {
+    const existing = merged.get(item.variantId);
+    if (existing) {
+      existing.quantity += item.quantity;
+    } else {
+      merged.set(item.variantId, { ...item });
+    }
+  }
+  const requests = [...merged.values()].sort((a, b) => a.variantId.localeCompare(b.variantId));
+
+  const shortages: StockShortage[] = [];
+
+  for (const item of requests) {
+    const updated = status === ReservationStatus.ACTIVE
+      ? await tx.$executeRaw`
+          UPDATE "Variant"
+          SET "reservedStock" = "reservedStock" + ${item.quantity}, "updatedAt" = NOW()
+          WHERE "id" = ${item.variantId}
+            AND "isActive" = true
+            AND "stock" - "reservedStock" >= ${item.quantity}
+        `
+      : await tx.$executeRaw`
+          UPDATE "Variant"
+          SET "stock" = "stock" - ${item.quantity}, "updatedAt" = NOW()
+          WHERE "id" = ${item.variantId}
+            AND "isActive" = true
+            AND "stock" - "reservedStock" >= ${item.quantity}
+        `;
+
+    if (updated === 0) {
+      const variant = await tx.variant.findUnique({
+        where: { id: item.variantId },
+        select: { stock: true, reservedStock: true, isActive: true }
+      });
+
+      shortages.push({
+        productId: item.productId,
+        variantId: item.variantId,
+        requested: item.quantity,
+        available: variant?.isActive ? Math.max(0, variant.stock - variant.reservedStock) : 0
+      });
+    }
+  }
+
+  if (shortages.length > 0) {
+    throw new InsufficientStockError(shortages);
+  }
+
+  await tx.stockReservation.createMany({
+    data: requests.map(item => ({
+      orderId,
+      variantId: item.variantId,
+      quantity: item.quantity,
+      status,
+      expiresAt
+    }))
+  });
+
+  return [...new Set(requests.map(item => item.productId))];
+}
+
+/**
+ * Turns an order's reservations into a real stock decrement after payment.
+ *
+ * Active reservations move their units from reservedStock out of stock.
+ * Reservations that already expired no longer hold anything, so they are
+ * decremented against whatever is still available and raise
+ * InsufficientStockError if the units were sold in the meantime.
+ *
+ * Pass `reclaimReleased` for an order paid after it failed or was
+ * cancelled: its reservations were released then, and are decremented
+ * against what is available the same way as expired ones.
+ */
+export async function commitStockReservations(
+  orderId: string,
+  options: { reclaimReleased?: boolean } = {}
+): Promise<number> {
+  const claimable: ReservationStatus[] = [ReservationStatus.ACTIVE, ReservationStatus.EXPIRED];
+  if (options.reclaimReleased) {
+    claimable.push(ReservationStatus.RELEASED);
+  }
+
+  const { committed, productIds } = await prisma.$transaction(async (tx) => {
+    const reservations = await tx.stockReservation.findMany({
+      where: {
+        orderId,
+        status: { in: claimable }
+      },
+      include: { variant: { select: { productId: true } } }
+    });
+
+    const shortages: StockShortage[] = [];
+    let committed = 0;
+
+    for (const reservation of reservations) {
+      // Claim the reservation first so a repeated callback can't decrement twice
+      const claimed = await tx.stockReservation.updateMany({
+        where: { id: reservation.id, status: reservation.status },
+        data: { status: ReservationStatus.COMMITTED }
+      });
+      if (claimed.count === 0) continue;
+
+      const updated = reservation.status === ReservationStatus.ACTIVE
+        ? await tx.$executeRaw`
+            UPDATE "Variant"
+            SET "stock" = "stock" - ${reservation.quantity},
+                "reservedStock" = GREATEST("reservedStock" - ${reservation.quantity}, 0),
+                "updatedAt" = NOW()
+            WHERE "id" = ${reservation.variantId}
+          `
+        : await tx.$executeRaw`
+            UPDATE "Variant"
+            SET "stock" = "stock" - ${reservation.quantity}, "updatedAt" = NOW()
+            WHERE "id" = ${reservation.variantId}
+              AND "stock" - "reservedStock" >= ${reservation.quantity}
+          `;
+
+      if (updated === 0) {
+        const variant = await tx.variant.findUnique({
+          where: { id: reservation.variantId },
+          select: { stock: true, reservedStock: true }
+        });
+        shortages.push({
+          productId: reservation.variant.productId,
+          variantId: reservation.variantId,
+          requested: reservation.quantity,
+          available: variant ? Math.max(0, variant.stock - variant.reservedStock) : 0
+        });
+      }
+
+      committed++;
+    }
+
+    if (shortages.length > 0) {
+      throw new InsufficientStockError(shortages);
+    }
+
+    return {
+      committed,
+      productIds: [...new Set(reservations.map(r => r.variant.productId))]
+    };
+  });
+
+  await syncProductStock(productIds);
+  return committed;
+}
+
+/**
+ * Gives an order's active reservations back to the shelf.
+ * Used when payment fails, the order is cancelled or the reservation times out.
+ */
+export async function releaseStockReservations(
+  orderId: string,
+  status: Extract<ReservationStatus, 'RELEASED' | 'EXPIRED'> = ReservationStatus.RELEASED
+): Promise<number> {
+  const { released, productIds } = await prisma.$transaction(async (tx) => {
+    const reservations = await tx.stockReservation.findMany({
+      where: { orderId, status: ReservationStatus.ACTIVE },
+      include: { variant: { select: { productId: true } } }
+    });
+
+    let released = 0;
+
+    for (const reservation of reservations) {
+      const claimed = await tx.stockReservation.updateMany({
+        where: { id: reservation.id, status: ReservationStatus.ACTIVE },
+        data: { status, releasedAt: new Date() }
+      });
+      if (claimed.count === 0) continue;
+
+      await tx.$executeRaw`
+        UPDATE "Variant"
+        SET "reservedStock" = GREATEST("reservedStock" - ${reservation.quantity}, 0), "updatedAt" = NOW()
+        WHERE "id" = ${reservation.variantId}
+      `;
+      released++;
+    }
+
+    return {
+      released,
+      productIds: [...new Set(reservations.map(r => r.variant.productId))]
+    };
+  });
+
+  await syncProductStock(productIds);
+  return released;
+}
+
+/**
+ * Puts stock that was already committed for an order back on the shelf,
+ * e.g. when a paid order is cancelled.
+ */
+export async function restockCommittedReservations(orderId: string): Promise<number> {
+  const { restocked, productIds } = await prisma.$transaction(async (tx) => {
+    const reservations = await tx.stockReservation.findMany({
+      where: { orderId, status: ReservationStatus.COMMITTED },
+      include: { variant: { select: { productId: true } } }
+    });
+
+    let restocked = 0;
+
+    for (const reservation of reservations) {
+      const claimed = await tx.stockReservation.updateMany({
+        where: { id: reservation.id, status: ReservationStatus.COMMITTED },
+        data: { status: ReservationStatus.RELEASED, releasedAt: new Date() }
+      });
+      if (claimed.count === 0) continue;
+
+      await tx.variant.update({
+        where: { id: reservation.variantId },
+        data: { stock: { increment: reservation.quantity } }
+      });
+      restocked++;
+    }
+
+    return {
+      restocked,
+      productIds: [...new Set(reservations.map(r => r.variant.productId))]
+    };
+  });
+
+  await syncProductStock(productIds);
+  return restocked;
+}
+
+/**
+ * Puts some of a paid order's units back on the shelf inside the caller's
+ * transaction, e.g. for a refund or a return.
+ *
+ * Units come out of the order's COMMITTED reservations, which shrink (or
+ * are released once empty), so a later cancellation can't restock them a
+ * second time. Units with no committed reservation left were restocked
+ * already and are skipped.
+ *
+ * @returns The ids of the products whose stock changed; pass them to syncProductStock after committing
+ */
+export async function restockCommittedItems(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  items: StockRequestItem[]
+): Promise<string[]> {
+  const productIds = new Set<string>();
+
+  for (const item of items) {
+    let remaining = item.quantity;
+
+    const reservations = await tx.stockReservation.findMany({
+      where: { orderId, variantId: item.variantId, status: ReservationStatus.COMMITTED },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    for (const reservation of reservations) {
+      if (remaining <= 0) break;
+      const quantity = Math.min(remaining, reservation.quantity);
+
+      // Conditional on the quantity read, so concurrent restocks can't both take the same units
+      const claimed = await tx.stockReservation.updateMany({
+        where: { id: reservation.id, status: ReservationStatus.COMMITTED, quantity: reservation.quantity },
+        data: quantity === reservation.quantity
+          ? { status: ReservationStatus.RELEASED, releasedAt: new Date() }
+          : { quantity: { decrement: quantity } }
+      });
+      if (claimed.count === 0) continue;
+
+      await tx.variant.update({
+        where: { id: item.variantId },
+        data: { stock: { increment: quantity } }
+      });
+      remaining -= quantity;
+      productIds.add(item.productId);
+    }
+  }
+
+  return [...productIds];
+}
+
+/**
+ * Takes units off the shelf without a reservation, e.g. for an exchange.
+ * All or nothing: throws InsufficientStockError if any variant is short.
+ */
+export async function deductStock(items: StockRequestItem[]) {
+  await prisma.$transaction(async (tx) => {
+    const shortages: StockShortage[] = [];
+
+    for (const item of items) {
+      const updated = await tx.$executeRaw`
+        UPDATE "Variant"
+        SET "stock" = "stock" - ${item.quantity}, "updatedAt" = NOW()
+        WHERE "id" = ${item.variantId}
+          AND "isActive" = true
+          AND "stock" - "reservedStock" >= ${item.quantity}
+      `;
+
+      if (updated === 0) {
+        const variant = await tx.variant.findUnique({
+          where: { id: item.variantId },
+          select: { stock: true, reservedStock: true, isActive: true }
+        });
+        shortages.push({
+          productId: item.productId,
+          variantId: item.variantId,
+          requested: item.quantity,
+          available: variant?.isActive ? Math.max(0, variant.stock - variant.reservedStock) : 0
+        });
+      }
+    }
+
+    if (shortages.length > 0) {
+      throw new InsufficientStockError(shortages);
+    }
+  });
+
+  await syncProductStock(items.map(item => item.productId));
+}
+
+/**
+ * Releases every reservation whose hold has run out and cancels the
+ * PENDING_PAYMENT orders that owned them. Only orders paid through a
+ * gateway expire; orders paid offline wait for staff to confirm them.
+ * Safe to call opportunistically from request handlers.
+ */
+export async function releaseExpiredReservations(): Promise<number> {
+  const expired = await prisma.stockReservation.findMany({
+    where: {
+      status: ReservationStatus.ACTIVE,
+      expiresAt: { lt: new Date() },
+      order: { paymentMethod: { notIn: OFFLINE_PAYMENT_METHODS } }
+    },
+    select: { orderId: true },
+    distinct: ['orderId']
+  });
+
+  for (const { orderId } of expired) {
+    await releaseStockReservations(orderId, ReservationStatus.EXPIRED);
+
+    // Locked and re-read: a payment callback may have moved the order meanwhile
+    const transition = await prisma.$transaction(async (tx) => {
+      const [order] = await tx.$queryRaw<{ id: string; status: OrderStatus }[]>`
+        SELECT "id", "status" FROM "Order" WHERE "id" = ${orderId} FOR UPDATE
+      `;
+      if (order?.status !== OrderStatus.PENDING_PAYMENT) return null;
+
+      return applyOrderTransition(tx, order, OrderStatus.CANCELLED, {
+        actor: 'SYSTEM',
+        comment: 'مهلت پرداخت به پایان رسید و موجودی رزرو شده آزاد شد'
+      });
+    });
+
+    if (transition) {
+      await runTransitionEffects(transition);
+    }
+  }
+
+  return expired.length;
+}
+
+/**
+ * Recomputes Product.totalStock (and the other aggregates) for the given products
+ */
+export async function syncProductStock(productIds: string[]) {
+  for (const productId of new Set(productIds)) {
+    try {
+      await updateProductAggregations(productId);
+    } catch (error) {
+      console.error('Error updating product aggregations:', { productId, error });
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import { ProductType } from '@prisma/client';
+import { z } from 'zod';
+
+// Rates are percentages; amounts are in Rials and rounded per line
+
+export const taxConfigSchema = z.object({
+  // Standard VAT rate
+  vatRate: z.number().min(0).max(100),
+  // Catalogue prices already contain VAT, so tax is extracted rather than added
+  pricesIncludeTax: z.boolean(),
+  // Whether the shipping charge carries VAT too
+  taxShipping: z.boolean(),
+  exemptProductTypes: z.array(z.nativeEnum(ProductType)).default([]),
+  exemptCategoryIds: z.array(z.string()).default([]),
+  // Category-specific rates that replace the standard one
+  categoryRates: z.record(z.string(), z.number().min(0).max(100)).default({})
+});
+
+export type TaxConfig = z.infer<typeof taxConfigSchema>;
+
+const DEFAULT_TAX_CONFIG: TaxConfig = {
+  vatRate: 10,
+  pricesIncludeTax: true,
+  taxShipping: false,
+  exemptProductTypes: [],
+  exemptCategoryIds: [],
+  categoryRates: {}
+};
+
+let cachedConfig: TaxConfig | null = null;
+
+/**
+ * Tax settings come from TAX_CONFIG (JSON) when set; VAT_RATE and
+ * PRICES_INCLUDE_TAX override the defaults for the common cases.
+ */
+export function getTaxConfig(): TaxConfig {
+  if (cachedConfig) return cachedConfig;
+
+  const overrides: Record<string, unknown> = process.env.TAX_CONFIG ? JSON.parse(process.env.TAX_CONFIG) : {};
+  if (process.env.VAT_RATE) overrides.vatRate = Number(process.env.VAT_RATE);
+  if (process.env.PRICES_INCLUDE_TAX) overrides.pricesIncludeTax = process.env.PRICES_INCLUDE_TAX === 'true';
+
+  const parsed = taxConfigSchema.safeParse({ ...DEFAULT_TAX_CONFIG, ...overrides });
+  if (!parsed.success) {
+    throw new Error(`Invalid tax configuration: ${parsed.error.message}`);
+  }
+
+  cachedConfig = parsed.data;
+  return cachedConfig;
+}
+
+export interface TaxableLine {
+  categoryId: string;
+  productType: ProductType;
+  // Line amount after discounts, as charged for the goods
+  amount: number;
+}
+
+export interface LineTax {
+  taxRate: number;
+  taxAmount: number;
+  // Line amount without tax
+  netAmount: number;
+}
+
+export interface TaxBreakdown {
+  lines: LineTax[];
+  shipping: LineTax;
+  totalTax: number;
+  pricesIncludeTax: boolean;
+  // What tax adds to the order total: nothing when prices already include it
+  payableTax: number;
+}
+
+export function getTaxRate(line: Pick<TaxableLine, 'categoryId' | 'productType'>, config: TaxConfig = getTaxConfig()): number {
+  if (config.exemptProductTypes.includes(line.productType) || config.exemptCategoryIds.includes(line.categoryId)) {
+    return 0;
+  }
+  return config.categoryRates[line.categoryId] ?? config.vatRate;
+}
+
+function taxForAmount(amount: number, rate: number, pricesIncludeTax: boolean): LineTax {
+  if (rate === 0 || amount <= 0) {
+    return { taxRate: rate, taxAmount: 0, netAmount: Math.max(0, amount) };
+  }
+
+  const taxAmount = pricesIncludeTax
+    ? Math.round((amount * rate) / (100 + rate))
+    : Math.round((amount * rate) / 100);
+
+  return {
+    taxRate: rate,
+    taxAmount,
+    netAmount: pricesIncludeTax ? amount - taxAmount : amount
+  };
+}
+
+/**
+ * VAT for each order line and for shipping. Line amounts should already
+ * have coupon discounts taken off, since VAT is due on what's charged.
+ */
+export function calculateTax(
+  lines: TaxableLine[],
+  shippingAmount: number,
+  config: TaxConfig = getTaxConfig()
+): TaxBreakdown {
+  const lineTaxes = lines.map(line => taxForAmount(line.amount, getTaxRate(line, config), config.pricesIncludeTax));
+  const shipping = taxForAmount(shippingAmount, config.taxShipping ? config.vatRate : 0, config.pricesIncludeTax);
+  const totalTax = lineTaxes.reduce((sum, line) => sum + line.taxAmount, 0) + shipping.taxAmount;
+
+  return {
+    lines: lineTaxes,
+    shipping,
+    totalTax,
+    pricesIncludeTax: config.pricesIncludeTax,
+    payableTax: config.pricesIncludeTax ? 0 : totalTax
+  };
+}
+
+/**
+ * Revenue without the VAT collected on it, for reports. Order totals always
+ * contain their tax, whichever way prices were entered.
+ */
+export function netOfTax(total: number, taxAmount: number): number {
+  return total - taxAmount;
+}
@@ -0,0 +1,60 @@
+export type DeviceType = 'mobile' | 'tablet' | 'desktop' | 'unknown';
+
+export interface DeviceInfo {
+  browser: string | null;
+  os: string | null;
+  deviceType: DeviceType;
+}
+
+// Checked in order: Edge and Opera also claim to be Chrome, Chrome claims to be Safari
+const BROWSERS: Array<[string, RegExp]> = [
+  ['Edge', /Edg(?:e|A|iOS)?\/([\d.]+)/],
+  ['Opera', /(?:OPR|Opera)\/([\d.]+)/],
+  ['Samsung Internet', /SamsungBrowser\/([\d.]+)/],
+  ['Firefox', /(?:Firefox|FxiOS)\/([\d.]+)/],
+  ['Chrome', /(?:Chrome|CriOS)\/([\d.]+)/],
+  ['Safari', /Version\/([\d.]+).*Safari/]
+];
+
+const OPERATING_SYSTEMS: Array<[string, RegExp]> = [
+  ['iOS', /(?:iPhone|iPad|iPod).*?OS ([\d_]+)/],
+  ['Android', /Android ([\d.]+)/],
+  ['Windows', /Windows NT ([\d.]+)/],
+  ['macOS', /Mac OS X ([\d_.]+)/],
+  ['Linux', /Linux/]
+];
+
+function majorVersion(version: string | undefined): string {
+  return version ? ` ${version.split(/[._]/)[0]}` : '';
+}
+
+/**
+ * Best-effort browser, OS and form factor from a User-Agent header, for
+ * showing sessions to people. Not for feature detection.
+ */
+export function parseUserAgent(userAgent: string | null | undefined): DeviceInfo {
+  if (!userAgent) {
+    return { browser: null, os: null, deviceType: 'unknown' };
+  }
+
+  const browser = BROWSERS.map(([name, pattern]) => {
+    const match = userAgent.match(pattern);
+    return match ? `${name}${majorVersion(match[1])}` : null;
+  }).find(Boolean) ?? null;
+
+  const os = OPERATING_SYSTEMS.map(([name, pattern]) => {
+    const match = userAgent.match(pattern);
+    return match ? `${name}${majorVersion(match[1])}` : null;
+  }).find(Boolean) ?? null;
+
+  let deviceType: DeviceType = 'desktop';
+  if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) {
+    deviceType = 'tablet';
+  } else if (/Mobi|iPhone|iPod|Android/.test(userAgent)) {
+    deviceType = 'mobile';
+  } else if (!os) {
+    deviceType = 'unknown';
+  }
+
+  return { browser, os, deviceType };
+}
@@ -0,0 +1,205 @@
+import type {
+  PaymentGateway,
+  PaymentInquiryResult,
+  PaymentInquiryStatus,
+  PaymentRefundInput,
+  PaymentRefundResult,
+  PaymentRequestInput,
+  PaymentRequestResult,
+  PaymentVerifyInput,
+  PaymentVerifyResult
+} from './payment-gateway';
+
+interface ZarinpalError {
+  code: number;
+  message: string;
+  validations?: Record<string, string[]> | Array<Record<string, string>>;
+}
+
+interface ZarinpalResponse<T> {
+  data: T | [];
+  errors: ZarinpalError | [] | null;
+}
+
+interface ZarinpalRequestData {
+  code: number;
+  message: string;
+  authority: string;
+  fee_type: string;
+  fee: number;
+}
+
+interface ZarinpalVerificationData {
+  code: number;
+  message: string;
+  card_hash: string;
+  card_pan: string;
+  ref_id: number;
+  fee_type: string;
+  fee: number;
+}
+
+interface ZarinpalInquiryData {
+  code: number;
+  message: string;
+  status: string;
+}
+
+// Zarinpal answers declined calls with `data: []` and the reason in `errors`
+function unwrap<T extends { code: number }>(response: ZarinpalResponse<T>) {
+  const data = Array.isArray(response.data) ? null : response.data;
+  const error = response.errors && !Array.isArray(response.errors) ? response.errors : null;
+  return {
+    data,
+    code: data?.code ?? error?.code ?? -1,
+    message: error?.message ?? (data as { message?: string } | null)?.message
+  };
+}
+
+function getBaseUrl() {
+  return process.env.ZARINPAL_SANDBOX === 'false'
+    ? 'https://payment.zarinpal.com'
+    : 'https://sandbox.zarinpal.com';
+}
+
+async function post<T>(path: string, body: Record<string, unknown>): Promise<ZarinpalResponse<T>> {
+  const response = await fetch(`${getBaseUrl()}/pg/v4/payment/${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    },
+    body: JSON.stringify({
+      merchant_id: process.env.ZARINPAL_MERCHANT_ID,
+      ...body
+    }),
+  });
+
+  // Declined requests come back as 4xx with a JSON body we still want to read
+  if (!response.ok && !response.headers.get('content-type')?.includes('application/json')) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+const INQUIRY_STATUSES: Record<string, PaymentInquiryStatus> = {
+  IN_BANK: 'PENDING',
+  PAID: 'PAID',
+  VERIFIED: 'VERIFIED',
+  FAILED: 'FAILED',
+  REVERSED: 'REVERSED'
+};
+
+export const zarinpalGateway: PaymentGateway = {
+  name: 'ZARINPAL',
+
+  async request(input: PaymentRequestInput): Promise<PaymentRequestResult> {
+    const response = await post<ZarinpalRequestData>('request.json', {
+      amount: Math.round(input.amount), // Zarinpal only accepts integer amounts
+      callback_url: input.callbackUrl,
+      description: input.description,
+      metadata: {
+        mobile: input.mobile,
+        email: input.email,
+        order_id: input.orderId
+      }
+    });
+    const { data, code, message } = unwrap(response);
+
+    if (code !== 100 || !data) {
+      return { success: false, code, message, raw: response };
+    }
+
+    return {
+      success: true,
+      code,
+      authority: data.authority,
+      paymentUrl: `${getBaseUrl()}/pg/StartPay/${data.authority}`,
+      raw: response
+    };
+  },
+
+  async verify(input: PaymentVerifyInput): Promise<PaymentVerifyResult> {
+    const response = await post<ZarinpalVerificationData>('verify.json', {
+      authority: input.authority,
+      amount: Math.round(input.amount)
+    });
+    const { data, code, message } = unwrap(response);
+
+    // 101 means an earlier callback already verified this payment
+    return {
+      success: code === 100 || code === 101,
+      alreadyVerified: code === 101,
+      code,
+      refId: data?.ref_id?.toString(),
+      cardPan: data?.card_pan,
+      cardHash: data?.card_hash,
+      fee: data?.fee,
+      message,
+      raw: response
+    };
+  },
+
+  // Refunds go through Zarinpal's GraphQL API and need a personal access token
+  async refund(input: PaymentRefundInput): Promise<PaymentRefundResult> {
+    const accessToken = process.env.ZARINPAL_ACCESS_TOKEN;
+    if (!accessToken) {
+      return { success: false, code: -1, message: 'ZARINPAL_ACCESS_TOKEN is not configured' };
+    }
+
+    const response = await fetch('https://next.zarinpal.com/api/v4/graphql', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        'Authorization': `Bearer ${accessToken}`
+      },
+      body: JSON.stringify({
+        query: `mutation AddRefund($session_id: ID!, $amount: BigInteger!, $description: String, $method: InstantPayoutActionTypeEnum, $reason: RefundReasonEnum) {
+          resource: AddRefund(session_id: $session_id, amount: $amount, description: $description, method: $method, reason: $reason) {
+            id
+            terminal_id
+            amount
+            timeline { refund_amount refund_time refund_status }
+          }
+        }`,
+        variables: {
+          session_id: input.authority,
+          amount: Math.round(input.amount),
+          description: input.description,
+          method: 'PAYA',
+          reason: 'CUSTOMER_REQUEST'
+        }
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const result = await response.json();
+    if (result.errors?.length) {
+      return { success: false, code: -1, message: result.errors[0].message, raw: result };
+    }
+
+    return {
+      success: true,
+      code: 100,
+      refundId: result.data?.resource?.id?.toString(),
+      raw: result
+    };
+  },
+
+  async inquiry(authority: string): Promise<PaymentInquiryResult> {
+    const response = await post<ZarinpalInquiryData>('inquiry.json', { authority });
+    const { data, code, message } = unwrap(response);
+
+    return {
+      status: (data && INQUIRY_STATUSES[data.status]) || 'UNKNOWN',
+      code,
+      message,
+      raw: response
+    };
+  }
+};
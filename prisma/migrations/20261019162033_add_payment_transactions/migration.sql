@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "PaymentTransactionType" AS ENUM ('REQUEST', 'VERIFY', 'REFUND', 'INQUIRY');
+
+-- CreateEnum
+CREATE TYPE "PaymentTransactionStatus" AS ENUM ('SUCCEEDED', 'FAILED', 'DUPLICATE', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "PaymentTransaction" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "gateway" VARCHAR(50) NOT NULL,
+    "type" "PaymentTransactionType" NOT NULL,
+    "status" "PaymentTransactionStatus" NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "authority" VARCHAR(100),
+    "refId" VARCHAR(255),
+    "cardPan" VARCHAR(50),
+    "code" INTEGER,
+    "message" TEXT,
+    "ipAddress" VARCHAR(45),
+    "requestData" JSONB,
+    "responseData" JSONB,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PaymentTransaction_orderId_idx" ON "PaymentTransaction"("orderId");
+
+-- CreateIndex
+CREATE INDEX "PaymentTransaction_authority_idx" ON "PaymentTransaction"("authority");
+
+-- CreateIndex
+CREATE INDEX "PaymentTransaction_type_status_idx" ON "PaymentTransaction"("type", "status");
+
+-- CreateIndex
+CREATE INDEX "PaymentTransaction_createdAt_idx" ON "PaymentTransaction"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PaymentTransaction" ADD CONSTRAINT "PaymentTransaction_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "CartRecoveryStatus" AS ENUM ('SENT', 'FAILED', 'RECOVERED');
+
+-- CreateTable
+CREATE TABLE "CartRecoveryAttempt" (
+    "id" TEXT NOT NULL,
+    "cartId" TEXT NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "phoneNumber" VARCHAR(15) NOT NULL,
+    "status" "CartRecoveryStatus" NOT NULL DEFAULT 'SENT',
+    "itemCount" INTEGER NOT NULL,
+    "cartValue" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "couponId" TEXT,
+    "orderId" TEXT,
+    "recoveredAmount" DECIMAL(65,30),
+    "recoveredAt" TIMESTAMPTZ(6),
+    "error" TEXT,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CartRecoveryAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CartRecoveryAttempt_couponId_key" ON "CartRecoveryAttempt"("couponId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CartRecoveryAttempt_orderId_key" ON "CartRecoveryAttempt"("orderId");
+
+-- CreateIndex
+CREATE INDEX "CartRecoveryAttempt_cartId_idx" ON "CartRecoveryAttempt"("cartId");
+
+-- CreateIndex
+CREATE INDEX "CartRecoveryAttempt_userId_createdAt_idx" ON "CartRecoveryAttempt"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CartRecoveryAttempt_status_idx" ON "CartRecoveryAttempt"("status");
+
+-- CreateIndex
+CREATE INDEX "CartRecoveryAttempt_createdAt_idx" ON "CartRecoveryAttempt"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "CartRecoveryAttempt" ADD CONSTRAINT "CartRecoveryAttempt_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CartRecoveryAttempt" ADD CONSTRAINT "CartRecoveryAttempt_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "Coupon"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CartRecoveryAttempt" ADD CONSTRAINT "CartRecoveryAttempt_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "NotificationChannel" AS ENUM ('SMS', 'EMAIL', 'IN_APP');
+
+-- CreateEnum
+CREATE TYPE "NotificationStatus" AS ENUM ('PENDING', 'SENT', 'FAILED', 'SKIPPED');
+
+-- CreateTable
+CREATE TABLE "NotificationLog" (
+    "id" TEXT NOT NULL,
+    "channel" "NotificationChannel" NOT NULL,
+    "template" VARCHAR(50) NOT NULL,
+    "transport" VARCHAR(30) NOT NULL,
+    "recipient" VARCHAR(255),
+    "userId" INTEGER,
+    "adminId" INTEGER,
+    "status" "NotificationStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "payload" JSONB,
+    "lastError" TEXT,
+    "sentAt" TIMESTAMPTZ(6),
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "NotificationLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NotificationLog_userId_idx" ON "NotificationLog"("userId");
+
+-- CreateIndex
+CREATE INDEX "NotificationLog_adminId_idx" ON "NotificationLog"("adminId");
+
+-- CreateIndex
+CREATE INDEX "NotificationLog_template_idx" ON "NotificationLog"("template");
+
+-- CreateIndex
+CREATE INDEX "NotificationLog_status_idx" ON "NotificationLog"("status");
+
+-- CreateIndex
+CREATE INDEX "NotificationLog_createdAt_idx" ON "NotificationLog"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "NotificationLog" ADD CONSTRAINT "NotificationLog_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NotificationLog" ADD CONSTRAINT "NotificationLog_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "Admin"("id") ON DELETE SET NULL ON UPDATE CASCADE;
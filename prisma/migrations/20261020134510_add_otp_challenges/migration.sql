@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "OtpPurpose" AS ENUM ('SIGNUP', 'LOGIN', 'PASSWORD_RESET', 'ADMIN_LOGIN', 'ADMIN_PASSWORD_RESET');
+
+-- CreateTable
+CREATE TABLE "OtpChallenge" (
+    "id" TEXT NOT NULL,
+    "phoneNumber" VARCHAR(15) NOT NULL,
+    "purpose" "OtpPurpose" NOT NULL,
+    "codeHash" VARCHAR(64) NOT NULL,
+    "expiresAt" TIMESTAMPTZ(6) NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lockedUntil" TIMESTAMPTZ(6),
+    "lastSentAt" TIMESTAMPTZ(6),
+    "consumedAt" TIMESTAMPTZ(6),
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "OtpChallenge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OtpChallenge_phoneNumber_purpose_key" ON "OtpChallenge"("phoneNumber", "purpose");
+
+-- CreateIndex
+CREATE INDEX "OtpChallenge_expiresAt_idx" ON "OtpChallenge"("expiresAt");
@@ -0,0 +1,25 @@
+-- Sessions created before rotation hold access-token hashes, which can't be refreshed
+UPDATE "UserSession" SET "isActive" = false WHERE "isActive" = true;
+UPDATE "AdminSession" SET "isValid" = false WHERE "isValid" = true;
+
+-- AlterTable
+ALTER TABLE "UserSession" ADD COLUMN     "familyId" VARCHAR(36),
+ADD COLUMN     "rotatedAt" TIMESTAMPTZ(6);
+
+UPDATE "UserSession" SET "familyId" = "id";
+
+ALTER TABLE "UserSession" ALTER COLUMN "familyId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "AdminSession" ADD COLUMN     "familyId" VARCHAR(36),
+ADD COLUMN     "rotatedAt" TIMESTAMPTZ(6);
+
+UPDATE "AdminSession" SET "familyId" = "id"::TEXT;
+
+ALTER TABLE "AdminSession" ALTER COLUMN "familyId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "UserSession_familyId_idx" ON "UserSession"("familyId");
+
+-- CreateIndex
+CREATE INDEX "AdminSession_familyId_idx" ON "AdminSession"("familyId");
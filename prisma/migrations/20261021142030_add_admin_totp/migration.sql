@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Admin" ADD COLUMN     "totpEnabledAt" TIMESTAMPTZ(6),
+ADD COLUMN     "totpLastStep" INTEGER,
+ADD COLUMN     "totpSecret" VARCHAR(255);
+
+-- CreateTable
+CREATE TABLE "AdminRecoveryCode" (
+    "id" SERIAL NOT NULL,
+    "adminId" INTEGER NOT NULL,
+    "codeHash" VARCHAR(64) NOT NULL,
+    "usedAt" TIMESTAMPTZ(6),
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AdminRecoveryCode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AdminRecoveryCode_adminId_idx" ON "AdminRecoveryCode"("adminId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AdminRecoveryCode_adminId_codeHash_key" ON "AdminRecoveryCode"("adminId", "codeHash");
+
+-- AddForeignKey
+ALTER TABLE "AdminRecoveryCode" ADD CONSTRAINT "AdminRecoveryCode_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "Admin"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "RateLimitBucket" (
+    "key" VARCHAR(255) NOT NULL,
+    "windowStart" TIMESTAMPTZ(6) NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "previousCount" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "RateLimitBucket_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "RateLimitBucket_expiresAt_idx" ON "RateLimitBucket"("expiresAt");
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "OrderHistory" ADD COLUMN     "adminId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "OrderNote" ADD COLUMN     "adminId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "OrderHistory_adminId_idx" ON "OrderHistory"("adminId");
+
+-- CreateIndex
+CREATE INDEX "OrderNote_adminId_idx" ON "OrderNote"("adminId");
+
+-- AddForeignKey
+ALTER TABLE "OrderHistory" ADD CONSTRAINT "OrderHistory_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "Admin"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderNote" ADD CONSTRAINT "OrderNote_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "Admin"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { PrismaClient, OrderStatus } from '@prisma/client';
 import { subDays } from 'date-fns';
-import { authenticateRequest } from '../../../../../../lib/api-utils';
+import { requirePermission } from '../../../../../../lib/permissions';
+import { netOfTax } from '../../../../../../lib/tax-utils';
 
 type Period = '7d' | '30d' | '90d' | 'ytd' | '1y' | 'all';
 
@@ -80,16 +81,9 @@ async function getDateRange(period: Period = '30d') {
 
 export async function GET(request: Request) {
   // Authenticate the request
-  const auth = await authenticateRequest(request);
-  if (!auth.success) {
-    return auth.response || NextResponse.json(
-      { 
-        success: false, 
-        message: auth.error || 'دسترسی غیر مجاز',
-        code: 'UNAUTHORIZED'
-      },
-      { status: 401 }
-    );
+  const access = await requirePermission(request, 'reports:view');
+  if (!access.success) {
+    return access.response;
   }
   try {
     // Authentication is already handled at the beginning of the function
@@ -114,7 +108,7 @@ export async function GET(request: Request) {
           createdAt: { gte: dateRanges.start, lte: dateRanges.end },
           status: OrderStatus.DELIVERED,
         },
-        _sum: { total: true },
+        _sum: { total: true, taxAmount: true },
         _count: true,
       }),
 
@@ -127,7 +121,7 @@ export async function GET(request: Request) {
           },
           status: OrderStatus.DELIVERED,
         },
-        _sum: { total: true },
+        _sum: { total: true, taxAmount: true },
         _count: true,
       }),
 
@@ -157,6 +151,17 @@ export async function GET(request: Request) {
       ? ((totalRevenue - previousTotalRevenue) / previousTotalRevenue) * 100 
       : totalRevenue > 0 ? 100 : 0;
 
+    // Revenue without the VAT collected on behalf of the tax office
+    const taxCollected = currentPeriodData._sum?.taxAmount?.toNumber() || 0;
+    const netRevenue = netOfTax(totalRevenue, taxCollected);
+    const previousNetRevenue = netOfTax(
+      previousTotalRevenue,
+      previousPeriodData._sum?.taxAmount?.toNumber() || 0
+    );
+    const netRevenueChange = previousNetRevenue > 0 
+      ? ((netRevenue - previousNetRevenue) / previousNetRevenue) * 100 
+      : netRevenue > 0 ? 100 : 0;
+
     const totalOrders = currentPeriodData._count || 0;
     const previousTotalOrders = previousPeriodData._count || 0;
     const ordersChange = previousTotalOrders > 0 
@@ -188,6 +193,14 @@ export async function GET(request: Request) {
           change: Number(revenueChange.toFixed(1)),
           trend: revenueChange >= 0 ? 'up' : 'down',
         },
+        netRevenue: {
+          value: netRevenue,
+          change: Number(netRevenueChange.toFixed(1)),
+          trend: netRevenueChange >= 0 ? 'up' : 'down',
+        },
+        taxCollected: {
+          value: taxCollected,
+        },
         totalOrders: {
           value: totalOrders,
           change: Number(ordersChange.toFixed(1)),
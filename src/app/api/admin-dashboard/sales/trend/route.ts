@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { PrismaClient, OrderStatus } from '@prisma/client';
 import { subDays, format } from 'date-fns';
-import { authenticateRequest } from '../../../../../../lib/api-utils';
+import { requirePermission } from '../../../../../../lib/permissions';
+import { netOfTax } from '../../../../../../lib/tax-utils';
 
 type Period = '7d' | '30d' | '90d' | 'ytd' | '1y';
 type Interval = 'day' | 'week' | 'month';
@@ -79,16 +80,9 @@ function groupDataByInterval(data: Array<{ date: Date; amount: number }>, interv
 
 export async function GET(request: Request) {
   // Authenticate the request
-  const auth = await authenticateRequest(request);
-  if (!auth.success) {
-    return auth.response || NextResponse.json(
-      { 
-        success: false, 
-        message: auth.error || 'دسترسی غیر مجاز',
-        code: 'UNAUTHORIZED'
-      },
-      { status: 401 }
-    );
+  const access = await requirePermission(request, 'reports:view');
+  if (!access.success) {
+    return access.response;
   }
 
   try {
@@ -111,6 +105,7 @@ export async function GET(request: Request) {
       select: {
         createdAt: true,
         total: true,
+        taxAmount: true,
       },
       orderBy: {
         createdAt: 'asc',
@@ -125,6 +120,13 @@ export async function GET(request: Request) {
 
     // Group data by interval
     const groupedData = groupDataByInterval(salesData, interval);
+    const groupedNetData = groupDataByInterval(
+      orders.map(order => ({
+        date: order.createdAt,
+        amount: netOfTax(order.total.toNumber(), order.taxAmount.toNumber()),
+      })),
+      interval
+    );
 
     // Generate all intervals in the date range for complete data
     const allIntervals: string[] = [];
@@ -158,10 +160,12 @@ export async function GET(request: Request) {
     const chartData = allIntervals.map(interval => ({
       date: interval,
       sales: groupedData[interval] || 0,
+      netSales: groupedNetData[interval] || 0,
     }));
 
     // Calculate total sales and change from previous period
     const totalSales = Object.values(groupedData).reduce((sum, amount) => sum + amount, 0);
+    const totalNetSales = Object.values(groupedNetData).reduce((sum, amount) => sum + amount, 0);
     
     // Get previous period data for comparison
     const previousPeriodStart = subDays(dateRange.start, 
@@ -188,6 +192,8 @@ export async function GET(request: Request) {
         chart: chartData,
         summary: {
           totalSales,
+          totalNetSales,
+          totalTax: totalSales - totalNetSales,
           totalOrders: orders.length,
           change: Number(salesChange.toFixed(1)),
           trend: salesChange >= 0 ? 'up' : 'down',
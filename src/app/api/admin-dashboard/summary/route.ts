@@ -1,8 +1,10 @@
 import { NextResponse } from 'next/server';
 import { PrismaClient, OrderStatus, TicketStatus } from '@prisma/client';
 import { subDays } from 'date-fns';
-import { authenticateRequest } from '../../../../../lib/api-utils';
+import { requirePermission } from '../../../../../lib/permissions';
 import { getCachedData, generateCacheKey } from '../../../../../lib/cache-utils';
+import { netOfTax } from '../../../../../lib/tax-utils';
+import { CartRecoveryStats, getCartRecoveryStats } from '../../../../../lib/cart-recovery';
 
 const prisma = new PrismaClient();
 
@@ -18,23 +20,16 @@ function calculatePercentageChange(current: number, previous: number): number {
 export async function GET(request: Request) {
   try {
     // Authenticate the request
-    const auth = await authenticateRequest(request);
-    if (!auth.success) {
-      return auth.response || NextResponse.json(
-        { 
-          success: false, 
-          message: auth.error || 'دسترسی غیر مجاز',
-          code: 'UNAUTHORIZED'
-        },
-        { status: 401 }
-      );
+    const access = await requirePermission(request, 'reports:view');
+    if (!access.success) {
+      return access.response;
     }
 
     // Generate a cache key based on the request
     const cacheKey = generateCacheKey({
       path: '/api/admin-dashboard/summary',
-      // Use the authenticated admin ID from the auth result
-      adminId: 'adminId' in auth ? auth.adminId : 'unknown',
+      // Use the authenticated admin ID
+      adminId: access.admin.id,
       // Add any other relevant parameters that affect the response
     });
 
@@ -78,11 +73,12 @@ export async function GET(request: Request) {
 async function fetchDashboardData(): Promise<{
   success: boolean;
   data: {
-    sales: { total: number; change: number; trend: 'up' | 'down' };
+    sales: { total: number; net: number; tax: number; change: number; trend: 'up' | 'down' };
     orders: { total: number; change: number; trend: 'up' | 'down' };
     activeUsers: { total: number; change: number; trend: 'up' | 'down' };
     pendingTickets: { total: number };
     newCustomers: { total: number; change: number; trend: 'up' | 'down' };
+    cartRecovery: CartRecoveryStats;
   };
   meta: {
     period: string;
@@ -108,6 +104,7 @@ async function fetchDashboardData(): Promise<{
     pendingTicketsCount,
     newCustomersCurrentPeriod,
     newCustomersPreviousPeriod,
+    cartRecovery,
   ] = await Promise.all([
     // Total sales amount (current 30 days)
     prisma.order.aggregate({
@@ -115,7 +112,7 @@ async function fetchDashboardData(): Promise<{
         createdAt: { gte: thirtyDaysAgo, lte: now },
         status: OrderStatus.DELIVERED,
       },
-      _sum: { total: true },
+      _sum: { total: true, taxAmount: true },
     }),
 
     // Total sales amount (previous 30 days)
@@ -175,11 +172,15 @@ async function fetchDashboardData(): Promise<{
         role: 'CUSTOMER',
       },
     }),
+
+    // Abandoned cart reminders and the revenue they brought back (current 30 days)
+    getCartRecoveryStats(thirtyDaysAgo, now),
   ]);
 
   // Calculate metrics
   const totalSales = totalSalesCurrentPeriod._sum?.total?.toNumber() || 0;
   const previousTotalSales = totalSalesPreviousPeriod._sum?.total?.toNumber() || 0;
+  const salesTax = totalSalesCurrentPeriod._sum?.taxAmount?.toNumber() || 0;
   const totalOrders = totalOrdersCurrentPeriod;
   const previousTotalOrders = totalOrdersPreviousPeriod;
   const newCustomers = newCustomersCurrentPeriod;
@@ -196,6 +197,8 @@ async function fetchDashboardData(): Promise<{
     data: {
       sales: {
         total: totalSales,
+        net: netOfTax(totalSales, salesTax),
+        tax: salesTax,
         change: salesChange,
         trend: salesChange >= 0 ? 'up' : 'down',
       },
@@ -217,6 +220,7 @@ async function fetchDashboardData(): Promise<{
         change: customersChange,
         trend: customersChange >= 0 ? 'up' : 'down',
       },
+      cartRecovery,
     },
     meta: {
       period: '30d',
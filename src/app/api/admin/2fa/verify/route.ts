@@ -0,0 +1,45 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { handleError } from '@lib/error-handler';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import {
+  completeTwoFactorLogin,
+  verifySecondFactor,
+  verifyTwoFactorChallenge
+} from '@lib/admin-2fa';
+
+const verifySchema = z.object({
+  challengeToken: z.string().min(1, 'توکن ورود الزامی است'),
+  // A code from the authenticator app, or one of the recovery codes
+  code: z.string().trim().min(6, 'کد باید حداقل ۶ کاراکتر باشد').max(20, 'کد نامعتبر است')
+});
+
+// POST /api/admin/2fa/verify - Second step of an admin login
+//
+// Takes the challenge returned by /api/admin/login or /api/admin/otp/verify
+// and signs the admin in when the code is right.
+export async function POST(request: NextRequest) {
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(
+    request,
+    'admin:2fa:verify',
+    'sensitive'
+  );
+
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+
+  try {
+    const body = await request.json();
+    const { challengeToken, code } = verifySchema.parse(body);
+
+    const adminId = verifyTwoFactorChallenge(challengeToken, 'VERIFY');
+    // Wrong codes count towards a lockout
+    await verifySecondFactor(adminId, code);
+
+    return withRateLimitHeaders(await completeTwoFactorLogin(request, adminId), rateLimit.headers);
+  } catch (error) {
+    return withRateLimitHeaders(handleError(error, request), rateLimit.headers);
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { z } from 'zod';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { requirePermission } from '@lib/permissions';
+import { AUDIT_ENTITY_TYPES, listAuditLogs } from '@lib/audit-log';
+
+// Error messages in Farsi
+const MESSAGES = {
+  INVALID_INPUT: 'پارامترهای جستجو نامعتبر است.',
+  INTERNAL_ERROR: 'خطای سرور. لطفا بعدا تلاش کنید.'
+} as const;
+
+const auditLogQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  adminId: z.coerce.number().int().positive().optional(),
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.string().max(64).optional(),
+  action: z.string().max(50).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+});
+
+// Helper functions for consistent responses
+function errorResponse(status: number, message: string, details?: Record<string, unknown>) {
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+      ...(details && { details })
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+function successResponse(data: Record<string, unknown>, status = 200) {
+  return NextResponse.json(
+    {
+      success: true,
+      data
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+// GET /api/admin/audit-log - Admin writes, filtered by admin, entity and date range
+export async function GET(request: NextRequest) {
+  const rateLimit = await rateLimitMiddleware(request, 'admin:audit-log', 'admin');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+  try {
+    const access = await requirePermission(request, 'audit:view');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = auditLogQuerySchema.safeParse(
+      Object.fromEntries([...searchParams.entries()].filter(([, value]) => value !== ''))
+    );
+    if (!query.success) {
+      return withRateLimitHeaders(errorResponse(400, MESSAGES.INVALID_INPUT, query.error.flatten()), rateLimit.headers);
+    }
+
+    const result = await listAuditLogs(query.data);
+
+    return withRateLimitHeaders(successResponse(result), rateLimit.headers);
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
+  }
+}
@@ -0,0 +1,230 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@lib/prisma';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { requirePermission } from '@lib/permissions';
+import { recordAdminAction } from '@lib/audit-log';
+import { couponUpdateSchema, countCouponUsage, normalizeCouponCode } from '@lib/coupon-utils';
+
+// Error messages in Farsi
+const MESSAGES = {
+  NOT_FOUND: 'کد تخفیف یافت نشد.',
+  INVALID_INPUT: 'ورودی نامعتبر است.',
+  DUPLICATE_CODE: 'این کد تخفیف قبلاً ثبت شده است.',
+  INTERNAL_ERROR: 'خطای سرور. لطفا بعدا تلاش کنید.',
+  UPDATED: 'کد تخفیف با موفقیت به‌روزرسانی شد.',
+  DELETED: 'کد تخفیف با موفقیت حذف شد.',
+  DEACTIVATED: 'کد تخفیف استفاده شده است و به جای حذف غیرفعال شد.'
+} as const;
+
+// Helper functions for consistent responses
+function errorResponse(status: number, message: string, details?: Record<string, unknown>) {
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+      ...(details && { details })
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+function successResponse(data: Record<string, unknown>, status = 200) {
+  return NextResponse.json(
+    {
+      success: true,
+      data
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+// GET /api/admin/coupons/[id] - Get a coupon with its usage
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const rateLimit = await rateLimitMiddleware(request, `admin:coupons:detail:${params.id}`, 'admin');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+  try {
+    const access = await requirePermission(request, 'coupons:manage');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
+    }
+
+    const coupon = await prisma.coupon.findUnique({
+      where: { id: params.id },
+      include: {
+        redemptions: {
+          orderBy: { createdAt: 'desc' },
+          take: 50,
+          include: {
+            order: {
+              select: { id: true, orderNumber: true, status: true, total: true }
+            }
+          }
+        }
+      }
+    });
+
+    if (!coupon) {
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.NOT_FOUND), rateLimit.headers);
+    }
+
+    const usageCount = await countCouponUsage(prisma, coupon.id);
+
+    return withRateLimitHeaders(successResponse({ coupon, usageCount }), rateLimit.headers);
+  } catch (error) {
+    console.error('Error fetching coupon:', error);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
+  }
+}
+
+// PATCH /api/admin/coupons/[id] - Update a coupon
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const rateLimit = await rateLimitMiddleware(request, `admin:coupons:update:${params.id}`, 'admin');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+  try {
+    const access = await requirePermission(request, 'coupons:manage');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.error('Error parsing request body:', error);
+      return withRateLimitHeaders(errorResponse(400, 'بدنه درخواست نامعتبر است'), rateLimit.headers);
+    }
+
+    const validation = couponUpdateSchema.safeParse(body);
+    if (!validation.success) {
+      return withRateLimitHeaders(errorResponse(400, MESSAGES.INVALID_INPUT, {
+        errors: validation.error.flatten()
+      }), rateLimit.headers);
+    }
+
+    const existing = await prisma.coupon.findUnique({ where: { id: params.id } });
+    if (!existing) {
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.NOT_FOUND), rateLimit.headers);
+    }
+
+    const { code, ...data } = validation.data;
+
+    // Re-check the cross-field rules against the coupon as it will look after the update
+    const merged = couponUpdateSchema.safeParse({
+      type: data.type ?? existing.type,
+      value: data.value ?? Number(existing.value),
+      buyQuantity: data.buyQuantity !== undefined ? data.buyQuantity : existing.buyQuantity,
+      getQuantity: data.getQuantity !== undefined ? data.getQuantity : existing.getQuantity,
+      startsAt: data.startsAt !== undefined ? data.startsAt : existing.startsAt,
+      endsAt: data.endsAt !== undefined ? data.endsAt : existing.endsAt
+    });
+    if (!merged.success) {
+      return withRateLimitHeaders(errorResponse(400, MESSAGES.INVALID_INPUT, {
+        errors: merged.error.flatten()
+      }), rateLimit.headers);
+    }
+
+    const coupon = await prisma.coupon.update({
+      where: { id: params.id },
+      data: {
+        ...data,
+        ...(code && { code: normalizeCouponCode(code) })
+      }
+    });
+
+    await recordAdminAction(request, access.admin.id, {
+      action: 'coupon.update',
+      entityType: 'COUPON',
+      entityId: coupon.id,
+      before: existing,
+      after: coupon
+    });
+
+    return withRateLimitHeaders(successResponse({ coupon, message: MESSAGES.UPDATED }), rateLimit.headers);
+  } catch (error) {
+    console.error('Error updating coupon:', error);
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === 'P2002') {
+        return withRateLimitHeaders(errorResponse(409, MESSAGES.DUPLICATE_CODE), rateLimit.headers);
+      }
+      if (error.code === 'P2025') {
+        return withRateLimitHeaders(errorResponse(404, MESSAGES.NOT_FOUND), rateLimit.headers);
+      }
+    }
+
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
+  }
+}
+
+// DELETE /api/admin/coupons/[id] - Delete a coupon, or deactivate it if it was ever used
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const rateLimit = await rateLimitMiddleware(request, `admin:coupons:delete:${params.id}`, 'admin');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+  try {
+    const access = await requirePermission(request, 'coupons:manage');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
+    }
+
+    const coupon = await prisma.coupon.findUnique({
+      where: { id: params.id },
+      include: { _count: { select: { redemptions: true } } }
+    });
+
+    if (!coupon) {
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.NOT_FOUND), rateLimit.headers);
+    }
+
+    // Orders keep pointing at their coupon, so used coupons are only switched off
+    if (coupon._count.redemptions > 0) {
+      await prisma.coupon.update({
+        where: { id: params.id },
+        data: { isActive: false }
+      });
+      await recordAdminAction(request, access.admin.id, {
+        action: 'coupon.deactivate',
+        entityType: 'COUPON',
+        entityId: coupon.id,
+        before: coupon,
+        after: { isActive: false }
+      });
+      return withRateLimitHeaders(successResponse({ message: MESSAGES.DEACTIVATED, deactivated: true }), rateLimit.headers);
+    }
+
+    await prisma.coupon.delete({ where: { id: params.id } });
+
+    await recordAdminAction(request, access.admin.id, {
+      action: 'coupon.delete',
+      entityType: 'COUPON',
+      entityId: coupon.id,
+      before: coupon
+    });
+
+    return withRateLimitHeaders(successResponse({ message: MESSAGES.DELETED, deleted: true }), rateLimit.headers);
+  } catch (error) {
+    console.error('Error deleting coupon:', error);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
+  }
+}
@@ -0,0 +1,160 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@lib/prisma';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { requirePermission } from '@lib/permissions';
+import { recordAdminAction } from '@lib/audit-log';
+import { couponCreateSchema, normalizeCouponCode } from '@lib/coupon-utils';
+
+// Error messages in Farsi
+const MESSAGES = {
+  INVALID_INPUT: 'ورودی نامعتبر است.',
+  DUPLICATE_CODE: 'این کد تخفیف قبلاً ثبت شده است.',
+  INTERNAL_ERROR: 'خطای سرور. لطفا بعدا تلاش کنید.',
+  CREATED: 'کد تخفیف با موفقیت ایجاد شد.'
+} as const;
+
+// Helper functions for consistent responses
+function errorResponse(status: number, message: string, details?: Record<string, unknown>) {
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+      ...(details && { details })
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+function successResponse(data: Record<string, unknown>, status = 200) {
+  return NextResponse.json(
+    {
+      success: true,
+      data
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+// GET /api/admin/coupons - List coupons
+export async function GET(request: NextRequest) {
+  const rateLimit = await rateLimitMiddleware(request, 'admin:coupons:list', 'admin');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+  try {
+    const access = await requirePermission(request, 'coupons:manage');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
+    }
+
+    // Get query parameters
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')));
+    const search = searchParams.get('search');
+    const isActive = searchParams.get('isActive');
+
+    const where: Prisma.CouponWhereInput = {
+      ...(search && {
+        OR: [
+          { code: { contains: search, mode: 'insensitive' } },
+          { name: { contains: search, mode: 'insensitive' } }
+        ]
+      }),
+      ...(isActive !== null && { isActive: isActive === 'true' })
+    };
+
+    const [coupons, total] = await Promise.all([
+      prisma.coupon.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          _count: { select: { redemptions: true } }
+        }
+      }),
+      prisma.coupon.count({ where })
+    ]);
+
+    return withRateLimitHeaders(successResponse({
+      coupons: coupons.map(({ _count, ...coupon }) => ({
+        ...coupon,
+        redemptionCount: _count.redemptions
+      })),
+      pagination: {
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+        limit
+      }
+    }), rateLimit.headers);
+  } catch (error) {
+    console.error('Error fetching coupons:', error);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
+  }
+}
+
+// POST /api/admin/coupons - Create a coupon
+export async function POST(request: NextRequest) {
+  const rateLimit = await rateLimitMiddleware(request, 'admin:coupons:create', 'admin');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+  try {
+    const access = await requirePermission(request, 'coupons:manage');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
+    }
+    const { admin } = access;
+
+    let body;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.error('Error parsing request body:', error);
+      return withRateLimitHeaders(errorResponse(400, 'بدنه درخواست نامعتبر است'), rateLimit.headers);
+    }
+
+    const validation = couponCreateSchema.safeParse(body);
+    if (!validation.success) {
+      return withRateLimitHeaders(errorResponse(400, MESSAGES.INVALID_INPUT, {
+        errors: validation.error.flatten()
+      }), rateLimit.headers);
+    }
+
+    const { code, ...data } = validation.data;
+
+    const coupon = await prisma.coupon.create({
+      data: {
+        ...data,
+        code: normalizeCouponCode(code),
+        createdById: admin.id
+      }
+    });
+
+    await recordAdminAction(request, admin.id, {
+      action: 'coupon.create',
+      entityType: 'COUPON',
+      entityId: coupon.id,
+      after: coupon
+    });
+
+    return withRateLimitHeaders(successResponse({ coupon, message: MESSAGES.CREATED }, 201), rateLimit.headers);
+  } catch (error) {
+    console.error('Error creating coupon:', error);
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return withRateLimitHeaders(errorResponse(409, MESSAGES.DUPLICATE_CODE), rateLimit.headers);
+    }
+
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
+  }
+}
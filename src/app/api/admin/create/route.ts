@@ -4,7 +4,8 @@ import { hash } from 'bcryptjs';
 import prisma from '../../../../../lib/prisma';
 import { handleError, Errors } from '../../../../../lib/error-handler';
 import { SuccessMessages } from '../../../../../lib/success-messages';
-import { verifyToken } from '../../../../../lib/auth'; 
+import { canManageRole, requirePermission } from '../../../../../lib/permissions';
+import { recordAdminAction } from '../../../../../lib/audit-log';
 
 // Generate a random password for new admins
 const generateRandomPassword = () => {
@@ -52,32 +53,20 @@ const createAdminSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
-    // Verify authentication
-    const token = request.cookies.get('adminToken')?.value;
-    if (!token) throw Errors.authorization('دسترسی غیرمجاز');
-    
-    const decoded = verifyToken(token);
-    if (!decoded) throw Errors.authorization('توکن نامعتبر است');
-    
-    // Get requester info
-    const requester = await prisma.admin.findUnique({ 
-      where: { id: decoded.adminId } 
-    });
-    
-    if (!requester) throw Errors.authorization('ادمین معتبر یافت نشد');
-    
     // Check permissions
-    if (['SELLER', 'MARKETER', 'OPERATOR'].includes(requester.role)) {
-      throw Errors.authorization('شما مجوز این عملیات را ندارید');
+    const access = await requirePermission(request, 'admins:manage');
+    if (!access.success) {
+      return access.response;
     }
+    const requester = access.admin;
     
     // Validate request body
     const body = await request.json();
     const data = createAdminSchema.parse(body);
     
-    // Additional permission check for MANAGER
-    if (requester.role === 'MANAGER' && data.role === 'OWNER') {
-      throw Errors.authorization('مدیر نمی‌تواند مالک ایجاد کند');
+    // Nobody can create an admin with more permissions than their own
+    if (!canManageRole(requester.role, data.role)) {
+      throw Errors.authorization('شما مجوز ایجاد ادمین با این نقش را ندارید');
     }
     
     // Normalize and validate phone number
@@ -127,7 +116,7 @@ export async function POST(request: NextRequest) {
             passwordHash,
             role: data.role,
             isActive: data.isActive,
-            creatorId: decoded.adminId,
+            creatorId: requester.id,
           },
           select: {
             id: true,
@@ -141,6 +130,13 @@ export async function POST(request: NextRequest) {
           }
         });
       });
+
+      await recordAdminAction(request, requester.id, {
+        action: 'admin.create',
+        entityType: 'ADMIN',
+        entityId: newAdmin.id,
+        after: newAdmin
+      });
       
       // In a real app, you would send the password to the admin via email or SMS
       console.log(`New admin created with password: ${password}`);
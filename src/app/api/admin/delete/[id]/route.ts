@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import prisma from '../../../../../../lib/prisma';
 import { handleError, Errors } from '../../../../../../lib/error-handler';
 import { SuccessMessages } from '../../../../../../lib/success-messages';
-import { verifyToken } from '../../../../../../lib/auth';
+import { canManageRole, requirePermission } from '../../../../../../lib/permissions';
+import { recordAdminAction } from '../../../../../../lib/audit-log';
 
 export async function DELETE(
   request: NextRequest,
@@ -13,27 +14,15 @@ export async function DELETE(
     throw Errors.validation('شناسه ادمین معتبر نیست');
   }
   try {
-    // Verify authentication
-    const token = request.cookies.get('adminToken')?.value;
-    if (!token) throw Errors.authorization('دسترسی غیرمجاز');
-    
-    const decoded = verifyToken(token);
-    if (!decoded) throw Errors.authorization('توکن نامعتبر است');
-    
-    // Get requester info
-    const requester = await prisma.admin.findUnique({ 
-      where: { id: decoded.adminId } 
-    });
-    
-    if (!requester) throw Errors.authorization('ادمین معتبر یافت نشد');
-    
     // Check permissions
-    if (['SELLER', 'MARKETER', 'OPERATOR'].includes(requester.role)) {
-      throw Errors.authorization('شما مجوز این عملیات را ندارید');
+    const access = await requirePermission(request, 'admins:manage');
+    if (!access.success) {
+      return access.response;
     }
+    const requester = access.admin;
     
     // Prevent self-deletion
-    if (decoded.adminId === adminId) {
+    if (requester.id === adminId) {
       throw Errors.authorization('شما نمی‌توانید خودتان را حذف کنید');
     }
     
@@ -44,9 +33,9 @@ export async function DELETE(
     
     if (!targetAdmin) throw Errors.notFound('ادمین مورد نظر یافت نشد');
     
-    // Check if requester is trying to delete an OWNER as a MANAGER
-    if (requester.role === 'MANAGER' && targetAdmin.role === 'OWNER') {
-      throw Errors.authorization('مدیر نمی‌تواند مالک را حذف کند');
+    // Admins with permissions the requester lacks are out of reach
+    if (!canManageRole(requester.role, targetAdmin.role)) {
+      throw Errors.authorization('شما مجوز حذف این ادمین را ندارید');
     }
     
     // Prevent deleting the last OWNER
@@ -69,6 +58,13 @@ export async function DELETE(
         where: { id: adminId }
       })
     ]);
+
+    await recordAdminAction(request, requester.id, {
+      action: 'admin.delete',
+      entityType: 'ADMIN',
+      entityId: adminId,
+      before: targetAdmin
+    });
     
     // Return success response
     return NextResponse.json(
@@ -3,7 +3,8 @@ import { z } from 'zod';
 import prisma from '../../../../../../lib/prisma';
 import { handleError, Errors } from '../../../../../../lib/error-handler';
 import { SuccessMessages } from '../../../../../../lib/success-messages';
-import { verifyToken } from '../../../../../../lib/auth';
+import { canManageRole, requirePermission } from '../../../../../../lib/permissions';
+import { recordAdminAction } from '../../../../../../lib/audit-log';
 
 // Add OPTIONS handler for CORS preflight
 const OPTIONS = async () => {
@@ -47,24 +48,12 @@ export async function PATCH(
     throw Errors.validation('شناسه ادمین معتبر نیست');
   }
   try {
-    // Verify authentication
-    const token = request.cookies.get('adminToken')?.value;
-    if (!token) throw Errors.authorization('دسترسی غیرمجاز');
-    
-    const decoded = verifyToken(token);
-    if (!decoded) throw Errors.authorization('توکن نامعتبر است');
-    
-    // Get requester info
-    const requester = await prisma.admin.findUnique({ 
-      where: { id: decoded.adminId } 
-    });
-    
-    if (!requester) throw Errors.authorization('ادمین معتبر یافت نشد');
-    
     // Check permissions
-    if (['SELLER', 'MARKETER', 'OPERATOR'].includes(requester.role)) {
-      throw Errors.authorization('شما مجوز این عملیات را ندارید');
+    const access = await requirePermission(request, 'admins:manage');
+    if (!access.success) {
+      return access.response;
     }
+    const requester = access.admin;
     
     // Get target admin
     const targetAdmin = await prisma.admin.findUnique({ 
@@ -73,9 +62,9 @@ export async function PATCH(
     
     if (!targetAdmin) throw Errors.notFound('ادمین مورد نظر یافت نشد');
     
-    // Check if requester is trying to edit an OWNER as a MANAGER
-    if (requester.role === 'MANAGER' && targetAdmin.role === 'OWNER') {
-      throw Errors.authorization('مدیر نمی‌تواند مالک را ویرایش کند');
+    // Admins with permissions the requester lacks are out of reach
+    if (!canManageRole(requester.role, targetAdmin.role)) {
+      throw Errors.authorization('شما مجوز ویرایش این ادمین را ندارید');
     }
     
     // Validate request body
@@ -84,9 +73,9 @@ export async function PATCH(
     
     // Additional permission checks
     if (data.role) {
-      // Prevent MANAGER from promoting to OWNER
-      if (requester.role === 'MANAGER' && data.role === 'OWNER') {
-        throw Errors.authorization('مدیر نمی‌تواند نقش را به مالک تغییر دهد');
+      // Prevent granting a role with permissions the requester lacks
+      if (!canManageRole(requester.role, data.role)) {
+        throw Errors.authorization('شما مجوز اعطای این نقش را ندارید');
       }
       
       // Prevent self-demotion if it's the last OWNER
@@ -121,6 +110,14 @@ export async function PATCH(
         updatedAt: true,
       }
     });
+
+    await recordAdminAction(request, requester.id, {
+      action: 'admin.update',
+      entityType: 'ADMIN',
+      entityId: adminId,
+      before: targetAdmin,
+      after: updatedAdmin
+    });
     
     // Return success response with CORS headers
     const response = NextResponse.json(
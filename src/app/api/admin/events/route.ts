@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@lib/api-utils';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { createEventStreamResponse, parseWatchList } from '@lib/event-stream';
+
+// Streams stay open, so the response must never be cached or pre-rendered
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// GET /api/admin/events - Live updates for the signed-in admin (Server-Sent Events)
+//
+// Events for tickets assigned to the admin, plus any ticket or order named
+// in ?ticketId= / ?orderId= (e.g. the one open on screen).
+// Reconnects resume from Last-Event-ID; `reset` means reload instead.
+export async function GET(request: NextRequest) {
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(
+    request,
+    'admin:events:stream',
+    'admin'
+  );
+
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+
+  try {
+    // Authenticate admin
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.adminId) {
+      return withRateLimitHeaders(NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      ), rateLimit.headers);
+    }
+
+    return withRateLimitHeaders(createEventStreamResponse(request, {
+      adminId: authResult.adminId,
+      ...parseWatchList(request)
+    }), rateLimit.headers);
+  } catch (error) {
+    console.error('Error opening event stream:', error);
+    return withRateLimitHeaders(NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    ), rateLimit.headers);
+  }
+}
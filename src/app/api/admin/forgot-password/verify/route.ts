@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { hash, compare } from 'bcryptjs';
+import { hash } from 'bcryptjs';
 import prisma from '../../../../../../lib/prisma';
 import { handleError, Errors } from '../../../../../../lib/error-handler';
+import { verifyOtpChallenge } from '../../../../../../lib/otp-challenge';
+import { invalidateAdminSession } from '../../../../../../lib/session-utils';
 
 const verifySchema = z.object({
   phoneNumber: z.string().min(10, 'شماره تلفن معتبر نیست'),
@@ -67,67 +69,22 @@ export async function POST(request: NextRequest) {
       throw Errors.forbidden('حساب کاربری غیرفعال شده است');
     }
 
-    // Find a valid, unexpired session with this OTP
-    const now = new Date();
-    const session = await prisma.adminSession.findFirst({
-      where: {
-        adminId: admin.id,
-        isValid: true,
-        expiresAt: { gt: now },
-        tokenHash: { not: undefined }
-      },
-      orderBy: { createdAt: 'desc' },
-      select: {
-        id: true,
-        tokenHash: true
-      }
-    });
-
-    if (!session || !session.tokenHash) {
-      throw Errors.unauthorized('کد تایید نامعتبر یا منقضی شده است');
-    }
-
-    // Verify the OTP
-    const isOtpValid = await compare(otp, session.tokenHash);
-    if (!isOtpValid) {
-      throw Errors.unauthorized('کد تایید نامعتبر است');
-    }
+    // Wrong codes count towards a lockout
+    await verifyOtpChallenge(normalizedPhone, 'ADMIN_PASSWORD_RESET', otp);
 
     // Hash the new password
     const passwordHash = await hash(newPassword, 10);
 
-    // Update password and invalidate all sessions in a transaction
-    await prisma.$transaction([
-      // Update the password
-      prisma.admin.update({
-        where: { id: admin.id },
-        data: { 
-          passwordHash,
-          updatedAt: new Date()
-        }
-      }),
-      
-      // Invalidate all active sessions including the current one
-      prisma.adminSession.updateMany({
-        where: { 
-          adminId: admin.id,
-          isValid: true
-        },
-        data: { 
-          isValid: false,
-          expiresAt: new Date()
-        }
-      }),
-      
-      // Mark the used OTP as invalid
-      prisma.adminSession.update({
-        where: { id: session.id },
-        data: { 
-          isValid: false,
-          expiresAt: new Date()
-        }
-      })
-    ]);
+    await prisma.admin.update({
+      where: { id: admin.id },
+      data: { 
+        passwordHash,
+        updatedAt: new Date()
+      }
+    });
+
+    // Sign out every device, in case the old password was what got someone in
+    await invalidateAdminSession(admin.id);
 
     return NextResponse.json({
       success: true,
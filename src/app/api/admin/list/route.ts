@@ -1,20 +1,17 @@
 import { NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
-import { authenticateRequest } from '../../../../../lib/api-utils';
+import { requirePermission } from '../../../../../lib/permissions';
 
 const prisma = new PrismaClient();
 
 // GET /api/admin/list - Get list of admins
-// Only accessible by admin users
+// Only accessible by admins who may view other admins
 export async function GET(request: Request) {
   try {
-    // Authenticate the request
-    const auth = await authenticateRequest(request);
-    if (!auth.success) {
-      return NextResponse.json(
-        { success: false, message: 'دسترسی غیر مجاز' }, // Unauthorized
-        { status: 401 }
-      );
+    // Check permissions
+    const access = await requirePermission(request, 'admins:view');
+    if (!access.success) {
+      return access.response;
     }
 
     // Get query parameters for pagination
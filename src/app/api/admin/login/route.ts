@@ -4,7 +4,14 @@ import prisma from '../../../../../lib/prisma';
 import { handleError, Errors } from '../../../../../lib/error-handler';
 import { SuccessMessages } from '../../../../../lib/success-messages';
 import { compare } from 'bcryptjs';
-import { sign } from 'jsonwebtoken';
+import {
+  createAdminSession,
+  getSessionClient,
+  invalidateAdminSession,
+  setAdminAuthCookies,
+  toTokenResponse
+} from '../../../../../lib/session-utils';
+import { pendingTwoFactorStep, twoFactorStepResponse } from '../../../../../lib/admin-2fa';
 
 const loginSchema = z.object({
   phoneNumber: z.string()
@@ -63,7 +70,8 @@ export async function POST(request: NextRequest) {
         email: true,
         role: true,
         isActive: true,
-        passwordHash: true
+        passwordHash: true,
+        totpEnabledAt: true
       }
     });
 
@@ -82,60 +90,19 @@ export async function POST(request: NextRequest) {
       throw Errors.unauthorized('شماره موبایل یا رمز عبور نادرست است');
     }
     
+    // With 2FA on (or required for the role) the password alone gets a
+    // challenge to finish at /api/admin/2fa/verify, not a session. Existing
+    // sessions are left alone until then.
+    const twoFactorStep = pendingTwoFactorStep(admin);
+    if (twoFactorStep) {
+      return twoFactorStepResponse(twoFactorStep);
+    }
+
     // Invalidate any existing active sessions for this admin
-    await prisma.adminSession.updateMany({
-      where: { 
-        adminId: admin.id,
-        expiresAt: { gt: new Date() },
-        isValid: true
-      },
-      data: {
-        isValid: false,
-        expiresAt: new Date()
-      }
-    });
+    await invalidateAdminSession(admin.id);
 
-    // Generate JWT token
-    const token = sign(
-      { 
-        adminId: admin.id,
-        role: admin.role,
-        phoneNumber: admin.phoneNumber 
-      },
-      process.env.JWT_SECRET!,
-      { expiresIn: '7d' }
-    );
-    
-    // Calculate token expiration (7 days from now)
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7);
-    
-    // Create session in database within a transaction
-    await prisma.$transaction([
-      // Invalidate any existing sessions
-      prisma.adminSession.updateMany({
-        where: { 
-          adminId: admin.id,
-          expiresAt: { gt: new Date() },
-          isValid: true
-        },
-        data: {
-          isValid: false,
-          expiresAt: new Date()
-        }
-      }),
-      // Create new session
-      prisma.adminSession.create({
-        data: {
-          adminId: admin.id,
-          tokenHash: token,
-          expiresAt,
-          userAgent: request.headers.get('user-agent') || 'unknown',
-          ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
-          isValid: true
-        }
-      })
-    ]);
+    // Short-lived access token plus a rotating refresh token
+    const tokens = await createAdminSession(admin, getSessionClient(request));
 
     // Create response with only the admin data we need
     const adminData = {
@@ -155,18 +122,14 @@ export async function POST(request: NextRequest) {
         message: SuccessMessages.LOGIN_SUCCESS,
         data: { 
           admin: adminData,
-          token // For client-side usage if needed
+          token: tokens.accessToken, // For client-side usage if needed
+          tokens: toTokenResponse(tokens)
         } 
       },
-      { 
-        status: 200,
-        headers: {
-          'Set-Cookie': `adminToken=${token}; Path=/; HttpOnly; SameSite=Strict; ${
-            process.env.NODE_ENV === 'production' ? 'Secure; ' : ''
-          }Max-Age=604800` // 7 days
-        }
-      }
+      { status: 200 }
     );
+
+    setAdminAuthCookies(response, tokens);
     
     return response;
     
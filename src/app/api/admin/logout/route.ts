@@ -1,24 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '../../../../../lib/prisma';
-import { UserType } from '../../../../../lib/auth';
-import jwt from 'jsonwebtoken';
-
-// Interface for the decoded token
-interface DecodedToken {
-  userId?: number;
-  adminId?: number;
-  role: UserType | 'OWNER';
-  iat?: number;
-  exp?: number;
-  phoneNumber?: string;
-}
+import { verifyToken } from '../../../../../lib/auth';
+import {
+  clearAdminAuthCookies,
+  getAdminRefreshToken,
+  invalidateAdminSession,
+  revokeAdminRefreshToken
+} from '../../../../../lib/session-utils';
 
 export async function POST(request: NextRequest) {
   try {
-    // 1. Get token from cookies
-    const token = request.cookies.get('adminToken')?.value;
+    // 1. Get tokens from the Authorization header or cookies
+    const authHeader = request.headers.get('authorization');
+    const token = authHeader?.startsWith('Bearer ')
+      ? authHeader.split(' ')[1]
+      : request.cookies.get('adminToken')?.value;
+    const refreshToken = getAdminRefreshToken(request);
     
-    if (!token) {
+    if (!token && !refreshToken) {
       return NextResponse.json(
         { 
           success: false, 
@@ -29,75 +28,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 2. Verify the token
-    console.log('Token to verify:', token ? `${token.substring(0, 10)}...` : 'No token provided');
-    
-    let decoded: DecodedToken | null = null;
-    try {
-      // First try to decode the token to see its structure
-      const unverified = jwt.decode(token) as DecodedToken | null;
-      console.log('Decoded token content:', unverified);
-      
-      if (unverified) {
-        // Check if this is an admin/owner token
-        const isAdminToken = (unverified.role === 'ADMIN' || unverified.role === 'OWNER') && 
-                           (unverified.adminId || unverified.userId);
-        
-        if (isAdminToken) {
-          decoded = {
-            ...unverified,
-            userId: unverified.userId || unverified.adminId,
-            role: unverified.role as UserType
-          };
-          console.log('Accepted token with role:', decoded.role);
-        } else {
-          console.error('Token is not an admin/owner token:', { role: unverified.role });
-          return NextResponse.json(
-            { 
-              success: false, 
-              error: 'Invalid token - admin privileges required',
-              code: 'ADMIN_ACCESS_REQUIRED'
-            },
-            { status: 403 }
-          );
-        }
-      } else {
-        console.error('Could not decode token');
-        return NextResponse.json(
-          { 
-            success: false, 
-            error: 'Invalid token format',
-            code: 'INVALID_TOKEN_FORMAT'
-          },
-          { status: 401 }
-        );
-      }
-    } catch (error) {
-      console.error('Error during token verification:', error);
+    // 2. Verify the access token; an expired one is fine when the refresh token is present
+    const decoded = token ? verifyToken(token) : null;
+    const adminId = decoded?.adminId;
+
+    if (decoded && !adminId) {
       return NextResponse.json(
         { 
           success: false, 
-          error: 'Error during token verification',
-          code: 'TOKEN_VERIFICATION_ERROR',
-          debug: {
-            error: error instanceof Error ? error.message : 'Unknown error',
-            tokenExists: !!token,
-            tokenPrefix: token ? `${token.substring(0, 10)}...` : 'No token'
-          }
+          error: 'Invalid token - admin privileges required',
+          code: 'ADMIN_ACCESS_REQUIRED'
         },
-        { status: 401 }
+        { status: 403 }
       );
     }
-    
-    // At this point we have a valid admin/owner token
-    const adminId = decoded.userId || decoded.adminId;
-    if (!adminId) {
-      console.error('No admin ID found in token');
+
+    if (!decoded && !refreshToken) {
       return NextResponse.json(
         { 
           success: false, 
-          error: 'Invalid token - missing admin ID',
-          code: 'INVALID_TOKEN_DATA'
+          error: 'Invalid or expired token',
+          code: 'TOKEN_VERIFICATION_ERROR'
         },
         { status: 401 }
       );
@@ -105,37 +56,18 @@ export async function POST(request: NextRequest) {
 
     // 3. Invalidate the session
     try {
-      // 3. Find and invalidate the admin session
-      // Find active session for this admin
-      const sessions = await prisma.adminSession.findMany({
-        where: {
-          adminId: adminId,
-          isValid: true,
-          expiresAt: { gt: new Date() },
-        },
-        orderBy: {
-          expiresAt: 'desc', // Get the most recent session first
-        },
-        take: 1, // Only get the most recent session
-      });
-      
-      const session = sessions[0]; // Get the first (and only) session
+      if (refreshToken) {
+        await revokeAdminRefreshToken(refreshToken);
+      }
+      if (decoded && adminId) {
+        await invalidateAdminSession(adminId, decoded.sessionId);
 
-      if (session) {
-        await prisma.adminSession.update({
-          where: { id: session.id },
-          data: {
-            isValid: false,
-            expiresAt: new Date()
-          }
+        // Update admin's last logout time
+        await prisma.admin.update({
+          where: { id: adminId },
+          data: { lastLogoutAt: new Date() },
         });
       }
-
-      // 5. Update admin's last logout time
-      await prisma.admin.update({
-        where: { id: adminId },
-        data: { lastLogoutAt: new Date() },
-      });
     } catch (error) {
       console.error('Error during session invalidation:', error);
       // Continue with logout even if invalidation fails
@@ -164,7 +96,7 @@ export async function POST(request: NextRequest) {
       maxAge: 0
     };
 
-    response.cookies.set('adminToken', '', cookieOptions);
+    clearAdminAuthCookies(response);
     response.cookies.set('auth_token', '', cookieOptions);
     response.cookies.set('admin_auth_token', '', cookieOptions);
 
@@ -185,13 +117,7 @@ export async function POST(request: NextRequest) {
     );
 
     // Clear cookies on error too
-    response.cookies.set('adminToken', '', { 
-      path: '/',
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 0
-    });
+    clearAdminAuthCookies(response);
 
     return response;
   }
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { Errors, handleError } from '@lib/error-handler';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { getActiveAdmin } from '@lib/permissions';
+import { recordAdminAction } from '@lib/audit-log';
+import { activateTotp, completeTwoFactorLogin, verifyTwoFactorChallenge } from '@lib/admin-2fa';
+
+const activateSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, 'کد باید ۶ رقم باشد'),
+  // Sent instead of a session by admins whose role requires 2FA at login
+  challengeToken: z.string().min(1).optional()
+});
+
+// POST /api/admin/me/2fa/activate - Confirm the app with a code and turn 2FA on
+//
+// Returns the recovery codes, which are never shown again. When setup was
+// part of a login, the admin is signed in as well.
+export async function POST(request: NextRequest) {
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(
+    request,
+    'admin:2fa:activate',
+    'sensitive'
+  );
+
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+
+  try {
+    const body = await request.json();
+    const { code, challengeToken } = activateSchema.parse(body);
+
+    let adminId: number;
+    if (challengeToken) {
+      adminId = verifyTwoFactorChallenge(challengeToken, 'ENROLL');
+    } else {
+      const admin = await getActiveAdmin(request);
+      if (!admin) {
+        throw Errors.unauthorized('دسترسی غیر مجاز. لطفا وارد شوید.');
+      }
+      adminId = admin.id;
+    }
+
+    const recoveryCodes = await activateTotp(adminId, code);
+
+    await recordAdminAction(request, adminId, {
+      action: 'admin.2fa.enable',
+      entityType: 'ADMIN',
+      entityId: adminId
+    });
+
+    if (challengeToken) {
+      return withRateLimitHeaders(await completeTwoFactorLogin(request, adminId, { recoveryCodes }), rateLimit.headers);
+    }
+
+    return withRateLimitHeaders(NextResponse.json({
+      success: true,
+      message: 'ورود دو مرحله‌ای فعال شد',
+      data: { recoveryCodes }
+    }), rateLimit.headers);
+  } catch (error) {
+    return withRateLimitHeaders(handleError(error, request), rateLimit.headers);
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { Errors, handleError } from '@lib/error-handler';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { getActiveAdmin } from '@lib/permissions';
+import { startTotpEnrollment, verifyTwoFactorChallenge } from '@lib/admin-2fa';
+
+const enrollSchema = z.object({
+  // Sent instead of a session by admins whose role requires 2FA at login
+  challengeToken: z.string().min(1).optional()
+});
+
+// POST /api/admin/me/2fa/enroll - Start setting up an authenticator app
+//
+// Returns the secret and an otpauth:// URI to show as a QR code. Nothing
+// changes at login until /api/admin/me/2fa/activate confirms a code.
+export async function POST(request: NextRequest) {
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(
+    request,
+    'admin:2fa:enroll',
+    'sensitive'
+  );
+
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { challengeToken } = enrollSchema.parse(body);
+
+    let adminId: number;
+    if (challengeToken) {
+      adminId = verifyTwoFactorChallenge(challengeToken, 'ENROLL');
+    } else {
+      const admin = await getActiveAdmin(request);
+      if (!admin) {
+        throw Errors.unauthorized('دسترسی غیر مجاز. لطفا وارد شوید.');
+      }
+      adminId = admin.id;
+    }
+
+    const enrollment = await startTotpEnrollment(adminId);
+
+    return withRateLimitHeaders(NextResponse.json({ success: true, data: enrollment }), rateLimit.headers);
+  } catch (error) {
+    return withRateLimitHeaders(handleError(error, request), rateLimit.headers);
+  }
+}
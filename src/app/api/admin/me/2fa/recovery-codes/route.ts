@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { Errors, handleError } from '@lib/error-handler';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { getActiveAdmin } from '@lib/permissions';
+import { recordAdminAction } from '@lib/audit-log';
+import { regenerateRecoveryCodes, verifySecondFactor } from '@lib/admin-2fa';
+
+const regenerateSchema = z.object({
+  code: z.string().trim().min(6, 'کد باید حداقل ۶ کاراکتر باشد').max(20, 'کد نامعتبر است')
+});
+
+// POST /api/admin/me/2fa/recovery-codes - Replace all recovery codes
+//
+// Confirmed with a current code; the old recovery codes stop working.
+export async function POST(request: NextRequest) {
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(
+    request,
+    'admin:2fa:recovery-codes',
+    'sensitive'
+  );
+
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+
+  try {
+    const admin = await getActiveAdmin(request);
+    if (!admin) {
+      throw Errors.unauthorized('دسترسی غیر مجاز. لطفا وارد شوید.');
+    }
+
+    const body = await request.json();
+    const { code } = regenerateSchema.parse(body);
+
+    await verifySecondFactor(admin.id, code);
+    const recoveryCodes = await regenerateRecoveryCodes(admin.id);
+
+    await recordAdminAction(request, admin.id, {
+      action: 'admin.2fa.recovery_codes.regenerate',
+      entityType: 'ADMIN',
+      entityId: admin.id
+    });
+
+    return withRateLimitHeaders(NextResponse.json({ success: true, data: { recoveryCodes } }), rateLimit.headers);
+  } catch (error) {
+    return withRateLimitHeaders(handleError(error, request), rateLimit.headers);
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { Errors, handleError } from '@lib/error-handler';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { getActiveAdmin } from '@lib/permissions';
+import { recordAdminAction } from '@lib/audit-log';
+import {
+  TwoFactorError,
+  disableTotp,
+  getTwoFactorStatus,
+  isTwoFactorRequired,
+  verifySecondFactor
+} from '@lib/admin-2fa';
+
+const disableSchema = z.object({
+  code: z.string().trim().min(6, 'کد باید حداقل ۶ کاراکتر باشد').max(20, 'کد نامعتبر است')
+});
+
+// GET /api/admin/me/2fa - Whether 2FA is on, required, and recovery codes left
+export async function GET(request: NextRequest) {
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(
+    request,
+    'admin:2fa:status',
+    'admin'
+  );
+
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+
+  try {
+    const admin = await getActiveAdmin(request);
+    if (!admin) {
+      throw Errors.unauthorized('دسترسی غیر مجاز. لطفا وارد شوید.');
+    }
+
+    const status = await getTwoFactorStatus(admin.id);
+
+    return withRateLimitHeaders(NextResponse.json({ success: true, data: status }), rateLimit.headers);
+  } catch (error) {
+    return withRateLimitHeaders(handleError(error, request), rateLimit.headers);
+  }
+}
+
+// DELETE /api/admin/me/2fa - Turn 2FA off, confirmed with a current code
+//
+// Refused for roles that require 2FA.
+export async function DELETE(request: NextRequest) {
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(
+    request,
+    'admin:2fa:disable',
+    'sensitive'
+  );
+
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+
+  try {
+    const admin = await getActiveAdmin(request);
+    if (!admin) {
+      throw Errors.unauthorized('دسترسی غیر مجاز. لطفا وارد شوید.');
+    }
+
+    if (isTwoFactorRequired(admin.role)) {
+      throw new TwoFactorError('REQUIRED_BY_ROLE');
+    }
+
+    const body = await request.json();
+    const { code } = disableSchema.parse(body);
+
+    await verifySecondFactor(admin.id, code);
+    await disableTotp(admin.id);
+
+    await recordAdminAction(request, admin.id, {
+      action: 'admin.2fa.disable',
+      entityType: 'ADMIN',
+      entityId: admin.id
+    });
+
+    return withRateLimitHeaders(NextResponse.json({ success: true, message: 'ورود دو مرحله‌ای غیرفعال شد' }), rateLimit.headers);
+  } catch (error) {
+    return withRateLimitHeaders(handleError(error, request), rateLimit.headers);
+  }
+}
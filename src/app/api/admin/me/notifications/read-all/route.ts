@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@lib/api-utils';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { markAllNotificationsRead } from '@lib/notification-inbox';
+
+// POST /api/admin/me/notifications/read-all - Mark every notification of the current admin read
+export async function POST(request: NextRequest) {
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(
+    request,
+    'admin:notifications:read-all',
+    'admin'
+  );
+
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+
+  try {
+    // Authenticate admin
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.adminId) {
+      return withRateLimitHeaders(NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      ), rateLimit.headers);
+    }
+
+    const marked = await markAllNotificationsRead({ adminId: authResult.adminId });
+
+    return withRateLimitHeaders(NextResponse.json({ success: true, data: { marked } }), rateLimit.headers);
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+    return withRateLimitHeaders(NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    ), rateLimit.headers);
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@lib/api-utils';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { listInboxNotifications } from '@lib/notification-inbox';
+
+// GET /api/admin/me/notifications - List the current admin's notifications
+//
+// Query: page, limit (max 100), unread=true for unread only.
+// The response carries unreadCount for the inbox badge.
+export async function GET(request: NextRequest) {
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(
+    request,
+    'admin:notifications:list',
+    'admin'
+  );
+
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+
+  try {
+    // Authenticate admin
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.adminId) {
+      return withRateLimitHeaders(NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      ), rateLimit.headers);
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')));
+    const unreadOnly = searchParams.get('unread') === 'true';
+
+    const inbox = await listInboxNotifications(
+      { adminId: authResult.adminId },
+      { page, limit, unreadOnly }
+    );
+
+    return withRateLimitHeaders(NextResponse.json({ success: true, data: inbox }), rateLimit.headers);
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    return withRateLimitHeaders(NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    ), rateLimit.headers);
+  }
+}
@@ -3,7 +3,8 @@ import { z } from 'zod';
 import bcrypt from 'bcryptjs';
 import prisma from '@lib/prisma';
 import { authenticateRequest } from '@lib/api-utils';
-import { rateLimitMiddleware } from '@lib/rate-limiter';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { recordAdminAction } from '@lib/audit-log';
 
 // Input validation schema
 const updateAdminProfileSchema = z.object({
@@ -17,26 +18,26 @@ const updateAdminProfileSchema = z.object({
 
 // GET /api/admin/me - Get current admin profile
 export async function GET(request: NextRequest) {
-  try {
-    // Apply rate limiting
-    const rateLimit = await rateLimitMiddleware(
-      request,
-      'admin:profile:get',
-      'admin',
-      'detail'
-    );
-    
-    if (rateLimit.isRateLimited) {
-      return rateLimit.response;
-    }
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(
+    request,
+    'admin:profile:get',
+    'admin',
+    'detail'
+  );
+  
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
 
+  try {
     // Authenticate admin
     const authResult = await authenticateRequest(request);
     if (!authResult.success || !authResult.adminId) {
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { success: false, message: 'Unauthorized' },
         { status: 401 }
-      );
+      ), rateLimit.headers);
     }
 
     // Get admin profile
@@ -56,44 +57,44 @@ export async function GET(request: NextRequest) {
     });
 
     if (!admin) {
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { success: false, message: 'Admin not found' },
         { status: 404 }
-      );
+      ), rateLimit.headers);
     }
 
-    return NextResponse.json({ success: true, data: admin });
+    return withRateLimitHeaders(NextResponse.json({ success: true, data: admin }), rateLimit.headers);
   } catch (error) {
     console.error('Error fetching admin profile:', error);
-    return NextResponse.json(
+    return withRateLimitHeaders(NextResponse.json(
       { success: false, message: 'Internal server error' },
       { status: 500 }
-    );
+    ), rateLimit.headers);
   }
 }
 
 // PATCH /api/admin/me - Update current admin profile
 export async function PATCH(request: NextRequest) {
-  try {
-    // Apply rate limiting
-    const rateLimit = await rateLimitMiddleware(
-      request,
-      'admin:profile:update',
-      'admin',
-      'update'
-    );
-    
-    if (rateLimit.isRateLimited) {
-      return rateLimit.response;
-    }
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(
+    request,
+    'admin:profile:update',
+    'admin',
+    'update'
+  );
+  
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
 
+  try {
     // Authenticate admin
     const authResult = await authenticateRequest(request);
     if (!authResult.success || !authResult.adminId) {
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { success: false, message: 'Unauthorized' },
         { status: 401 }
-      );
+      ), rateLimit.headers);
     }
 
     // Parse and validate request body
@@ -101,14 +102,14 @@ export async function PATCH(request: NextRequest) {
     const validation = updateAdminProfileSchema.safeParse(body);
     
     if (!validation.success) {
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { 
           success: false, 
           message: 'Validation error',
           errors: validation.error.errors 
         },
         { status: 400 }
-      );
+      ), rateLimit.headers);
     }
 
     // Check if email is being updated and if it's already in use
@@ -121,10 +122,10 @@ export async function PATCH(request: NextRequest) {
       });
 
       if (existingAdmin) {
-        return NextResponse.json(
+        return withRateLimitHeaders(NextResponse.json(
           { success: false, message: 'Email already in use' },
           { status: 400 }
-        );
+        ), rateLimit.headers);
       }
     }
 
@@ -138,10 +139,10 @@ export async function PATCH(request: NextRequest) {
       });
 
       if (existingAdmin) {
-        return NextResponse.json(
+        return withRateLimitHeaders(NextResponse.json(
           { success: false, message: 'Phone number already in use' },
           { status: 400 }
-        );
+        ), rateLimit.headers);
       }
     }
 
@@ -161,10 +162,10 @@ export async function PATCH(request: NextRequest) {
 
     if (body.newPassword) {
       if (!body.currentPassword) {
-        return NextResponse.json(
+        return withRateLimitHeaders(NextResponse.json(
           { success: false, message: 'Current password is required to change password' },
           { status: 400 }
-        );
+        ), rateLimit.headers);
       }
 
       // Verify current password
@@ -174,18 +175,18 @@ export async function PATCH(request: NextRequest) {
       });
 
       if (!admin) {
-        return NextResponse.json(
+        return withRateLimitHeaders(NextResponse.json(
           { success: false, message: 'Admin not found' },
           { status: 404 }
-        );
+        ), rateLimit.headers);
       }
 
       const isPasswordValid = await bcrypt.compare(body.currentPassword, admin.passwordHash);
       if (!isPasswordValid) {
-        return NextResponse.json(
+        return withRateLimitHeaders(NextResponse.json(
           { success: false, message: 'Current password is incorrect' },
           { status: 400 }
-        );
+        ), rateLimit.headers);
       }
 
       // Hash new password
@@ -193,6 +194,11 @@ export async function PATCH(request: NextRequest) {
       updateData.passwordHash = await bcrypt.hash(body.newPassword, salt);
     }
 
+    const previous = await prisma.admin.findUnique({
+      where: { id: authResult.adminId },
+      select: { firstName: true, lastName: true, email: true, phoneNumber: true, passwordHash: true }
+    });
+
     // Update admin profile
     const updatedAdmin = await prisma.admin.update({
       where: { id: authResult.adminId },
@@ -208,16 +214,24 @@ export async function PATCH(request: NextRequest) {
       },
     });
 
-    return NextResponse.json({
+    await recordAdminAction(request, authResult.adminId, {
+      action: 'admin.profile.update',
+      entityType: 'ADMIN',
+      entityId: authResult.adminId,
+      before: previous,
+      after: updateData
+    });
+
+    return withRateLimitHeaders(NextResponse.json({
       success: true,
       message: 'Profile updated successfully',
       data: updatedAdmin
-    });
+    }), rateLimit.headers);
   } catch (error) {
     console.error('Error updating admin profile:', error);
-    return NextResponse.json(
+    return withRateLimitHeaders(NextResponse.json(
       { success: false, message: 'Internal server error' },
       { status: 500 }
-    );
+    ), rateLimit.headers);
   }
 }
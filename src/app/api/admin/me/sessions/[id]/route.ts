@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@lib/api-utils';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { clearAdminAuthCookies, invalidateAdminSession } from '@lib/session-utils';
+
+// DELETE /api/admin/me/sessions/[id] - Sign the current admin out of one device
+//
+// Revoking the current session is a logout and clears the auth cookies.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(
+    request,
+    'admin:sessions:revoke',
+    'admin'
+  );
+
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+
+  try {
+    // Authenticate admin
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.adminId) {
+      return withRateLimitHeaders(NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      ), rateLimit.headers);
+    }
+
+    const revoked = await invalidateAdminSession(authResult.adminId, params.id);
+    if (revoked === 0) {
+      return withRateLimitHeaders(NextResponse.json(
+        { success: false, message: 'Session not found' },
+        { status: 404 }
+      ), rateLimit.headers);
+    }
+
+    const current = params.id === authResult.sessionId;
+    const response = NextResponse.json({ success: true, data: { id: params.id, current } });
+    if (current) {
+      clearAdminAuthCookies(response);
+    }
+    return withRateLimitHeaders(response, rateLimit.headers);
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    return withRateLimitHeaders(NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    ), rateLimit.headers);
+  }
+}
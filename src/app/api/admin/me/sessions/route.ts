@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@lib/api-utils';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { listAdminSessions } from '@lib/session-utils';
+
+// GET /api/admin/me/sessions - List the devices the current admin is signed in on
+//
+// The session making the request is flagged `current`.
+export async function GET(request: NextRequest) {
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(
+    request,
+    'admin:sessions:list',
+    'admin'
+  );
+
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+
+  try {
+    // Authenticate admin
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.adminId) {
+      return withRateLimitHeaders(NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      ), rateLimit.headers);
+    }
+
+    const sessions = await listAdminSessions(authResult.adminId, authResult.sessionId);
+
+    return withRateLimitHeaders(NextResponse.json({ success: true, data: { sessions } }), rateLimit.headers);
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    return withRateLimitHeaders(NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    ), rateLimit.headers);
+  }
+}
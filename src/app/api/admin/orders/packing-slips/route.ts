@@ -0,0 +1,77 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { OrderStatus } from '@prisma/client';
+import prisma from '@lib/prisma';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { requirePermission } from '@lib/permissions';
+import { documentHeaders, printableOrderInclude, renderPackingSlipsHtml } from '@lib/invoice-utils';
+
+// Error messages in Farsi
+const MESSAGES = {
+  NOTHING_TO_PRINT: 'سفارشی در حال پردازش برای چاپ وجود ندارد.',
+  INTERNAL_ERROR: 'خطای سرور. لطفا بعدا تلاش کنید.'
+} as const;
+
+// Keeps a single print job to a size browsers handle comfortably
+const MAX_SLIPS = 200;
+
+// Helper functions for consistent responses
+function errorResponse(status: number, message: string, details?: Record<string, unknown>) {
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+      ...(details && { details })
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+// GET /api/admin/orders/packing-slips - Packing slips for every PROCESSING order, one per page
+//
+// ?ids=a,b narrows the batch to specific orders; they still have to be PROCESSING.
+export async function GET(request: NextRequest) {
+  const rateLimit = await rateLimitMiddleware(request, 'admin:orders:packing-slips', 'admin');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+  try {
+    const access = await requirePermission(request, 'orders:manage');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
+    }
+
+    const { searchParams } = new URL(request.url);
+    const ids = searchParams.get('ids')?.split(',').map(id => id.trim()).filter(Boolean);
+
+    // Oldest first, the order they should leave the warehouse in
+    const orders = await prisma.order.findMany({
+      where: {
+        status: OrderStatus.PROCESSING,
+        ...(ids && ids.length > 0 && { id: { in: ids } })
+      },
+      orderBy: { createdAt: 'asc' },
+      take: MAX_SLIPS,
+      include: printableOrderInclude
+    });
+
+    if (orders.length === 0) {
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.NOTHING_TO_PRINT), rateLimit.headers);
+    }
+
+    const download = searchParams.get('download') === '1';
+    const stamp = new Date().toISOString().slice(0, 10);
+    return withRateLimitHeaders(new NextResponse(renderPackingSlipsHtml(orders), {
+      status: 200,
+      headers: {
+        ...documentHeaders(`packing-slips-${stamp}`, download),
+        'X-Total-Count': String(orders.length)
+      }
+    }), rateLimit.headers);
+  } catch (error) {
+    console.error('Error rendering packing slips:', error);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
+  }
+}
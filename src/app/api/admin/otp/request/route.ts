@@ -1,12 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import prisma from '../../../../../../lib/prisma';
-import { generateOTP } from '../../../../../../lib/auth';
 import { sendOTP } from '../../../../../../lib/kavenegar';
 import { handleError, Errors } from '../../../../../../lib/error-handler';
-import { isRateLimited } from '../../../../../../lib/rate-limiter';
+import { isRateLimited, rateLimitHeaders, withRateLimitHeaders } from '../../../../../../lib/rate-limiter';
 import { SuccessMessages } from '../../../../../../lib/success-messages';
 import { normalizePhoneNumber } from '../../../../../../lib/phone-utils';
+import { issueOtpChallenge } from '../../../../../../lib/otp-challenge';
 
 // Define Admin type for raw query result
 interface Admin {
@@ -36,23 +36,19 @@ const requestOTPSchema = z.object({
 });
 
 export async function POST(request: NextRequest) {
-  try {
-    // Rate limiting check
-    const clientIp = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || 
-                    request.headers.get('x-real-ip') || 
-                    'unknown';
-    
-    const rateLimit = isRateLimited(clientIp);
-    if (rateLimit.isLimited) {
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: `تعداد درخواست‌های شما بیش از حد مجاز است. لطفاً ${rateLimit.retryAfter} ثانیه دیگر تلاش کنید.` 
-        },
-        { status: 429, headers: { 'Retry-After': rateLimit.retryAfter?.toString() || '60' } }
-      );
-    }
+  // Rate limiting check
+  const rateLimit = await isRateLimited(request, 'admin:otp:request', 'sensitive');
+  if (rateLimit.isLimited) {
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: `تعداد درخواست‌های شما بیش از حد مجاز است. لطفاً ${rateLimit.retryAfter} ثانیه دیگر تلاش کنید.` 
+      },
+      { status: 429, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
 
+  try {
     // Parse and validate request body
     const body = await request.json();
     const { phoneNumber } = requestOTPSchema.parse(body);
@@ -139,144 +135,29 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Simple IP tracking - gets the first IP from x-forwarded-for or falls back to x-real-ip
-    const getClientIp = (req: NextRequest): string => {
-      // Get IP from x-forwarded-for header (common in production)
-      const forwardedFor = req.headers.get('x-forwarded-for');
-      if (forwardedFor) {
-        // Take the first IP in the list (client IP is usually first)
-        return forwardedFor.split(',')[0].trim();
-      }
-      
-      // Fall back to x-real-ip if available
-      return req.headers.get('x-real-ip') || 'unknown';
-    };
-    
-    const ipAddress = getClientIp(request) || 'unknown';
-
-    // Check recent OTP requests and failed attempts
-    const [recentAttempts, failedAttempts, lastOTPRequest] = await Promise.all([
-      prisma.adminSession.count({
-        where: {
-          adminId: adminData.id,
-          createdAt: {
-            gte: new Date(Date.now() - 15 * 60 * 1000), // Last 15 minutes
-          },
-        },
-      }),
-      prisma.adminSession.count({
-        where: {
-          adminId: adminData.id,
-          isValid: false,
-          createdAt: {
-            gte: new Date(Date.now() - 15 * 60 * 1000), // Last 15 minutes
-          },
-        },
-      }),
-      prisma.adminSession.findFirst({
-        where: {
-          adminId: adminData.id,
-        },
-        orderBy: {
-          createdAt: 'desc',
-        },
-        select: {
-          createdAt: true,
-        },
-      }),
-    ]);
-
-    // If too many failed attempts, lock the account
-    if (failedAttempts >= 4) { // 4 failed attempts + current one = 5
-      const lockoutTime = new Date(Date.now() + 15 * 60 * 1000); // 15 minutes lockout
-      await prisma.admin.update({
-        where: { id: adminData.id },
-        data: { 
-          lockedUntil: lockoutTime,
-          failedLoginAttempts: 0, // Reset counter when locking
-        },
-      });
-      
-      throw Errors.tooManyRequests(
-        'حساب شما به دلیل تلاش‌های ناموفق به مدت ۱۵ دقیقه قفل شد.'
-      );
-    }
-
-    // Check OTP cooldown (2 minutes between requests)
-    const COOLDOWN_MS = 2 * 60 * 1000; // 2 minutes
-    if (lastOTPRequest?.createdAt) {
-      const timeSinceLastRequest = Date.now() - lastOTPRequest.createdAt.getTime();
-      const remainingCooldown = Math.ceil((COOLDOWN_MS - timeSinceLastRequest) / 1000); // in seconds
-      
-      if (timeSinceLastRequest < COOLDOWN_MS) {
-        throw Errors.tooManyRequests(
-          `لطفاً ${remainingCooldown} ثانیه دیگر برای درخواست کد جدید صبر کنید.`
-        );
-      }
-    }
+    // Normalize the stored phone number for sending (ensure it starts with +98)
+    const phoneToSend = normalizePhoneNumber(adminData.phoneNumber);
 
-    // If too many total attempts, rate limit
-    if (recentAttempts >= 5) {
-      throw Errors.tooManyRequests(
-        'تعداد درخواست‌های شما بیش از حد مجاز است. لطفاً ۱۵ دقیقه دیگر تلاش کنید.'
-      );
-    }
-
-    // Generate OTP
-    const otp = generateOTP();
-    
-    // Get the actual phone number from the database to ensure consistency
-    const actualPhoneNumber = adminData.phoneNumber;
-    
-    // Normalize the phone number for sending (ensure it starts with +98)
-    const phoneToSend = actualPhoneNumber.startsWith('0') 
-      ? `+98${actualPhoneNumber.substring(1)}` 
-      : actualPhoneNumber.startsWith('98')
-        ? `+${actualPhoneNumber}`
-        : actualPhoneNumber.startsWith('+')
-          ? actualPhoneNumber
-          : `+98${actualPhoneNumber}`;
-    
-    // Send OTP to the phone number
-    console.log(`Sending OTP to: ${phoneToSend}`);
-    const sent = await sendOTP(phoneToSend, otp);
-
-    if (!sent) {
-      console.error(`Failed to send OTP to: ${phoneToSend}`);
-      throw new Error('خطا در ارسال OTP. لطفاً دوباره تلاش کنید');
-    }
-
-    // Hash the OTP before storing in the database
-    const crypto = await import('crypto');
-    const hashedOTP = crypto
-      .createHash('sha256')
-      .update(otp)
-      .digest('hex');
-
-    // Store the hashed OTP in the session
-    await prisma.adminSession.create({
-      data: {
-        adminId: adminData.id,
-        tokenHash: hashedOTP,
-        ipAddress: ipAddress,
-        userAgent: request.headers.get('user-agent') || 'unknown',
-        expiresAt: new Date(Date.now() + 5 * 60 * 1000), // OTP valid for 5 minutes
-        isValid: true,
-      },
-    });
+    // Cooldown between codes and lockout after wrong codes are enforced by the challenge
+    console.log(`Sending OTP to admin: ${adminData.id}`);
+    const { resendAfter } = await issueOtpChallenge(
+      phoneToSend,
+      'ADMIN_LOGIN',
+      code => sendOTP(phoneToSend, code)
+    );
 
-    return NextResponse.json(
+    return withRateLimitHeaders(NextResponse.json(
       { 
         success: true, 
         message: SuccessMessages.OTP_SENT,
         data: { 
           phoneNumber: adminData.phoneNumber,
-          cooldown: 120 // 2 minutes in seconds
+          cooldown: resendAfter
         }
       },
       { status: 200 }
-    );
+    ), rateLimitHeaders(rateLimit));
   } catch (error) {
-    return handleError(error, request);
+    return withRateLimitHeaders(handleError(error, request), rateLimitHeaders(rateLimit));
   }
 }
\ No newline at end of file
@@ -1,9 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import prisma from '../../../../../../lib/prisma';
-import { generateToken } from '../../../../../../lib/auth';
 import { handleError, Errors } from '../../../../../../lib/error-handler';
 import { SuccessMessages } from '../../../../../../lib/success-messages';
+import { verifyOtpChallenge } from '../../../../../../lib/otp-challenge';
+import {
+  createAdminSession,
+  getSessionClient,
+  setAdminAuthCookies,
+  toTokenResponse
+} from '../../../../../../lib/session-utils';
+import { pendingTwoFactorStep, twoFactorStepResponse } from '../../../../../../lib/admin-2fa';
 
 // Input validation schema
 const verifyOTPSchema = z.object({
@@ -26,29 +33,13 @@ export async function POST(request: NextRequest) {
       throw Errors.notFound('شماره تلفن ثبت نشده است');
     }
 
-    // Hash the input OTP for comparison
-    const crypto = await import('crypto');
-    const hashedOTP = crypto
-      .createHash('sha256')
-      .update(otp)
-      .digest('hex');
+    // Wrong codes count towards a lockout
+    await verifyOtpChallenge(admin.phoneNumber, 'ADMIN_LOGIN', otp);
 
-    // Find valid OTP session with the hashed OTP
-    const session = await prisma.adminSession.findFirst({
-      where: {
-        adminId: admin.id,
-        tokenHash: hashedOTP,
-        isValid: true,
-        expiresAt: { gt: new Date() },
-      },
-    });
-
-    if (!session) {
-      await prisma.admin.update({
-        where: { id: admin.id },
-        data: { failedLoginAttempts: admin.failedLoginAttempts + 1 },
-      });
-      throw Errors.authentication('OTP نامعتبر یا منقضی شده است');
+    // The SMS code stands in for the password only; 2FA still applies
+    const twoFactorStep = pendingTwoFactorStep(admin);
+    if (twoFactorStep) {
+      return twoFactorStepResponse(twoFactorStep);
     }
 
     // Reset failed login attempts and update login time
@@ -61,43 +52,10 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    // Invalidate OTP session
-    await prisma.adminSession.update({
-      where: { id: session.id },
-      data: { isValid: false },
-    });
-
-    // Generate JWT
-    const token = generateToken(admin.id, admin.role);
-
-    // Simple IP tracking - gets the first IP from x-forwarded-for or falls back to x-real-ip
-    const getClientIp = (req: NextRequest): string => {
-      // Get IP from x-forwarded-for header (common in production)
-      const forwardedFor = req.headers.get('x-forwarded-for');
-      if (forwardedFor) {
-        // Take the first IP in the list (client IP is usually first)
-        return forwardedFor.split(',')[0].trim();
-      }
-      
-      // Fall back to x-real-ip if available
-      return req.headers.get('x-real-ip') || 'unknown';
-    };
-    
-    const ip = getClientIp(request) || 'unknown';
+    // Short-lived access token plus a rotating refresh token
+    const tokens = await createAdminSession(admin, getSessionClient(request));
 
-    // Create new session for JWT
-    await prisma.adminSession.create({
-      data: {
-        adminId: admin.id,
-        tokenHash: token,
-        ipAddress: ip,
-        userAgent: request.headers.get('user-agent') || 'unknown',
-        expiresAt: new Date(Date.now() + 60 * 60 * 1000), // ۱ ساعت
-        isValid: true,
-      },
-    });
-
-    // Set JWT in HttpOnly cookie
+    // Set tokens in HttpOnly cookies
     const response = NextResponse.json(
       {
         success: true,
@@ -110,18 +68,13 @@ export async function POST(request: NextRequest) {
             lastName: admin.lastName,
             role: admin.role,
           },
+          tokens: toTokenResponse(tokens),
         },
       },
       { status: 200 }
     );
 
-    response.cookies.set('adminToken', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production', // فقط تو تولید Secure
-      sameSite: 'strict',
-      maxAge: 60 * 60, // ۱ ساعت
-      path: '/',
-    });
+    setAdminAuthCookies(response, tokens);
 
     return response;
   } catch (error) {
@@ -0,0 +1,165 @@
+import { NextResponse, NextRequest } from 'next/server';
+import prisma from '@lib/prisma';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { hasPermission, requirePermission } from '@lib/permissions';
+import { recordAdminAction } from '@lib/audit-log';
+import { RefundError } from '@lib/refund-utils';
+import { ReturnError, applyReturnAction, returnActionSchema, returnRequestInclude } from '@lib/return-utils';
+import { InsufficientStockError } from '@lib/stock-utils';
+import { addOrderHistoryEntry } from '@/app/api/orders/[id]/history/route';
+
+// Error messages in Farsi
+const MESSAGES = {
+  FORBIDDEN: 'شما مجوز دسترسی به این منبع را ندارید.',
+  NOT_FOUND: 'درخواست مرجوعی یافت نشد.',
+  INVALID_INPUT: 'ورودی نامعتبر است.',
+  INTERNAL_ERROR: 'خطای سرور. لطفا بعدا تلاش کنید.',
+  EXCHANGE_OUT_OF_STOCK: 'موجودی کالای جایگزین کافی نیست.'
+} as const;
+
+// Helper functions for consistent responses
+function errorResponse(status: number, message: string, details?: Record<string, unknown>) {
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+      ...(details && { details })
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+function successResponse(data: Record<string, unknown>, status = 200) {
+  return NextResponse.json(
+    {
+      success: true,
+      data
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+// GET /api/admin/returns/[id] - Get a return request
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const rateLimit = await rateLimitMiddleware(request, `admin:returns:detail:${params.id}`, 'admin');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+  try {
+    const access = await requirePermission(request, 'returns:manage');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
+    }
+
+    const returnRequest = await prisma.returnRequest.findUnique({
+      where: { id: params.id },
+      include: {
+        ...returnRequestInclude,
+        user: {
+          select: { id: true, firstName: true, lastName: true, phoneNumber: true, email: true }
+        },
+        reviewedBy: {
+          select: { id: true, firstName: true, lastName: true }
+        }
+      }
+    });
+
+    if (!returnRequest) {
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.NOT_FOUND), rateLimit.headers);
+    }
+
+    return withRateLimitHeaders(successResponse({ returnRequest }), rateLimit.headers);
+  } catch (error) {
+    console.error('Error fetching return request:', error);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
+  }
+}
+
+// PATCH /api/admin/returns/[id] - Approve, reject or receive a return
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const rateLimit = await rateLimitMiddleware(request, `admin:returns:update:${params.id}`, 'sensitive');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+  try {
+    const access = await requirePermission(request, 'returns:manage');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
+    }
+    const { admin } = access;
+
+    let body;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.error('Error parsing request body:', error);
+      return withRateLimitHeaders(errorResponse(400, 'بدنه درخواست نامعتبر است'), rateLimit.headers);
+    }
+
+    const validation = returnActionSchema.safeParse(body);
+    if (!validation.success) {
+      return withRateLimitHeaders(errorResponse(400, MESSAGES.INVALID_INPUT, {
+        errors: validation.error.flatten()
+      }), rateLimit.headers);
+    }
+
+    const action = validation.data;
+
+    const existing = await prisma.returnRequest.findUnique({
+      where: { id: params.id },
+      select: { status: true, resolution: true }
+    });
+
+    // Receiving a refund-type return, or approving with refundNow, moves money
+    const movesMoney = action.action === 'receive' || (action.action === 'approve' && action.refundNow);
+    if (movesMoney && existing?.resolution === 'REFUND' && !hasPermission(admin.role, 'orders:refund')) {
+      return withRateLimitHeaders(errorResponse(403, MESSAGES.FORBIDDEN), rateLimit.headers);
+    }
+
+    const { returnRequest, summary } = await applyReturnAction(params.id, action, admin.id);
+
+    await addOrderHistoryEntry(
+      returnRequest.orderId,
+      returnRequest.order.status,
+      summary,
+      admin.id
+    );
+
+    await recordAdminAction(request, admin.id, {
+      action: `return.${action.action}`,
+      entityType: 'RETURN',
+      entityId: returnRequest.id,
+      before: existing,
+      after: { status: returnRequest.status, note: action.note ?? null }
+    });
+
+    return withRateLimitHeaders(successResponse({ returnRequest, message: summary }), rateLimit.headers);
+  } catch (error) {
+    if (error instanceof ReturnError) {
+      const status = error.code === 'RETURN_NOT_FOUND' ? 404 : 409;
+      return withRateLimitHeaders(errorResponse(status, error.message, { code: error.code, ...error.details }), rateLimit.headers);
+    }
+    if (error instanceof RefundError) {
+      const status = error.code === 'GATEWAY_FAILED' ? 502 : 409;
+      return withRateLimitHeaders(errorResponse(status, error.message, { code: error.code, ...error.details }), rateLimit.headers);
+    }
+    if (error instanceof InsufficientStockError) {
+      return withRateLimitHeaders(errorResponse(409, MESSAGES.EXCHANGE_OUT_OF_STOCK, { items: error.items }), rateLimit.headers);
+    }
+
+    console.error('Error updating return request:', error);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
+  }
+}
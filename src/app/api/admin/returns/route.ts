@@ -0,0 +1,101 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { Prisma, ReturnStatus } from '@prisma/client';
+import prisma from '@lib/prisma';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { requirePermission } from '@lib/permissions';
+import { returnRequestInclude } from '@lib/return-utils';
+
+// Error messages in Farsi
+const MESSAGES = {
+  INTERNAL_ERROR: 'خطای سرور. لطفا بعدا تلاش کنید.'
+} as const;
+
+// Helper functions for consistent responses
+function errorResponse(status: number, message: string, details?: Record<string, unknown>) {
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+      ...(details && { details })
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+function successResponse(data: Record<string, unknown>, status = 200) {
+  return NextResponse.json(
+    {
+      success: true,
+      data
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+// GET /api/admin/returns - List return requests
+export async function GET(request: NextRequest) {
+  const rateLimit = await rateLimitMiddleware(request, 'admin:returns:list', 'admin');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+  try {
+    const access = await requirePermission(request, 'returns:manage');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
+    }
+
+    // Get query parameters
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')));
+    const status = searchParams.get('status');
+    const search = searchParams.get('search');
+
+    const where: Prisma.ReturnRequestWhereInput = {
+      ...(status && Object.values(ReturnStatus).includes(status as ReturnStatus) && {
+        status: status as ReturnStatus
+      }),
+      ...(search && {
+        OR: [
+          { rmaNumber: { contains: search, mode: 'insensitive' } },
+          { order: { orderNumber: { contains: search, mode: 'insensitive' } } }
+        ]
+      })
+    };
+
+    const [returns, total] = await Promise.all([
+      prisma.returnRequest.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          ...returnRequestInclude,
+          user: {
+            select: { id: true, firstName: true, lastName: true, phoneNumber: true }
+          }
+        }
+      }),
+      prisma.returnRequest.count({ where })
+    ]);
+
+    return withRateLimitHeaders(successResponse({
+      returns,
+      pagination: {
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+        limit
+      }
+    }), rateLimit.headers);
+  } catch (error) {
+    console.error('Error fetching return requests:', error);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
+  }
+}
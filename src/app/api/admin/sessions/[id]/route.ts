@@ -0,0 +1,125 @@
+import { NextResponse, NextRequest } from 'next/server';
+import prisma from '@lib/prisma';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { requirePermission } from '@lib/permissions';
+import { recordAdminAction } from '@lib/audit-log';
+import { invalidateAdminSession, listAdminSessions } from '@lib/session-utils';
+
+// Error messages in Farsi
+const MESSAGES = {
+  INVALID_ID: 'شناسه مدیر نامعتبر است.',
+  ADMIN_NOT_FOUND: 'مدیر یافت نشد.',
+  SESSION_NOT_FOUND: 'نشست یافت نشد.',
+  INTERNAL_ERROR: 'خطای سرور. لطفا بعدا تلاش کنید.'
+} as const;
+
+// Helper functions for consistent responses
+function errorResponse(status: number, message: string, details?: Record<string, unknown>) {
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+      ...(details && { details })
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+function successResponse(data: Record<string, unknown>, status = 200) {
+  return NextResponse.json(
+    {
+      success: true,
+      data
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+// Helper to find the admin whose sessions are managed
+async function findTargetAdmin(id: string) {
+  const adminId = parseInt(id);
+  if (isNaN(adminId)) return null;
+
+  return await prisma.admin.findUnique({
+    where: { id: adminId },
+    select: { id: true }
+  });
+}
+
+// GET /api/admin/sessions/[id] - List an admin's live sessions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const rateLimit = await rateLimitMiddleware(request, 'admin:sessions:list', 'admin');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+  try {
+    const access = await requirePermission(request, 'admins:sessions');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
+    }
+
+    const target = await findTargetAdmin(params.id);
+    if (!target) {
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.ADMIN_NOT_FOUND), rateLimit.headers);
+    }
+
+    const sessions = await listAdminSessions(target.id, access.admin.sessionId);
+
+    return withRateLimitHeaders(successResponse({ adminId: target.id, sessions }), rateLimit.headers);
+  } catch (error) {
+    console.error('Error fetching admin sessions:', error);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
+  }
+}
+
+// DELETE /api/admin/sessions/[id] - End an admin's sessions
+//
+// Ends every session of the admin, or only ?sessionId= when given. Already
+// issued access tokens stop working once they expire.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const rateLimit = await rateLimitMiddleware(request, 'admin:sessions:revoke', 'admin');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+  try {
+    const access = await requirePermission(request, 'admins:sessions');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
+    }
+
+    const target = await findTargetAdmin(params.id);
+    if (!target) {
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.ADMIN_NOT_FOUND), rateLimit.headers);
+    }
+
+    const sessionId = new URL(request.url).searchParams.get('sessionId') || undefined;
+    const revoked = await invalidateAdminSession(target.id, sessionId);
+    if (sessionId && revoked === 0) {
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.SESSION_NOT_FOUND), rateLimit.headers);
+    }
+
+    await recordAdminAction(request, access.admin.id, {
+      action: 'admin_session.revoke',
+      entityType: 'ADMIN_SESSION',
+      entityId: sessionId ?? target.id,
+      after: { adminId: target.id, sessionId: sessionId ?? null, revoked }
+    });
+
+    return withRateLimitHeaders(successResponse({ adminId: target.id, revoked }), rateLimit.headers);
+  } catch (error) {
+    console.error('Error revoking admin sessions:', error);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { handleError, Errors } from '@lib/error-handler';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import {
+  clearAdminAuthCookies,
+  getAdminRefreshToken,
+  getSessionClient,
+  refreshAdminSession,
+  setAdminAuthCookies,
+  toTokenResponse
+} from '@lib/session-utils';
+
+const MESSAGES = {
+  NO_REFRESH_TOKEN: 'توکن نشست یافت نشد. لطفاً دوباره وارد شوید.',
+  REFRESHED: 'نشست با موفقیت تمدید شد'
+} as const;
+
+// Bearer clients send the refresh token in the body; browsers rely on the cookie
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1).optional()
+});
+
+export async function POST(request: NextRequest) {
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(request, '/api/admin/token/refresh', 'public');
+  if (rateLimit.isRateLimited) return rateLimit.response;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { refreshToken } = refreshSchema.parse(body);
+
+    const token = refreshToken || getAdminRefreshToken(request);
+    if (!token) {
+      throw Errors.unauthorized(MESSAGES.NO_REFRESH_TOKEN);
+    }
+
+    const tokens = await refreshAdminSession(token, getSessionClient(request));
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        message: MESSAGES.REFRESHED,
+        data: { tokens: toTokenResponse(tokens) }
+      },
+      { status: 200 }
+    );
+    setAdminAuthCookies(response, tokens);
+
+    return withRateLimitHeaders(response, rateLimit.headers);
+  } catch (error) {
+    const response = handleError(error, request);
+    // The session is gone, so stale cookies would only fail again
+    if (response.status === 401) {
+      clearAdminAuthCookies(response);
+    }
+    return withRateLimitHeaders(response, rateLimit.headers);
+  }
+}
@@ -1,202 +1,100 @@
 import { NextResponse, NextRequest } from 'next/server';
-import { PrismaClient } from '@prisma/client';
-import { verifyToken } from '../../../../../lib/auth';
+import { z } from 'zod';
+import { authenticateRequest } from '../../../../../lib/api-utils';
+import { CartError, CartErrorCode, cartService } from '../../../../../lib/cart-service';
+import { CartOwner, getRequestCartOwner, touchGuestCart } from '../../../../../lib/guest-cart';
+import { MAX_LINE_QUANTITY } from '../../../../../lib/stock-utils';
 
-const prisma = new PrismaClient();
+// Error messages in Farsi
+const MESSAGES = {
+  NO_CART: 'سبد خریدی برای شما یافت نشد.',
+  INVALID_INPUT: 'ورودی نامعتبر است.',
+  INTERNAL_ERROR: 'خطای سرور. لطفا بعدا تلاش کنید.',
+} as const;
 
-// Helper to get user ID from request
-function getUserIdFromRequest(request: NextRequest): number | null {
-  console.log('=== getUserIdFromRequest ===');
-  const authHeader = request.headers.get('authorization');
-  const cookies = request.headers.get('cookie') || '';
-  
-  console.log('Auth Header:', authHeader);
-  console.log('Cookies:', cookies);
+const CART_ERROR_STATUS: Record<CartErrorCode, number> = {
+  PRODUCT_NOT_FOUND: 404,
+  VARIANT_NOT_FOUND: 404,
+  ITEM_NOT_FOUND: 404,
+  PRODUCT_UNAVAILABLE: 409,
+  INSUFFICIENT_STOCK: 409,
+};
 
-  let token: string | null = null;
-  
-  // Try to get token from Authorization header
-  if (authHeader?.startsWith('Bearer ')) {
-    token = authHeader.split(' ')[1];
-    console.log('Token found in Authorization header');
-  } 
-  // Try to get token from cookies
-  else {
-    const tokenMatch = cookies.match(/auth_token=([^;]+)/);
-    if (tokenMatch && tokenMatch[1]) {
-      token = tokenMatch[1];
-      console.log('Token found in cookies');
-    }
-  }
+function errorResponse(status: number, message: string, details?: Record<string, unknown>) {
+  return NextResponse.json(
+    {
+      error: message,
+      ...(details && { details }),
+    },
+    { status }
+  );
+}
 
-  if (!token) {
-    console.log('No token found');
-    return null;
+function handleError(error: unknown, context: string) {
+  if (error instanceof CartError) {
+    return errorResponse(CART_ERROR_STATUS[error.code], error.message, { code: error.code, ...error.details });
   }
 
+  console.error(`Error ${context}:`, error);
+  return errorResponse(500, MESSAGES.INTERNAL_ERROR);
+}
+
+// Guests work on the cart named by their signed cookie
+async function getCartOwner(request: NextRequest): Promise<CartOwner | null> {
+  const auth = await authenticateRequest(request);
+  return getRequestCartOwner(request, auth.success && auth.userId ? auth.userId : null);
+}
+
+const updateCartItemSchema = z.object({
+  // Zero removes the line
+  quantity: z.number().int().min(0).max(MAX_LINE_QUANTITY),
+});
+
+// PATCH /api/cart/[itemId] - Set a line's quantity
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { itemId: string } }
+) {
   try {
-    console.log('Verifying token...');
-    const payload = verifyToken(token);
-    
-    if (!payload || typeof payload !== 'object' || !('userId' in payload)) {
-      console.error('Invalid token payload:', payload);
-      return null;
+    const owner = await getCartOwner(request);
+    if (!owner) {
+      return errorResponse(401, MESSAGES.NO_CART);
     }
-    
-    const userId = Number(payload.userId);
-    if (isNaN(userId)) {
-      console.error('Invalid user ID in token:', payload.userId);
-      return null;
+
+    const validation = updateCartItemSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return errorResponse(400, MESSAGES.INVALID_INPUT, { errors: validation.error.flatten() });
+    }
+
+    const cart = await cartService.updateCartItem(owner, params.itemId, validation.data);
+    if ('guestToken' in owner) {
+      await touchGuestCart(owner.guestToken);
     }
-    
-    console.log('Token verified. User ID:', userId);
-    return userId;
+
+    return NextResponse.json(cart);
   } catch (error) {
-    console.error('Token verification failed:', error);
-    return null;
+    return handleError(error, 'updating cart item');
   }
 }
 
-// DELETE /api/cart/[itemId]
+// DELETE /api/cart/[itemId] - Remove a line from the cart
 export async function DELETE(
   request: NextRequest,
   { params }: { params: { itemId: string } }
 ) {
-  console.log('=== START DELETE /api/cart/[itemId] ===');
-  console.log('Request URL:', request.url);
-  console.log('Item ID from params:', params.itemId);
-  
   try {
-    console.log('=== Getting user ID ===');
-    const userId = getUserIdFromRequest(request);
-    console.log('Extracted User ID:', userId);
-    
-    if (!userId) {
-      console.log('No user ID found - returning 401');
-      return NextResponse.json(
-        { error: 'You must be signed in to modify your wishlist' },
-        { status: 401 }
-      );
+    const owner = await getCartOwner(request);
+    if (!owner) {
+      return errorResponse(401, MESSAGES.NO_CART);
     }
 
-    const itemId = params.itemId;
-    console.log('=== Processing item deletion ===');
-    console.log('Item ID to delete:', itemId);
-
-    // First find the item to check its quantity
-    console.log('=== Looking for existing cart item ===');
-    const existingItem = await prisma.cartItem.findFirst({
-      where: {
-        id: itemId,
-        cart: { userId },
-      },
-    });
-    
-    console.log('Existing item found:', existingItem);
-
-    if (!existingItem) {
-      console.log('Item not found in wishlist');
-      return NextResponse.json(
-        { error: 'Item not found in wishlist' },
-        { status: 404 }
-      );
+    const cart = await cartService.removeItem(owner, params.itemId);
+    if ('guestToken' in owner) {
+      await touchGuestCart(owner.guestToken);
     }
 
-    console.log('Existing item quantity:', existingItem.quantity);
-
-    // If quantity is more than 1, decrement it
-    if (existingItem.quantity > 1) {
-      console.log('Decrementing quantity by 1');
-      
-      const updatedItem = await prisma.cartItem.update({
-        where: { 
-          id: itemId,
-          cart: { userId }
-        },
-        data: {
-          quantity: {
-            decrement: 1
-          }
-        },
-        include: {
-          product: {
-            select: { name: true, mainImage: true }
-          },
-          variant: {
-            select: { color: true, size: true }
-          }
-        }
-      });
-
-      console.log('Successfully updated item quantity');
-      console.log('New quantity:', updatedItem.quantity);
-      
-      const response = { 
-        success: true,
-        message: 'Quantity reduced by 1',
-        item: {
-          id: updatedItem.id,
-          productId: updatedItem.productId,
-          variantId: updatedItem.variantId || undefined,
-          quantity: updatedItem.quantity,
-          productName: updatedItem.product?.name,
-          variantColor: updatedItem.variant?.color,
-          variantSize: updatedItem.variant?.size,
-          image: updatedItem.product?.mainImage
-        }
-      };
-      
-      console.log('Sending response:', response);
-      return NextResponse.json(response);
-    } else {
-      // If quantity is 1, remove the item completely
-      console.log('Removing item completely');
-      
-      await prisma.cartItem.delete({
-        where: { 
-          id: itemId,
-          cart: { userId }
-        },
-      });
-      
-      console.log('Item successfully deleted');
-      const response = { 
-        success: true,
-        message: 'Item removed from wishlist',
-        item: { id: itemId, removed: true }
-      };
-      
-      console.log('Sending response:', response);
-      return NextResponse.json(response);
-    }
+    return NextResponse.json(cart);
   } catch (error) {
-    console.error('=== ERROR in DELETE /api/cart/[itemId] ===');
-    console.error('Error details:', error);
-    
-    // Log more details for Prisma errors
-    if (error instanceof Error) {
-      console.error('Error name:', error.name);
-      console.error('Error message:', error.message);
-      
-      if ('code' in error) {
-        console.error('Error code:', error.code);
-      }
-      
-      if ('meta' in error) {
-        console.error('Error meta:', error.meta);
-      }
-      
-      console.error('Error stack:', error.stack);
-    }
-    
-    return NextResponse.json(
-      { 
-        error: 'Failed to modify wishlist item',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      },
-      { status: 500 }
-    );
-  } finally {
-    console.log('=== END DELETE /api/cart/[itemId] ===');
+    return handleError(error, 'removing cart item');
   }
 }
@@ -0,0 +1,70 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest } from '../../../../../lib/api-utils';
+import { cartService } from '../../../../../lib/cart-service';
+import { getRequestCartOwner, touchGuestCart } from '../../../../../lib/guest-cart';
+
+// Error messages in Farsi
+const MESSAGES = {
+  INVALID_INPUT: 'ورودی نامعتبر است.',
+  INTERNAL_ERROR: 'خطای سرور. لطفا بعدا تلاش کنید.',
+} as const;
+
+function errorResponse(status: number, message: string, details?: Record<string, unknown>) {
+  return NextResponse.json(
+    {
+      error: message,
+      ...(details && { details }),
+    },
+    { status }
+  );
+}
+
+const validateCartSchema = z.object({
+  // Fix what can be fixed instead of only reporting it
+  autoFix: z.boolean().default(false),
+});
+
+// POST /api/cart/validate - Check the cart against current prices, availability and stock
+//
+// Returns one issue per problem line: PRICE_CHANGED (oldPrice/newPrice),
+// PRODUCT_UNPUBLISHED, VARIANT_INACTIVE or INSUFFICIENT_STOCK (maxQuantity).
+// Checkout refuses carts that still have blocking issues.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    const userId = auth.success && auth.userId ? auth.userId : null;
+    const owner = getRequestCartOwner(request, userId);
+    const guest = !userId ? { guest: true } : {};
+
+    const body = await request.text();
+    const validation = validateCartSchema.safeParse(body ? JSON.parse(body) : {});
+    if (!validation.success) {
+      return errorResponse(400, MESSAGES.INVALID_INPUT, { errors: validation.error.flatten() });
+    }
+
+    if (!owner) {
+      return NextResponse.json({
+        valid: true,
+        issues: [],
+        fixed: false,
+        cart: { items: [], totalItems: 0, subtotal: 0 },
+        ...guest,
+      });
+    }
+
+    const result = await cartService.validate(owner, validation.data);
+    if (result.fixed && 'guestToken' in owner) {
+      await touchGuestCart(owner.guestToken);
+    }
+
+    return NextResponse.json({ ...result, ...guest });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return errorResponse(400, MESSAGES.INVALID_INPUT);
+    }
+
+    console.error('Error validating cart:', error);
+    return errorResponse(500, MESSAGES.INTERNAL_ERROR);
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import prisma from '@lib/prisma'
 import { OrderStatus, Prisma } from '@prisma/client'
+import { getOrderActor, OrderTransitionError, transitionOrderStatus } from '@lib/order-status'
 
 // Error response helper
 const errorResponse = (status: number, message: string, details: Record<string, unknown> = {}) => {
@@ -96,9 +97,28 @@ export async function PUT(
       })
     }
 
+    const existingOrder = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: { id: true, userId: true, status: true }
+    })
+
+    if (!existingOrder) {
+      return errorResponse(404, 'سفارش یافت نشد')
+    }
+
+    // Admins act with their role, customers only on their own order
+    const access = await getOrderActor(request, existingOrder.userId)
+    if (!access) {
+      return errorResponse(401, 'دسترسی غیر مجاز. لطفا وارد شوید.')
+    }
+
     const body = await request.json()
     console.log('Request body:', JSON.stringify(body, null, 2))
 
+    if (access.actor === 'CUSTOMER' && (body.paymentStatus || body.shippingStatus)) {
+      return errorResponse(403, 'شما مجوز تغییر وضعیت پرداخت یا ارسال را ندارید')
+    }
+
     // Validate status if provided
     if (body.status && !isValidOrderStatus(body.status)) {
       return errorResponse(400, 'وضعیت سفارش نامعتبر است', {
@@ -110,20 +130,25 @@ export async function PUT(
     console.log('Updating order with ID:', orderId)
     
     try {
-      const order = await prisma.order.update({
-      where: { id: orderId },
-      data: {
-        status: body.status,
+      const data = {
         paymentStatus: body.paymentStatus,
-        shippingStatus: body.shippingStatus,
-        history: {
-          create: {
-            status: body.status,
-            comment: body.comment || 'وضعیت سفارش به‌روزرسانی شد',
-            userId: body.userId
-          }
-        }
-      },
+        shippingStatus: body.shippingStatus
+      }
+
+      if (body.status && body.status !== existingOrder.status) {
+        await transitionOrderStatus(orderId, body.status, {
+          actor: access.actor,
+          comment: body.comment,
+          userId: access.userId,
+          adminId: access.adminId,
+          data
+        })
+      } else {
+        await prisma.order.update({ where: { id: orderId }, data })
+      }
+
+      const order = await prisma.order.findUniqueOrThrow({
+        where: { id: orderId },
         include: {
           shippingAddress: true,
           items: {
@@ -139,6 +164,9 @@ export async function PUT(
       console.log('Order updated successfully:', { id: order.id, newStatus: order.status })
       return NextResponse.json(order)
     } catch (error) {
+      if (error instanceof OrderTransitionError) {
+        return errorResponse(409, error.message, error.toDetails())
+      }
       if (error instanceof Prisma.PrismaClientKnownRequestError) {
         if (error.code === 'P2025') {
           return errorResponse(404, 'سفارش یافت نشد')
@@ -180,19 +208,10 @@ export async function DELETE(
       return errorResponse(400, 'شناسه سفارش اجباری است')
     }
 
-    // First get the order to restore inventory
     console.log('Fetching order to cancel...')
     const order = await prisma.order.findUnique({
       where: { id: orderId },
-      include: {
-        items: {
-          include: {
-            product: true,
-            variant: true
-          }
-        },
-        shippingAddress: true
-      }
+      select: { id: true, userId: true }
     })
 
     if (!order) {
@@ -200,25 +219,18 @@ export async function DELETE(
       return errorResponse(404, 'سفارش یافت نشد')
     }
 
-    console.log('Restoring inventory for order items...')
-    await Promise.all(
-      order.items.map(async (item) => {
-        if (item.variant) {
-          await prisma.variant.update({
-            where: { id: item.variant.id },
-            data: { stock: { increment: item.quantity } }
-          })
-        } else {
-          await prisma.product.update({
-            where: { id: item.productId },
-            data: { totalStock: { increment: item.quantity } }
-          })
-        }
-      })
-    )
+    const access = await getOrderActor(request, order.userId)
+    if (!access) {
+      return errorResponse(401, 'دسترسی غیر مجاز. لطفا وارد شوید.')
+    }
 
-    console.log('Deleting order...')
-    await prisma.order.delete({ where: { id: orderId } })
+    // The order is kept for its payment trail; cancelling gives the stock back
+    await transitionOrderStatus(orderId, OrderStatus.CANCELLED, {
+      actor: access.actor,
+      comment: 'سفارش لغو شد',
+      userId: access.userId,
+      adminId: access.adminId
+    })
     
     console.log('Order cancelled successfully')
     return NextResponse.json(
@@ -226,6 +238,9 @@ export async function DELETE(
       { status: 200 }
     )
   } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      return errorResponse(409, error.message, error.toDetails())
+    }
     console.error('Error in DELETE /api/checkout/[id]:', error)
     return errorResponse(500, 'خطای سرور', {
       message: error instanceof Error ? error.message : 'Unknown error'
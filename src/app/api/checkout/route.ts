@@ -1,8 +1,40 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import prisma from '@lib/prisma';
-import { OrderStatus } from '@prisma/client';
+import { OrderStatus, ProductType } from '@prisma/client';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  InsufficientStockError,
+  MAX_LINE_QUANTITY,
+  getReservationExpiry,
+  releaseExpiredReservations,
+  reserveStock,
+  syncProductStock,
+  takeStock
+} from '@lib/stock-utils';
+import {
+  PriceChange,
+  PriceChangedError,
+  findPriceChanges,
+  resolveUnitPrice,
+  toPriceNumber
+} from '@lib/pricing-utils';
+import { CouponError, CouponEvaluation, evaluateCouponCode, redeemCoupon } from '@lib/coupon-utils';
+import {
+  PAYMENT_GATEWAY_NAMES,
+  PaymentGatewayName,
+  getDefaultPaymentGatewayName,
+  isMockPaymentEnabled
+} from '@lib/payment-gateway';
+import { OFFLINE_PAYMENT_METHODS } from '@lib/payment-utils';
+import { OrderTransitionError, getOrderActor, transitionOrderStatus } from '@lib/order-status';
+import { ShippingError, calculateShippingCost } from '@lib/shipping-utils';
+import { calculateTax } from '@lib/tax-utils';
+import { findCartIssues, hasBlockingIssues } from '@lib/cart-service';
+import { notificationService } from '@lib/notification-service';
+import { notifyLowStock } from '@lib/stock-alerts';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { authenticateRequest } from '@lib/api-utils';
 
 // Custom error classes for specific error types
 class ValidationError extends Error {
@@ -72,20 +104,28 @@ type BaseProductVariant = {
   color: string | null;
   size: string | null;
   stock: number;
-  price: DecimalLike | number | string;
+  reservedStock: number;
+  isActive: boolean;
+  price: DecimalLike | number | string | null;
 };
 
 // Define base product type
 type BaseProduct = {
   id: string;
   name: string;
+  categoryId: string;
+  type: ProductType;
   price: DecimalLike | number | string;
   compareAtPrice?: DecimalLike | number | string | null;
+  isActive: boolean;
+  publishedAt: Date | null;
+  manageStock: boolean;
+  totalStock: number;
   variants: BaseProductVariant[];
 };
 
 // Define types for better type safety
-type ShippingMethod = 'STANDARD' | 'EXPRESS' | 'NEXT_DAY' | 'PICKUP' | 'FREE';
+type ShippingMethod = 'STANDARD' | 'EXPRESS' | 'NEXT_DAY' | 'PICKUP' | 'IMMIDIATE' | 'FREE';
 type PaymentMethod = 'CREDIT_CARD' | 'DEBIT_CARD' | 'BANK_TRANSFER' | 'CASH_ON_DELIVERY' | 'WALLET';
 
 // Export types for reuse
@@ -96,7 +136,8 @@ interface CheckoutItem {
   productId: string;
   variantId?: string;
   quantity: number;
-  price: number;
+  // Price the customer was shown; only used to detect stale carts
+  price?: number;
 }
 
 interface ShippingAddress {
@@ -111,11 +152,13 @@ interface ShippingAddress {
 }
 
 interface CheckoutRequest {
-  userId: number;
   items: CheckoutItem[];
   shippingAddress: ShippingAddress;
   shippingMethod: ShippingMethod;
   paymentMethod: PaymentMethod;
+  acceptPriceChanges: boolean;
+  couponCode?: string;
+  paymentGateway?: PaymentGatewayName;
 }
 
 // Error handler middleware - used in catch blocks
@@ -137,6 +180,29 @@ const handleError = (error: unknown) => {
     return errorResponse(404, error.message, {}, 'NOT_FOUND');
   }
   
+  if (error instanceof InsufficientStockError) {
+    return errorResponse(409, error.message, { items: error.items }, 'INSUFFICIENT_STOCK');
+  }
+  
+  if (error instanceof CouponError) {
+    return errorResponse(400, error.message, error.details ?? {}, error.code);
+  }
+  
+  if (error instanceof ShippingError) {
+    return errorResponse(400, error.message, error.details ?? {}, error.code);
+  }
+  
+  if (error instanceof OrderTransitionError) {
+    return errorResponse(409, error.message, error.toDetails(), error.reason);
+  }
+  
+  if (error instanceof PriceChangedError) {
+    return errorResponse(409, error.message, {
+      changes: error.changes,
+      subtotal: error.subtotal
+    }, 'PRICE_CHANGED');
+  }
+  
   if (error instanceof z.ZodError) {
     return errorResponse(400, 'Validation failed', {
       issues: error.errors.map(err => ({
@@ -160,7 +226,6 @@ const handleError = (error: unknown) => {
 
 // Define validation schema for checkout request
 const checkoutSchema = z.object({
-  userId: z.number(),
   shippingAddress: z.object({
     firstName: z.string(),
     lastName: z.string(),
@@ -171,29 +236,21 @@ const checkoutSchema = z.object({
     country: z.string(),
     phoneNumber: z.string()
   }),
-  shippingMethod: z.enum(['STANDARD', 'EXPRESS', 'NEXT_DAY', 'PICKUP', 'FREE']),
+  shippingMethod: z.enum(['STANDARD', 'EXPRESS', 'NEXT_DAY', 'PICKUP', 'IMMIDIATE', 'FREE']),
   paymentMethod: z.enum(['CREDIT_CARD', 'DEBIT_CARD', 'BANK_TRANSFER', 'CASH_ON_DELIVERY', 'WALLET']),
   items: z.array(z.object({
     productId: z.string(),
     variantId: z.string().optional(),
-    quantity: z.number().min(1),
-    price: z.number()
-  }))
+    quantity: z.number().int().min(1).max(MAX_LINE_QUANTITY),
+    price: z.number().optional()
+  })),
+  // Reprice stale lines instead of rejecting the checkout
+  acceptPriceChanges: z.boolean().default(false),
+  couponCode: z.string().trim().min(1).max(50).optional(),
+  // Defaults to the PAYMENT_GATEWAY setting
+  paymentGateway: z.enum(PAYMENT_GATEWAY_NAMES as [PaymentGatewayName, ...PaymentGatewayName[]]).optional()
 })
 
-// Helper function to calculate shipping cost based on shipping method
-const calculateShippingCost = (shippingMethod: string): number => {
-  const shippingCosts: Record<string, number> = {
-    STANDARD: 5.99,
-    EXPRESS: 9.99,
-    NEXT_DAY: 14.99,
-    PICKUP: 0,
-    FREE: 0
-  }
-
-  return shippingCosts[shippingMethod]
-}
-
 // Generate order number helper
 const generateOrderNumber = () => `ORD-${uuidv4().replace(/-/g, '').toUpperCase().substring(0, 8)}`
 
@@ -218,7 +275,21 @@ export async function POST(request: Request) {
   
   log('Processing checkout request');
   
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(request, 'checkout', 'checkout');
+  if (rateLimit.isRateLimited) {
+    log('Checkout rate limited');
+    return rateLimit.response;
+  }
+
   try {
+    // The order, and every per-customer coupon limit, belongs to the signed-in customer
+    const auth = await authenticateRequest(request);
+    if (!auth.success || !auth.userId) {
+      return withRateLimitHeaders(errorResponse(401, 'دسترسی غیر مجاز. لطفا وارد شوید.', {}, 'UNAUTHORIZED'), rateLimit.headers);
+    }
+    const userId = auth.userId;
+
     // Parse and validate request body
     let body;
     try {
@@ -226,7 +297,7 @@ export async function POST(request: Request) {
       log('Request body parsed successfully');
     } catch (e) {
       errorLog('Failed to parse request body', e);
-      return handleError(new ValidationError('Invalid JSON payload', { error: e }));
+      return withRateLimitHeaders(handleError(new ValidationError('Invalid JSON payload', { error: e })), rateLimit.headers);
     }
 
     // Validate against schema
@@ -237,28 +308,36 @@ export async function POST(request: Request) {
     } catch (e) {
       if (e instanceof z.ZodError) {
         errorLog('Validation failed', e.errors);
-        return handleError(new ValidationError('Invalid request data', { 
+        return withRateLimitHeaders(handleError(new ValidationError('Invalid request data', { 
           issues: e.errors.map(err => ({
             path: err.path.join('.'),
             message: err.message,
             code: err.code
           }))
-        }));
+        })), rateLimit.headers);
       }
       errorLog('Unexpected error during validation', e);
-      return handleError(e);
+      return withRateLimitHeaders(handleError(e), rateLimit.headers);
+    }
+
+    // The mock gateway marks orders paid for free, so it is only offered where it's enabled
+    const paymentGateway = validatedData.paymentGateway ?? getDefaultPaymentGatewayName();
+    if (paymentGateway === 'MOCK' && !isMockPaymentEnabled()) {
+      return withRateLimitHeaders(errorResponse(400, 'درگاه پرداخت انتخاب شده در دسترس نیست', {
+        paymentGateway
+      }, 'PAYMENT_GATEWAY_UNAVAILABLE'), rateLimit.headers);
     }
 
     // Validate product and variant existence first
     log('Validating products and variants...');
     const productIds = [...new Set(validatedData.items.map(item => item.productId))];
     const variantIds = validatedData.items
-      .filter((item): item is { productId: string; variantId: string; quantity: number; price: number } => !!item.variantId)
+      .filter((item): item is CheckoutItem & { variantId: string } => !!item.variantId)
       .map(item => item.variantId);
 
     if (productIds.length === 0) {
       errorLog('No product IDs found in request', { items: validatedData.items });
-      return errorResponse(400, 'No products in order', {}, 'NO_PRODUCTS');
+      return withRateLimitHeaders(errorResponse(400, 'No products in order', {}, 'NO_PRODUCTS'), rateLimit.headers);
     }
 
     // Check if all products exist
@@ -280,6 +359,8 @@ export async function POST(request: Request) {
               color: true,
               size: true,
               stock: true,
+              reservedStock: true,
+              isActive: true,
               price: true
             }
           } 
@@ -290,14 +371,14 @@ export async function POST(request: Request) {
       log(`Found ${products.length} products`);
     } catch (e) {
       errorLog('Error fetching products from database', e);
-      return errorResponse(500, 'Error fetching products', {}, 'PRODUCT_FETCH_ERROR');
+      return withRateLimitHeaders(errorResponse(500, 'Error fetching products', {}, 'PRODUCT_FETCH_ERROR'), rateLimit.headers);
     }
 
     // Validate products existence
     const missingProducts = productIds.filter(id => !products.some(p => p.id === id));
     if (missingProducts.length > 0) {
       errorLog('Missing products', { missingProducts });
-      return errorResponse(404, 'Some products not found', { missingProducts }, 'PRODUCTS_NOT_FOUND');
+      return withRateLimitHeaders(errorResponse(404, 'Some products not found', { missingProducts }, 'PRODUCTS_NOT_FOUND'), rateLimit.headers);
     }
 
     // Validate variants existence if provided
@@ -322,21 +403,126 @@ export async function POST(request: Request) {
       
       if (missingVariants.length > 0) {
         errorLog('Missing variants', { missingVariants });
-        return errorResponse(404, 'Some product variants not found', { missingVariants }, 'VARIANTS_NOT_FOUND');
+        return withRateLimitHeaders(errorResponse(404, 'Some product variants not found', { missingVariants }, 'VARIANTS_NOT_FOUND'), rateLimit.headers);
+      }
+    }
+
+    // Lines that can't be sold as asked block the order; price changes are handled below
+    const cartIssues = findCartIssues(validatedData.items.map(item => {
+      const product = products.find(p => p.id === item.productId) as Product;
+      return {
+        productId: item.productId,
+        variantId: item.variantId ?? null,
+        quantity: item.quantity,
+        product,
+        variant: item.variantId ? product.variants.find(v => v.id === item.variantId) ?? null : null
+      };
+    }));
+
+    if (hasBlockingIssues(cartIssues)) {
+      log('Cart has blocking issues', { cartIssues });
+      return withRateLimitHeaders(errorResponse(409, 'Cart has items that can no longer be ordered as requested', {
+        issues: cartIssues.filter(issue => issue.blocking)
+      }, 'CART_HAS_BLOCKING_ISSUES'), rateLimit.headers);
+    }
+
+    // Resolve every line price from the catalogue; client prices are never trusted
+    const items = validatedData.items.map((item) => {
+      const product = products.find(p => p.id === item.productId)
+      const variant = item.variantId ? product?.variants.find(v => v.id === item.variantId) : undefined
+
+      return {
+        productId: item.productId,
+        variantId: item.variantId ?? null,
+        quantity: item.quantity,
+        quotedPrice: item.price,
+        price: resolveUnitPrice(product?.price, variant?.price)
+      }
+    })
+
+    const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+
+    const priceChanges: PriceChange[] = findPriceChanges(
+      items.map(item => ({ ...item, currentPrice: item.price }))
+    )
+
+    if (priceChanges.length > 0) {
+      log('Cart prices are stale', { priceChanges });
+      if (!validatedData.acceptPriceChanges) {
+        return withRateLimitHeaders(handleError(new PriceChangedError(priceChanges, subtotal)), rateLimit.headers);
       }
     }
 
-    // Calculate totals
-    const items = validatedData.items.map((item) => ({
-      productId: item.productId,
-      variantId: item.variantId,
-      quantity: item.quantity,
-      price: Number(item.price)
-    })) as Array<{ productId: string; variantId: string | null; quantity: number; price: number }>
+    // Priced from product weights and the destination province
+    let shippingCost: number;
+    try {
+      shippingCost = await calculateShippingCost(
+        validatedData.shippingMethod,
+        items,
+        subtotal,
+        { state: validatedData.shippingAddress.state, city: validatedData.shippingAddress.city }
+      );
+      log('Shipping quoted', { method: validatedData.shippingMethod, shippingCost });
+    } catch (e) {
+      return withRateLimitHeaders(handleError(e), rateLimit.headers);
+    }
 
-    const subtotal = items.reduce((sum, item) => sum + Number(item.price) * item.quantity, 0)
-    const shippingCost = calculateShippingCost(validatedData.shippingMethod)
-    const total = subtotal + shippingCost
+    // Apply the coupon, if any, against the server-side prices
+    let coupon: CouponEvaluation | null = null;
+    if (validatedData.couponCode) {
+      try {
+        coupon = await evaluateCouponCode(
+          validatedData.couponCode,
+          userId,
+          items.map(item => {
+            const product = products.find(p => p.id === item.productId) as Product;
+            return {
+              productId: item.productId,
+              variantId: item.variantId,
+              categoryId: product.categoryId,
+              productType: product.type,
+              quantity: item.quantity,
+              unitPrice: item.price
+            };
+          }),
+          shippingCost
+        );
+        log('Coupon applied', { code: coupon.code, discount: coupon.totalDiscount });
+      } catch (e) {
+        return withRateLimitHeaders(handleError(e), rateLimit.headers);
+      }
+    }
+
+    const discountAmount = coupon?.totalDiscount ?? 0
+
+    // VAT on what is actually charged, i.e. after coupon discounts
+    const tax = calculateTax(
+      items.map((item, index) => {
+        const product = products.find(p => p.id === item.productId) as Product;
+        return {
+          categoryId: product.categoryId,
+          productType: product.type,
+          amount: item.price * item.quantity - (coupon?.lineDiscounts[index] ?? 0)
+        };
+      }),
+      shippingCost - (coupon?.shippingDiscount ?? 0)
+    );
+    log('Tax calculated', { totalTax: tax.totalTax, pricesIncludeTax: tax.pricesIncludeTax });
+
+    const total = subtotal + shippingCost - discountAmount + tax.payableTax
+
+    // Free up stock held by abandoned orders before we try to reserve
+    try {
+      const expired = await releaseExpiredReservations();
+      if (expired > 0) log(`Released expired reservations for ${expired} orders`);
+    } catch (e) {
+      errorLog('Failed to release expired reservations', e);
+    }
+
+    const paidOffline = OFFLINE_PAYMENT_METHODS.includes(validatedData.paymentMethod);
+    const reservationExpiresAt = getReservationExpiry();
+    let reservedProductIds: string[] = [];
+    let placedOrder: { id: string; orderNumber: string; total: number } | null = null;
 
     // Start transaction to ensure data consistency
     const result = await prisma.$transaction(async (tx) => {
@@ -344,7 +530,7 @@ export async function POST(request: Request) {
         // Create shipping address with required fields
         const shippingAddress = await tx.address.create({
           data: {
-            userId: validatedData.userId,
+            userId,
             type: 'SHIPPING',
             firstName: validatedData.shippingAddress.firstName,
             lastName: validatedData.shippingAddress.lastName,
@@ -362,7 +548,7 @@ export async function POST(request: Request) {
         const orderNumber = generateOrderNumber()
 
         // Prepare order items data
-        const orderItemsData = items.map(item => {
+        const orderItemsData = items.map((item, index) => {
           const product = products.find(p => p.id === item.productId)
           if (!product) {
             throw errorResponse(404, 'محصول یافت نشد', {
@@ -383,21 +569,10 @@ export async function POST(request: Request) {
           // Get SKU from variant if exists, otherwise use product SKU
           const sku = variant?.sku || product.variants[0]?.sku || 'SKU-NOT-AVAILABLE'
           
-          // Helper function to safely convert any numeric value to number
-          const toNumber = (value: unknown): number => {
-            if (value === null || value === undefined) return 0;
-            if (typeof value === 'number') return value;
-            if (typeof value === 'string') return Number(value) || 0;
-            if (typeof value === 'object' && value !== null && 'toNumber' in value) {
-              return (value as { toNumber: () => number }).toNumber();
-            }
-            return 0;
-          };
-          
-          // Convert all prices to numbers
-          const productPrice = toNumber(product.price);
-          const variantPrice = variant ? toNumber(variant.price) : productPrice;
-          const compareAtPrice = toNumber(product.compareAtPrice);
+          // Unit price was resolved server-side above
+          const unitPrice = item.price;
+          const compareAtPrice = toPriceNumber(product.compareAtPrice);
+          const lineDiscount = coupon?.lineDiscounts[index] ?? 0;
           
           return {
             productId: item.productId,
@@ -407,12 +582,12 @@ export async function POST(request: Request) {
             sku,
             barcode: variant?.barcode ? String(variant.barcode) : null,
             quantity: item.quantity,
-            price: variantPrice,
+            price: unitPrice,
             compareAtPrice,
-            taxRate: 0,
-            taxAmount: 0,
-            discountAmount: 0,
-            total: variantPrice * item.quantity,
+            taxRate: tax.lines[index].taxRate,
+            taxAmount: tax.lines[index].taxAmount,
+            discountAmount: lineDiscount,
+            total: unitPrice * item.quantity - lineDiscount,
             isReturned: false
           }
         })
@@ -420,17 +595,20 @@ export async function POST(request: Request) {
         // Create order
         const order = await tx.order.create({
           data: {
-            userId: validatedData.userId,
+            userId,
             orderNumber,
             status: OrderStatus.PENDING_PAYMENT,
             subtotal: subtotal,
-            taxAmount: 0,
+            taxAmount: tax.totalTax,
             shippingCost: shippingCost,
-            discountAmount: 0,
+            discountAmount: discountAmount,
             total: total,
+            couponId: coupon?.couponId,
+            couponCode: coupon?.code,
             currency: 'Rials',
             paymentMethod: validatedData.paymentMethod,
             paymentStatus: 'PENDING',
+            paymentGateway,
             shippingMethod: validatedData.shippingMethod,
             shippingAddressId: shippingAddress.id,
             billingAddressId: shippingAddress.id,
@@ -441,7 +619,7 @@ export async function POST(request: Request) {
               create: {
                 status: OrderStatus.PENDING_PAYMENT,
                 comment: 'سفارش ایجاد شد',
-                userId: validatedData.userId
+                userId
               }
             }
           },
@@ -456,21 +634,32 @@ export async function POST(request: Request) {
           }
         })
 
-        // Update stock for variants
-        const stockUpdates = orderItemsData.map(item => {
-          if (!item.variantId) return null
-          return tx.variant.update({
-            where: { id: item.variantId },
-            data: { stock: { decrement: item.quantity } }
-          })
-        }).filter(Boolean)
+        if (coupon) {
+          await redeemCoupon(tx, coupon, userId, order.id)
+        }
+
+        const stockItems = orderItemsData
+          .filter((item): item is typeof item & { variantId: string } => !!item.variantId)
+          .map(item => ({
+            productId: item.productId,
+            variantId: item.variantId,
+            quantity: item.quantity
+          }))
+
+        // Hold variant stock until the payment is verified or the reservation
+        // expires; orders paid offline can't expire, so they take it outright
+        reservedProductIds = paidOffline
+          ? await takeStock(tx, order.id, stockItems)
+          : await reserveStock(tx, order.id, stockItems, reservationExpiresAt)
 
-        await Promise.all(stockUpdates)
+        placedOrder = { id: order.id, orderNumber: order.orderNumber, total }
 
         return NextResponse.json({
           success: true,
           data: {
             order,
+            reservationExpiresAt: paidOffline ? null : reservationExpiresAt.toISOString(),
+            priceChanges,
             paymentUrl: null // TODO: Implement payment URL generation
           }
         }, {
@@ -483,22 +672,31 @@ export async function POST(request: Request) {
       }
     })
 
-    return result
+    await syncProductStock(reservedProductIds)
+    await notifyLowStock(reservedProductIds)
+
+    if (placedOrder) {
+      const { id, orderNumber, total: orderTotal } = placedOrder
+      await notificationService.notify('ORDER_PLACED', { userId }, {
+        orderId: id,
+        orderNumber,
+        total: orderTotal
+      })
+    }
+
+    return withRateLimitHeaders(result, rateLimit.headers)
   } catch (error) {
     console.error('Error in checkout:', error)
+    if (error instanceof InsufficientStockError || error instanceof CouponError) {
+      return withRateLimitHeaders(handleError(error), rateLimit.headers)
+    }
     if (error instanceof z.ZodError) {
-      return errorResponse(400, 'اطلاعات ورودی نامعتبر است', {
+      return withRateLimitHeaders(errorResponse(400, 'اطلاعات ورودی نامعتبر است', {
         errors: error.errors
-      })
-    }
-    if (error instanceof Error) {
-      return errorResponse(500, error.message, {
-        details: error.stack
-      })
+      }), rateLimit.headers)
     }
-    return errorResponse(500, 'خطای سرور', {
-      details: String(error)
-    })
+    // Logged above; internals such as stack traces stay out of the response
+    return withRateLimitHeaders(errorResponse(500, 'خطای سرور', {}, 'INTERNAL_SERVER_ERROR'), rateLimit.headers)
   }
 }
 
@@ -644,7 +842,7 @@ export async function PUT(request: Request) {
     log('Checking if order exists', { orderId });
     const existingOrder = await prisma.order.findUnique({
       where: { id: orderId },
-      select: { id: true, status: true }
+      select: { id: true, userId: true, status: true }
     });
     
     log('Order check result', { exists: !!existingOrder, status: existingOrder?.status });
@@ -653,44 +851,26 @@ export async function PUT(request: Request) {
       return handleError(new NotFoundError('سفارش', orderId));
     }
     
+    const access = await getOrderActor(request, existingOrder.userId);
+    if (!access) {
+      return errorResponse(401, 'دسترسی غیر مجاز. لطفا وارد شوید.', {}, 'UNAUTHORIZED');
+    }
+    
     // Update order status
-    log('Updating order status', { orderId, newStatus: status });
-    const updatedOrder = await prisma.$transaction(async (tx) => {
-      const order = await tx.order.update({
-        where: { id: orderId },
-        data: { 
-          status,
-          history: {
-            create: {
-              status,
-              comment: `وضعیت سفارش به ${status} تغییر یافت`,
-              createdAt: new Date(),
-              userId: 1 // TODO: Replace with actual user ID from session
-            }
-          }
-        },
-        include: {
-          items: true,
-          history: {
-            orderBy: { createdAt: 'desc' },
-            take: 1
-          }
-        }
-      });
-      
-      return order;
+    log('Updating order status', { orderId, newStatus: status, actor: access.actor });
+    await transitionOrderStatus(orderId, status, {
+      actor: access.actor,
+      userId: access.userId,
+      adminId: access.adminId
     });
     
-    log('Order status updated successfully', { 
-      orderId: updatedOrder.id,
-      newStatus: updatedOrder.status 
-    });
+    log('Order status updated successfully', { orderId, newStatus: status });
     
     return NextResponse.json({
       success: true, 
       message: 'وضعیت سفارش با موفقیت به‌روزرسانی شد',
-      orderId: updatedOrder.id,
-      status: updatedOrder.status
+      orderId,
+      status
     }, {
       status: 200,
       headers: { 
@@ -748,7 +928,7 @@ export async function DELETE(request: Request) {
     log('Checking if order exists', { orderId });
     const existingOrder = await prisma.order.findUnique({
       where: { id: orderId },
-      select: { id: true, status: true }
+      select: { id: true, userId: true, status: true }
     });
     
     log('Order check result', { exists: !!existingOrder, status: existingOrder?.status });
@@ -757,53 +937,28 @@ export async function DELETE(request: Request) {
       return handleError(new NotFoundError('سفارش', orderId));
     }
     
-    // Check if order can be cancelled
-    const validStatuses: OrderStatus[] = [OrderStatus.PENDING_PAYMENT, OrderStatus.PROCESSING];
-    if (!validStatuses.includes(existingOrder.status as OrderStatus)) {
-      return handleError(new ValidationError(
-        `سفارش در وضعیت ${existingOrder.status} قابل لغو نمی‌باشد`,
-        { currentStatus: existingOrder.status, validStatuses }
-      ));
+    const access = await getOrderActor(request, existingOrder.userId);
+    if (!access) {
+      return errorResponse(401, 'دسترسی غیر مجاز. لطفا وارد شوید.', {}, 'UNAUTHORIZED');
     }
     
-    // Update order status to CANCELLED
-    log('Cancelling order', { orderId });
-    const updatedOrder = await prisma.$transaction(async (tx) => {
-      const order = await tx.order.update({
-        where: { id: orderId },
-        data: { 
-          status: OrderStatus.CANCELLED,
-          history: {
-            create: {
-              status: OrderStatus.CANCELLED,
-              comment: 'سفارش توسط کاربر لغو شد',
-              userId: 1, // TODO: Replace with actual user ID from session
-              createdAt: new Date()
-            }
-          }
-        },
-        include: {
-          items: true,
-          history: {
-            orderBy: { createdAt: 'desc' },
-            take: 1
-          }
-        }
-      });
-      
-      return order;
+    // Whether the order can still be cancelled, and by whom, is up to the transition table;
+    // stock goes back once the cancellation is committed
+    log('Cancelling order', { orderId, actor: access.actor });
+    await transitionOrderStatus(orderId, OrderStatus.CANCELLED, {
+      actor: access.actor,
+      comment: access.actor === 'CUSTOMER' ? 'سفارش توسط کاربر لغو شد' : undefined,
+      userId: access.userId,
+      adminId: access.adminId
     });
     
-    log('Order cancelled successfully', { 
-      orderId: updatedOrder.id,
-      newStatus: updatedOrder.status 
-    });
+    log('Order cancelled successfully', { orderId });
     
     return NextResponse.json({
       success: true, 
       message: 'سفارش با موفقیت لغو شد',
-      orderId: updatedOrder.id,
-      status: updatedOrder.status
+      orderId,
+      status: OrderStatus.CANCELLED
     }, {
       status: 200,
       headers: { 
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@lib/api-utils';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { createEventStreamResponse, parseWatchList } from '@lib/event-stream';
+
+// Streams stay open, so the response must never be cached or pre-rendered
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// GET /api/events - Live updates for the signed-in customer (Server-Sent Events)
+//
+// Events: ticket.message, ticket.status and order.history for the customer's
+// own tickets and orders. ?ticketId= / ?orderId= narrow the stream.
+// Reconnects resume from Last-Event-ID; `reset` means reload instead.
+export async function GET(request: NextRequest) {
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(
+    request,
+    'users:events:stream',
+    'user'
+  );
+
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return withRateLimitHeaders(NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      ), rateLimit.headers);
+    }
+
+    return withRateLimitHeaders(createEventStreamResponse(request, {
+      userId: authResult.userId,
+      ...parseWatchList(request)
+    }), rateLimit.headers);
+  } catch (error) {
+    console.error('Error opening event stream:', error);
+    return withRateLimitHeaders(NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    ), rateLimit.headers);
+  }
+}
@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getFakeSmsMessages, resetFakeSms } from '@lib/fake-sms-sender';
+import { POST } from './route';
+
+interface AbandonedCart {
+  id: string;
+  user: { id: number; firstName: string | null; phoneNumber: string; orders: { createdAt: Date }[] };
+  items: { updatedAt: Date }[];
+}
+
+// Abandoned carts are picked by the database; the fake hands back whatever was seeded
+const db = vi.hoisted(() => {
+  const state = {
+    abandonedCarts: [] as AbandonedCart[],
+    attempts: [] as { cartId: string; status: string; couponId?: string; createdAt: Date }[],
+    coupons: [] as { id: string; code: string; isActive: boolean }[]
+  };
+
+  return {
+    state,
+    cart: {
+      findMany: vi.fn(async ({ take }: { take: number }) => state.abandonedCarts.slice(0, take))
+    },
+    cartRecoveryAttempt: {
+      findMany: async ({ where }: { where: { cartId: { in: string[] } } }) =>
+        state.attempts.filter(attempt => where.cartId.in.includes(attempt.cartId)),
+      create: async ({ data }: { data: { cartId: string; status: string; couponId?: string } }) => {
+        const attempt = { ...data, createdAt: new Date() };
+        state.attempts.push(attempt);
+        return attempt;
+      }
+    },
+    coupon: {
+      create: async ({ data }: { data: { code: string } }) => {
+        const coupon = { id: `coupon-${state.coupons.length + 1}`, code: data.code, isActive: true };
+        state.coupons.push(coupon);
+        return coupon;
+      },
+      update: async ({ where, data }: { where: { id: string }; data: { isActive: boolean } }) =>
+        Object.assign(state.coupons.find(coupon => coupon.id === where.id)!, data)
+    }
+  };
+});
+
+vi.mock('@lib/prisma', () => ({ default: db }));
+vi.mock('@lib/cart-service', () => ({
+  cartService: { getCart: vi.fn(async () => ({ items: [], totalItems: 3, subtotal: 450000 })) }
+}));
+
+const CRON_SECRET = 'cron-secret';
+
+function runJob(options: { authorization?: string; body?: string } = {}) {
+  return POST(new Request('http://localhost:3000/api/jobs/cart-recovery', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(options.authorization !== undefined && { authorization: options.authorization })
+    },
+    body: options.body
+  }));
+}
+
+function abandonCart(id: string, phoneNumber: string): AbandonedCart {
+  const cart = {
+    id,
+    user: { id: db.state.abandonedCarts.length + 1, firstName: 'سارا', phoneNumber, orders: [] },
+    items: [{ updatedAt: new Date(Date.now() - 48 * 60 * 60 * 1000) }]
+  };
+  db.state.abandonedCarts.push(cart);
+  return cart;
+}
+
+describe('POST /api/jobs/cart-recovery', () => {
+  beforeEach(() => {
+    vi.stubEnv('CRON_SECRET', CRON_SECRET);
+    vi.stubEnv('SMS_SENDER', 'FAKE');
+    vi.stubEnv('FAKE_SMS_FAIL_PREFIX', '');
+    vi.clearAllMocks();
+    resetFakeSms();
+    db.state.abandonedCarts = [];
+    db.state.attempts = [];
+    db.state.coupons = [];
+  });
+
+  describe('CRON_SECRET', () => {
+    it('refuses to run when no secret is configured', async () => {
+      vi.stubEnv('CRON_SECRET', '');
+
+      const response = await runJob({ authorization: 'Bearer ' });
+
+      expect(response.status).toBe(503);
+      expect(db.cart.findMany).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['no authorization header', undefined],
+      ['a wrong secret', 'Bearer not-the-secret'],
+      ['the secret without the Bearer scheme', CRON_SECRET]
+    ])('rejects a call with %s', async (_case, authorization) => {
+      abandonCart('cart-1', '+989121234567');
+
+      const response = await runJob({ authorization });
+
+      expect(response.status).toBe(401);
+      expect(db.cart.findMany).not.toHaveBeenCalled();
+      expect(getFakeSmsMessages()).toEqual([]);
+    });
+  });
+
+  it('rejects options out of range', async () => {
+    const response = await runJob({
+      authorization: `Bearer ${CRON_SECRET}`,
+      body: JSON.stringify({ couponPercent: 150 })
+    });
+
+    expect(response.status).toBe(400);
+    expect(db.cart.findMany).not.toHaveBeenCalled();
+  });
+
+  it('texts every abandoned cart once and skips it on the next run', async () => {
+    abandonCart('cart-1', '+989121234567');
+    abandonCart('cart-2', '+989351234567');
+
+    const response = await runJob({ authorization: `Bearer ${CRON_SECRET}` });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      success: true,
+      data: { candidates: 2, sent: 2, failed: 0, skipped: 0 }
+    });
+    expect(getFakeSmsMessages()).toEqual([
+      expect.objectContaining({ phoneNumber: '+989121234567', template: 'cart-recovery', tokens: ['سارا', '3'] }),
+      expect.objectContaining({ phoneNumber: '+989351234567', template: 'cart-recovery', tokens: ['سارا', '3'] })
+    ]);
+    expect(db.state.attempts.map(attempt => attempt.status)).toEqual(['SENT', 'SENT']);
+
+    const rerun = await runJob({ authorization: `Bearer ${CRON_SECRET}` });
+
+    expect((await rerun.json()).data).toEqual({ candidates: 2, sent: 0, failed: 0, skipped: 2 });
+    expect(getFakeSmsMessages()).toHaveLength(2);
+  });
+
+  it('sends a one-time coupon and withdraws it when the SMS is refused', async () => {
+    vi.stubEnv('FAKE_SMS_FAIL_PREFIX', '+98935');
+    abandonCart('cart-1', '+989121234567');
+    abandonCart('cart-2', '+989351234567');
+
+    const response = await runJob({
+      authorization: `Bearer ${CRON_SECRET}`,
+      body: JSON.stringify({ couponPercent: 10 })
+    });
+
+    expect((await response.json()).data).toEqual({ candidates: 2, sent: 1, failed: 1, skipped: 0 });
+
+    const [delivered, refused] = db.state.coupons;
+    expect(getFakeSmsMessages()).toEqual([
+      expect.objectContaining({ phoneNumber: '+989121234567', tokens: ['سارا', '3', delivered.code] })
+    ]);
+    expect(delivered.isActive).toBe(true);
+    expect(refused.isActive).toBe(false);
+    expect(db.state.attempts.map(({ status, couponId }) => ({ status, couponId }))).toEqual([
+      { status: 'SENT', couponId: delivered.id },
+      { status: 'FAILED', couponId: refused.id }
+    ]);
+  });
+});
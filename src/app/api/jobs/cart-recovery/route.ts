@@ -0,0 +1,86 @@
+import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { runCartRecoveryJob } from '@lib/cart-recovery';
+
+// Error messages in Farsi
+const MESSAGES = {
+  UNAUTHORIZED: 'دسترسی غیر مجاز.',
+  NOT_CONFIGURED: 'CRON_SECRET تنظیم نشده است.',
+  INVALID_INPUT: 'ورودی نامعتبر است.',
+  INTERNAL_ERROR: 'خطای سرور. لطفا بعدا تلاش کنید.'
+} as const;
+
+// Helper functions for consistent responses
+function errorResponse(status: number, message: string, details?: Record<string, unknown>) {
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+      ...(details && { details })
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+function successResponse(data: Record<string, unknown>, status = 200) {
+  return NextResponse.json(
+    {
+      success: true,
+      data
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+function isAuthorizedScheduler(request: Request, secret: string): boolean {
+  const header = request.headers.get('authorization') ?? '';
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(header);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+const runSchema = z.object({
+  idleHours: z.number().positive().optional(),
+  couponPercent: z.number().min(0).max(100).optional(),
+  limit: z.number().int().min(1).max(1000).optional()
+});
+
+// POST /api/jobs/cart-recovery - Send recovery SMS for abandoned carts
+//
+// Meant for an external scheduler (e.g. cron every hour) calling with
+// `Authorization: Bearer $CRON_SECRET`. The body may override the idle
+// threshold, coupon percentage and batch size for a single run.
+export async function POST(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return errorResponse(503, MESSAGES.NOT_CONFIGURED);
+  }
+  if (!isAuthorizedScheduler(request, secret)) {
+    return errorResponse(401, MESSAGES.UNAUTHORIZED);
+  }
+
+  try {
+    const body = await request.text();
+    const validation = runSchema.safeParse(body ? JSON.parse(body) : {});
+    if (!validation.success) {
+      return errorResponse(400, MESSAGES.INVALID_INPUT, { errors: validation.error.flatten() });
+    }
+
+    const result = await runCartRecoveryJob(validation.data);
+    return successResponse({ ...result });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return errorResponse(400, MESSAGES.INVALID_INPUT);
+    }
+
+    console.error('Error running cart recovery job:', error);
+    return errorResponse(500, MESSAGES.INTERNAL_ERROR);
+  }
+}
@@ -1,45 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { deleteFile } from '@lib/media-utils';
-import { verifyToken } from '../../../../../lib/auth';
+import { requirePermission } from '@lib/permissions';
+import { recordAdminAction } from '@lib/audit-log';
 
 export async function DELETE(
   request: NextRequest,
   { params }: { params: { filename: string } }
 ) {
   try {
-    // Check for token in Authorization header first
-    let token: string | null = null;
-    const authHeader = request.headers.get('authorization');
-    
-    if (authHeader?.startsWith('Bearer ')) {
-      token = authHeader.split(' ')[1];
-    } else {
-      // Check for token in cookies
-      const cookieHeader = request.headers.get('cookie');
-      if (cookieHeader) {
-        const cookies = Object.fromEntries(
-          cookieHeader.split(';').map(c => {
-            const [key, ...values] = c.trim().split('=');
-            return [key, values.join('=')];
-          })
-        );
-        token = cookies['adminToken'] || null;
-      }
-    }
-    
-    if (!token) {
-      return NextResponse.json(
-        { success: false, message: 'توکن احراز هویت یافت نشد' },
-        { status: 401 }
-      );
-    }
-
-    const decoded = verifyToken(token);
-    if (!decoded || !decoded.adminId) {
-      return NextResponse.json(
-        { success: false, message: 'توکن نامعتبر است' },
-        { status: 401 }
-      );
+    const access = await requirePermission(request, 'media:write');
+    if (!access.success) {
+      return access.response;
     }
 
     const { filename } = params;
@@ -59,6 +30,13 @@ export async function DELETE(
       );
     }
 
+    await recordAdminAction(request, access.admin.id, {
+      action: 'media.delete',
+      entityType: 'MEDIA',
+      entityId: filename,
+      before: { filename }
+    });
+
     return NextResponse.json({
       success: true,
       message: 'فایل با موفقیت حذف شد'
@@ -1,42 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyToken } from '../../../../../lib/auth';
+import { requirePermission } from '../../../../../lib/permissions';
 import { listMedia } from '../../../../../lib/media-utils';
 
 export async function GET(request: NextRequest) {
   try {
-    // Check for token in Authorization header first
-    let token: string | null = null;
-    const authHeader = request.headers.get('authorization');
-    
-    if (authHeader?.startsWith('Bearer ')) {
-      token = authHeader.split(' ')[1];
-    } else {
-      // Check for token in cookies
-      const cookieHeader = request.headers.get('cookie');
-      if (cookieHeader) {
-        const cookies = Object.fromEntries(
-          cookieHeader.split(';').map(c => {
-            const [key, ...values] = c.trim().split('=');
-            return [key, values.join('=')];
-          })
-        );
-        token = cookies['adminToken'] || null;
-      }
-    }
-    
-    if (!token) {
-      return NextResponse.json(
-        { success: false, message: 'توکن احراز هویت یافت نشد' },
-        { status: 401 }
-      );
-    }
-
-    const decoded = verifyToken(token);
-    if (!decoded || !decoded.adminId) {
-      return NextResponse.json(
-        { success: false, message: 'توکن نامعتبر است' },
-        { status: 401 }
-      );
+    const access = await requirePermission(request, 'media:write');
+    if (!access.success) {
+      return access.response;
     }
 
     // Get query parameters
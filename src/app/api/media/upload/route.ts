@@ -1,5 +1,6 @@
 import { uploadFile } from '../../../../../lib/media-utils';
-import { verifyToken } from '../../../../../lib/auth';
+import { requirePermission } from '../../../../../lib/permissions';
+import { recordAdminAction } from '../../../../../lib/audit-log';
 import { z } from 'zod';
 import { promises as fs } from 'fs';
 import path from 'path';
@@ -146,47 +147,12 @@ const uploadSchema = z.object({
   description: z.string().max(1000, 'توضیحات نباید بیشتر از ۱۰۰۰ کاراکتر باشد').optional(),
 });
 
-// Helper to extract token from request
-function getTokenFromRequest(request: Request): string | null {
-  // Check for token in Authorization header first
-  const authHeader = request.headers.get('authorization');
-  
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.split(' ')[1];
-  }
-  
-  // Check for token in cookies
-  const cookieHeader = request.headers.get('cookie');
-  if (cookieHeader) {
-    const cookies = Object.fromEntries(
-      cookieHeader.split(';').map((c: string) => {
-        const [key, ...rest] = c.trim().split('=');
-        return [key, rest.join('=')];
-      })
-    );
-    return cookies['auth-token'] || cookies['adminToken'] || null;
-  }
-  
-  return null;
-}
-
 export async function POST(request: NextRequest) {
   try {
     // Verify authentication
-    const token = getTokenFromRequest(request);
-    if (!token) {
-      return NextResponse.json(
-        { success: false, message: 'توکن احراز هویت یافت نشد' },
-        { status: 401 }
-      );
-    }
-
-    const decoded = verifyToken(token);
-    if (!decoded?.adminId) {
-      return NextResponse.json(
-        { success: false, message: 'توکن نامعتبر است' },
-        { status: 401 }
-      );
+    const access = await requirePermission(request, 'media:write');
+    if (!access.success) {
+      return access.response;
     }
 
     // Ensure upload directory exists
@@ -267,6 +233,13 @@ export async function POST(request: NextRequest) {
           { status: 400 }
         );
       }
+
+      await recordAdminAction(request, access.admin.id, {
+        action: 'media.upload',
+        entityType: 'MEDIA',
+        entityId: result.id ?? newFilename,
+        after: { filename: result.filename, url: result.url, mimeType: result.mimeType, size: result.size, title, alt }
+      });
       
       return NextResponse.json({
         success: true,
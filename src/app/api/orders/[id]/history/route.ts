@@ -1,7 +1,7 @@
 import { NextResponse, NextRequest } from 'next/server';
 import { PrismaClient, OrderStatus } from '@prisma/client';
-import { authenticateRequest } from '../../../../../../lib/api-utils';
-import { rateLimitMiddleware } from '../../../../../../lib/rate-limiter';
+import { rateLimitMiddleware, withRateLimitHeaders } from '../../../../../../lib/rate-limiter';
+import { requirePermission } from '../../../../../../lib/permissions';
 
 // Error messages in Farsi
 const MESSAGES = {
@@ -41,17 +41,6 @@ function successResponse(data: Record<string, unknown>, status = 200) {
 
 const prisma = new PrismaClient();
 
-// Helper to get user from request
-async function getAuthenticatedUser(request: Request) {
-  const auth = await authenticateRequest(request);
-  if (!auth.success || !auth.adminId) return null;
-  
-  return await prisma.admin.findUnique({
-    where: { id: auth.adminId },
-    select: { id: true, role: true, email: true }
-  });
-}
-
 // GET /api/orders/[id]/history - Get order history
 export async function GET(
   request: Request,
@@ -68,31 +57,21 @@ export async function GET(
     return rateLimit.response;
   }
   try {
-    // Authentication
-    const user = await getAuthenticatedUser(request);
-    if (!user) {
-      return errorResponse(401, MESSAGES.UNAUTHORIZED);
-    }
-    if (!user) {
-      return errorResponse(401, MESSAGES.UNAUTHORIZED);
+    // Staff with orders:view only; the role is checked against the database
+    const access = await requirePermission(request, 'orders:view');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
     }
     
     const orderId = params.id;
     
-    // Check if user has access to this order
     const order = await prisma.order.findUnique({
       where: { id: orderId },
-      select: { userId: true }
+      select: { id: true }
     });
     
     if (!order) {
-      return errorResponse(404, MESSAGES.NOT_FOUND);
-    }
-    
-    // Only allow admins or the order owner to view history
-    const isAdmin = ['OWNER', 'MANAGER', 'OPERATOR'].includes(user.role);
-    if (!isAdmin && order.userId !== user.id) {
-      return errorResponse(403, MESSAGES.FORBIDDEN);
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.NOT_FOUND), rateLimit.headers);
     }
     
     // Get order history with user details, ordered by most recent first
@@ -116,13 +95,13 @@ export async function GET(
       }
     });
     
-    return successResponse({ history });
+    return withRateLimitHeaders(successResponse({ history }), rateLimit.headers);
     
   } catch (error) {
     console.error('Error fetching order history:', error);
-    return errorResponse(500, MESSAGES.INTERNAL_ERROR, { 
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR, { 
       error: error instanceof Error ? error.message : 'Unknown error' 
-    });
+    }), rateLimit.headers);
   }
 }
 
@@ -132,13 +111,13 @@ export async function addOrderHistoryEntry(
   orderId: string,
   status: OrderStatus,
   comment: string,
-  userId: number
+  adminId: number
 ) {
   try {
     await prisma.orderHistory.create({
       data: {
         orderId,
-        userId,
+        adminId,
         status,
         comment
       }
@@ -0,0 +1,79 @@
+import { NextResponse, NextRequest } from 'next/server';
+import prisma from '@lib/prisma';
+import { authenticateRequest } from '@lib/api-utils';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { hasPermission } from '@lib/permissions';
+import { PAID_ORDER_STATUSES } from '@lib/payment-utils';
+import { documentHeaders, printableOrderInclude, renderInvoiceHtml } from '@lib/invoice-utils';
+
+// Error messages in Farsi
+const MESSAGES = {
+  UNAUTHORIZED: 'دسترسی غیر مجاز. لطفا وارد شوید.',
+  NOT_FOUND: 'سفارش یافت نشد.',
+  NOT_PAID: 'صورتحساب پس از پرداخت سفارش صادر می‌شود.',
+  INTERNAL_ERROR: 'خطای سرور. لطفا بعدا تلاش کنید.'
+} as const;
+
+// Helper functions for consistent responses
+function errorResponse(status: number, message: string, details?: Record<string, unknown>) {
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+      ...(details && { details })
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+// GET /api/orders/[id]/invoice - Printable invoice for the order's customer or staff
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const rateLimit = await rateLimitMiddleware(request, `orders:invoice:${params.id}`, 'user');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth.success || (!auth.userId && !auth.adminId)) {
+      return withRateLimitHeaders(errorResponse(401, MESSAGES.UNAUTHORIZED), rateLimit.headers);
+    }
+
+    let isStaff = false;
+    if (auth.adminId) {
+      const admin = await prisma.admin.findUnique({
+        where: { id: auth.adminId },
+        select: { role: true }
+      });
+      isStaff = !!admin && hasPermission(admin.role, 'orders:view');
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { id: params.id },
+      include: printableOrderInclude
+    });
+
+    // Someone else's order looks the same as a missing one
+    if (!order || (!isStaff && order.userId !== auth.userId)) {
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.NOT_FOUND), rateLimit.headers);
+    }
+
+    if (!PAID_ORDER_STATUSES.includes(order.status)) {
+      return withRateLimitHeaders(errorResponse(409, MESSAGES.NOT_PAID, { status: order.status }), rateLimit.headers);
+    }
+
+    const download = new URL(request.url).searchParams.get('download') === '1';
+    return withRateLimitHeaders(new NextResponse(renderInvoiceHtml(order), {
+      status: 200,
+      headers: documentHeaders(`invoice-${order.orderNumber}`, download)
+    }), rateLimit.headers);
+  } catch (error) {
+    console.error('Error rendering invoice:', error);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse, NextRequest } from 'next/server';
+import prisma from '@lib/prisma';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { requirePermission } from '@lib/permissions';
+import { documentHeaders, printableOrderInclude, renderPackingSlipsHtml } from '@lib/invoice-utils';
+
+// Error messages in Farsi
+const MESSAGES = {
+  NOT_FOUND: 'سفارش یافت نشد.',
+  INTERNAL_ERROR: 'خطای سرور. لطفا بعدا تلاش کنید.'
+} as const;
+
+// Helper functions for consistent responses
+function errorResponse(status: number, message: string, details?: Record<string, unknown>) {
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+      ...(details && { details })
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+// GET /api/orders/[id]/packing-slip - Printable packing slip for one order
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const rateLimit = await rateLimitMiddleware(request, `orders:packing-slip:${params.id}`, 'admin');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+  try {
+    // Warehouse documents; customers get the invoice instead
+    const access = await requirePermission(request, 'orders:manage');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { id: params.id },
+      include: printableOrderInclude
+    });
+    if (!order) {
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.NOT_FOUND), rateLimit.headers);
+    }
+
+    const download = new URL(request.url).searchParams.get('download') === '1';
+    return withRateLimitHeaders(new NextResponse(renderPackingSlipsHtml([order]), {
+      status: 200,
+      headers: documentHeaders(`packing-slip-${order.orderNumber}`, download)
+    }), rateLimit.headers);
+  } catch (error) {
+    console.error('Error rendering packing slip:', error);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
+  }
+}
@@ -0,0 +1,170 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { rateLimitMiddleware, withRateLimitHeaders } from '../../../../../../lib/rate-limiter';
+import { requirePermission } from '../../../../../../lib/permissions';
+import { recordAdminAction } from '../../../../../../lib/audit-log';
+import {
+  RefundError,
+  getRefundSummary,
+  refundOrder,
+  refundRequestSchema
+} from '../../../../../../lib/refund-utils';
+
+// Error messages in Farsi
+const MESSAGES = {
+  NOT_FOUND: 'سفارش یافت نشد.',
+  INVALID_INPUT: 'ورودی نامعتبر است.',
+  INTERNAL_ERROR: 'خطای سرور. لطفا بعدا تلاش کنید.',
+  REFUNDED: 'بازپرداخت با موفقیت ثبت شد.'
+} as const;
+
+// Helper functions for consistent responses
+function errorResponse(status: number, message: string, details?: Record<string, unknown>) {
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+      ...(details && { details })
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+function successResponse(data: Record<string, unknown>, status = 200) {
+  return NextResponse.json(
+    {
+      success: true,
+      data
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+const prisma = new PrismaClient();
+
+// GET /api/orders/[id]/refund - List an order's refunds
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(
+    request as NextRequest,
+    `orders:refunds:${params.id}`,
+    'admin'
+  );
+
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+  try {
+    const access = await requirePermission(request, 'orders:view');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { id: params.id },
+      select: { id: true, total: true, status: true, paymentStatus: true }
+    });
+
+    if (!order) {
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.NOT_FOUND), rateLimit.headers);
+    }
+
+    const [refunds, summary] = await Promise.all([
+      prisma.refund.findMany({
+        where: { orderId: params.id },
+        orderBy: { createdAt: 'desc' },
+        include: {
+          items: true,
+          createdBy: {
+            select: { id: true, firstName: true, lastName: true }
+          }
+        }
+      }),
+      getRefundSummary(prisma, params.id)
+    ]);
+
+    return withRateLimitHeaders(successResponse({
+      refunds,
+      refundedAmount: summary.refundedAmount,
+      remainingAmount: Math.max(0, Number(order.total) - summary.refundedAmount)
+    }), rateLimit.headers);
+
+  } catch (error) {
+    console.error('Error fetching refunds:', error);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
+  }
+}
+
+// POST /api/orders/[id]/refund - Refund selected items or an arbitrary amount
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(
+    request as NextRequest,
+    `orders:refund:${params.id}`,
+    'sensitive'
+  );
+
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+  try {
+    // Moving money back is limited to the people who sign off on finances
+    const access = await requirePermission(request, 'orders:refund');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
+    }
+    const user = access.admin;
+
+    // Parse and validate request body
+    let body;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.error('Error parsing request body:', error);
+      return withRateLimitHeaders(errorResponse(400, 'بدنه درخواست نامعتبر است'), rateLimit.headers);
+    }
+
+    const validation = refundRequestSchema.safeParse(body);
+    if (!validation.success) {
+      return withRateLimitHeaders(errorResponse(400, MESSAGES.INVALID_INPUT, {
+        errors: validation.error.flatten()
+      }), rateLimit.headers);
+    }
+
+    const input = validation.data;
+    const result = await refundOrder(params.id, input, user.id);
+
+    await recordAdminAction(request, user.id, {
+      action: 'order.refund',
+      entityType: 'ORDER',
+      entityId: params.id,
+      after: { refund: result.refund, status: result.order.status }
+    });
+
+    return withRateLimitHeaders(successResponse({ ...result, message: MESSAGES.REFUNDED }, 201), rateLimit.headers);
+
+  } catch (error) {
+    if (error instanceof RefundError) {
+      const status = error.code === 'ORDER_NOT_FOUND' ? 404
+        : error.code === 'GATEWAY_FAILED' ? 502
+        : error.code === 'ORDER_NOT_PAID' || error.code === 'INVALID_ORDER_STATUS' || error.code === 'AMOUNT_EXCEEDED' || error.code === 'ITEM_QUANTITY_EXCEEDED' ? 409
+        : 400;
+      return withRateLimitHeaders(errorResponse(status, error.message, { code: error.code, ...error.details }), rateLimit.headers);
+    }
+
+    console.error('Error refunding order:', error);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
+  }
+}
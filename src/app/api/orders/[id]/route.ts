@@ -7,8 +7,17 @@ import {
   ShippingMethod,
   Prisma 
 } from '@prisma/client';
-import { authenticateRequest } from '../../../../../lib/api-utils';
-import { rateLimitMiddleware } from '../../../../../lib/rate-limiter';
+import { rateLimitMiddleware, withRateLimitHeaders } from '../../../../../lib/rate-limiter';
+import { requirePermission } from '../../../../../lib/permissions';
+import { recordAdminAction } from '../../../../../lib/audit-log';
+import {
+  applyOrderTransition,
+  runTransitionEffects,
+  OrderTransitionError,
+  type AppliedTransition,
+  type OrderActor
+} from '../../../../../lib/order-status';
+import { publishOrderHistory } from '../../../../../lib/realtime-events';
 import { z } from 'zod';
 
 // Error messages in Farsi
@@ -64,32 +73,6 @@ const orderUpdateSchema = z.object({
   { message: 'حداقل یک فیلد برای به‌روزرسانی الزامی است' }
 );
 
-// Helper to get user from token
-async function getAuthenticatedUser(request: Request) {
-  const auth = await authenticateRequest(request);
-  if (!auth.success || !auth.adminId) return null;
-  
-  return await prisma.admin.findUnique({
-    where: { id: auth.adminId },
-    select: { id: true, role: true, email: true }
-  });
-}
-
-// Helper to check order ownership/access
-async function canAccessOrder(orderId: string, userId: number, userRole: string) {
-  // Admins can access any order
-  if (['OWNER', 'MANAGER', 'OPERATOR'].includes(userRole)) {
-    return true;
-  }
-  
-  // Regular users can only access their own orders
-  const order = await prisma.order.findUnique({
-    where: { id: orderId, userId }
-  });
-  
-  return !!order;
-}
-
 // GET /api/orders/[id] - Get order by ID
 export async function GET(
   request: Request,
@@ -106,19 +89,13 @@ export async function GET(
     return rateLimit.response;
   }
   try {
-    const user = await getAuthenticatedUser(request);
-    if (!user) {
-      return errorResponse(401, MESSAGES.UNAUTHORIZED);
+    const access = await requirePermission(request, 'orders:view');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
     }
     
     const orderId = params.id;
     
-    // Check access
-    const hasAccess = await canAccessOrder(orderId, user.id, user.role);
-    if (!hasAccess) {
-      return errorResponse(403, MESSAGES.FORBIDDEN);
-    }
-    
     // Get order with related data
     const order = await prisma.order.findUnique({
       where: { id: orderId },
@@ -184,14 +161,14 @@ export async function GET(
     });
     
     if (!order) {
-      return errorResponse(404, MESSAGES.NOT_FOUND);
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.NOT_FOUND), rateLimit.headers);
     }
     
-    return successResponse({ order });
+    return withRateLimitHeaders(successResponse({ order }), rateLimit.headers);
     
   } catch (error: unknown) {
     console.error('Error fetching order:', error);
-    return errorResponse(500, MESSAGES.INTERNAL_ERROR);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
   }
 }
 
@@ -211,15 +188,12 @@ export async function PATCH(
     return rateLimit.response;
   }
   try {
-    const user = await getAuthenticatedUser(request);
-    if (!user) {
-      return errorResponse(401, MESSAGES.UNAUTHORIZED);
-    }
-    
     // Only admins can update orders
-    if (!['OWNER', 'MANAGER', 'OPERATOR'].includes(user.role)) {
-      return errorResponse(403, MESSAGES.FORBIDDEN);
+    const access = await requirePermission(request, 'orders:manage');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
     }
+    const user = access.admin;
     
     const orderId = params.id;
     
@@ -229,24 +203,33 @@ export async function PATCH(
       body = await request.json();
     } catch (error: unknown) {
       console.error('Error parsing request body:', error);
-      return errorResponse(400, 'بدنه درخواست نامعتبر است');
+      return withRateLimitHeaders(errorResponse(400, 'بدنه درخواست نامعتبر است'), rateLimit.headers);
     }
     
     const validation = orderUpdateSchema.safeParse(body);
     if (!validation.success) {
-      return errorResponse(400, MESSAGES.INVALID_INPUT, {
+      return withRateLimitHeaders(errorResponse(400, MESSAGES.INVALID_INPUT, {
         errors: validation.error.flatten()
-      });
+      }), rateLimit.headers);
     }
     
     const { status, paymentStatus, trackingCode, shippingStatus, notes } = validation.data;
     
+    const transitions: AppliedTransition[] = [];
+    // Other history entries written in the transaction, published once it commits
+    const historyIds: string[] = [];
+    // The order before and after, recorded in the audit log once committed
+    const snapshots: { before?: object; after?: object } = {};
+
     // Start a transaction
-    return await prisma.$transaction(async (tx) => {
+    const response = await prisma.$transaction(async (tx) => {
+      // Lock the order so concurrent status changes are checked one at a time
+      await tx.$queryRaw`SELECT "id" FROM "Order" WHERE "id" = ${orderId} FOR UPDATE`;
+
       // Get the current order
       const currentOrder = await tx.order.findUnique({
         where: { id: orderId },
-        select: { status: true, paymentStatus: true }
+        select: { id: true, status: true, paymentStatus: true, trackingCode: true, shippingStatus: true }
       });
       
       if (!currentOrder) {
@@ -255,7 +238,6 @@ export async function PATCH(
       
       // Prepare update data with proper typing
       const updateData: {
-        status?: OrderStatus;
         paymentStatus?: PaymentStatus;
         trackingCode?: string;
         shippingStatus?: string;
@@ -264,73 +246,75 @@ export async function PATCH(
         updatedAt: new Date()
       };
       
-      // Handle status update
+      // Status changes go through the transition table, which also records history
       if (status && status !== currentOrder.status) {
-        updateData.status = status;
-        await tx.orderHistory.create({
-          data: {
-            orderId,
-            status: 'PENDING_PAYMENT',
-            comment: `Order status changed to ${status}`,
-            userId: user.id,
-            createdAt: new Date()
-          }
-        });
+        transitions.push(await applyOrderTransition(tx, currentOrder, status, {
+          actor: user.role as OrderActor,
+          adminId: user.id
+        }));
       }
       
       // Handle payment status update
       if (paymentStatus && paymentStatus !== currentOrder.paymentStatus) {
         updateData.paymentStatus = paymentStatus;
-        await tx.orderHistory.create({
+        const entry = await tx.orderHistory.create({
           data: {
             orderId,
             status: 'PAYMENT_RECEIVED',
             comment: `Payment status updated to ${paymentStatus}`,
-            userId: user.id,
+            adminId: user.id,
             createdAt: new Date()
-          }
+          },
+          select: { id: true }
         });
+        historyIds.push(entry.id);
       }
       
       // Handle tracking code update
       if (trackingCode) {
         updateData.trackingCode = trackingCode;
-        await tx.orderHistory.create({
+        const entry = await tx.orderHistory.create({
           data: {
             orderId,
             status: 'SHIPPED',
             comment: `Tracking code updated to ${trackingCode}`,
-            userId: user.id,
+            adminId: user.id,
             createdAt: new Date()
-          }
+          },
+          select: { id: true }
         });
+        historyIds.push(entry.id);
       }
       
       // Handle shipping status update
       if (shippingStatus) {
         updateData.shippingStatus = shippingStatus;
-        await tx.orderHistory.create({
+        const entry = await tx.orderHistory.create({
           data: {
             orderId,
             status: 'OUT_FOR_DELIVERY',
             comment: `Shipping status updated to ${shippingStatus}`,
-            userId: user.id,
+            adminId: user.id,
             createdAt: new Date()
-          }
+          },
+          select: { id: true }
         });
+        historyIds.push(entry.id);
       }
       
       // Add note if provided
       if (notes) {
-        await tx.orderHistory.create({
+        const entry = await tx.orderHistory.create({
           data: {
             orderId,
             status: 'ON_HOLD',
             comment: notes,
-            userId: user.id,
+            adminId: user.id,
             createdAt: new Date()
-          }
+          },
+          select: { id: true }
         });
+        historyIds.push(entry.id);
       }
       
       // Update the order
@@ -343,8 +327,15 @@ export async function PATCH(
           billingAddress: true
         }
       });
-      
-      // TODO: Trigger notifications based on status changes
+
+      snapshots.before = currentOrder;
+      snapshots.after = {
+        status: updatedOrder.status,
+        paymentStatus: updatedOrder.paymentStatus,
+        trackingCode: updatedOrder.trackingCode,
+        shippingStatus: updatedOrder.shippingStatus,
+        ...(notes && { notes })
+      };
       
       return successResponse({
         order: updatedOrder,
@@ -353,18 +344,39 @@ export async function PATCH(
       
     }); // End of transaction
     
+    // Stock release and customer notification happen once the change is committed
+    for (const transition of transitions) {
+      await runTransitionEffects(transition);
+    }
+    await publishOrderHistory(historyIds);
+
+    if (snapshots.after) {
+      await recordAdminAction(request, user.id, {
+        action: 'order.update',
+        entityType: 'ORDER',
+        entityId: orderId,
+        ...snapshots
+      });
+    }
+    
+    return withRateLimitHeaders(response, rateLimit.headers);
+    
   } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      return withRateLimitHeaders(errorResponse(409, error.message, error.toDetails()), rateLimit.headers);
+    }
+
     console.error('Error updating order:', error);
     
     if (error instanceof Prisma.PrismaClientKnownRequestError) {
       if (error.code === 'P2025') { // Record not found
-        return errorResponse(404, MESSAGES.NOT_FOUND);
+        return withRateLimitHeaders(errorResponse(404, MESSAGES.NOT_FOUND), rateLimit.headers);
       }
     }
     
-    return errorResponse(500, MESSAGES.INTERNAL_ERROR, { 
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR, { 
       error: error instanceof Error ? error.message : 'Unknown error' 
-    });
+    }), rateLimit.headers);
   }
 }
 
@@ -411,16 +423,12 @@ export async function PUT(
     return rateLimit.response;
   }
   try {
-    // Authenticate user
-    const user = await getAuthenticatedUser(request);
-    if (!user) {
-      return errorResponse(401, MESSAGES.UNAUTHORIZED);
-    }
-
     // Only admins can update orders
-    if (!['OWNER', 'MANAGER', 'OPERATOR'].includes(user.role)) {
-      return errorResponse(403, MESSAGES.FORBIDDEN);
+    const access = await requirePermission(request, 'orders:manage');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
     }
+    const user = access.admin;
 
     // Parse and validate request body
     let body: UpdateOrderInput;
@@ -428,7 +436,7 @@ export async function PUT(
       body = await request.json();
     } catch (error) {
       console.error('Error parsing request body:', error);
-      return errorResponse(400, MESSAGES.INVALID_INPUT, { error: 'Invalid JSON' });
+      return withRateLimitHeaders(errorResponse(400, MESSAGES.INVALID_INPUT, { error: 'Invalid JSON' }), rateLimit.headers);
     }
 
     // Validate required fields for complete order replacement
@@ -436,17 +444,17 @@ export async function PUT(
     const missingFields = requiredFields.filter(field => !(field in body));
     
     if (missingFields.length > 0) {
-      return errorResponse(400, MESSAGES.INVALID_INPUT, {
+      return withRateLimitHeaders(errorResponse(400, MESSAGES.INVALID_INPUT, {
         error: `Missing required fields: ${missingFields.join(', ')}`,
         missingFields
-      });
+      }), rateLimit.headers);
     }
 
     // Validate items array
     if (!Array.isArray(body.items) || body.items.length === 0) {
-      return errorResponse(400, MESSAGES.INVALID_INPUT, {
+      return withRateLimitHeaders(errorResponse(400, MESSAGES.INVALID_INPUT, {
         error: 'Order must contain at least one item'
-      });
+      }), rateLimit.headers);
     }
 
     const orderId = params.id;
@@ -458,11 +466,24 @@ export async function PUT(
     });
 
     if (!existingOrder) {
-      return errorResponse(404, MESSAGES.NOT_FOUND);
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.NOT_FOUND), rateLimit.headers);
     }
 
+    const requestedStatus = body.status as OrderStatus | undefined;
+    const transitions: AppliedTransition[] = [];
+
     // Start transaction for atomic update
     const updatedOrder = await prisma.$transaction(async (tx) => {
+      if (requestedStatus && requestedStatus !== existingOrder.status) {
+        const [locked] = await tx.$queryRaw<{ id: string; status: OrderStatus }[]>`
+          SELECT "id", "status" FROM "Order" WHERE "id" = ${orderId} FOR UPDATE
+        `;
+        transitions.push(await applyOrderTransition(tx, locked, requestedStatus, {
+          actor: user.role as OrderActor,
+          adminId: user.id
+        }));
+      }
+
       // Delete existing order items
       await tx.orderItem.deleteMany({
         where: { orderId: orderId }
@@ -479,7 +500,7 @@ export async function PUT(
           data: {
             content: body.notes,
             orderId: orderId,
-            userId: user.id,
+            adminId: user.id,
             isPublic: true
           }
         });
@@ -492,7 +513,6 @@ export async function PUT(
           user: {
             connect: { id: user.id }
           },
-          status: (body.status as OrderStatus) || 'PENDING',
           paymentStatus: (body.paymentStatus as PaymentStatus) || 'PENDING',
           paymentMethod: (body.paymentMethod as PaymentMethod) || 'CASH',
           shippingMethod: (body.shippingMethod as ShippingMethod) || 'STANDARD',
@@ -582,12 +602,28 @@ export async function PUT(
       return order;
     });
 
-    return successResponse({ order: updatedOrder });
+    for (const transition of transitions) {
+      await runTransitionEffects(transition);
+    }
+
+    await recordAdminAction(request, user.id, {
+      action: 'order.replace',
+      entityType: 'ORDER',
+      entityId: orderId,
+      before: existingOrder,
+      after: updatedOrder
+    });
+
+    return withRateLimitHeaders(successResponse({ order: updatedOrder }), rateLimit.headers);
   } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      return withRateLimitHeaders(errorResponse(409, error.message, error.toDetails()), rateLimit.headers);
+    }
+
     console.error('Error updating order:', error);
-    return errorResponse(500, MESSAGES.INTERNAL_ERROR, {
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR, {
       error: error instanceof Error ? error.message : 'Unknown error'
-    });
+    }), rateLimit.headers);
   }
 }
 
@@ -607,15 +643,10 @@ export async function DELETE(
     return rateLimit.response;
   }
   try {
-    // Authenticate user
-    const user = await getAuthenticatedUser(request);
-    if (!user) {
-      return errorResponse(401, MESSAGES.UNAUTHORIZED);
-    }
-
     // Only admins can delete orders
-    if (user.role !== 'OWNER' && user.role !== 'MANAGER') {
-      return errorResponse(403, MESSAGES.FORBIDDEN);
+    const access = await requirePermission(request, 'orders:delete');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
     }
 
     // Find the order
@@ -625,7 +656,7 @@ export async function DELETE(
     });
 
     if (!order) {
-      return errorResponse(404, MESSAGES.NOT_FOUND);
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.NOT_FOUND), rateLimit.headers);
     }
 
     // Use a transaction to ensure data consistency
@@ -640,9 +671,16 @@ export async function DELETE(
       })
     ]);
 
-    return successResponse({ message: 'Order deleted successfully' });
+    await recordAdminAction(request, access.admin.id, {
+      action: 'order.delete',
+      entityType: 'ORDER',
+      entityId: order.id,
+      before: order
+    });
+
+    return withRateLimitHeaders(successResponse({ message: 'Order deleted successfully' }), rateLimit.headers);
   } catch (error) {
     console.error('Error deleting order:', error);
-    return errorResponse(500, MESSAGES.INTERNAL_ERROR);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
   }
 }
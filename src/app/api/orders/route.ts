@@ -3,7 +3,8 @@ import { PrismaClient, OrderStatus, PaymentStatus, PaymentMethod, ShippingMethod
 import type { Decimal } from '@prisma/client/runtime/library';
 
 import { authenticateRequest } from '../../../../lib/api-utils';
-import { rateLimitMiddleware } from '../../../../lib/rate-limiter';
+import { rateLimitMiddleware, withRateLimitHeaders } from '../../../../lib/rate-limiter';
+import { adminHasPermission } from '../../../../lib/permissions';
 import { z } from 'zod';
 
 // Helper function to safely convert Decimal to number
@@ -102,7 +103,6 @@ async function getAuthenticatedUser(request: Request) {
   if (auth.adminId) {
     return {
       id: auth.adminId,
-      role: auth.role || 'ADMIN',
       type: 'admin'
     };
   }
@@ -111,7 +111,6 @@ async function getAuthenticatedUser(request: Request) {
   if (auth.userId) {
     return {
       id: auth.userId,
-      role: auth.role || 'USER',
       type: 'user'
     };
   }
@@ -134,7 +133,7 @@ async function handleGet(request: Request) {
   try {
     const user = await getAuthenticatedUser(request);
     if (!user) {
-      return errorResponse(401, MESSAGES.UNAUTHORIZED);
+      return withRateLimitHeaders(errorResponse(401, MESSAGES.UNAUTHORIZED), rateLimit.headers);
     }
 
     const { searchParams } = new URL(request.url);
@@ -159,14 +158,18 @@ async function handleGet(request: Request) {
       where.paymentStatus = paymentStatus;
     }
     
-    // Filter by user ID (for admins viewing user orders)
+    // Admins see every order, or one customer's with ?userId=
     const userId = searchParams.get('userId');
-    if (userId) {
-      // Only allow admins to filter by any user ID
-      if (user.role !== 'ADMIN') {
-        return errorResponse(403, MESSAGES.FORBIDDEN);
+    if (user.type === 'admin') {
+      if (!(await adminHasPermission(user.id, 'orders:view'))) {
+        return withRateLimitHeaders(errorResponse(403, MESSAGES.FORBIDDEN), rateLimit.headers);
+      }
+      if (userId) {
+        where.userId = parseInt(userId);
       }
-      where.userId = parseInt(userId);
+    } else if (userId) {
+      // Only allow admins to filter by any user ID
+      return withRateLimitHeaders(errorResponse(403, MESSAGES.FORBIDDEN), rateLimit.headers);
     } else {
       // Regular users can only see their own orders
       where.userId = user.id;
@@ -228,7 +231,7 @@ async function handleGet(request: Request) {
       prisma.order.count({ where })
     ]);
     
-    return successResponse({
+    return withRateLimitHeaders(successResponse({
       data: orders,
       pagination: {
         total,
@@ -236,11 +239,11 @@ async function handleGet(request: Request) {
         limit,
         totalPages: Math.ceil(total / limit)
       }
-    });
+    }), rateLimit.headers);
     
   } catch (error) {
     console.error('Error fetching orders:', error);
-    return errorResponse(500, MESSAGES.INTERNAL_ERROR, { error: error instanceof Error ? error.message : 'Unknown error' });
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR, { error: error instanceof Error ? error.message : 'Unknown error' }), rateLimit.headers);
   }
 }
 
@@ -259,7 +262,11 @@ async function handlePost(request: Request) {
   try {
     const user = await getAuthenticatedUser(request);
     if (!user) {
-      return errorResponse(401, MESSAGES.UNAUTHORIZED);
+      return withRateLimitHeaders(errorResponse(401, MESSAGES.UNAUTHORIZED), rateLimit.headers);
+    }
+    // Orders belong to customers; an admin id must never end up in Order.userId
+    if (user.type !== 'user') {
+      return withRateLimitHeaders(errorResponse(403, MESSAGES.FORBIDDEN), rateLimit.headers);
     }
     
     // Parse and validate request body
@@ -267,14 +274,14 @@ async function handlePost(request: Request) {
     try {
       body = await request.json();
     } catch {
-      return errorResponse(400, 'بدنه درخواست نامعتبر است');
+      return withRateLimitHeaders(errorResponse(400, 'بدنه درخواست نامعتبر است'), rateLimit.headers);
     }
     
     const validation = orderCreateSchema.safeParse(body);
     if (!validation.success) {
-      return errorResponse(400, MESSAGES.INVALID_INPUT, {
+      return withRateLimitHeaders(errorResponse(400, MESSAGES.INVALID_INPUT, {
         errors: validation.error.flatten()
-      });
+      }), rateLimit.headers);
     }
     
     const { items, shippingAddress, billingAddress, useShippingAsBilling } = validation.data;
@@ -576,7 +583,7 @@ async function handlePost(request: Request) {
       }
     })
 
-    return NextResponse.json({
+    return withRateLimitHeaders(NextResponse.json({
       success: true,
       data: {
         order: result,
@@ -585,16 +592,16 @@ async function handlePost(request: Request) {
     }, { 
       status: 201,
       headers: { 'Content-Type': 'application/json; charset=utf-8' }
-    });
+    }), rateLimit.headers);
   } catch (error) {
     console.error('Error in order creation:', error);
-    return NextResponse.json(
+    return withRateLimitHeaders(NextResponse.json(
       { success: false, message: 'خطای سرور' },
       { 
         status: 500,
         headers: { 'Content-Type': 'application/json; charset=utf-8' }
       }
-    );
+    ), rateLimit.headers);
   }
 }
 
@@ -0,0 +1,408 @@
+import { Prisma } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateToken } from '@lib/auth';
+import { resetMockPayments } from '@lib/mock-payment-gateway';
+import { notificationService } from '@lib/notification-service';
+import { setRateLimitStore } from '@lib/rate-limiter';
+import { MemoryRateLimitStore } from '@lib/rate-limit-store';
+import { POST as checkout } from '../checkout/route';
+import { POST as requestPayment } from './request/route';
+import { GET as verifyPayment } from './verify/route';
+
+interface FakeVariant {
+  id: string;
+  productId: string;
+  sku: string;
+  barcode: string | null;
+  color: string | null;
+  size: string | null;
+  price: Prisma.Decimal | null;
+  isActive: boolean;
+  stock: number;
+  reservedStock: number;
+}
+
+interface FakeProduct {
+  id: string;
+  name: string;
+  categoryId: string;
+  type: string;
+  price: Prisma.Decimal;
+  compareAtPrice: Prisma.Decimal | null;
+  isActive: boolean;
+  publishedAt: Date | null;
+  manageStock: boolean;
+  totalStock: number;
+}
+
+interface FakeOrder {
+  id: string;
+  orderNumber: string;
+  userId: number;
+  total: Prisma.Decimal;
+  status: string;
+  paymentStatus: string;
+  paymentMethod: string;
+  paymentGateway: string | null;
+  paymentRefNum: string | null;
+  paymentId: string | null;
+  [field: string]: unknown;
+}
+
+interface FakeReservation {
+  id: string;
+  orderId: string;
+  variantId: string;
+  quantity: number;
+  status: string;
+  expiresAt: Date;
+  [field: string]: unknown;
+}
+
+type Where = Record<string, unknown>;
+
+// Just enough of the Prisma client for checkout and the payment routes, kept
+// in memory. The raw stock UPDATEs are told apart by the columns they set.
+const db = vi.hoisted(() => {
+  const state = {
+    products: new Map<string, FakeProduct>(),
+    variants: new Map<string, FakeVariant>(),
+    orders: new Map<string, FakeOrder>(),
+    reservations: [] as FakeReservation[],
+    history: [] as { orderId: string; status: string; comment: string }[],
+    transactions: [] as { type: string; status: string; code?: number }[],
+    nextId: 1
+  };
+
+  const matches = (row: Record<string, unknown>, where: Where) =>
+    Object.entries(where).every(([field, value]) => {
+      if (value && typeof value === 'object' && 'in' in value) return (value.in as unknown[]).includes(row[field]);
+      if (value && typeof value === 'object' && 'lt' in value) return (row[field] as Date) < (value.lt as Date);
+      if (field === 'order') {
+        const { paymentMethod } = value as { paymentMethod: { notIn: string[] } };
+        return !paymentMethod.notIn.includes(state.orders.get(row.orderId as string)!.paymentMethod);
+      }
+      return row[field] === value;
+    });
+
+  const client = {
+    state,
+    product: {
+      findMany: async ({ where }: { where: { id: { in: string[] } } }) =>
+        where.id.in.flatMap(id => {
+          const product = state.products.get(id);
+          if (!product) return [];
+          const variants = [...state.variants.values()].filter(variant => variant.productId === id);
+          return [{ ...product, variants }];
+        })
+    },
+    variant: {
+      findUnique: async ({ where }: { where: { id: string } }) => state.variants.get(where.id) ?? null,
+      update: async ({ where, data }: { where: { id: string }; data: { stock: { increment: number } } }) => {
+        const variant = state.variants.get(where.id)!;
+        variant.stock += data.stock.increment;
+        return variant;
+      }
+    },
+    address: {
+      create: async ({ data }: { data: Record<string, unknown> }) => ({ id: `address-${state.nextId++}`, ...data })
+    },
+    order: {
+      create: async ({ data }: { data: Record<string, unknown> }) => {
+        const { items, history, total, ...fields } = data as {
+          items: { create: unknown[] };
+          history: { create: { status: string; comment: string } };
+          total: number;
+        };
+        const order = {
+          ...fields,
+          id: `order-${state.nextId++}`,
+          total: new Prisma.Decimal(total),
+          paymentRefNum: null,
+          paymentId: null
+        } as FakeOrder;
+        state.orders.set(order.id, order);
+        state.history.push({ orderId: order.id, ...history.create });
+        return { ...order, items: items.create };
+      },
+      findUnique: async ({ where }: { where: Where }) =>
+        [...state.orders.values()].find(order => matches(order, where)) ?? null,
+      findFirst: async ({ where }: { where: Where }) =>
+        [...state.orders.values()].find(order => matches(order, where)) ?? null,
+      update: async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) => {
+        const order = state.orders.get(where.id)!;
+        const { history, ...fields } = data as { history?: { create: { status: string; comment: string } } };
+        Object.assign(order, fields);
+        if (history) state.history.push({ orderId: order.id, ...history.create });
+        return order;
+      }
+    },
+    orderHistory: {
+      create: async ({ data }: { data: { orderId: string; status: string; comment: string } }) => {
+        state.history.push(data);
+        return { id: state.history.length };
+      }
+    },
+    stockReservation: {
+      createMany: async ({ data }: { data: Omit<FakeReservation, 'id'>[] }) => {
+        state.reservations.push(...data.map(row => ({ ...row, id: `reservation-${state.nextId++}` }) as FakeReservation));
+        return { count: data.length };
+      },
+      findMany: async ({ where, distinct }: { where: Where; distinct?: string[] }) => {
+        const found = state.reservations
+          .filter(reservation => matches(reservation, where))
+          .map(reservation => ({
+            ...reservation,
+            variant: { productId: state.variants.get(reservation.variantId)!.productId }
+          }));
+        return distinct ? found.filter((row, index) => found.findIndex(other => other.orderId === row.orderId) === index) : found;
+      },
+      updateMany: async ({ where, data }: { where: Where; data: Partial<FakeReservation> }) => {
+        const matched = state.reservations.filter(reservation => matches(reservation, where));
+        matched.forEach(reservation => Object.assign(reservation, data));
+        return { count: matched.length };
+      }
+    },
+    paymentTransaction: {
+      create: async ({ data }: { data: { type: string; status: string; code?: number } }) => {
+        state.transactions.push(data);
+        return data;
+      }
+    },
+    $executeRaw: async (sql: TemplateStringsArray, ...values: (string | number)[]) => {
+      const statement = sql.join('?');
+      const quantity = values.find((value): value is number => typeof value === 'number')!;
+      const variant = state.variants.get(values.find((value): value is string => typeof value === 'string')!);
+      if (!variant) return 0;
+      if (statement.includes('"isActive" = true') && !variant.isActive) return 0;
+      if (statement.includes('>=') && variant.stock - variant.reservedStock < quantity) return 0;
+
+      if (statement.includes('"reservedStock" = "reservedStock" +')) variant.reservedStock += quantity;
+      if (statement.includes('"stock" = "stock" -')) variant.stock -= quantity;
+      if (statement.includes('GREATEST')) variant.reservedStock = Math.max(variant.reservedStock - quantity, 0);
+      return 1;
+    },
+    // Only ever used here to lock and re-read one order by id
+    $queryRaw: async (_sql: TemplateStringsArray, id: string) => [state.orders.get(id)],
+    $transaction: async <T>(work: (tx: unknown) => Promise<T>) => work(client)
+  };
+  return client;
+});
+
+vi.mock('@lib/prisma', () => ({ default: db }));
+vi.mock('@lib/shipping-utils', () => ({
+  ShippingError: class ShippingError extends Error {},
+  calculateShippingCost: vi.fn(async () => 50000)
+}));
+vi.mock('@lib/product-utils', () => ({ updateProductAggregations: vi.fn() }));
+vi.mock('@lib/stock-alerts', () => ({ notifyLowStock: vi.fn() }));
+vi.mock('@lib/realtime-events', () => ({ publishOrderHistory: vi.fn() }));
+vi.mock('@lib/cart-recovery', () => ({ attributeRecoveredOrder: vi.fn() }));
+vi.mock('@lib/notification-service', () => ({ notificationService: { notify: vi.fn() } }));
+
+const APP_URL = 'http://localhost:3000';
+const CUSTOMER_ID = 7;
+
+function stockShirt(stock: number): FakeVariant {
+  db.state.products.set('shirt', {
+    id: 'shirt',
+    name: 'Shirt',
+    categoryId: 'category-1',
+    type: 'T_SHIRT',
+    price: new Prisma.Decimal(100000),
+    compareAtPrice: null,
+    isActive: true,
+    publishedAt: null,
+    manageStock: true,
+    totalStock: stock
+  });
+  const variant: FakeVariant = {
+    id: 'shirt-red',
+    productId: 'shirt',
+    sku: 'SHIRT-RED-M',
+    barcode: null,
+    color: 'Red',
+    size: 'M',
+    price: null,
+    isActive: true,
+    stock,
+    reservedStock: 0
+  };
+  db.state.variants.set(variant.id, variant);
+  return variant;
+}
+
+function bearer(userId = CUSTOMER_ID) {
+  return `Bearer ${generateToken({ userId }, 'USER', `session-${userId}`)}`;
+}
+
+function placeOrder(body: Record<string, unknown> = {}) {
+  return checkout(new Request(`${APP_URL}/api/checkout`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', authorization: bearer() },
+    body: JSON.stringify({
+      shippingAddress: {
+        firstName: 'Sara',
+        lastName: 'Ahmadi',
+        addressLine1: 'Valiasr St',
+        city: 'Tehran',
+        state: 'Tehran',
+        postalCode: '1234567890',
+        country: 'IR',
+        phoneNumber: '09123456789'
+      },
+      shippingMethod: 'STANDARD',
+      paymentMethod: 'CREDIT_CARD',
+      paymentGateway: 'MOCK',
+      items: [{ productId: 'shirt', variantId: 'shirt-red', quantity: 2 }],
+      ...body
+    })
+  }));
+}
+
+// Checks out two shirts and returns the order it created
+async function checkoutOrder(): Promise<FakeOrder> {
+  const response = await placeOrder();
+  const body = await response.json();
+
+  expect(response.status).toBe(201);
+  return db.state.orders.get(body.data.order.id)!;
+}
+
+function askForPayment(orderId: string, userId = CUSTOMER_ID) {
+  return requestPayment(new Request(`${APP_URL}/api/payment/request`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-forwarded-for': '10.0.0.1', authorization: bearer(userId) },
+    body: JSON.stringify({
+      orderId,
+      callbackUrl: `${APP_URL}/api/payment/verify?orderId=${orderId}`,
+      email: 'customer@example.com',
+      mobile: '09123456789'
+    })
+  }));
+}
+
+// Asks for a payment and returns the URL the customer would be sent to
+async function startPayment(orderId: string): Promise<string> {
+  const response = await askForPayment(orderId);
+  const body = await response.json();
+
+  expect(response.status).toBe(200);
+  expect(body).toMatchObject({ success: true, gateway: 'MOCK' });
+  return body.paymentUrl;
+}
+
+describe('checkout and mock gateway payment flow', () => {
+  beforeEach(() => {
+    vi.stubEnv('NEXT_PUBLIC_APP_URL', APP_URL);
+    vi.clearAllMocks();
+    setRateLimitStore(new MemoryRateLimitStore());
+    resetMockPayments();
+    db.state.products.clear();
+    db.state.variants.clear();
+    db.state.orders.clear();
+    db.state.reservations = [];
+    db.state.history.length = 0;
+    db.state.transactions.length = 0;
+  });
+
+  it('reserves stock at checkout and takes it when the payment verifies', async () => {
+    const variant = stockShirt(5);
+
+    const order = await checkoutOrder();
+
+    expect(order).toMatchObject({ status: 'PENDING_PAYMENT', paymentGateway: 'MOCK', userId: CUSTOMER_ID });
+    expect(order.total.toNumber()).toBeGreaterThan(200000);
+    expect(variant).toMatchObject({ stock: 5, reservedStock: 2 });
+
+    const paymentUrl = await startPayment(order.id);
+    expect(order.paymentRefNum).toMatch(/^MOCK/);
+
+    const response = await verifyPayment(new Request(paymentUrl));
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get('location')).toBe(`${APP_URL}/checkout/success?orderId=${order.id}`);
+    expect(order).toMatchObject({ status: 'PAYMENT_RECEIVED', paymentStatus: 'COMPLETED' });
+    expect(order.paymentId).toMatch(/^\d{10}$/);
+    expect(db.state.history.map(entry => entry.status)).toEqual(['PENDING_PAYMENT', 'PAYMENT_RECEIVED']);
+    expect(db.state.transactions.map(({ type, status }) => `${type}:${status}`)).toEqual([
+      'REQUEST:SUCCEEDED',
+      'VERIFY:SUCCEEDED'
+    ]);
+    expect(variant).toMatchObject({ stock: 3, reservedStock: 0 });
+    expect(db.state.reservations.map(reservation => reservation.status)).toEqual(['COMMITTED']);
+    expect(notificationService.notify).toHaveBeenCalledWith('ORDER_PAID', { userId: CUSTOMER_ID }, expect.objectContaining({
+      orderId: order.id,
+      total: order.total.toNumber()
+    }));
+  });
+
+  it('fails the order and releases its stock when the customer cancels at the gateway', async () => {
+    const variant = stockShirt(5);
+    const order = await checkoutOrder();
+
+    const paymentUrl = new URL(await startPayment(order.id));
+    paymentUrl.searchParams.set('Status', 'NOK');
+    const response = await verifyPayment(new Request(paymentUrl));
+
+    expect(response.headers.get('location')).toContain('/checkout/error?');
+    expect(order).toMatchObject({ status: 'FAILED', paymentStatus: 'FAILED', paymentId: null });
+    expect(db.state.transactions.at(-1)).toMatchObject({ type: 'VERIFY', status: 'REJECTED' });
+    expect(variant).toMatchObject({ stock: 5, reservedStock: 0 });
+    expect(db.state.reservations.map(reservation => reservation.status)).toEqual(['RELEASED']);
+  });
+
+  it('fails the order when the gateway reports a different amount', async () => {
+    stockShirt(5);
+    const order = await checkoutOrder();
+
+    const paymentUrl = await startPayment(order.id);
+    order.total = new Prisma.Decimal(1000);
+    const response = await verifyPayment(new Request(paymentUrl));
+
+    expect(response.headers.get('location')).toContain('/checkout/error?');
+    expect(order.status).toBe('FAILED');
+    expect(db.state.transactions.at(-1)).toMatchObject({ type: 'VERIFY', status: 'FAILED', code: -50 });
+  });
+
+  it('leaves a paid order alone when the callback comes again', async () => {
+    const variant = stockShirt(5);
+    const order = await checkoutOrder();
+
+    const paymentUrl = await startPayment(order.id);
+    await verifyPayment(new Request(paymentUrl));
+    const response = await verifyPayment(new Request(paymentUrl));
+
+    expect(response.headers.get('location')).toBe(`${APP_URL}/checkout/success?orderId=${order.id}`);
+    expect(order.status).toBe('PAYMENT_RECEIVED');
+    expect(db.state.transactions.at(-1)).toMatchObject({ type: 'VERIFY', status: 'DUPLICATE' });
+    expect(variant).toMatchObject({ stock: 3, reservedStock: 0 });
+  });
+
+  it('will not start a payment for another customer\'s order', async () => {
+    stockShirt(5);
+    const order = await checkoutOrder();
+
+    const response = await askForPayment(order.id, CUSTOMER_ID + 1);
+
+    expect(response.status).toBe(404);
+    expect(order.paymentRefNum).toBeNull();
+    expect(db.state.transactions).toEqual([]);
+  });
+
+  it('refuses the mock gateway at checkout where mock payments are disabled', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('ALLOW_MOCK_PAYMENTS', '');
+    const variant = stockShirt(5);
+
+    const response = await placeOrder();
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatchObject({ code: 'PAYMENT_GATEWAY_UNAVAILABLE' });
+    expect(db.state.orders.size).toBe(0);
+    expect(variant.reservedStock).toBe(0);
+
+    vi.stubEnv('ALLOW_MOCK_PAYMENTS', 'true');
+    expect((await placeOrder()).status).toBe(201);
+  });
+});
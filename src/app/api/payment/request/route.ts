@@ -1,6 +1,11 @@
 import { NextResponse } from 'next/server';
 import prisma from '@lib/prisma';
 import { z } from 'zod';
+import { releaseExpiredReservations } from '@lib/stock-utils';
+import { getPaymentGateway } from '@lib/payment-gateway';
+import { getRequestIp, recordPaymentTransaction } from '@lib/payment-utils';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { authenticateRequest } from '@lib/api-utils';
 
 // Define the request schema
 const paymentRequestSchema = z.object({
@@ -11,20 +16,38 @@ const paymentRequestSchema = z.object({
 });
 
 export async function POST(request: Request) {
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(request, 'payment:request', 'payment');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+
   try {
+    // Only the customer who placed the order can pay for it
+    const auth = await authenticateRequest(request);
+    if (!auth.success || !auth.userId) {
+      return withRateLimitHeaders(NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      ), rateLimit.headers);
+    }
+
     // Parse and validate request body
     const body = await request.json();
     const validation = paymentRequestSchema.safeParse(body);
 
     if (!validation.success) {
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { success: false, error: 'Validation failed', details: validation.error.issues },
         { status: 400 }
-      );
+      ), rateLimit.headers);
     }
 
     const { orderId, callbackUrl, email, mobile } = validation.data;
     
+    // Orders whose stock reservation ran out are cancelled and can't be paid
+    await releaseExpiredReservations();
+    
     // Get order details including total amount
     const order = await prisma.order.findUnique({
       where: { id: orderId, status: 'PENDING_PAYMENT' },
@@ -33,78 +56,83 @@ export async function POST(request: Request) {
         total: true, 
         status: true,
         orderNumber: true,
-        userId: true
+        userId: true,
+        paymentGateway: true
       }
     });
 
-    if (!order) {
-      return NextResponse.json(
+    // Someone else's order looks the same as a missing one
+    if (!order || order.userId !== auth.userId) {
+      return withRateLimitHeaders(NextResponse.json(
         { success: false, error: 'Order not found or already processed' },
         { status: 404 }
-      );
+      ), rateLimit.headers);
     }
 
     const amount = Math.round(Number(order.total)); // Convert to number and ensure integer
 
-    // Prepare Zarinpal request
-    const zarinpalRequest = {
-      merchant_id: process.env.ZARINPAL_MERCHANT_ID,
-      amount: Math.round(amount), // Ensure amount is an integer for Zarinpal
-      callback_url: callbackUrl,
-      description: `Payment for order #${order.orderNumber}`,
-      metadata: {
-        mobile: mobile,
-        email: email,
-        orderId: orderId
-      }
-    };
+    // Orders remember the gateway chosen at checkout
+    const gateway = getPaymentGateway(order.paymentGateway);
 
-    // Send request to Zarinpal
-    const response = await fetch('https://sandbox.zarinpal.com/pg/v4/payment/request.json', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      body: JSON.stringify(zarinpalRequest)
+    const payment = await gateway.request({
+      orderId,
+      orderNumber: order.orderNumber,
+      amount,
+      callbackUrl,
+      description: `Payment for order #${order.orderNumber}`,
+      mobile,
+      email
     });
 
-    const data = await response.json();
+    await recordPaymentTransaction({
+      orderId,
+      gateway: gateway.name,
+      type: 'REQUEST',
+      status: payment.success ? 'SUCCEEDED' : 'FAILED',
+      amount,
+      authority: payment.authority,
+      code: payment.code,
+      message: payment.message,
+      ipAddress: getRequestIp(request),
+      requestData: { callbackUrl },
+      responseData: payment.raw
+    });
 
-    if (data.data?.code !== 100) {
-      console.error('Zarinpal error:', data.errors || 'Unknown error');
-      return NextResponse.json(
+    if (!payment.success || !payment.authority) {
+      console.error(`${gateway.name} error:`, payment.code, payment.message || 'Unknown error');
+      return withRateLimitHeaders(NextResponse.json(
         { 
           success: false, 
           error: 'Payment gateway error',
-          details: data.errors || 'Failed to create payment request'
+          details: payment.message || 'Failed to create payment request'
         },
         { status: 502 }
-      );
+      ), rateLimit.headers);
     }
 
     // Update order with payment reference
     await prisma.order.update({
       where: { id: orderId },
       data: {
-        paymentGateway: 'ZARINPAL',
-        paymentRefNum: data.data.authority,
+        paymentGateway: gateway.name,
+        paymentRefNum: payment.authority,
         paymentStatus: 'PENDING'
       }
     });
 
     // Return the payment URL to redirect user
-    return NextResponse.json({
+    return withRateLimitHeaders(NextResponse.json({
       success: true,
-      paymentUrl: `https://sandbox.zarinpal.com/pg/StartPay/${data.data.authority}`,
-      authority: data.data.authority
-    });
+      paymentUrl: payment.paymentUrl,
+      authority: payment.authority,
+      gateway: gateway.name
+    }), rateLimit.headers);
 
   } catch (error) {
     console.error('Payment request error:', error);
-    return NextResponse.json(
+    return withRateLimitHeaders(NextResponse.json(
       { success: false, error: 'Internal server error' },
       { status: 500 }
-    );
+    ), rateLimit.headers);
   }
 }
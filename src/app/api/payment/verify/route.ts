@@ -1,56 +1,223 @@
 import { NextResponse } from 'next/server';
-import { verifyZarinpalPayment } from '@/lib/zarinpal';
+import { OrderStatus, PaymentTransactionStatus, PaymentTransactionType } from '@prisma/client';
 import prisma from '@lib/prisma';
+import { getPaymentGateway, PaymentVerifyResult } from '@lib/payment-gateway';
+import { PAID_ORDER_STATUSES, getRequestIp, recordPaymentTransaction } from '@lib/payment-utils';
+import { InsufficientStockError, commitStockReservations } from '@lib/stock-utils';
+import {
+  AppliedTransition,
+  applyOrderTransition,
+  canTransition,
+  runTransitionEffects,
+  transitionOrderStatus
+} from '@lib/order-status';
+
+function redirectToError(message: string, orderId?: string) {
+  const params = new URLSearchParams({ message, ...(orderId && { orderId }) });
+  return NextResponse.redirect(`${process.env.NEXT_PUBLIC_APP_URL}/checkout/error?${params}`);
+}
+
+function redirectToSuccess(orderId: string) {
+  return NextResponse.redirect(`${process.env.NEXT_PUBLIC_APP_URL}/checkout/success?orderId=${orderId}`);
+}
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const authority = searchParams.get('Authority');
   const status = searchParams.get('Status');
   const orderId = searchParams.get('orderId');
-  const amount = searchParams.get('amount');
 
   // Validate required parameters
-  if (!authority || !status || !orderId || !amount) {
-    return NextResponse.redirect(
-      `${process.env.NEXT_PUBLIC_APP_URL}/checkout/error?message=Invalid payment verification parameters`
-    );
+  if (!authority || !status) {
+    return redirectToError('Invalid payment verification parameters');
   }
 
   try {
-    // Convert amount to number (Zarinpal uses Rials, so we might need to convert to Toman if needed)
-    const amountInRials = parseInt(amount);
-    
-    // Verify the payment with Zarinpal
-    const verification = await verifyZarinpalPayment(authority, amountInRials);
-
-    // Update order status based on verification
-    const isPaymentSuccessful = verification.data.code === 100;
-    
-    await prisma.order.update({
-      where: { id: orderId },
-      data: {
-        status: isPaymentSuccessful ? 'PAYMENT_RECEIVED' : 'FAILED',
-        paymentStatus: isPaymentSuccessful ? 'COMPLETED' : 'FAILED',
-        paymentId: verification.data.ref_id?.toString(),
-        cardPan: verification.data.card_pan,
-        paidAt: new Date()
+    // The authority is what we stored when sending the customer to the gateway.
+    // Everything else about the payment, the amount included, comes from the order.
+    const order = await prisma.order.findFirst({
+      where: { paymentRefNum: authority },
+      select: {
+        id: true,
+        status: true,
+        paymentStatus: true,
+        paymentGateway: true,
+        paymentId: true,
+        total: true
+      }
+    });
+
+    if (!order || (orderId && order.id !== orderId)) {
+      console.error('Payment callback does not match any order:', { authority, orderId });
+      return redirectToError('Invalid payment verification parameters', orderId ?? undefined);
+    }
+
+    const gateway = getPaymentGateway(order.paymentGateway);
+    const amount = Math.round(Number(order.total));
+    const audit = {
+      orderId: order.id,
+      gateway: gateway.name,
+      type: PaymentTransactionType.VERIFY,
+      amount,
+      authority,
+      ipAddress: getRequestIp(request),
+      requestData: Object.fromEntries(searchParams)
+    };
+
+    // A repeated callback for a paid order must not touch it again
+    if (PAID_ORDER_STATUSES.includes(order.status) || order.paymentStatus === 'COMPLETED') {
+      await prisma.$transaction(async (tx) => {
+        await recordPaymentTransaction({
+          ...audit,
+          status: PaymentTransactionStatus.DUPLICATE,
+          refId: order.paymentId,
+          message: 'Order is already paid'
+        }, tx);
+        await tx.orderHistory.create({
+          data: {
+            orderId: order.id,
+            status: order.status,
+            comment: 'درخواست تکراری تأیید پرداخت برای سفارش پرداخت‌شده نادیده گرفته شد'
+          }
+        });
+      });
+      return redirectToSuccess(order.id);
+    }
+
+    // Status=NOK means the customer cancelled at the gateway; there is nothing to verify
+    let verification: PaymentVerifyResult | null = null;
+    if (status === 'OK') {
+      verification = await gateway.verify({ authority, amount });
+    }
+
+    if (verification?.success) {
+      const paid = verification;
+
+      const marked = await prisma.$transaction(async (tx) => {
+        // Locked and re-read so two concurrent callbacks can't both mark the order paid
+        const [current] = await tx.$queryRaw<{ id: string; status: OrderStatus; paymentStatus: string }[]>`
+          SELECT "id", "status", "paymentStatus" FROM "Order" WHERE "id" = ${order.id} FOR UPDATE
+        `;
+        const isFirst = !PAID_ORDER_STATUSES.includes(current.status) && current.paymentStatus !== 'COMPLETED';
+        const paymentData = {
+          paymentStatus: 'COMPLETED' as const,
+          paymentId: paid.refId,
+          cardPan: paid.cardPan
+        };
+
+        let transition: AppliedTransition | null = null;
+        if (isFirst && canTransition(current.status, OrderStatus.PAYMENT_RECEIVED, 'SYSTEM')) {
+          transition = await applyOrderTransition(tx, current, OrderStatus.PAYMENT_RECEIVED, {
+            actor: 'SYSTEM',
+            comment: `پرداخت تأیید شد (کد پیگیری: ${paid.refId ?? '-'})`,
+            data: paymentData
+          });
+        } else if (isFirst) {
+          // The money is taken either way; someone has to look at an order in this state
+          await tx.order.update({
+            where: { id: order.id },
+            data: {
+              ...paymentData,
+              paidAt: new Date(),
+              history: {
+                create: {
+                  status: current.status,
+                  comment: `پرداخت تأیید شد (کد پیگیری: ${paid.refId ?? '-'}) اما وضعیت سفارش اجازه ثبت آن را نمی‌دهد`
+                }
+              }
+            }
+          });
+        } else {
+          await tx.orderHistory.create({
+            data: {
+              orderId: order.id,
+              status: current.status,
+              comment: 'پرداخت قبلاً تأیید شده بود'
+            }
+          });
+        }
+
+        await recordPaymentTransaction({
+          ...audit,
+          status: isFirst ? PaymentTransactionStatus.SUCCEEDED : PaymentTransactionStatus.DUPLICATE,
+          code: paid.code,
+          refId: paid.refId,
+          cardPan: paid.cardPan,
+          message: paid.message,
+          responseData: paid.raw
+        }, tx);
+
+        return { isFirst, transition };
+      });
+
+      if (marked.transition) {
+        await runTransitionEffects(marked.transition);
       }
+
+      // Turn the reservation into a real decrement. An order that failed or
+      // was cancelled gave its reservation back, so the stock is taken again.
+      if (marked.isFirst) {
+        const from = marked.transition?.from;
+        try {
+          await commitStockReservations(order.id, {
+            reclaimReleased: from === OrderStatus.FAILED || from === OrderStatus.CANCELLED
+          });
+        } catch (error) {
+          if (!(error instanceof InsufficientStockError)) throw error;
+
+          // Paid after the reservation expired and the units were sold meanwhile
+          console.error('Stock no longer available for paid order:', { orderId: order.id, items: error.items });
+          await transitionOrderStatus(order.id, OrderStatus.ON_HOLD, {
+            actor: 'SYSTEM',
+            comment: 'پرداخت انجام شد اما موجودی کافی نیست و سفارش نیاز به بررسی دارد'
+          });
+        }
+      }
+
+      return redirectToSuccess(order.id);
+    }
+
+    // Only an order still waiting for payment can fail; cancelled ones stay cancelled
+    const failed = await prisma.$transaction(async (tx) => {
+      const [current] = await tx.$queryRaw<{ id: string; status: OrderStatus }[]>`
+        SELECT "id", "status" FROM "Order" WHERE "id" = ${order.id} FOR UPDATE
+      `;
+      const comment = verification
+        ? `تأیید پرداخت ناموفق بود (کد درگاه: ${verification.code})`
+        : 'پرداخت توسط کاربر لغو شد';
+
+      let transition: AppliedTransition | null = null;
+      if (current.status === OrderStatus.PENDING_PAYMENT) {
+        transition = await applyOrderTransition(tx, current, OrderStatus.FAILED, {
+          actor: 'SYSTEM',
+          comment,
+          data: { paymentStatus: 'FAILED' }
+        });
+      } else {
+        await tx.orderHistory.create({
+          data: { orderId: order.id, status: current.status, comment }
+        });
+      }
+
+      await recordPaymentTransaction({
+        ...audit,
+        status: verification ? PaymentTransactionStatus.FAILED : PaymentTransactionStatus.REJECTED,
+        code: verification?.code,
+        message: verification?.message ?? `Gateway returned Status=${status}`,
+        responseData: verification?.raw
+      }, tx);
+
+      return transition;
     });
 
-    // Redirect based on verification result
-    if (isPaymentSuccessful) {
-      return NextResponse.redirect(
-        `${process.env.NEXT_PUBLIC_APP_URL}/checkout/success?orderId=${orderId}`
-      );
-    } else {
-      return NextResponse.redirect(
-        `${process.env.NEXT_PUBLIC_APP_URL}/checkout/error?message=Payment verification failed&orderId=${orderId}`
-      );
+    // Gives the reserved stock back
+    if (failed) {
+      await runTransitionEffects(failed);
     }
+
+    return redirectToError('Payment verification failed', order.id);
   } catch (error) {
     console.error('Error processing payment verification:', error);
-    return NextResponse.redirect(
-      `${process.env.NEXT_PUBLIC_APP_URL}/checkout/error?message=Error processing payment`
-    );
+    return redirectToError('Error processing payment');
   }
 }
@@ -1,20 +1,17 @@
 import { NextResponse, NextRequest } from 'next/server';
 import { PrismaClient, Prisma } from '@prisma/client';
-import { verifyToken } from '../../../../../lib/auth';
+import { requirePermission } from '../../../../../lib/permissions';
+import { recordAdminAction } from '../../../../../lib/audit-log';
 import { z } from 'zod';
 import { updateProductAggregations } from '@lib/product-utils';
 import { generateSKU } from '@lib/sku-utils';
 import { generateBarcode } from '@lib/barcode-utils';
-import { productRateLimiter } from '@lib/rate-limiter';
+import { productRateLimiter, withRateLimitHeaders } from '@lib/rate-limiter';
 
 type ErrorDetails = Record<string, unknown>;
 type ApiResponseData = Record<string, unknown>;
 
 const MESSAGES = {
-  // Authentication
-  UNAUTHORIZED: 'دسترسی غیرمجاز. لطفاً ابتدا وارد حساب کاربری خود شوید.',
-  INVALID_TOKEN: 'توکن احراز هویت نامعتبر است. لطفاً دوباره وارد شوید.',
-  
   // Product related
   PRODUCT_NOT_FOUND: 'محصول مورد نظر یافت نشد.',
   PRODUCT_DELETED: 'محصول با موفقیت حذف شد.',
@@ -110,33 +107,9 @@ export async function GET(request: NextRequest, { params }: Params) {
   try {
     const { id } = params;
     
-    // Check for token in Authorization header first
-    let token: string | null = null;
-    const authHeader = request.headers.get('authorization');
-    
-    if (authHeader?.startsWith('Bearer ')) {
-      token = authHeader.split(' ')[1];
-    } else {
-      // Check for token in cookies
-      const cookieHeader = request.headers.get('cookie');
-      if (cookieHeader) {
-        const cookies = Object.fromEntries(
-          cookieHeader.split(';').map(c => {
-            const [key, ...values] = c.trim().split('=');
-            return [key, values.join('=')];
-          })
-        );
-        token = cookies['adminToken'] || null;
-      }
-    }
-    
-    if (!token) {
-      return errorResponse(401, MESSAGES.UNAUTHORIZED);
-    }
-    
-    const decoded = await verifyToken(token);
-    if (!decoded?.adminId) {
-      return errorResponse(401, MESSAGES.INVALID_TOKEN);
+    const access = await requirePermission(request, 'products:write');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
     }
 
     // Get the product with related data including variants
@@ -187,17 +160,17 @@ export async function GET(request: NextRequest, { params }: Params) {
     });
 
     if (!product) {
-      return errorResponse(404, MESSAGES.PRODUCT_NOT_FOUND);
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.PRODUCT_NOT_FOUND), rateLimit.headers);
     }
 
     // Return the product with its availableSizes
-    return successResponse({
+    return withRateLimitHeaders(successResponse({
       ...product,
       availableSizes: product.availableSizes || []
-    });
+    }), rateLimit.headers);
   } catch (error) {
     console.error('Error fetching product:', error);
-    return errorResponse(500, MESSAGES.INTERNAL_ERROR);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
   }
 }
 
@@ -211,51 +184,9 @@ export async function PUT(request: NextRequest, { params }: Params) {
     // Debug: Log all headers and cookies
     console.log('PUT Request Headers:', Object.fromEntries(request.headers.entries()));
     
-    // Check for token in Authorization header first
-    let token: string | null = null;
-    const authHeader = request.headers.get('authorization');
-    console.log('PUT Auth Header:', authHeader);
-    
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      token = authHeader.split(' ')[1];
-    } else {
-      // Check for token in cookies
-      const cookieHeader = request.headers.get('cookie');
-      console.log('PUT Cookie Header:', cookieHeader);
-      
-      if (cookieHeader) {
-        const cookies = cookieHeader.split(';').reduce((acc: Record<string, string>, cookie) => {
-          const [key, value] = cookie.trim().split('=');
-          acc[key] = value;
-          return acc;
-        }, {});
-        
-        token = cookies['adminToken'] || null;
-        console.log('Extracted token from cookies:', token ? 'Token found' : 'No token found');
-      }
-    }
-    
-    if (!token) {
-      return new NextResponse(
-        JSON.stringify({ 
-          error: 'Unauthorized: No token provided in Authorization header or cookies',
-          headers: Object.fromEntries(request.headers.entries())
-        }), 
-        { status: 401, headers: { 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const decoded = verifyToken(token);
-    console.log('PUT Decoded token:', decoded);
-    
-    if (!decoded || !decoded.adminId) {
-      return new NextResponse(
-        JSON.stringify({ 
-          error: 'Unauthorized: Invalid or expired token',
-          decoded: decoded
-        }), 
-        { status: 401, headers: { 'Content-Type': 'application/json' } }
-      );
+    const access = await requirePermission(request, 'products:write');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
     }
 
     const { id } = params;
@@ -289,10 +220,14 @@ export async function PUT(request: NextRequest, { params }: Params) {
     // Check if product exists
     const existingProduct = await prisma.product.findUnique({
       where: { id },
+      include: {
+        category: true,
+        variants: true,
+      },
     });
 
     if (!existingProduct) {
-      return errorResponse(404, 'محصول یافت نشد');
+      return withRateLimitHeaders(errorResponse(404, 'محصول یافت نشد'), rateLimit.headers);
     }
 
     // Only include allowed fields in the update
@@ -358,15 +293,15 @@ export async function PUT(request: NextRequest, { params }: Params) {
     }
 
     // Always update the updatedBy reference
-    updateData.updatedBy = { connect: { id: decoded.adminId } };
+    updateData.updatedBy = { connect: { id: access.admin.id } };
 
     // If no valid fields to update and no errors, return success with warning
     if (Object.keys(updateData).length <= 1 && errors.length === 0) {
-      return successResponse({
+      return withRateLimitHeaders(successResponse({
         message: 'هیچ فیلد معتبری برای به‌روزرسانی یافت نشد',
         updated: false,
         product: existingProduct
-      });
+      }), rateLimit.headers);
     }
 
     // Start of update operation
@@ -414,7 +349,15 @@ export async function PUT(request: NextRequest, { params }: Params) {
         ...(errors.length > 0 && { warnings: errors })
       };
 
-      return successResponse(response);
+      await recordAdminAction(request, access.admin.id, {
+        action: 'product.update',
+        entityType: 'PRODUCT',
+        entityId: id,
+        before: existingProduct,
+        after: fullProduct
+      });
+
+      return withRateLimitHeaders(successResponse(response), rateLimit.headers);
     } catch (error) {
       console.error('Error updating product:', error);
       
@@ -424,18 +367,18 @@ export async function PUT(request: NextRequest, { params }: Params) {
           const message = field === 'slug' 
             ? 'این آدرس قبلاً استفاده شده است' 
             : 'خطای عدم تکراری بودن فیلدها';
-          return errorResponse(409, message, { field });
+          return withRateLimitHeaders(errorResponse(409, message, { field }), rateLimit.headers);
         }
         if (error.code === 'P2025') {
-          return errorResponse(404, 'دسته‌بندی یافت نشد');
+          return withRateLimitHeaders(errorResponse(404, 'دسته‌بندی یافت نشد'), rateLimit.headers);
         }
       }
       
-      return errorResponse(500, 'خطای سرور در به‌روزرسانی محصول');
+      return withRateLimitHeaders(errorResponse(500, 'خطای سرور در به‌روزرسانی محصول'), rateLimit.headers);
     }
   } catch (error) {
     console.error('Error in PUT /api/products/[id]:', error);
-    return errorResponse(500, 'خطای سرور در پردازش درخواست');
+    return withRateLimitHeaders(errorResponse(500, 'خطای سرور در پردازش درخواست'), rateLimit.headers);
   }
 }
 
@@ -452,33 +395,9 @@ export async function PATCH(request: NextRequest, context: { params: { id: strin
   
   try {
     
-    // Check for token in Authorization header first
-    let token: string | null = null;
-    const authHeader = request.headers.get('authorization');
-    
-    if (authHeader?.startsWith('Bearer ')) {
-      token = authHeader.split(' ')[1];
-    } else {
-      // Check for token in cookies
-      const cookieHeader = request.headers.get('cookie');
-      if (cookieHeader) {
-        const cookies = Object.fromEntries(
-          cookieHeader.split(';').map(c => {
-            const [key, ...values] = c.trim().split('=');
-            return [key, values.join('=')];
-          })
-        );
-        token = cookies['adminToken'] || null;
-      }
-    }
-    
-    if (!token) {
-      return errorResponse(401, MESSAGES.UNAUTHORIZED);
-    }
-    
-    const decoded = await verifyToken(token);
-    if (!decoded?.adminId) {
-      return errorResponse(401, MESSAGES.INVALID_TOKEN);
+    const access = await requirePermission(request, 'products:write');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
     }
 
     // Check if product exists
@@ -488,7 +407,7 @@ export async function PATCH(request: NextRequest, context: { params: { id: strin
     });
 
     if (!product) {
-      return errorResponse(404, MESSAGES.PRODUCT_NOT_FOUND);
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.PRODUCT_NOT_FOUND), rateLimit.headers);
     }
 
     // Parse and validate request body
@@ -496,12 +415,12 @@ export async function PATCH(request: NextRequest, context: { params: { id: strin
     const validation = updateVariantsSchema.safeParse(body);
     
     if (!validation.success) {
-      return errorResponse(400, MESSAGES.INVALID_INPUT, {
+      return withRateLimitHeaders(errorResponse(400, MESSAGES.INVALID_INPUT, {
         errors: validation.error.errors.map((e) => ({
           path: Array.isArray(e.path) ? e.path.join('.') : String(e.path),
           message: e.message
         }))
-      });
+      }), rateLimit.headers);
     }
 
     const { variants } = validation.data;
@@ -664,7 +583,7 @@ export async function PATCH(request: NextRequest, context: { params: { id: strin
       await tx.product.update({
         where: { id: productId },
         data: {
-          updatedBy: { connect: { id: decoded.adminId } }
+          updatedBy: { connect: { id: access.admin.id } }
         }
       });
 
@@ -728,7 +647,15 @@ export async function PATCH(request: NextRequest, context: { params: { id: strin
       message += ` (${unchangedCount} مورد بدون تغییر باقی ماند)`;
     }
 
-    return successResponse({
+    await recordAdminAction(request, access.admin.id, {
+      action: 'product.variants.update',
+      entityType: 'PRODUCT',
+      entityId: productId,
+      before: { variants: product.variants },
+      after: { variants: fullProduct?.variants ?? [] }
+    });
+
+    return withRateLimitHeaders(successResponse({
       message,
       product: fullProduct,
       variants: result.updatedVariants,
@@ -745,18 +672,18 @@ export async function PATCH(request: NextRequest, context: { params: { id: strin
         changes: result.changes,
         warnings: result.warnings
       }))
-    });
+    }), rateLimit.headers);
   } catch (error) {
     console.error('Error updating product variants:', error);
     if (error instanceof Prisma.PrismaClientKnownRequestError) {
       if (error.code === 'P2002') {
-        return errorResponse(409, 'کد کالا تکراری است');
+        return withRateLimitHeaders(errorResponse(409, 'کد کالا تکراری است'), rateLimit.headers);
       }
       if (error.code === 'P2025') {
-        return errorResponse(404, MESSAGES.PRODUCT_NOT_FOUND);
+        return withRateLimitHeaders(errorResponse(404, MESSAGES.PRODUCT_NOT_FOUND), rateLimit.headers);
       }
     }
-    return errorResponse(500, MESSAGES.INTERNAL_ERROR);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
   }
 }
 
@@ -767,41 +694,17 @@ export async function DELETE(request: NextRequest, { params }: { params: { id: s
   
   console.log('DELETE request received for product ID:', productId);
   
-  try {
-    // Rate limiting check
-    const rateLimit = await productRateLimiter.delete(request, productId);
-    if (rateLimit.isRateLimited) {
-      console.log('Rate limited:', rateLimit);
-      return rateLimit.response;
-    }
-    
-    // Authentication check
-    let token: string | null = null;
-    const authHeader = request.headers.get('authorization');
-    
-    if (authHeader?.startsWith('Bearer ')) {
-      token = authHeader.split(' ')[1];
-    } else {
-      const cookieHeader = request.headers.get('cookie');
-      if (cookieHeader) {
-        const cookies = cookieHeader.split(';').reduce((acc: Record<string, string>, cookie) => {
-          const [key, value] = cookie.trim().split('=');
-          acc[key] = value;
-          return acc;
-        }, {});
-        token = cookies['adminToken'] || null;
-      }
-    }
-    
-    if (!token) {
-      console.log('No authentication token provided');
-      return errorResponse(401, MESSAGES.UNAUTHORIZED);
-    }
+  // Rate limiting check
+  const rateLimit = await productRateLimiter.delete(request, productId);
+  if (rateLimit.isRateLimited) {
+    console.log('Rate limited:', rateLimit);
+    return rateLimit.response;
+  }
 
-    const decoded = verifyToken(token);
-    if (!decoded?.adminId) {
-      console.log('Invalid or expired token');
-      return errorResponse(401, MESSAGES.INVALID_TOKEN);
+  try {
+    const access = await requirePermission(request, 'products:write');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
     }
 
     // Use the already extracted productId
@@ -810,7 +713,7 @@ export async function DELETE(request: NextRequest, { params }: { params: { id: s
     // Validate the ID format
     if (!productId || !isValidProductId(productId)) {
       console.error('Invalid product ID format:', productId);
-      return errorResponse(400, 'شناسه محصول نامعتبر است.');
+      return withRateLimitHeaders(errorResponse(400, 'شناسه محصول نامعتبر است.'), rateLimit.headers);
     }
 
     // Check if product exists
@@ -834,11 +737,11 @@ export async function DELETE(request: NextRequest, { params }: { params: { id: s
       console.log('Product lookup result:', existingProduct ? 'Found' : 'Not found');
       if (!existingProduct) {
         console.log('Product not found with ID:', productId);
-        return errorResponse(404, MESSAGES.PRODUCT_NOT_FOUND);
+        return withRateLimitHeaders(errorResponse(404, MESSAGES.PRODUCT_NOT_FOUND), rateLimit.headers);
       }
     } catch (dbError) {
       console.error('Database error when finding product:', dbError);
-      return errorResponse(500, 'خطا در ارتباط با پایگاه داده');
+      return withRateLimitHeaders(errorResponse(500, 'خطا در ارتباط با پایگاه داده'), rateLimit.headers);
     }
 
     // Product exists, proceed with deletion
@@ -846,7 +749,7 @@ export async function DELETE(request: NextRequest, { params }: { params: { id: s
 
     // Check if product has any orders
     if (existingProduct._count.orderItems > 0) {
-      return errorResponse(400, MESSAGES.PRODUCT_HAS_ORDERS);
+      return withRateLimitHeaders(errorResponse(400, MESSAGES.PRODUCT_HAS_ORDERS), rateLimit.headers);
     }
 
     console.log('Starting transaction for product deletion');
@@ -874,10 +777,17 @@ export async function DELETE(request: NextRequest, { params }: { params: { id: s
       // Continue even if aggregations update fails
     }
 
-    return successResponse({
+    await recordAdminAction(request, access.admin.id, {
+      action: 'product.delete',
+      entityType: 'PRODUCT',
+      entityId: productId,
+      before: existingProduct
+    });
+
+    return withRateLimitHeaders(successResponse({
       message: MESSAGES.PRODUCT_DELETE_SUCCESS,
       productId: productId
-    }, 200);
+    }, 200), rateLimit.headers);
   } catch (error) {
     console.error('Error in DELETE /api/products/[id]:', error);
     
@@ -885,17 +795,17 @@ export async function DELETE(request: NextRequest, { params }: { params: { id: s
       console.error('Prisma error code:', error.code);
       
       if (error.code === 'P2025') {
-        return errorResponse(404, MESSAGES.PRODUCT_NOT_FOUND);
+        return withRateLimitHeaders(errorResponse(404, MESSAGES.PRODUCT_NOT_FOUND), rateLimit.headers);
       }
       if (error.code === 'P2003') {
-        return errorResponse(400, 'امکان حذف محصول به دلیل وجود سفارش‌های مرتبط وجود ندارد.');
+        return withRateLimitHeaders(errorResponse(400, 'امکان حذف محصول به دلیل وجود سفارش‌های مرتبط وجود ندارد.'), rateLimit.headers);
       }
       
-      return errorResponse(500, 'خطای پایگاه داده', { code: error.code });
+      return withRateLimitHeaders(errorResponse(500, 'خطای پایگاه داده', { code: error.code }), rateLimit.headers);
     }
     
     const errorMessage = error instanceof Error ? error.message : 'خطای ناشناخته';
     console.error('Unexpected error:', error);
-    return errorResponse(500, MESSAGES.INTERNAL_ERROR, { error: errorMessage });
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR, { error: errorMessage }), rateLimit.headers);
   }
 }
\ No newline at end of file
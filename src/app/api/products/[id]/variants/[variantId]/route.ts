@@ -3,7 +3,9 @@ import { PrismaClient } from '@prisma/client';
 import { z } from 'zod';
 import { updateProductAggregations } from '@lib/product-utils';
 import { authenticateRequest } from '@lib/api-utils';
-import { productRateLimiter } from '@lib/rate-limiter';
+import { requirePermission } from '@lib/permissions';
+import { recordAdminAction } from '@lib/audit-log';
+import { productRateLimiter, withRateLimitHeaders } from '@lib/rate-limiter';
 
 const prisma = new PrismaClient();
 
@@ -70,7 +72,7 @@ export async function GET(
     // Authenticate request
     const auth = await authenticateRequest(request);
     if (!auth.success) {
-      return auth.response || errorResponse(401, MESSAGES.UNAUTHORIZED);
+      return withRateLimitHeaders(auth.response || errorResponse(401, MESSAGES.UNAUTHORIZED), rateLimit.headers);
     }
     
     // Find the variant
@@ -79,14 +81,14 @@ export async function GET(
     });
     
     if (!variant) {
-      return errorResponse(404, MESSAGES.NOT_FOUND);
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.NOT_FOUND), rateLimit.headers);
     }
     
-    return successResponse(variant);
+    return withRateLimitHeaders(successResponse(variant), rateLimit.headers);
     
   } catch (error) {
     console.error('Error fetching variant:', error);
-    return errorResponse(500, MESSAGES.INTERNAL_ERROR);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
   }
 }
 
@@ -107,13 +109,15 @@ export async function PATCH(
     return rateLimit.response;
   }
   let transaction;
+  // The variant as it was, for the audit log
+  let previousVariant: object | null = null;
   try {
     const { id: productId, variantId } = await context.params;
     
     // Authenticate request
-    const auth = await authenticateRequest(request);
-    if (!auth.success) {
-      return auth.response || errorResponse(401, MESSAGES.UNAUTHORIZED);
+    const access = await requirePermission(request, 'products:write');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
     }
     
     // Validate request body
@@ -122,7 +126,7 @@ export async function PATCH(
     
     if (!validation.success) {
       console.error('Validation error:', validation.error);
-      return errorResponse(400, MESSAGES.INVALID_DATA, validation.error.flatten());
+      return withRateLimitHeaders(errorResponse(400, MESSAGES.INVALID_DATA, validation.error.flatten()), rateLimit.headers);
     }
     
     const updateData = validation.data;
@@ -137,6 +141,7 @@ export async function PATCH(
       if (!existingVariant) {
         throw new Error('Variant not found');
       }
+      previousVariant = existingVariant;
       
       // Check for duplicate variant (same size and color) if those fields are being updated
       if (updateData.size || updateData.color !== undefined) {
@@ -187,7 +192,7 @@ export async function PATCH(
 // Update product's updatedBy with admin ID from auth
 await tx.product.update({
   where: { id: productId },
-  data: { updatedBy: { connect: { id: auth.adminId } } },
+  data: { updatedBy: { connect: { id: access.admin.id } } },
 });
       
       return updatedVariant;
@@ -195,23 +200,31 @@ await tx.product.update({
     
     // Update product aggregations after transaction
     await updateProductAggregations(productId);
+
+    await recordAdminAction(request, access.admin.id, {
+      action: 'variant.update',
+      entityType: 'VARIANT',
+      entityId: variantId,
+      before: previousVariant,
+      after: transaction
+    });
     
-    return successResponse(transaction);
+    return withRateLimitHeaders(successResponse(transaction), rateLimit.headers);
     
   } catch (error: unknown) {
     console.error('Error updating variant:', error);
     
     if (error instanceof Error) {
       if (error.message === 'Variant not found') {
-        return errorResponse(404, MESSAGES.NOT_FOUND);
+        return withRateLimitHeaders(errorResponse(404, MESSAGES.NOT_FOUND), rateLimit.headers);
       }
       
       if (error.message === 'Duplicate variant') {
-        return errorResponse(409, MESSAGES.DUPLICATE_VARIANT);
+        return withRateLimitHeaders(errorResponse(409, MESSAGES.DUPLICATE_VARIANT), rateLimit.headers);
       }
     }
     
-    return errorResponse(500, MESSAGES.INTERNAL_ERROR);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
   } finally {
     if (transaction) {
       await prisma.$disconnect();
@@ -236,13 +249,15 @@ export async function PUT(
     return rateLimit.response;
   }
   let transaction;
+  // The variant as it was, for the audit log
+  let previousVariant: object | null = null;
   try {
     const { id: productId, variantId } = await context.params;
     
     // Authenticate request
-    const auth = await authenticateRequest(request);
-    if (!auth.success) {
-      return auth.response || errorResponse(401, MESSAGES.UNAUTHORIZED);
+    const access = await requirePermission(request, 'products:write');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
     }
     
     // Validate request body
@@ -266,7 +281,7 @@ export async function PUT(
     
     if (!validation.success) {
       console.error('Validation error:', validation.error);
-      return errorResponse(400, MESSAGES.INVALID_DATA, validation.error.flatten());
+      return withRateLimitHeaders(errorResponse(400, MESSAGES.INVALID_DATA, validation.error.flatten()), rateLimit.headers);
     }
     
     const { quantity, ...variantData } = validation.data;
@@ -281,6 +296,7 @@ export async function PUT(
       if (!existingVariant) {
         throw new Error('Variant not found');
       }
+      previousVariant = existingVariant;
       
       // Check for duplicate variant (same size and color)
       const duplicateVariant = await tx.variant.findFirst({
@@ -308,7 +324,7 @@ export async function PUT(
       // Update product's updatedBy with admin ID from auth
       await tx.product.update({
         where: { id: productId },
-        data: { updatedBy: { connect: { id: Number(auth.adminId) } } },
+        data: { updatedBy: { connect: { id: access.admin.id } } },
       });
       
       return updatedVariant;
@@ -316,23 +332,31 @@ export async function PUT(
     
     // Update product aggregations after transaction
     await updateProductAggregations(productId);
+
+    await recordAdminAction(request, access.admin.id, {
+      action: 'variant.replace',
+      entityType: 'VARIANT',
+      entityId: variantId,
+      before: previousVariant,
+      after: transaction
+    });
     
-    return successResponse(transaction);
+    return withRateLimitHeaders(successResponse(transaction), rateLimit.headers);
     
   } catch (error: unknown) {
     console.error('Error updating variant:', error);
     
     if (error instanceof Error) {
       if (error.message === 'Variant not found') {
-        return errorResponse(404, MESSAGES.NOT_FOUND);
+        return withRateLimitHeaders(errorResponse(404, MESSAGES.NOT_FOUND), rateLimit.headers);
       }
       
       if (error.message === 'Duplicate variant') {
-        return errorResponse(409, MESSAGES.DUPLICATE_VARIANT);
+        return withRateLimitHeaders(errorResponse(409, MESSAGES.DUPLICATE_VARIANT), rateLimit.headers);
       }
     }
     
-    return errorResponse(500, MESSAGES.INTERNAL_ERROR);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
   } finally {
     if (transaction) {
       await prisma.$disconnect();
@@ -360,9 +384,9 @@ export async function DELETE(
   }
   
   // Authenticate request
-  const auth = await authenticateRequest(request);
-  if (!auth.success) {
-    return auth.response || errorResponse(401, MESSAGES.UNAUTHORIZED);
+  const access = await requirePermission(request, 'products:write');
+  if (!access.success) {
+    return withRateLimitHeaders(access.response, rateLimit.headers);
   }
   
   let transaction;
@@ -387,25 +411,32 @@ export async function DELETE(
 // Update product's updatedBy with admin ID from auth
 await tx.product.update({
   where: { id: productId },
-  data: { updatedBy: { connect: { id: auth.adminId } } },
+  data: { updatedBy: { connect: { id: access.admin.id } } },
 });
       
-      return true;
+      return existingVariant;
     });
     
     // Update product aggregations after transaction
     await updateProductAggregations(productId);
+
+    await recordAdminAction(request, access.admin.id, {
+      action: 'variant.delete',
+      entityType: 'VARIANT',
+      entityId: variantId,
+      before: transaction
+    });
     
-    return successResponse({ success: true });
+    return withRateLimitHeaders(successResponse({ success: true }), rateLimit.headers);
     
   } catch (error: unknown) {
     console.error('Error deleting variant:', error);
     
     if (error instanceof Error && error.message === 'Variant not found') {
-      return errorResponse(404, MESSAGES.NOT_FOUND);
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.NOT_FOUND), rateLimit.headers);
     }
     
-    return errorResponse(500, MESSAGES.INTERNAL_ERROR);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
   } finally {
     if (transaction) {
       await prisma.$disconnect();
@@ -4,15 +4,15 @@ import { z } from 'zod';
 import { updateProductAggregations } from '@lib/product-utils';
 import { generateSKU } from '@lib/sku-utils';
 import { generateBarcode } from '@lib/barcode-utils';
-import { authenticateRequest } from '@lib/api-utils';
+import { requirePermission } from '@lib/permissions';
+import { recordAdminAction } from '@lib/audit-log';
 import cacheUtils from '@lib/cache-utils';
-import { productRateLimiter } from '@lib/rate-limiter';
+import { productRateLimiter, withRateLimitHeaders } from '@lib/rate-limiter';
 
 const prisma = new PrismaClient();
 
 // Error messages in Farsi
 const MESSAGES = {
-  UNAUTHORIZED: 'دسترسی غیر مجاز. لطفا وارد شوید.',
   INVALID_TOKEN: 'توکن نامعتبر است.',
   NOT_FOUND: 'محصول یا نوع محصول یافت نشد.',
   INVALID_DATA: 'داده‌های ارسالی معتبر نیستند.',
@@ -133,9 +133,9 @@ export async function GET(
       });
       
       if (cachedResponse && cachedResponse.length > 0) {
-        return successResponse(cachedResponse, 200, {
+        return withRateLimitHeaders(successResponse(cachedResponse, 200, {
           'X-Cache': 'HIT'
-        });
+        }), rateLimit.headers);
       }
     }
     
@@ -143,16 +143,16 @@ export async function GET(
     const variants = await fetchVariants(productId, Boolean(isAuthenticated));
     
     if (!variants) {
-      return errorResponse(404, MESSAGES.NOT_FOUND);
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.NOT_FOUND), rateLimit.headers);
     }
     
-    return successResponse(variants, 200, {
+    return withRateLimitHeaders(successResponse(variants, 200, {
       'X-Cache': 'MISS'
-    });
+    }), rateLimit.headers);
     
   } catch (error) {
     console.error('Error fetching variants:', error);
-    return errorResponse(500, MESSAGES.INTERNAL_ERROR);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
   }
 }
 
@@ -169,9 +169,9 @@ export async function POST(
   try {
     const { id: productId } = await Promise.resolve(context.params);
     // Authenticate request
-    const auth = await authenticateRequest(request);
-    if (!auth.success) {
-      return auth.response || errorResponse(401, MESSAGES.UNAUTHORIZED);
+    const access = await requirePermission(request, 'products:write');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
     }
     
     // Verify product exists and get its type
@@ -181,7 +181,7 @@ export async function POST(
     });
     
     if (!product) {
-      return errorResponse(404, MESSAGES.NOT_FOUND);
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.NOT_FOUND), rateLimit.headers);
     }
     
     // Validate request body
@@ -189,7 +189,7 @@ export async function POST(
     const validation = variantCreateSchema.safeParse(body);
     
     if (!validation.success) {
-      return errorResponse(400, MESSAGES.INVALID_DATA, validation.error.flatten());
+      return withRateLimitHeaders(errorResponse(400, MESSAGES.INVALID_DATA, validation.error.flatten()), rateLimit.headers);
     }
     
     const variantData = validation.data;
@@ -204,7 +204,7 @@ export async function POST(
     });
     
     if (existingVariant) {
-      return errorResponse(409, MESSAGES.DUPLICATE_VARIANT);
+      return withRateLimitHeaders(errorResponse(409, MESSAGES.DUPLICATE_VARIANT), rateLimit.headers);
     }
     
     // Generate SKU and barcode if not provided
@@ -229,14 +229,21 @@ export async function POST(
       cacheUtils.revalidateProducts(),
       prisma.product.update({
         where: { id: productId },
-        data: { updatedBy: { connect: { id: auth.adminId } } },
+        data: { updatedBy: { connect: { id: access.admin.id } } },
       })
     ]);
+
+    await recordAdminAction(request, access.admin.id, {
+      action: 'variant.create',
+      entityType: 'VARIANT',
+      entityId: variant.id,
+      after: variant
+    });
     
-    return successResponse(variant, 201);
+    return withRateLimitHeaders(successResponse(variant, 201), rateLimit.headers);
     
   } catch (error) {
     console.error('Error creating variant:', error);
-    return errorResponse(500, MESSAGES.INTERNAL_ERROR);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
   }
 }
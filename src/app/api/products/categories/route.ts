@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import prisma from '@lib/prisma';
-import { authenticateRequest } from '@lib/api-utils';
-import { isRateLimited } from '@lib/rate-limiter';
+import { requirePermission } from '@lib/permissions';
+import { recordAdminAction } from '@lib/audit-log';
+import { isRateLimited, rateLimitHeaders, withRateLimitHeaders } from '@lib/rate-limiter';
 
 console.log('Categories route handler loaded');
 
@@ -24,24 +25,24 @@ const categorySchema = z.object({
 
 // GET: Get all categories
 export async function GET(request: NextRequest) {
-  try {
-    // Check rate limiting
-    console.log('Checking rate limit...');
-    const rateLimit = await isRateLimited(request, 'categories:get');
-    console.log('Rate limit check result:', rateLimit);
-    
-    if (rateLimit && rateLimit.isLimited) {
-      console.log('Rate limited:', rateLimit);
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: 'تعداد درخواست‌ها بیش از حد مجاز است',
-          retryAfter: rateLimit.retryAfter
-        },
-        { status: 429 }
-      );
-    }
+  // Check rate limiting
+  console.log('Checking rate limit...');
+  const rateLimit = await isRateLimited(request, 'categories:get');
+  console.log('Rate limit check result:', rateLimit);
+  
+  if (rateLimit && rateLimit.isLimited) {
+    console.log('Rate limited:', rateLimit);
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'تعداد درخواست‌ها بیش از حد مجاز است',
+        retryAfter: rateLimit.retryAfter
+      },
+      { status: 429, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
 
+  try {
     // Get query parameters
     const { searchParams } = new URL(request.url);
     const includeInactive = searchParams.get('includeInactive') === 'true';
@@ -137,7 +138,7 @@ export async function GET(request: NextRequest) {
       hasChildren: category._count.children > 0
     }));
 
-    return NextResponse.json({ 
+    return withRateLimitHeaders(NextResponse.json({ 
       success: true, 
       data: transformedCategories,
       meta: {
@@ -146,10 +147,10 @@ export async function GET(request: NextRequest) {
         limit: limit || total,
         totalPages: limit ? Math.ceil(total / limit) : 1
       }
-    });
+    }), rateLimitHeaders(rateLimit));
   } catch (error) {
     console.error('Error fetching categories:', error);
-    return NextResponse.json(
+    return withRateLimitHeaders(NextResponse.json(
       { 
         success: false, 
         error: 'خطا در دریافت دسته‌بندی‌ها',
@@ -158,7 +159,7 @@ export async function GET(request: NextRequest) {
         })
       },
       { status: 500 }
-    );
+    ), rateLimitHeaders(rateLimit));
   }
 }
 
@@ -167,47 +168,44 @@ const updateCategorySchema = categorySchema.partial();
 
 // PATCH: Partially update a category
 export async function PATCH(request: NextRequest) {
-  try {
-    // Check rate limiting
-    const rateLimit = await isRateLimited(request, 'categories:update');
-    if (rateLimit?.isLimited) {
-      return NextResponse.json(
-        { success: false, error: 'تعداد درخواست‌ها بیش از حد مجاز است' },
-        { status: 429 }
-      );
-    }
+  // Check rate limiting
+  const rateLimit = await isRateLimited(request, 'categories:update');
+  if (rateLimit?.isLimited) {
+    return NextResponse.json(
+      { success: false, error: 'تعداد درخواست‌ها بیش از حد مجاز است' },
+      { status: 429, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
 
+  try {
     // Authenticate the request
-    const auth = await authenticateRequest(request);
-    if (!auth.success || (auth.role !== 'ADMIN' && auth.role !== 'OWNER')) {
-      return NextResponse.json(
-        { success: false, error: 'دسترسی غیرمجاز' },
-        { status: 403 }
-      );
+    const access = await requirePermission(request, 'products:write');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimitHeaders(rateLimit));
     }
 
     const { searchParams } = new URL(request.url);
     const categoryId = searchParams.get('id');
     
     if (!categoryId) {
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { success: false, error: 'شناسه دسته‌بندی الزامی است' },
         { status: 400 }
-      );
+      ), rateLimitHeaders(rateLimit));
     }
 
     const body = await request.json();
     const validation = updateCategorySchema.safeParse(body);
     
     if (!validation.success) {
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { 
           success: false, 
           error: 'داده‌های ورودی نامعتبر است',
           details: validation.error.format() 
         },
         { status: 400 }
-      );
+      ), rateLimitHeaders(rateLimit));
     }
 
     // Check if category exists
@@ -216,10 +214,10 @@ export async function PATCH(request: NextRequest) {
     });
 
     if (!existingCategory) {
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { success: false, error: 'دسته‌بندی مورد نظر یافت نشد' },
         { status: 404 }
-      );
+      ), rateLimitHeaders(rateLimit));
     }
 
     // Check if slug is being updated and if it's already taken
@@ -232,10 +230,10 @@ export async function PATCH(request: NextRequest) {
       });
 
       if (slugExists) {
-        return NextResponse.json(
+        return withRateLimitHeaders(NextResponse.json(
           { success: false, error: 'این شناسه قبلا استفاده شده است' },
           { status: 400 }
-        );
+        ), rateLimitHeaders(rateLimit));
       }
     }
 
@@ -249,14 +247,22 @@ export async function PATCH(request: NextRequest) {
       }
     });
 
-    return NextResponse.json({
+    await recordAdminAction(request, access.admin.id, {
+      action: 'category.update',
+      entityType: 'CATEGORY',
+      entityId: categoryId,
+      before: existingCategory,
+      after: updatedCategory
+    });
+
+    return withRateLimitHeaders(NextResponse.json({
       success: true,
       data: updatedCategory
-    });
+    }), rateLimitHeaders(rateLimit));
 
   } catch (error) {
     console.error('Error updating category:', error);
-    return NextResponse.json(
+    return withRateLimitHeaders(NextResponse.json(
       { 
         success: false, 
         error: 'خطا در به‌روزرسانی دسته‌بندی',
@@ -265,53 +271,50 @@ export async function PATCH(request: NextRequest) {
         })
       },
       { status: 500 }
-    );
+    ), rateLimitHeaders(rateLimit));
   }
 }
 
 // PUT: Replace a category (full update)
 export async function PUT(request: NextRequest) {
-  try {
-    // Check rate limiting
-    const rateLimit = await isRateLimited(request, 'categories:update');
-    if (rateLimit?.isLimited) {
-      return NextResponse.json(
-        { success: false, error: 'تعداد درخواست‌ها بیش از حد مجاز است' },
-        { status: 429 }
-      );
-    }
+  // Check rate limiting
+  const rateLimit = await isRateLimited(request, 'categories:update');
+  if (rateLimit?.isLimited) {
+    return NextResponse.json(
+      { success: false, error: 'تعداد درخواست‌ها بیش از حد مجاز است' },
+      { status: 429, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
 
+  try {
     // Authenticate the request
-    const auth = await authenticateRequest(request);
-    if (!auth.success || (auth.role !== 'ADMIN' && auth.role !== 'OWNER')) {
-      return NextResponse.json(
-        { success: false, error: 'دسترسی غیرمجاز' },
-        { status: 403 }
-      );
+    const access = await requirePermission(request, 'products:write');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimitHeaders(rateLimit));
     }
 
     const { searchParams } = new URL(request.url);
     const categoryId = searchParams.get('id');
     
     if (!categoryId) {
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { success: false, error: 'شناسه دسته‌بندی الزامی است' },
         { status: 400 }
-      );
+      ), rateLimitHeaders(rateLimit));
     }
 
     const body = await request.json();
     const validation = categorySchema.safeParse(body);
     
     if (!validation.success) {
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { 
           success: false, 
           error: 'داده‌های ورودی نامعتبر است',
           details: validation.error.format() 
         },
         { status: 400 }
-      );
+      ), rateLimitHeaders(rateLimit));
     }
 
     // Check if category exists
@@ -320,10 +323,10 @@ export async function PUT(request: NextRequest) {
     });
 
     if (!existingCategory) {
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { success: false, error: 'دسته‌بندی مورد نظر یافت نشد' },
         { status: 404 }
-      );
+      ), rateLimitHeaders(rateLimit));
     }
 
     // Check if slug is being updated and if it's already taken
@@ -336,10 +339,10 @@ export async function PUT(request: NextRequest) {
       });
 
       if (slugExists) {
-        return NextResponse.json(
+        return withRateLimitHeaders(NextResponse.json(
           { success: false, error: 'این شناسه قبلا استفاده شده است' },
           { status: 400 }
-        );
+        ), rateLimitHeaders(rateLimit));
       }
     }
 
@@ -359,14 +362,22 @@ export async function PUT(request: NextRequest) {
       }
     });
 
-    return NextResponse.json({
+    await recordAdminAction(request, access.admin.id, {
+      action: 'category.replace',
+      entityType: 'CATEGORY',
+      entityId: categoryId,
+      before: existingCategory,
+      after: updatedCategory
+    });
+
+    return withRateLimitHeaders(NextResponse.json({
       success: true,
       data: updatedCategory
-    });
+    }), rateLimitHeaders(rateLimit));
 
   } catch (error) {
     console.error('Error replacing category:', error);
-    return NextResponse.json(
+    return withRateLimitHeaders(NextResponse.json(
       { 
         success: false, 
         error: 'خطا در به‌روزرسانی دسته‌بندی',
@@ -375,39 +386,36 @@ export async function PUT(request: NextRequest) {
         })
       },
       { status: 500 }
-    );
+    ), rateLimitHeaders(rateLimit));
   }
 }
 
 // DELETE: Delete a category
 export async function DELETE(request: NextRequest) {
-  try {
-    // Check rate limiting
-    const rateLimit = await isRateLimited(request, 'categories:delete');
-    if (rateLimit?.isLimited) {
-      return NextResponse.json(
-        { success: false, error: 'تعداد درخواست‌ها بیش از حد مجاز است' },
-        { status: 429 }
-      );
-    }
+  // Check rate limiting
+  const rateLimit = await isRateLimited(request, 'categories:delete');
+  if (rateLimit?.isLimited) {
+    return NextResponse.json(
+      { success: false, error: 'تعداد درخواست‌ها بیش از حد مجاز است' },
+      { status: 429, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
 
+  try {
     // Authenticate the request
-    const auth = await authenticateRequest(request);
-    if (!auth.success || (auth.role !== 'ADMIN' && auth.role !== 'OWNER')) {
-      return NextResponse.json(
-        { success: false, error: 'دسترسی غیرمجاز' },
-        { status: 403 }
-      );
+    const access = await requirePermission(request, 'products:write');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimitHeaders(rateLimit));
     }
 
     const { searchParams } = new URL(request.url);
     const categoryId = searchParams.get('id');
     
     if (!categoryId) {
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { success: false, error: 'شناسه دسته‌بندی الزامی است' },
         { status: 400 }
-      );
+      ), rateLimitHeaders(rateLimit));
     }
 
     // Check if category exists
@@ -421,33 +429,33 @@ export async function DELETE(request: NextRequest) {
     });
 
     if (!existingCategory) {
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { success: false, error: 'دسته‌بندی مورد نظر یافت نشد' },
         { status: 404 }
-      );
+      ), rateLimitHeaders(rateLimit));
     }
 
     // Prevent deletion if category has products or subcategories
     if (existingCategory._count.products > 0) {
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { 
           success: false, 
           error: 'امکان حذف دسته‌بندی حاوی محصول وجود ندارد',
           details: 'این دسته‌بندی حاوی محصول است. لطفا ابتدا محصولات را حذف کنید.'
         },
         { status: 400 }
-      );
+      ), rateLimitHeaders(rateLimit));
     }
 
     if (existingCategory._count.children > 0) {
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { 
           success: false, 
           error: 'امکان حذف دسته‌بندی دارای زیردسته وجود ندارد',
           details: 'این دسته‌بندی دارای زیردسته است. لطفا ابتدا زیردسته‌ها را حذف یا منتقل کنید.'
         },
         { status: 400 }
-      );
+      ), rateLimitHeaders(rateLimit));
     }
 
     // Delete the category
@@ -455,14 +463,21 @@ export async function DELETE(request: NextRequest) {
       where: { id: categoryId }
     });
 
-    return NextResponse.json({
+    await recordAdminAction(request, access.admin.id, {
+      action: 'category.delete',
+      entityType: 'CATEGORY',
+      entityId: categoryId,
+      before: existingCategory
+    });
+
+    return withRateLimitHeaders(NextResponse.json({
       success: true,
       message: 'دسته‌بندی با موفقیت حذف شد'
-    });
+    }), rateLimitHeaders(rateLimit));
 
   } catch (error) {
     console.error('Error deleting category:', error);
-    return NextResponse.json(
+    return withRateLimitHeaders(NextResponse.json(
       { 
         success: false, 
         error: 'خطا در حذف دسته‌بندی',
@@ -471,41 +486,36 @@ export async function DELETE(request: NextRequest) {
         })
       },
       { status: 500 }
-    );
+    ), rateLimitHeaders(rateLimit));
   }
 }
 
 // POST: Create a new category
 export async function POST(request: NextRequest) {
-  try {
-    // Check rate limiting
-    console.log('Checking rate limit...');
-    const rateLimit = await isRateLimited(request, 'categories:create');
-    console.log('Rate limit check result:', rateLimit);
-    
-    if (rateLimit && rateLimit.isLimited) {
-      console.log('Rate limited:', rateLimit);
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: 'تعداد درخواست‌ها بیش از حد مجاز است',
-          retryAfter: rateLimit.retryAfter
-        },
-        { status: 429 }
-      );
-    }
+  // Check rate limiting
+  console.log('Checking rate limit...');
+  const rateLimit = await isRateLimited(request, 'categories:create');
+  console.log('Rate limit check result:', rateLimit);
+  
+  if (rateLimit && rateLimit.isLimited) {
+    console.log('Rate limited:', rateLimit);
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'تعداد درخواست‌ها بیش از حد مجاز است',
+        retryAfter: rateLimit.retryAfter
+      },
+      { status: 429, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
 
+  try {
     // Authenticate the request
     console.log('Authenticating request...');
-    const auth = await authenticateRequest(request);
-    console.log('Auth result:', { success: auth.success, role: auth.role });
-    
-    if (!auth.success || (auth.role !== 'ADMIN' && auth.role !== 'OWNER')) {
-      console.log('Authentication failed or not authorized (requires ADMIN or OWNER)');
-      return NextResponse.json(
-        { success: false, error: 'دسترسی غیرمجاز. فقط مدیران سیستم می‌توانند دسته‌بندی ایجاد کنند.' },
-        { status: 403 }
-      );
+    const access = await requirePermission(request, 'products:write');
+    if (!access.success) {
+      console.log('Authentication failed or missing products:write permission');
+      return withRateLimitHeaders(access.response, rateLimitHeaders(rateLimit));
     }
 
     // Validate request body
@@ -516,24 +526,24 @@ export async function POST(request: NextRequest) {
       console.log('Request body:', JSON.stringify(body, null, 2));
     } catch (error) {
       console.error('Error parsing JSON:', error);
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { success: false, error: 'فرمت درخواست نامعتبر است' },
         { status: 400 }
-      );
+      ), rateLimitHeaders(rateLimit));
     }
     
     console.log('Validating request data...');
     const validation = categorySchema.safeParse(body);
     
     if (!validation.success) {
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { 
           success: false, 
           error: 'داده‌های ورودی نامعتبر است',
           details: validation.error.format() 
         },
         { status: 400 }
-      );
+      ), rateLimitHeaders(rateLimit));
     }
 
     // Check if slug already exists
@@ -546,17 +556,17 @@ export async function POST(request: NextRequest) {
       console.log('Existing category check result:', existingCategory ? 'exists' : 'not found');
     } catch (error) {
       console.error('Database error during slug check:', error);
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { success: false, error: 'خطا در بررسی تکراری نبودن شناسه' },
         { status: 500 }
-      );
+      ), rateLimitHeaders(rateLimit));
     }
 
     if (existingCategory) {
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { success: false, error: 'شناسه دسته‌بندی تکراری است' },
         { status: 400 }
-      );
+      ), rateLimitHeaders(rateLimit));
     }
 
     // Create the category
@@ -580,25 +590,32 @@ export async function POST(request: NextRequest) {
     } catch (error: unknown) {
       console.error('Error creating category:', error);
       const errorMessage = error instanceof Error ? error.message : 'خطای ناشناخته';
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { 
           success: false, 
           error: 'خطا در ایجاد دسته‌بندی',
           details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
         },
         { status: 500 }
-      );
+      ), rateLimitHeaders(rateLimit));
     }
 
-    return NextResponse.json(
+    await recordAdminAction(request, access.admin.id, {
+      action: 'category.create',
+      entityType: 'CATEGORY',
+      entityId: category.id,
+      after: category
+    });
+
+    return withRateLimitHeaders(NextResponse.json(
       { success: true, data: category },
       { status: 201 }
-    );
+    ), rateLimitHeaders(rateLimit));
   } catch (error) {
     console.error('Error creating category:', error);
-    return NextResponse.json(
+    return withRateLimitHeaders(NextResponse.json(
       { success: false, error: 'خطا در ایجاد دسته‌بندی' },
       { status: 500 }
-    );
+    ), rateLimitHeaders(rateLimit));
   }
 }
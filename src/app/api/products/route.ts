@@ -1,12 +1,13 @@
 import { NextResponse, NextRequest } from 'next/server';
 import { PrismaClient, ProductType, Prisma } from '@prisma/client';
-import { verifyToken } from '../../../../lib/auth';
+import { requirePermission } from '../../../../lib/permissions';
+import { recordAdminAction } from '../../../../lib/audit-log';
 import { z } from 'zod';
 import { updateProductAggregations } from '@lib/product-utils';
 import { generateSKU } from '@lib/sku-utils';
 import { generateBarcode } from '@lib/barcode-utils';
 import cacheUtils from '@lib/cache-utils';
-import { productRateLimiter } from '@lib/rate-limiter';
+import { productRateLimiter, withRateLimitHeaders } from '@lib/rate-limiter';
 
 // Re-export cache config for use in other files
 export const cacheConfig = cacheUtils.cacheConfig;
@@ -31,8 +32,6 @@ type Gender = 'MEN' | 'WOMEN' | 'UNISEX' | 'KIDS' | null;
 
 // Error messages in Farsi for better user experience
 const MESSAGES = {
-  UNAUTHORIZED: 'دسترسی غیر مجاز. لطفا وارد شوید.',
-  INVALID_TOKEN: 'توکن نامعتبر است.',
   NOT_FOUND: 'منبع درخواستی یافت نشد.',
   INVALID_INPUT: 'ورودی نامعتبر است.',
   INTERNAL_ERROR: 'خطای سرور. لطفا بعدا تلاش کنید.',
@@ -155,12 +154,12 @@ export async function GET(request: NextRequest) {
       });
       
       if (cachedResponse) {
-        return NextResponse.json(cachedResponse, {
+        return withRateLimitHeaders(NextResponse.json(cachedResponse, {
           headers: {
             'Content-Type': 'application/json',
             'X-Cache': 'HIT',
           },
-        });
+        }), rateLimit.headers);
       }
     }
     
@@ -221,7 +220,7 @@ export async function GET(request: NextRequest) {
       },
     });
 
-    return NextResponse.json({
+    return withRateLimitHeaders(NextResponse.json({
       data: products,
       meta: {
         total,
@@ -229,10 +228,10 @@ export async function GET(request: NextRequest) {
         limit,
         totalPages: Math.ceil(total / limit),
       },
-    });
+    }), rateLimit.headers);
   } catch (error) {
     console.error('Error fetching products:', error);
-    return new NextResponse('Internal Server Error', { status: 500 });
+    return withRateLimitHeaders(new NextResponse('Internal Server Error', { status: 500 }), rateLimit.headers);
   }
 }
 
@@ -283,47 +282,9 @@ export async function POST(request: NextRequest) {
     return rateLimit.response;
   }
   try {
-    // Check for token in Authorization header first
-    let token: string | null = null;
-    const authHeader = request.headers.get('authorization');
-    
-    if (authHeader?.startsWith('Bearer ')) {
-      token = authHeader.split(' ')[1];
-    } else {
-      // Check for token in cookies
-      const cookieHeader = request.headers.get('cookie');
-      if (cookieHeader) {
-        const cookies = Object.fromEntries(
-          cookieHeader.split(';').map(c => {
-            const [key, ...values] = c.trim().split('=');
-            return [key, values.join('=')];
-          })
-        );
-        token = cookies['adminToken'] || null;
-      }
-    }
-    
-    if (!token) {
-      return new NextResponse(
-        JSON.stringify({ 
-          error: 'Unauthorized: No token provided in Authorization header or cookies',
-          headers: Object.fromEntries(request.headers.entries())
-        }), 
-        { status: 401, headers: { 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const decoded = verifyToken(token);
-    console.log('Decoded token:', decoded);
-    
-    if (!decoded || !decoded.adminId) {
-      return new NextResponse(
-        JSON.stringify({ 
-          error: 'Unauthorized: Invalid or expired token',
-          decoded: decoded
-        }), 
-        { status: 401, headers: { 'Content-Type': 'application/json' } }
-      );
+    const access = await requirePermission(request, 'products:write');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
     }
 
     // Validate request body
@@ -331,10 +292,10 @@ export async function POST(request: NextRequest) {
     const validation = productCreateSchema.safeParse(body);
     
     if (!validation.success) {
-      return new NextResponse(
+      return withRateLimitHeaders(new NextResponse(
         JSON.stringify({ errors: validation.error.flatten() }), 
         { status: 400 }
-      );
+      ), rateLimit.headers);
     }
 
     // Destructure the data we need
@@ -347,10 +308,10 @@ export async function POST(request: NextRequest) {
     });
 
     if (existingSlug) {
-      return new NextResponse(
+      return withRateLimitHeaders(new NextResponse(
         JSON.stringify({ error: 'Slug already exists' }), 
         { status: 400 }
-      );
+      ), rateLimit.headers);
     }
 
     // Check if category exists
@@ -359,10 +320,10 @@ export async function POST(request: NextRequest) {
     });
 
     if (!category) {
-      return new NextResponse(
+      return withRateLimitHeaders(new NextResponse(
         JSON.stringify({ error: 'Category not found' }), 
         { status: 404 }
-      );
+      ), rateLimit.headers);
     }
 
     // Generate timestamp ID (YYYYMMDDHHMMSS)
@@ -403,8 +364,8 @@ slug,
       metaDescription: productData.metaDescription || null,
       totalStock: 0, // Will be updated by updateProductAggregations
       availableSizes: [], // Will be updated by updateProductAggregations
-      createdBy: { connect: { id: decoded.adminId } },
-      updatedBy: { connect: { id: decoded.adminId } },
+      createdBy: { connect: { id: access.admin.id } },
+      updatedBy: { connect: { id: access.admin.id } },
     };
 
     // Check for duplicate variant combinations in the current request
@@ -426,11 +387,11 @@ slug,
         };
       });
       
-      return errorResponse(
+      return withRateLimitHeaders(errorResponse(
         400, 
         'ترکیب سایز و رنگ تکراری در درخواست وجود دارد',
         { duplicates: duplicateDetails }
-      );
+      ), rateLimit.headers);
     }
 
     // Create the product with variants in a transaction
@@ -473,7 +434,14 @@ slug,
       // Invalidate cache for products
       await cacheUtils.clearCacheByPattern();
 
-      return successResponse({
+      await recordAdminAction(request, access.admin.id, {
+        action: 'product.create',
+        entityType: 'PRODUCT',
+        entityId: product.id,
+        after: product
+      });
+
+      return withRateLimitHeaders(successResponse({
         message: 'محصول با موفقیت ایجاد شد',
         product: {
           ...product,
@@ -482,7 +450,7 @@ slug,
             price: v.price?.toNumber() || 0
           }))
         }
-      }, 201);
+      }, 201), rateLimit.headers);
       } catch (error) {
         console.error('Error creating product:', error);
         
@@ -490,36 +458,36 @@ slug,
           if (error.code === 'P2002') {
             const target = error.meta?.target as string[] | undefined;
             if (target?.includes('productId') && target?.includes('size') && target?.includes('color')) {
-              return errorResponse(
+              return withRateLimitHeaders(errorResponse(
                 409,
                 'ترکیب سایز و رنگ تکراری برای این محصول وجود دارد',
                 { 
                   error: 'DUPLICATE_VARIANT',
                   fields: ['size', 'color']
                 }
-              );
+              ), rateLimit.headers);
             }
             
             const field = target?.[0];
             const message = field === 'sku' ? 'کد کالا تکراری است' : 
                           field === 'slug' ? 'آدرس محصول تکراری است' : 
                           'خطا در ذخیره‌سازی محصول';
-            return errorResponse(409, message, { field, code: error.code });
+            return withRateLimitHeaders(errorResponse(409, message, { field, code: error.code }), rateLimit.headers);
           }
           
           if (error.code === 'P2025') {
-            return errorResponse(404, 'دسته‌بندی یافت نشد');
+            return withRateLimitHeaders(errorResponse(404, 'دسته‌بندی یافت نشد'), rateLimit.headers);
           }
         } else if (error instanceof z.ZodError) {
-          return errorResponse(400, 'ورودی نامعتبر است', {
+          return withRateLimitHeaders(errorResponse(400, 'ورودی نامعتبر است', {
             errors: error.errors.map(e => ({
               path: e.path.join('.'),
               message: e.message
             }))
-          });
+          }), rateLimit.headers);
         }
         
-        return errorResponse(500, 'خطای سرور. لطفا بعداً تلاش کنید');
+        return withRateLimitHeaders(errorResponse(500, 'خطای سرور. لطفا بعداً تلاش کنید'), rateLimit.headers);
       }
   } catch (error) {
     console.error('Error creating product:', error);
@@ -530,19 +498,19 @@ slug,
         const message = field === 'sku' ? MESSAGES.DUPLICATE_SKU : 
                         field === 'slug' ? MESSAGES.DUPLICATE_SLUG : 
                         MESSAGES.INTERNAL_ERROR;
-        return errorResponse(409, message, { field, code: error.code });
+        return withRateLimitHeaders(errorResponse(409, message, { field, code: error.code }), rateLimit.headers);
       }
       if (error.code === 'P2025') {
-        return errorResponse(404, MESSAGES.CATEGORY_NOT_FOUND);
+        return withRateLimitHeaders(errorResponse(404, MESSAGES.CATEGORY_NOT_FOUND), rateLimit.headers);
       }
     } else if (error instanceof z.ZodError) {
-      return errorResponse(400, MESSAGES.INVALID_INPUT, {
+      return withRateLimitHeaders(errorResponse(400, MESSAGES.INVALID_INPUT, {
         errors: error.errors.map(e => ({
           path: e.path.join('.'),
           message: e.message
         }))
-      });
+      }), rateLimit.headers);
     }
-    return errorResponse(500, MESSAGES.INTERNAL_ERROR);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
   }
 }
\ No newline at end of file
@@ -0,0 +1,101 @@
+import { NextResponse, NextRequest } from 'next/server';
+import prisma from '@lib/prisma';
+import { authenticateRequest } from '@lib/api-utils';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { ReturnError, cancelReturnRequest, returnRequestInclude } from '@lib/return-utils';
+
+// Error messages in Farsi
+const MESSAGES = {
+  UNAUTHORIZED: 'دسترسی غیر مجاز. لطفا وارد شوید.',
+  NOT_FOUND: 'درخواست مرجوعی یافت نشد.',
+  INTERNAL_ERROR: 'خطای سرور. لطفا بعدا تلاش کنید.',
+  CANCELLED: 'درخواست مرجوعی لغو شد.'
+} as const;
+
+// Helper functions for consistent responses
+function errorResponse(status: number, message: string, details?: Record<string, unknown>) {
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+      ...(details && { details })
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+function successResponse(data: Record<string, unknown>, status = 200) {
+  return NextResponse.json(
+    {
+      success: true,
+      data
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+// GET /api/returns/[id] - Get one of the current user's return requests
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const rateLimit = await rateLimitMiddleware(request, `returns:detail:${params.id}`, 'user');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth.success || !auth.userId) {
+      return withRateLimitHeaders(errorResponse(401, MESSAGES.UNAUTHORIZED), rateLimit.headers);
+    }
+
+    const returnRequest = await prisma.returnRequest.findFirst({
+      where: { id: params.id, userId: auth.userId },
+      include: returnRequestInclude
+    });
+
+    if (!returnRequest) {
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.NOT_FOUND), rateLimit.headers);
+    }
+
+    return withRateLimitHeaders(successResponse({ returnRequest }), rateLimit.headers);
+  } catch (error) {
+    console.error('Error fetching return request:', error);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
+  }
+}
+
+// DELETE /api/returns/[id] - Withdraw a return request that hasn't been reviewed yet
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const rateLimit = await rateLimitMiddleware(request, `returns:cancel:${params.id}`, 'sensitive');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth.success || !auth.userId) {
+      return withRateLimitHeaders(errorResponse(401, MESSAGES.UNAUTHORIZED), rateLimit.headers);
+    }
+
+    const returnRequest = await cancelReturnRequest(params.id, auth.userId);
+
+    return withRateLimitHeaders(successResponse({ returnRequest, message: MESSAGES.CANCELLED }), rateLimit.headers);
+  } catch (error) {
+    if (error instanceof ReturnError) {
+      const status = error.code === 'RETURN_NOT_FOUND' ? 404 : 409;
+      return withRateLimitHeaders(errorResponse(status, error.message, { code: error.code, ...error.details }), rateLimit.headers);
+    }
+
+    console.error('Error cancelling return request:', error);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
+  }
+}
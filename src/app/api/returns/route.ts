@@ -0,0 +1,125 @@
+import { NextResponse, NextRequest } from 'next/server';
+import prisma from '@lib/prisma';
+import { authenticateRequest } from '@lib/api-utils';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import {
+  RETURN_WINDOW_DAYS,
+  ReturnError,
+  createReturnRequest,
+  returnCreateSchema,
+  returnRequestInclude
+} from '@lib/return-utils';
+
+// Error messages in Farsi
+const MESSAGES = {
+  UNAUTHORIZED: 'دسترسی غیر مجاز. لطفا وارد شوید.',
+  INVALID_INPUT: 'ورودی نامعتبر است.',
+  INTERNAL_ERROR: 'خطای سرور. لطفا بعدا تلاش کنید.',
+  CREATED: 'درخواست مرجوعی شما ثبت شد.'
+} as const;
+
+// Helper functions for consistent responses
+function errorResponse(status: number, message: string, details?: Record<string, unknown>) {
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+      ...(details && { details })
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+function successResponse(data: Record<string, unknown>, status = 200) {
+  return NextResponse.json(
+    {
+      success: true,
+      data
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+// GET /api/returns - List the current user's return requests
+export async function GET(request: NextRequest) {
+  const rateLimit = await rateLimitMiddleware(request, 'returns:list', 'user');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth.success || !auth.userId) {
+      return withRateLimitHeaders(errorResponse(401, MESSAGES.UNAUTHORIZED), rateLimit.headers);
+    }
+
+    const { searchParams } = new URL(request.url);
+    const orderId = searchParams.get('orderId');
+
+    const returns = await prisma.returnRequest.findMany({
+      where: {
+        userId: auth.userId,
+        ...(orderId && { orderId })
+      },
+      orderBy: { createdAt: 'desc' },
+      include: returnRequestInclude
+    });
+
+    return withRateLimitHeaders(successResponse({ returns, returnWindowDays: RETURN_WINDOW_DAYS }), rateLimit.headers);
+  } catch (error) {
+    console.error('Error fetching return requests:', error);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
+  }
+}
+
+// POST /api/returns - Open a return request for a delivered order
+export async function POST(request: NextRequest) {
+  const rateLimit = await rateLimitMiddleware(request, 'returns:create', 'sensitive');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth.success || !auth.userId) {
+      return withRateLimitHeaders(errorResponse(401, MESSAGES.UNAUTHORIZED), rateLimit.headers);
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.error('Error parsing request body:', error);
+      return withRateLimitHeaders(errorResponse(400, 'بدنه درخواست نامعتبر است'), rateLimit.headers);
+    }
+
+    const validation = returnCreateSchema.safeParse(body);
+    if (!validation.success) {
+      return withRateLimitHeaders(errorResponse(400, MESSAGES.INVALID_INPUT, {
+        errors: validation.error.flatten()
+      }), rateLimit.headers);
+    }
+
+    const returnRequest = await createReturnRequest(auth.userId, validation.data);
+
+    return withRateLimitHeaders(successResponse({
+      returnRequest,
+      rmaNumber: returnRequest.rmaNumber,
+      message: MESSAGES.CREATED
+    }, 201), rateLimit.headers);
+  } catch (error) {
+    if (error instanceof ReturnError) {
+      const status = error.code === 'ORDER_NOT_FOUND' ? 404
+        : error.code === 'ORDER_NOT_DELIVERED' || error.code === 'RETURN_WINDOW_CLOSED' || error.code === 'ITEM_QUANTITY_EXCEEDED' ? 409
+        : 400;
+      return withRateLimitHeaders(errorResponse(status, error.message, { code: error.code, ...error.details }), rateLimit.headers);
+    }
+
+    console.error('Error creating return request:', error);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
+  }
+}
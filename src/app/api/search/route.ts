@@ -1,7 +1,7 @@
 import { NextResponse, NextRequest } from 'next/server';
 import { PrismaClient, Prisma } from '@prisma/client';
 import cacheUtils from '@lib/cache-utils';
-import { productRateLimiter } from '@lib/rate-limiter';
+import { productRateLimiter, withRateLimitHeaders } from '@lib/rate-limiter';
 
 const prisma = new PrismaClient();
 
@@ -24,10 +24,10 @@ export async function GET(request: NextRequest) {
     
     // Validate query parameter
     if (!query || query.length < 2) {
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { success: false, message: 'لطفا حداقل ۲ کاراکتر برای جستجو وارد کنید.' },
         { status: 400 }
-      );
+      ), rateLimit.headers);
     }
 
     // Check if user is authenticated
@@ -67,24 +67,24 @@ export async function GET(request: NextRequest) {
       const cachedResponse = await cacheUtils.getCachedData(cacheKey, performSearch);
       
       if (cachedResponse) {
-        return NextResponse.json(cachedResponse, {
+        return withRateLimitHeaders(NextResponse.json(cachedResponse, {
           headers: { 'X-Cache': 'HIT' }
-        });
+        }), rateLimit.headers);
       }
     }
 
     // If not cached or authenticated, perform the search
     const response = await performSearch();
 
-    return NextResponse.json(response, {
+    return withRateLimitHeaders(NextResponse.json(response, {
       headers: { 'X-Cache': isAuthenticated ? 'BYPASS' : 'MISS' }
-    });
+    }), rateLimit.headers);
   } catch (error) {
     console.error('Search error:', error);
-    return NextResponse.json(
+    return withRateLimitHeaders(NextResponse.json(
       { success: false, message: MESSAGES.INTERNAL_ERROR },
       { status: 500 }
-    );
+    ), rateLimit.headers);
   }
 }
 
@@ -0,0 +1,143 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { z } from 'zod';
+import prisma from '@lib/prisma';
+import { authenticateRequest } from '@lib/api-utils';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { resolveUnitPrice } from '@lib/pricing-utils';
+import { ShippingError, getShippingQuotes } from '@lib/shipping-utils';
+
+// Error messages in Farsi
+const MESSAGES = {
+  UNAUTHORIZED: 'دسترسی غیر مجاز. لطفا وارد شوید.',
+  INVALID_INPUT: 'ورودی نامعتبر است.',
+  ADDRESS_NOT_FOUND: 'آدرس یافت نشد.',
+  EMPTY_CART: 'سبد خرید خالی است.',
+  INTERNAL_ERROR: 'خطای سرور. لطفا بعدا تلاش کنید.'
+} as const;
+
+// Helper functions for consistent responses
+function errorResponse(status: number, message: string, details?: Record<string, unknown>) {
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+      ...(details && { details })
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+function successResponse(data: Record<string, unknown>, status = 200) {
+  return NextResponse.json(
+    {
+      success: true,
+      data
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' }
+    }
+  );
+}
+
+// items=productId:quantity or productId:variantId:quantity, comma separated
+const itemsParamSchema = z.string().transform((value, ctx) => {
+  return value.split(',').filter(Boolean).map(entry => {
+    const parts = entry.split(':');
+    const quantity = Number(parts[parts.length - 1]);
+    if (parts.length < 2 || parts.length > 3 || !Number.isInteger(quantity) || quantity < 1) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `آیتم نامعتبر: ${entry}` });
+      return z.NEVER;
+    }
+    return {
+      productId: parts[0],
+      variantId: parts.length === 3 ? parts[1] : null,
+      quantity
+    };
+  });
+});
+
+const quoteQuerySchema = z.object({
+  addressId: z.string().optional(),
+  state: z.string().trim().min(1).optional(),
+  city: z.string().trim().min(1).optional(),
+  items: itemsParamSchema.optional()
+}).refine(
+  data => data.addressId || data.state,
+  { message: 'آدرس یا استان مقصد الزامی است', path: ['state'] }
+);
+
+// GET /api/shipping/quote - Price every shipping method for a cart and destination
+//
+// The destination is a saved address (addressId) or a province/city pair.
+// Items come from the query string, or from the signed-in user's cart.
+export async function GET(request: NextRequest) {
+  const rateLimit = await rateLimitMiddleware(request, 'shipping:quote', 'user');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = quoteQuerySchema.safeParse(Object.fromEntries(searchParams));
+    if (!validation.success) {
+      return withRateLimitHeaders(errorResponse(400, MESSAGES.INVALID_INPUT, { errors: validation.error.flatten() }), rateLimit.headers);
+    }
+
+    const query = validation.data;
+    const needsUser = !!query.addressId || !query.items;
+    const auth = needsUser ? await authenticateRequest(request) : null;
+    if (needsUser && (!auth?.success || !auth.userId)) {
+      return withRateLimitHeaders(errorResponse(401, MESSAGES.UNAUTHORIZED), rateLimit.headers);
+    }
+
+    let destination = { state: query.state, city: query.city };
+    if (query.addressId) {
+      const address = await prisma.address.findFirst({
+        where: { id: query.addressId, userId: auth?.userId },
+        select: { state: true, city: true }
+      });
+      if (!address) {
+        return withRateLimitHeaders(errorResponse(404, MESSAGES.ADDRESS_NOT_FOUND), rateLimit.headers);
+      }
+      destination = { state: address.state ?? undefined, city: address.city };
+    }
+
+    let items = query.items;
+    if (!items) {
+      const cart = await prisma.cart.findUnique({
+        where: { userId: auth?.userId },
+        select: { items: { select: { productId: true, variantId: true, quantity: true } } }
+      });
+      items = cart?.items ?? [];
+    }
+    if (items.length === 0) {
+      return withRateLimitHeaders(errorResponse(400, MESSAGES.EMPTY_CART), rateLimit.headers);
+    }
+
+    // The free-shipping threshold is checked against catalogue prices
+    const products = await prisma.product.findMany({
+      where: { id: { in: items.map(item => item.productId) } },
+      select: { id: true, price: true, variants: { select: { id: true, price: true } } }
+    });
+    const subtotal = items.reduce((sum, item) => {
+      const product = products.find(candidate => candidate.id === item.productId);
+      const variant = item.variantId ? product?.variants.find(candidate => candidate.id === item.variantId) : undefined;
+      return product ? sum + resolveUnitPrice(product.price, variant?.price) * item.quantity : sum;
+    }, 0);
+
+    const quote = await getShippingQuotes(items, subtotal, destination);
+
+    return withRateLimitHeaders(successResponse({ ...quote, currency: 'Rials' }), rateLimit.headers);
+  } catch (error) {
+    if (error instanceof ShippingError) {
+      const status = error.code === 'PRODUCT_NOT_FOUND' ? 404 : 400;
+      return withRateLimitHeaders(errorResponse(status, error.message, { code: error.code, ...error.details }), rateLimit.headers);
+    }
+
+    console.error('Error quoting shipping:', error);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
+  }
+}
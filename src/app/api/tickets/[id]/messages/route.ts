@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
 import { authenticateRequest } from '@lib/api-utils';
-import { ticketRateLimiter } from '@lib/rate-limiter';
+import { ticketRateLimiter, withRateLimitHeaders } from '@lib/rate-limiter';
+import { notificationService } from '@lib/notification-service';
+import { publishTicketMessage, publishTicketStatus } from '@lib/realtime-events';
+import { getActiveAdmin, rolesWithPermission, hasPermission } from '@lib/permissions';
+import { recordAdminAction } from '@lib/audit-log';
 import { z } from 'zod';
 
 const prisma = new PrismaClient();
@@ -21,13 +25,20 @@ const MESSAGES = {
 async function getAuthenticatedUser(request: NextRequest) {
   const auth = await authenticateRequest(request);
   if (!auth.success) return null;
-  
-  return {
-    id: auth.adminId!,
-    role: 'ADMIN' // This matches the orders API pattern
-  };
+
+  // Admins work on tickets only as support staff, by their role in the database
+  if (auth.adminId) {
+    const admin = await getActiveAdmin(request);
+    if (!admin) return null;
+    return { id: admin.id, isAdmin: true, permitted: hasPermission(admin.role, 'tickets:manage') };
+  }
+  if (auth.userId) return { id: auth.userId, isAdmin: false, permitted: true };
+  return null;
 }
 
+// Admins told about customer messages on tickets nobody is assigned to
+const TICKET_ALERT_ROLES = rolesWithPermission('tickets:manage');
+
 // Helper functions for consistent responses
 function errorResponse(status: number, message: string, details?: Record<string, unknown>) {
   return NextResponse.json(
@@ -70,11 +81,14 @@ async function handleGet(request: NextRequest, context: { params: { id: string }
   
   // Apply rate limiting
   const rateLimit = await ticketRateLimiter.listMessages(request, ticketId);
-  if (rateLimit) return rateLimit;
+  if (rateLimit.isRateLimited) return rateLimit.response;
   
   const user = await getAuthenticatedUser(request);
   if (!user) {
-    return errorResponse(401, MESSAGES.UNAUTHORIZED);
+    return withRateLimitHeaders(errorResponse(401, MESSAGES.UNAUTHORIZED), rateLimit.headers);
+  }
+  if (!user.permitted) {
+    return withRateLimitHeaders(errorResponse(403, MESSAGES.FORBIDDEN), rateLimit.headers);
   }
   
   try {
@@ -85,12 +99,12 @@ async function handleGet(request: NextRequest, context: { params: { id: string }
     });
 
     if (!ticket) {
-      return errorResponse(404, MESSAGES.TICKET_NOT_FOUND);
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.TICKET_NOT_FOUND), rateLimit.headers);
     }
 
     // Only ticket owner or admin can view messages
-    if (user.role !== 'ADMIN' && ticket.userId !== user.id) {
-      return errorResponse(403, MESSAGES.FORBIDDEN);
+    if (!user.isAdmin && ticket.userId !== user.id) {
+      return withRateLimitHeaders(errorResponse(403, MESSAGES.FORBIDDEN), rateLimit.headers);
     }
 
     const messages = await prisma.ticketMessage.findMany({
@@ -102,10 +116,10 @@ async function handleGet(request: NextRequest, context: { params: { id: string }
       }
     });
 
-    return successResponse({ messages });
+    return withRateLimitHeaders(successResponse({ messages }), rateLimit.headers);
   } catch (error) {
     console.error('Error fetching ticket messages:', error);
-    return errorResponse(500, MESSAGES.INTERNAL_ERROR);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
   }
 }
 
@@ -117,11 +131,14 @@ async function handlePost(request: NextRequest, context: { params: { id: string
   
   // Apply rate limiting
   const rateLimit = await ticketRateLimiter.createMessage(request, ticketId);
-  if (rateLimit) return rateLimit;
+  if (rateLimit.isRateLimited) return rateLimit.response;
   
   const user = await getAuthenticatedUser(request);
   if (!user) {
-    return errorResponse(401, MESSAGES.UNAUTHORIZED);
+    return withRateLimitHeaders(errorResponse(401, MESSAGES.UNAUTHORIZED), rateLimit.headers);
+  }
+  if (!user.permitted) {
+    return withRateLimitHeaders(errorResponse(403, MESSAGES.FORBIDDEN), rateLimit.headers);
   }
   
   try {
@@ -131,17 +148,17 @@ async function handlePost(request: NextRequest, context: { params: { id: string
     });
 
     if (!ticket) {
-      return errorResponse(404, MESSAGES.TICKET_NOT_FOUND);
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.TICKET_NOT_FOUND), rateLimit.headers);
     }
 
     // Check if ticket is closed
     if (ticket.status === 'CLOSED' || ticket.status === 'RESOLVED') {
-      return errorResponse(400, MESSAGES.TICKET_CLOSED);
+      return withRateLimitHeaders(errorResponse(400, MESSAGES.TICKET_CLOSED), rateLimit.headers);
     }
 
     // Check if user has permission to post to this ticket
-    if (user.role !== 'ADMIN' && ticket.userId !== user.id) {
-      return errorResponse(403, MESSAGES.FORBIDDEN);
+    if (!user.isAdmin && ticket.userId !== user.id) {
+      return withRateLimitHeaders(errorResponse(403, MESSAGES.FORBIDDEN), rateLimit.headers);
     }
 
     // Validate request body
@@ -149,13 +166,13 @@ async function handlePost(request: NextRequest, context: { params: { id: string
     const validation = createMessageSchema.safeParse(body);
     
     if (!validation.success) {
-      return errorResponse(400, MESSAGES.INVALID_INPUT, {
+      return withRateLimitHeaders(errorResponse(400, MESSAGES.INVALID_INPUT, {
         errors: validation.error.errors
-      });
+      }), rateLimit.headers);
     }
 
     const { content, attachments } = validation.data;
-    const isAdmin = user.role === 'ADMIN';
+    const isAdmin = user.isAdmin;
 
     // Create the message
     const message = await prisma.ticketMessage.create({
@@ -183,7 +200,7 @@ async function handlePost(request: NextRequest, context: { params: { id: string
       statusUpdate = { status: 'IN_PROGRESS' };
     }
 
-    await prisma.ticket.update({
+    const updatedTicket = await prisma.ticket.update({
       where: { id: ticketId },
       data: {
         ...statusUpdate,
@@ -191,10 +208,41 @@ async function handlePost(request: NextRequest, context: { params: { id: string
       }
     });
 
-    return successResponse({ message }, 201);
+    await publishTicketMessage(updatedTicket, message);
+    if (updatedTicket.status !== ticket.status) {
+      await publishTicketStatus(updatedTicket);
+    }
+
+    if (isAdmin) {
+      // The reply and the status it moved the ticket to
+      await recordAdminAction(request, user.id, {
+        action: 'ticket.reply',
+        entityType: 'TICKET',
+        entityId: ticketId,
+        before: { status: ticket.status },
+        after: { status: updatedTicket.status, messageId: message.id }
+      });
+      await notificationService.notify('TICKET_REPLY', { userId: ticket.userId }, {
+        ticketId,
+        subject: ticket.subject
+      });
+    } else {
+      const alert = {
+        ticketId,
+        subject: ticket.subject,
+        customerName: [message.user?.firstName, message.user?.lastName].filter(Boolean).join(' ') || 'مشتری'
+      };
+      if (ticket.assignedToId) {
+        await notificationService.notify('TICKET_MESSAGE', { adminId: ticket.assignedToId }, alert);
+      } else {
+        await notificationService.notifyAdmins('TICKET_MESSAGE', TICKET_ALERT_ROLES, alert);
+      }
+    }
+
+    return withRateLimitHeaders(successResponse({ message }, 201), rateLimit.headers);
   } catch (error) {
     console.error('Error creating ticket message:', error);
-    return errorResponse(500, MESSAGES.INTERNAL_ERROR);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
   }
 }
 
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient, TicketStatus, TicketPriority } from '@prisma/client';
 import { authenticateRequest } from '../../../../../lib/api-utils';
-import { ticketRateLimiter } from '../../../../../lib/rate-limiter';
+import { ticketRateLimiter, withRateLimitHeaders } from '../../../../../lib/rate-limiter';
+import { publishTicketStatus } from '../../../../../lib/realtime-events';
+import { getActiveAdmin, hasPermission } from '../../../../../lib/permissions';
+import { recordAdminAction } from '../../../../../lib/audit-log';
 import { z } from 'zod';
 
 const prisma = new PrismaClient();
@@ -21,11 +24,15 @@ const MESSAGES = {
 async function getAuthenticatedUser(request: NextRequest) {
   const auth = await authenticateRequest(request);
   if (!auth.success) return null;
-  
-  return {
-    id: auth.adminId!,
-    role: 'ADMIN' // This matches the orders API pattern
-  };
+
+  // Admins work on tickets only as support staff, by their role in the database
+  if (auth.adminId) {
+    const admin = await getActiveAdmin(request);
+    if (!admin) return null;
+    return { id: admin.id, isAdmin: true, adminRole: admin.role, permitted: hasPermission(admin.role, 'tickets:manage') };
+  }
+  if (auth.userId) return { id: auth.userId, isAdmin: false, adminRole: null, permitted: true };
+  return null;
 }
 
 // Helper functions for consistent responses
@@ -73,11 +80,14 @@ async function handleGet(request: NextRequest, context: { params: { id: string }
   
   // Apply rate limiting
   const rateLimit = await ticketRateLimiter.detail(request, ticketId);
-  if (rateLimit) return rateLimit;
+  if (rateLimit.isRateLimited) return rateLimit.response;
   
   const user = await getAuthenticatedUser(request);
   if (!user) {
-    return errorResponse(401, MESSAGES.UNAUTHORIZED);
+    return withRateLimitHeaders(errorResponse(401, MESSAGES.UNAUTHORIZED), rateLimit.headers);
+  }
+  if (!user.permitted) {
+    return withRateLimitHeaders(errorResponse(403, MESSAGES.FORBIDDEN), rateLimit.headers);
   }
   
   try {
@@ -101,18 +111,18 @@ async function handleGet(request: NextRequest, context: { params: { id: string }
     });
 
     if (!ticket) {
-      return errorResponse(404, MESSAGES.TICKET_NOT_FOUND);
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.TICKET_NOT_FOUND), rateLimit.headers);
     }
 
     // Check if user has permission to view this ticket
-    if (user.role !== 'ADMIN' && ticket.userId !== user.id) {
-      return errorResponse(403, MESSAGES.FORBIDDEN);
+    if (!user.isAdmin && ticket.userId !== user.id) {
+      return withRateLimitHeaders(errorResponse(403, MESSAGES.FORBIDDEN), rateLimit.headers);
     }
 
-    return successResponse({ ticket });
+    return withRateLimitHeaders(successResponse({ ticket }), rateLimit.headers);
   } catch (error) {
     console.error('Error fetching ticket:', error);
-    return errorResponse(500, MESSAGES.INTERNAL_ERROR);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
   }
 }
 
@@ -161,7 +171,10 @@ export async function PATCH(
       console.error('❌ Unauthorized access');
       return logAndReturnError(401, MESSAGES.UNAUTHORIZED);
     }
-    console.log('🔵 Authenticated as user:', user.id, user.role);
+    if (!user.permitted) {
+      return logAndReturnError(403, MESSAGES.FORBIDDEN);
+    }
+    console.log('🔵 Authenticated as user:', user.id, user.isAdmin ? 'ADMIN' : 'USER');
 
     // Parse and validate request body
     console.log('🔵 Parsing request body');
@@ -188,7 +201,7 @@ export async function PATCH(
     console.log(`🔵 Fetching ticket ${ticketId}`);
     const existingTicket = await prisma.ticket.findUnique({
       where: { id: ticketId },
-      select: { id: true, userId: true, status: true }
+      select: { id: true, userId: true, status: true, priority: true, assignedToId: true, subject: true, description: true }
     });
     
     if (!existingTicket) {
@@ -199,7 +212,7 @@ export async function PATCH(
 
     // Authorization
     console.log('🔵 Checking authorization');
-    if (user.role !== 'ADMIN' && existingTicket.userId !== user.id) {
+    if (!user.isAdmin && existingTicket.userId !== user.id) {
       console.error(`❌ Forbidden: User ${user.id} cannot modify ticket ${ticketId}`);
       return logAndReturnError(403, MESSAGES.FORBIDDEN);
     }
@@ -208,9 +221,14 @@ export async function PATCH(
     // Prepare update data
     console.log('🔵 Preparing update data');
     let updateData = { ...validation.data };
+
+    // Handing tickets to someone is for admins who run the support queue
+    if (user.isAdmin && updateData.assignedToId !== undefined && !hasPermission(user.adminRole, 'tickets:assign')) {
+      return logAndReturnError(403, MESSAGES.FORBIDDEN);
+    }
     
     // For non-admin users, only allow specific fields
-    if (user.role !== 'ADMIN') {
+    if (!user.isAdmin) {
       const allowedFields = ['description', 'subject'];
       updateData = Object.keys(updateData)
         .filter(key => allowedFields.includes(key))
@@ -233,7 +251,7 @@ export async function PATCH(
         where: { id: ticketId },
         data: updateData,
         include: {
-          assignedTo: user.role === 'ADMIN' ? {
+          assignedTo: user.isAdmin ? {
             select: { id: true, firstName: true, lastName: true }
           } : false,
           user: {
@@ -243,6 +261,18 @@ export async function PATCH(
       });
       
       console.log('✅ Ticket updated successfully');
+      if (updatedTicket.status !== existingTicket.status) {
+        await publishTicketStatus(updatedTicket);
+      }
+      if (user.isAdmin) {
+        await recordAdminAction(request, user.id, {
+          action: 'ticket.update',
+          entityType: 'TICKET',
+          entityId: ticketId,
+          before: existingTicket,
+          after: updateData
+        });
+      }
       return createResponse(200, { ticket: updatedTicket });
       
     } catch (dbError) {
@@ -266,11 +296,14 @@ async function handleDelete(request: NextRequest, context: { params: { id: strin
   
   // Apply rate limiting
   const rateLimit = await ticketRateLimiter.delete(request, ticketId);
-  if (rateLimit) return rateLimit;
+  if (rateLimit.isRateLimited) return rateLimit.response;
   
   const user = await getAuthenticatedUser(request);
   if (!user) {
-    return errorResponse(401, MESSAGES.UNAUTHORIZED);
+    return withRateLimitHeaders(errorResponse(401, MESSAGES.UNAUTHORIZED), rateLimit.headers);
+  }
+  if (!user.permitted) {
+    return withRateLimitHeaders(errorResponse(403, MESSAGES.FORBIDDEN), rateLimit.headers);
   }
   
   try {
@@ -280,24 +313,36 @@ async function handleDelete(request: NextRequest, context: { params: { id: strin
     });
 
     if (!ticket) {
-      return errorResponse(404, MESSAGES.TICKET_NOT_FOUND);
+      return withRateLimitHeaders(errorResponse(404, MESSAGES.TICKET_NOT_FOUND), rateLimit.headers);
     }
 
     // Only admin or the ticket owner can delete
-    if (user.role !== 'ADMIN' && ticket.userId !== user.id) {
-      return errorResponse(403, MESSAGES.FORBIDDEN);
+    if (!user.isAdmin && ticket.userId !== user.id) {
+      return withRateLimitHeaders(errorResponse(403, MESSAGES.FORBIDDEN), rateLimit.headers);
     }
 
     // Soft delete
-    await prisma.ticket.update({
+    const closedTicket = await prisma.ticket.update({
       where: { id: ticketId },
       data: { status: 'CLOSED', closedAt: new Date() }
     });
+    if (ticket.status !== closedTicket.status) {
+      await publishTicketStatus(closedTicket);
+    }
+    if (user.isAdmin) {
+      await recordAdminAction(request, user.id, {
+        action: 'ticket.close',
+        entityType: 'TICKET',
+        entityId: ticketId,
+        before: ticket,
+        after: { status: closedTicket.status, closedAt: closedTicket.closedAt }
+      });
+    }
 
-    return successResponse({ success: true });
+    return withRateLimitHeaders(successResponse({ success: true }), rateLimit.headers);
   } catch (error) {
     console.error('Error deleting ticket:', error);
-    return errorResponse(500, MESSAGES.INTERNAL_ERROR);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
   }
 }
 
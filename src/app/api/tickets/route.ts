@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient, TicketStatus, TicketPriority, TicketCategory } from '@prisma/client';
 import { authenticateRequest } from '../../../../lib/api-utils';
-import { rateLimitMiddleware } from '../../../../lib/rate-limiter';
+import { rateLimitMiddleware, withRateLimitHeaders } from '../../../../lib/rate-limiter';
+import { getActiveAdmin, hasPermission } from '../../../../lib/permissions';
 import { z } from 'zod';
 
 const prisma = new PrismaClient();
@@ -80,16 +81,20 @@ async function getAuthenticatedUser(request: Request) {
   
   // Return either admin or user based on what's available
   if (auth.adminId) {
+    // Checked against the admin's role in the database, not the token's
+    const admin = await getActiveAdmin(request);
+    if (!admin) return null;
     return {
-      id: auth.adminId,
-      role: 'ADMIN' as const,
-      isAdmin: true
+      id: admin.id,
+      isAdmin: true,
+      // Admins work on tickets only as support staff
+      permitted: hasPermission(admin.role, 'tickets:manage')
     };
   } else if (auth.userId) {
     return {
       id: auth.userId,
-      role: 'USER' as const,
-      isAdmin: false
+      isAdmin: false,
+      permitted: true
     };
   }
   
@@ -104,7 +109,10 @@ async function handleGet(request: NextRequest) {
   
   const user = await getAuthenticatedUser(request);
   if (!user) {
-    return errorResponse(401, MESSAGES.UNAUTHORIZED);
+    return withRateLimitHeaders(errorResponse(401, MESSAGES.UNAUTHORIZED), rateLimit.headers);
+  }
+  if (!user.permitted) {
+    return withRateLimitHeaders(errorResponse(403, MESSAGES.FORBIDDEN), rateLimit.headers);
   }
   
   const { searchParams } = new URL(request.url);
@@ -128,12 +136,12 @@ async function handleGet(request: NextRequest) {
     
     // Users can only see their own tickets
     // Admins can see all tickets, but can filter to see just their own with myTickets
-    if (user.role !== 'ADMIN' || myTickets) {
+    if (!user.isAdmin || myTickets) {
       whereConditions.userId = user.id;
     }
     
     // Admins can filter by assigned tickets
-    if (assignedToMe && user.role === 'ADMIN') {
+    if (assignedToMe && user.isAdmin) {
       whereConditions.assignedToId = { equals: user.id };
     }
     
@@ -141,7 +149,7 @@ async function handleGet(request: NextRequest) {
     if (status) whereConditions.status = status;
     if (priority) whereConditions.priority = priority;
     if (category) whereConditions.category = category;
-    if (assignedToMe && user.role === 'ADMIN') {
+    if (assignedToMe && user.isAdmin) {
       whereConditions.assignedToId = user.id;
     }
 
@@ -166,7 +174,7 @@ async function handleGet(request: NextRequest) {
       prisma.ticket.count({ where: whereConditions })
     ]);
 
-    return successResponse({
+    return withRateLimitHeaders(successResponse({
       tickets,
       pagination: {
         total,
@@ -174,10 +182,10 @@ async function handleGet(request: NextRequest) {
         totalPages: Math.ceil(total / limit),
         limit
       }
-    });
+    }), rateLimit.headers);
   } catch (error) {
     console.error('Error fetching tickets:', error);
-    return errorResponse(500, MESSAGES.INTERNAL_ERROR);
+    return withRateLimitHeaders(errorResponse(500, MESSAGES.INTERNAL_ERROR), rateLimit.headers);
   }
 }
 
@@ -189,7 +197,10 @@ async function handlePost(request: NextRequest) {
   
   const user = await getAuthenticatedUser(request);
   if (!user) {
-    return errorResponse(401, MESSAGES.UNAUTHORIZED);
+    return withRateLimitHeaders(errorResponse(401, MESSAGES.UNAUTHORIZED), rateLimit.headers);
+  }
+  if (!user.permitted) {
+    return withRateLimitHeaders(errorResponse(403, MESSAGES.FORBIDDEN), rateLimit.headers);
   }
 
   try {
@@ -197,9 +208,9 @@ async function handlePost(request: NextRequest) {
     const validation = createTicketSchema.safeParse(body);
     
     if (!validation.success) {
-      return errorResponse(400, MESSAGES.INVALID_INPUT, {
+      return withRateLimitHeaders(errorResponse(400, MESSAGES.INVALID_INPUT, {
         errors: validation.error.errors
-      });
+      }), rateLimit.headers);
     }
 
     const { subject, description, category, priority } = validation.data;
@@ -219,7 +230,7 @@ async function handlePost(request: NextRequest) {
       });
       
       if (!admin) {
-        return errorResponse(404, 'Admin not found');
+        return withRateLimitHeaders(errorResponse(404, 'Admin not found'), rateLimit.headers);
       }
       userData = {
         ...admin,
@@ -239,7 +250,7 @@ async function handlePost(request: NextRequest) {
       });
       
       if (!userProfile) {
-        return errorResponse(404, 'User not found');
+        return withRateLimitHeaders(errorResponse(404, 'User not found'), rateLimit.headers);
       }
       userData = {
         ...userProfile,
@@ -288,16 +299,16 @@ async function handlePost(request: NextRequest) {
       status: ticket.status
     });
 
-    return successResponse({ 
+    return withRateLimitHeaders(successResponse({ 
       data: {
         ...ticket,
         messages: ticket.messages || [],
         createdBy: userData
       }
-    }, 201);
+    }, 201), rateLimit.headers);
   } catch (error) {
     console.error('Error creating ticket:', error);
-    return errorResponse(500, 'خطای سرور در ایجاد تیکت');
+    return withRateLimitHeaders(errorResponse(500, 'خطای سرور در ایجاد تیکت'), rateLimit.headers);
   }
 }
 
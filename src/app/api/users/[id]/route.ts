@@ -3,7 +3,9 @@ import { Prisma, UserRole, UserStatus } from '@prisma/client';
 import prisma from '@lib/prisma';
 import { hashPassword } from '@lib/auth';
 import { authenticateRequest } from '@lib/api-utils';
-import { rateLimitMiddleware } from '@lib/rate-limiter';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { adminHasPermission, requirePermission } from '@lib/permissions';
+import { recordAdminAction } from '@lib/audit-log';
 
 // Type guards for enums
 function isUserRole(role: unknown): role is UserRole {
@@ -209,22 +211,14 @@ export async function GET(request: NextRequest, { params }: Params) {
     // Authenticate the request
     const auth = await authenticateRequest(request);
     if (!auth.success) {
-      return auth.response || errorResponse('INVALID_REQUEST');
+      return withRateLimitHeaders(auth.response || errorResponse('INVALID_REQUEST'), rateLimit.headers);
     }
 
     const userId = parseUserId(params.id);
     
-    // Users can only access their own data, unless they're admins
-    if (!auth.adminId) {
-      // For non-admin users, check if they're accessing their own data
-      const currentUser = await prisma.user.findUnique({
-        where: { id: Number(auth.adminId) },
-        select: { id: true }
-      });
-      
-      if (!currentUser || currentUser.id !== userId) {
-        return errorResponse('FORBIDDEN');
-      }
+    // Users can only access their own data, admins need users:view
+    if (auth.adminId ? !(await adminHasPermission(auth.adminId, 'users:view')) : auth.userId !== userId) {
+      return withRateLimitHeaders(errorResponse('FORBIDDEN'), rateLimit.headers);
     }
 
     const user = await prisma.user.findUnique({
@@ -251,13 +245,13 @@ export async function GET(request: NextRequest, { params }: Params) {
     });
 
     if (!user) {
-      return errorResponse('USER_NOT_FOUND');
+      return withRateLimitHeaders(errorResponse('USER_NOT_FOUND'), rateLimit.headers);
     }
 
-    return successResponse(user);
+    return withRateLimitHeaders(successResponse(user), rateLimit.headers);
   } catch (error) {
     console.error('خطا در دریافت اطلاعات کاربر:', error);
-    return errorResponse('SERVER_ERROR', error instanceof Error ? error.message : undefined);
+    return withRateLimitHeaders(errorResponse('SERVER_ERROR', error instanceof Error ? error.message : undefined), rateLimit.headers);
   }
 }
 
@@ -270,22 +264,14 @@ export async function PUT(request: NextRequest, { params }: Params) {
     // Authenticate the request
     const auth = await authenticateRequest(request);
     if (!auth.success) {
-      return auth.response || errorResponse('INVALID_REQUEST');
+      return withRateLimitHeaders(auth.response || errorResponse('INVALID_REQUEST'), rateLimit.headers);
     }
 
     const userId = parseUserId(params.id);
     
-    // Users can only update their own data, unless they're admins
-    if (!auth.adminId) {
-      // For non-admin users, check if they're updating their own data
-      const currentUser = await prisma.user.findUnique({
-        where: { id: Number(auth.adminId) },
-        select: { id: true }
-      });
-      
-      if (!currentUser || currentUser.id !== userId) {
-        return errorResponse('FORBIDDEN');
-      }
+    // Users can only update their own data, admins need users:manage
+    if (auth.adminId ? !(await adminHasPermission(auth.adminId, 'users:manage')) : auth.userId !== userId) {
+      return withRateLimitHeaders(errorResponse('FORBIDDEN'), rateLimit.headers);
     }
     
     // Parse and validate request body
@@ -295,7 +281,7 @@ export async function PUT(request: NextRequest, { params }: Params) {
     } catch (err) {
       const error = err as Error;
       console.error('Error parsing request body:', error);
-      return errorResponse('INVALID_REQUEST', 'Invalid JSON payload');
+      return withRateLimitHeaders(errorResponse('INVALID_REQUEST', 'Invalid JSON payload'), rateLimit.headers);
     }
 
     const { 
@@ -311,10 +297,8 @@ export async function PUT(request: NextRequest, { params }: Params) {
     const existingUser = await prisma.user.findUnique({
       where: { id: userId },
       select: { 
-        id: true, 
-        deletedAt: true,
-        // Include role for role-based field validation
-        role: true 
+        ...userSelect,
+        deletedAt: true
       }
     });
     
@@ -324,23 +308,13 @@ export async function PUT(request: NextRequest, { params }: Params) {
       const restrictedFields = ['role', 'status', 'level', 'emailVerified', 'phoneVerified'];
       for (const field of restrictedFields) {
         if (field in data && data[field] !== undefined) {
-          return errorResponse('FORBIDDEN', `Cannot modify restricted field: ${field}`);
+          return withRateLimitHeaders(errorResponse('FORBIDDEN', `Cannot modify restricted field: ${field}`), rateLimit.headers);
         }
       }
-      
-      // For non-admin users, check if they're modifying their own data
-      const currentUser = await prisma.user.findUnique({
-        where: { id: Number(auth.adminId) },
-        select: { id: true }
-      });
-      
-      if (!currentUser || currentUser.id !== userId) {
-        return errorResponse('FORBIDDEN');
-      }
     }
 
     if (!existingUser || existingUser.deletedAt) {
-      return errorResponse('USER_NOT_FOUND');
+      return withRateLimitHeaders(errorResponse('USER_NOT_FOUND'), rateLimit.headers);
     }
 
     // Prepare update data with proper typing
@@ -427,7 +401,7 @@ export async function PUT(request: NextRequest, { params }: Params) {
     // Validate and handle phone number
     if (phoneNumber !== undefined) {
       if (phoneNumber !== null && !validatePhoneNumber(phoneNumber)) {
-        return errorResponse('INVALID_PHONE');
+        return withRateLimitHeaders(errorResponse('INVALID_PHONE'), rateLimit.headers);
       }
       
       // Handle phone number update with proper type safety
@@ -444,7 +418,7 @@ export async function PUT(request: NextRequest, { params }: Params) {
     // Validate and handle national ID
     if (nationalId !== undefined) {
       if (nationalId && !validateNationalCode(nationalId)) {
-        return errorResponse('INVALID_NATIONAL_ID');
+        return withRateLimitHeaders(errorResponse('INVALID_NATIONAL_ID'), rateLimit.headers);
       }
       // Handle national ID update
       if (nationalId) {
@@ -458,7 +432,7 @@ export async function PUT(request: NextRequest, { params }: Params) {
     // Validate and handle bank card
     if (bankCardNumber !== undefined) {
       if (bankCardNumber && !validateBankCard(bankCardNumber)) {
-        return errorResponse('INVALID_BANK_CARD');
+        return withRateLimitHeaders(errorResponse('INVALID_BANK_CARD'), rateLimit.headers);
       }
       // Handle bank card update
       if (bankCardNumber) {
@@ -472,7 +446,7 @@ export async function PUT(request: NextRequest, { params }: Params) {
     // Validate email if provided
     if (email !== undefined) {
       if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
-        return errorResponse('INVALID_EMAIL');
+        return withRateLimitHeaders(errorResponse('INVALID_EMAIL'), rateLimit.headers);
       }
       // Handle email update
       if (email) {
@@ -507,20 +481,20 @@ export async function PUT(request: NextRequest, { params }: Params) {
 
         if (existingIdentifiers) {
           if (email && existingIdentifiers.email === email) {
-            return errorResponse('EMAIL_EXISTS');
+            return withRateLimitHeaders(errorResponse('EMAIL_EXISTS'), rateLimit.headers);
           }
           if (phoneNumber && existingIdentifiers.phoneNumber === phoneNumber) {
-            return errorResponse('PHONE_EXISTS');
+            return withRateLimitHeaders(errorResponse('PHONE_EXISTS'), rateLimit.headers);
           }
           if (nationalId && existingIdentifiers.nationalId === nationalId) {
-            return errorResponse('NATIONAL_ID_EXISTS');
+            return withRateLimitHeaders(errorResponse('NATIONAL_ID_EXISTS'), rateLimit.headers);
           }
         }
       }
     } catch (err) {
       const error = err as Error;
       console.error('خطا در بررسی تکراری‌ها:', error);
-      return errorResponse('SERVER_ERROR', error.message);
+      return withRateLimitHeaders(errorResponse('SERVER_ERROR', error.message), rateLimit.headers);
     }
 
     // Update user with all validated data
@@ -536,7 +510,17 @@ export async function PUT(request: NextRequest, { params }: Params) {
         select: userSelect,
       });
 
-      return successResponse(updatedUser, 200, 'اطلاعات کاربر با موفقیت به‌روزرسانی شد');
+      if (auth.adminId) {
+        await recordAdminAction(request, auth.adminId, {
+          action: 'user.update',
+          entityType: 'USER',
+          entityId: userId,
+          before: existingUser,
+          after: { ...updatedUser, ...(updatePayload.passwordHash && { passwordHash: updatePayload.passwordHash }) }
+        });
+      }
+
+      return withRateLimitHeaders(successResponse(updatedUser, 200, 'اطلاعات کاربر با موفقیت به‌روزرسانی شد'), rateLimit.headers);
     } catch (err) {
       const error = err as Prisma.PrismaClientKnownRequestError;
       console.error('خطا در به‌روزرسانی کاربر:', error);
@@ -544,20 +528,20 @@ export async function PUT(request: NextRequest, { params }: Params) {
       // Handle Prisma unique constraint errors
       if (error.code === 'P2002') {
         const target = error.meta?.target as string[] | undefined;
-        if (target?.includes('email')) return errorResponse('EMAIL_EXISTS');
-        if (target?.includes('phoneNumber')) return errorResponse('PHONE_EXISTS');
-        if (target?.includes('nationalId')) return errorResponse('NATIONAL_ID_EXISTS');
-        return errorResponse('SERVER_ERROR', `Duplicate entry for field: ${target?.[0] || 'unknown'}`);
+        if (target?.includes('email')) return withRateLimitHeaders(errorResponse('EMAIL_EXISTS'), rateLimit.headers);
+        if (target?.includes('phoneNumber')) return withRateLimitHeaders(errorResponse('PHONE_EXISTS'), rateLimit.headers);
+        if (target?.includes('nationalId')) return withRateLimitHeaders(errorResponse('NATIONAL_ID_EXISTS'), rateLimit.headers);
+        return withRateLimitHeaders(errorResponse('SERVER_ERROR', `Duplicate entry for field: ${target?.[0] || 'unknown'}`), rateLimit.headers);
       }
       if (error.code === 'P2025') {
-        return errorResponse('USER_NOT_FOUND');
+        return withRateLimitHeaders(errorResponse('USER_NOT_FOUND'), rateLimit.headers);
       }
       
       throw error; // Will be caught by the outer catch
     }
   } catch (error) {
     console.error('خطای سرور در به‌روزرسانی کاربر:', error);
-    return errorResponse('SERVER_ERROR', error instanceof Error ? error.message : undefined);
+    return withRateLimitHeaders(errorResponse('SERVER_ERROR', error instanceof Error ? error.message : undefined), rateLimit.headers);
   }
 }
 
@@ -567,66 +551,65 @@ export async function DELETE(request: NextRequest, { params }: Params) {
   if (rateLimit.isRateLimited) return rateLimit.response;
   
   try {
-    // Authenticate the request
-    const auth = await authenticateRequest(request);
-    if (!auth.success) {
-      return auth.response || errorResponse('INVALID_REQUEST');
+    // Only admins with users:manage can delete users
+    const access = await requirePermission(request, 'users:manage');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
     }
 
     const userId = parseUserId(params.id);
     
-    // Only admins can delete users, and they can't delete themselves
-    if (!auth.adminId) {
-      return errorResponse('FORBIDDEN');
-    }
-    
-    // Prevent admins from deleting themselves
-    if (auth.adminId === userId) {
-      return errorResponse('FORBIDDEN', 'Cannot delete your own account');
-    }
-    
     // First verify the user exists and not already deleted
     const user = await prisma.user.findUnique({
       where: { id: userId },
-      select: { id: true, deletedAt: true }
+      select: { id: true, deletedAt: true, status: true }
     });
 
     if (!user) {
-      return errorResponse('USER_NOT_FOUND');
+      return withRateLimitHeaders(errorResponse('USER_NOT_FOUND'), rateLimit.headers);
     }
 
     // Check if already soft-deleted
     if (user.deletedAt) {
-      return successResponse(
+      return withRateLimitHeaders(successResponse(
         null, 
         200, 
         'این کاربر قبلاً حذف شده است'
-      );
+      ), rateLimit.headers);
     }
 
     // Perform soft delete by setting deletedAt
-    await prisma.user.update({
+    const deletedUser = await prisma.user.update({
       where: { id: userId },
       data: { 
         deletedAt: new Date(),
         status: 'INACTIVE',
       },
+      select: { deletedAt: true, status: true }
+    });
+
+    await recordAdminAction(request, access.admin.id, {
+      action: 'user.delete',
+      entityType: 'USER',
+      entityId: userId,
+      before: user,
+      after: deletedUser
     });
 
-    return successResponse(
+    return withRateLimitHeaders(successResponse(
       null, 
       200, 
       'کاربر با موفقیت غیرفعال و به سطل زباله منتقل شد'
-    );
+    ), rateLimit.headers);
   } catch (error) {
     console.error('خطا در حذف کاربر:', error);
     
     if (error instanceof Prisma.PrismaClientKnownRequestError) {
       if (error.code === 'P2025') {
-        return errorResponse('USER_NOT_FOUND');
+        return withRateLimitHeaders(errorResponse('USER_NOT_FOUND'), rateLimit.headers);
       }
     }
     
-    return errorResponse('SERVER_ERROR', error instanceof Error ? error.message : undefined);
+    return withRateLimitHeaders(errorResponse('SERVER_ERROR', error instanceof Error ? error.message : undefined), rateLimit.headers);
   }
 }
@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import prisma from '@lib/prisma';
-import { generateOTP } from '@lib/otp-utils';
-import { sendOTP } from '@lib/kavenegar';
+import { issueOtpChallenge } from '@lib/otp-challenge';
+import { notificationService, wasDelivered } from '@lib/notification-service';
 import { handleError } from '@lib/error-handler';
 
 const requestResetSchema = z.object({
@@ -51,29 +51,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate OTP
-    const otp = generateOTP(6);
-    const otpExpires = new Date();
-    otpExpires.setMinutes(otpExpires.getMinutes() + 15); // 15 minutes expiry
-
-    // In production, store OTP in a secure cache like Redis
-    console.log(`Password reset OTP for ${normalizedPhone}: ${otp}`);
-
     // Send OTP via SMS
-    const otpSent = await sendOTP(normalizedPhone, otp);
-    
-    if (!otpSent) {
-      throw new Error('ارسال کد تایید با خطا مواجه شد');
-    }
-
-    // Store reset token in database (in production, use a separate service)
-    await prisma.user.update({
-      where: { id: user.id },
-      data: {
-        verificationToken: otp,
-        verificationTokenExpires: otpExpires,
-      },
-    });
+    const { expiresAt, resendAfter } = await issueOtpChallenge(
+      normalizedPhone,
+      'PASSWORD_RESET',
+      async (code, expiresInMinutes) => wasDelivered(await notificationService.notify(
+        'PASSWORD_RESET',
+        { userId: user.id, phoneNumber: normalizedPhone, email: null },
+        { code, expiresInMinutes }
+      ))
+    );
 
     return NextResponse.json(
       { 
@@ -82,6 +69,8 @@ export async function POST(request: NextRequest) {
         data: {
           userId: user.id,
           phoneNumber: user.phoneNumber,
+          expiresAt,
+          resendAfter,
         }
       },
       { status: 200 }
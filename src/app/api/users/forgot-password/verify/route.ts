@@ -3,6 +3,8 @@ import { z } from 'zod';
 import prisma from '@lib/prisma';
 import { handleError } from '@lib/error-handler';
 import { hash, compare } from 'bcryptjs';
+import { consumeOtpChallenge, verifyOtpChallenge } from '@lib/otp-challenge';
+import { invalidateUserSession } from '@lib/session-utils';
 
 // Password strength validation
 const passwordSchema = z.string()
@@ -13,8 +15,8 @@ const passwordSchema = z.string()
   .regex(/[0-9]/, 'رمز عبور باید حداقل شامل یک عدد باشد')
   .regex(/[^A-Za-z0-9]/, 'رمز عبور باید حداقل شامل یک کاراکتر خاص باشد');
 
-// Base schema for input validation
-const baseResetPasswordSchema = z.object({
+// Schema for input validation
+const resetPasswordSchema = z.object({
   phoneNumber: z.string()
     .min(10, 'شماره تلفن باید حداقل ۱۰ رقم باشد')
     .max(13, 'شماره تلفن حداکثر باید ۱۳ رقم باشد')
@@ -25,75 +27,11 @@ const baseResetPasswordSchema = z.object({
   newPassword: passwordSchema,
 });
 
-// Extended schema with async validation
-const resetPasswordSchema = baseResetPasswordSchema.superRefine(async (data, ctx) => {
-  // Normalize phone number
-  const normalizedPhone = data.phoneNumber.startsWith('+98') 
-    ? data.phoneNumber 
-    : data.phoneNumber.startsWith('0')
-      ? `+98${data.phoneNumber.substring(1)}`
-      : `+98${data.phoneNumber}`;
-
-  try {
-    // Check if user exists and get current password hash
-    const user = await prisma.user.findFirst({
-      where: { 
-        phoneNumber: normalizedPhone,
-        status: 'ACTIVE',
-        verificationToken: data.otp,
-      },
-      select: {
-        id: true,
-        passwordHash: true,
-        verificationTokenExpires: true,
-      },
-    });
-
-    if (!user) {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        message: 'کد تایید نامعتبر است',
-        path: ['otp']
-      });
-      return;
-    }
-
-    // Check if OTP is expired
-    if (!user.verificationTokenExpires || new Date() > user.verificationTokenExpires) {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        message: 'کد تایید منقضی شده است',
-        path: ['otp']
-      });
-      return;
-    }
-
-    // Check if new password is different from current
-    if (user.passwordHash) {
-      const isSamePassword = await compare(data.newPassword, user.passwordHash);
-      if (isSamePassword) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          message: 'رمز عبور جدید نباید با رمز عبور قبلی یکسان باشد',
-          path: ['newPassword']
-        });
-      }
-    }
-  } catch (err) {
-    console.error('Error in forgot-password verify:', err);
-    ctx.addIssue({
-      code: z.ZodIssueCode.custom,
-      message: 'خطا در بررسی اطلاعات',
-      path: ['server']
-    });
-  }
-});
-
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     // Parse and validate the request body
-    const result = await resetPasswordSchema.safeParseAsync(body);
+    const result = resetPasswordSchema.safeParse(body);
     
     if (!result.success) {
       const errorMap: Record<string, string> = {};
@@ -128,10 +66,10 @@ export async function POST(request: NextRequest) {
       where: { 
         phoneNumber: normalizedPhone,
         status: 'ACTIVE',
-        verificationToken: otp,
       },
       select: {
         id: true,
+        passwordHash: true,
       },
     });
 
@@ -139,28 +77,48 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(
         { 
           success: false, 
-          error: 'خطای سرور',
-          message: 'خطایی رخ داده است. لطفاً دوباره تلاش کنید'
+          error: 'خطای اعتبارسنجی',
+          message: 'لطفاً اطلاعات را بررسی کنید',
+          errors: { otp: 'کد تایید نامعتبر است' }
+        },
+        { status: 400 }
+      );
+    }
+
+    // The code stays usable until the new password is accepted
+    const challengeId = await verifyOtpChallenge(normalizedPhone, 'PASSWORD_RESET', otp, { consume: false });
+
+    // Check if new password is different from current
+    if (user.passwordHash && await compare(newPassword, user.passwordHash)) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'خطای اعتبارسنجی',
+          message: 'لطفاً اطلاعات را بررسی کنید',
+          errors: { newPassword: 'رمز عبور جدید نباید با رمز عبور قبلی یکسان باشد' }
         },
-        { status: 500 }
+        { status: 400 }
       );
     }
 
+    await consumeOtpChallenge(challengeId);
+
     // Hash the new password
     const hashedPassword = await hash(newPassword, 10);
 
-    // Update password and clear verification token
+    // Update password
     await prisma.user.update({
       where: { id: user.id },
       data: {
         passwordHash: hashedPassword,
-        verificationToken: null,
-        verificationTokenExpires: null,
         failedLoginAttempts: 0, // Reset failed login attempts
         lockedUntil: null, // Unlock account if it was locked
       },
     });
 
+    // Sign out every device, in case the old password was what got someone in
+    await invalidateUserSession(user.id);
+
     return NextResponse.json(
       { 
         success: true, 
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import prisma from '../../../../../../../lib/prisma';
-import { generateOTP } from '../../../../../../../lib/otp-utils';
+import { issueOtpChallenge } from '../../../../../../../lib/otp-challenge';
 import { sendOTP } from '../../../../../../../lib/kavenegar';
 import { handleError } from '../../../../../../../lib/error-handler';
 import { normalizePhoneNumber } from '../../../../../../../lib/phone-utils';
@@ -17,25 +17,13 @@ const requestOTPSchema = z.object({
 });
 
 export async function POST(request: NextRequest) {
-  console.log('=== OTP Request Debug ===');
-  console.log('Request URL:', request.url);
-  console.log('Request Headers:', Object.fromEntries(request.headers.entries()));
-  
   try {
-    console.log('Parsing request body...');
     const body = await request.json();
-    console.log('Request Body:', body);
-    
-    console.log('Validating phone number...');
     const { phoneNumber } = requestOTPSchema.parse(body);
-    console.log('Validated phone number:', phoneNumber);
-    
+
     // Normalize phone number
-    console.log('Normalizing phone number...');
     const normalizedPhone = normalizePhoneNumber(phoneNumber);
-    console.log('Normalized phone number:', normalizedPhone);
-    
-    console.log('Checking if user exists...');
+
     // Check if user exists (allow both ACTIVE and PHONE_VERIFICATION_PENDING statuses)
     const user = await prisma.user.findFirst({
       where: { 
@@ -52,7 +40,6 @@ export async function POST(request: NextRequest) {
     });
 
     if (!user) {
-      console.log('User not found with phone number:', normalizedPhone);
       return NextResponse.json(
         { 
           success: false, 
@@ -67,35 +54,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate OTP
-    console.log('Generating OTP...');
-    const otp = generateOTP(6);
-    const otpExpires = new Date();
-    otpExpires.setMinutes(otpExpires.getMinutes() + 15); // 15 minutes expiry
-
-    // Log OTP generation (in production, this should be stored in a secure cache like Redis)
-    console.log('OTP Details:', {
-      phoneNumber: normalizedPhone,
-      otp,
-      expiresAt: otpExpires.toISOString(),
-      userId: user.id
-    });
-
     // Send OTP via SMS
-    const otpSent = await sendOTP(normalizedPhone, otp);
-    
-    if (!otpSent) {
-      throw new Error('ارسال کد تایید با خطا مواجه شد');
-    }
-
-    // Update user with verification token
-    await prisma.user.update({
-      where: { id: user.id },
-      data: {
-        verificationToken: otp,
-        verificationTokenExpires: otpExpires,
-      },
-    });
+    const { expiresAt, resendAfter } = await issueOtpChallenge(
+      normalizedPhone,
+      'LOGIN',
+      code => sendOTP(normalizedPhone, code)
+    );
 
     return NextResponse.json(
       { 
@@ -104,6 +68,8 @@ export async function POST(request: NextRequest) {
         data: {
           userId: user.id,
           phoneNumber: user.phoneNumber,
+          expiresAt,
+          resendAfter,
         }
       },
       { status: 200 }
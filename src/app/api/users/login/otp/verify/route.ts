@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { sign } from 'jsonwebtoken';
 import prisma from '../../../../../../../lib/prisma';
 import { handleError } from '../../../../../../../lib/error-handler';
+import { verifyOtpChallenge } from '../../../../../../../lib/otp-challenge';
+import { clearGuestCartCookie, mergeGuestCartOnLogin } from '../../../../../../../lib/guest-cart';
+import { createUserSession, getSessionClient, setUserAuthCookies, toTokenResponse } from '../../../../../../../lib/session-utils';
 
 const verifyOTPLoginSchema = z.object({
   phoneNumber: z.string()
@@ -16,24 +18,12 @@ const verifyOTPLoginSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
-    // Log request headers
-    const headers: Record<string, string> = {};
-    request.headers.forEach((value, key) => {
-      headers[key] = value;
-    });
-    console.log('Request headers:', JSON.stringify(headers, null, 2));
-    
-    // Get raw body text for debugging
+    // Parse JSON body. Nothing from the request is logged: it carries the OTP.
     const rawBody = await request.text();
-    console.log('Raw request body:', rawBody);
-    
-    // Parse JSON body
     let body;
     try {
       body = rawBody ? JSON.parse(rawBody) : null;
-      console.log('Parsed request body:', JSON.stringify(body, null, 2));
-    } catch (parseError) {
-      console.error('Error parsing JSON body:', parseError);
+    } catch {
       return NextResponse.json(
         { success: false, error: 'Invalid JSON format in request body' },
         { status: 400 }
@@ -72,13 +62,12 @@ export async function POST(request: NextRequest) {
         ? `+98${phoneNumber.substring(1)}`
         : `+98${phoneNumber}`;
     
-    // Find the user with verification token
+    // Find the user the code was sent to
     const user = await prisma.user.findFirst({
       where: { 
         phoneNumber: normalizedPhone,
-        verificationToken: otp,
-        verificationTokenExpires: { 
-          gte: new Date() 
+        status: {
+          in: ['ACTIVE', 'PHONE_VERIFICATION_PENDING']
         }
       },
       select: {
@@ -113,12 +102,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Update user status and clear verification data
+    // Wrong codes count towards a lockout
+    await verifyOtpChallenge(user.phoneNumber, 'LOGIN', otp);
+
+    // Update user status
     await prisma.user.update({
       where: { id: user.id },
       data: { 
-        verificationToken: null,
-        verificationTokenExpires: null,
         failedLoginAttempts: 0,
         lastLoginAt: new Date(),
         phoneVerified: true,
@@ -126,20 +116,11 @@ export async function POST(request: NextRequest) {
       }
     });
 
-    if (!process.env.JWT_SECRET) {
-      throw new Error('JWT_SECRET is not defined in environment variables');
-    }
+    // Whatever the visitor put in their cart before signing in carries over
+    const cartMerge = await mergeGuestCartOnLogin(request, user.id);
 
-    // Create JWT token
-    const token = sign(
-      { 
-        userId: user.id,
-        phoneNumber: user.phoneNumber,
-        type: 'user'
-      },
-      process.env.JWT_SECRET,
-      { expiresIn: '30d' }
-    );
+    // Short-lived access token plus a rotating refresh token
+    const tokens = await createUserSession(user.id, getSessionClient(request));
 
     // Set HTTP-only cookie
     const response = NextResponse.json(
@@ -148,21 +129,19 @@ export async function POST(request: NextRequest) {
         message: 'ورود با موفقیت انجام شد',
         data: {
           userId: user.id,
-          phoneNumber: user.phoneNumber
+          phoneNumber: user.phoneNumber,
+          tokens: toTokenResponse(tokens),
+          ...(cartMerge && { cartMerge })
         }
       },
       { status: 200 }
     );
 
-    response.cookies.set({
-      name: 'auth_token',
-      value: token,
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 30 * 24 * 60 * 60, // 30 days
-      path: '/',
-    });
+    setUserAuthCookies(response, tokens);
+
+    if (cartMerge) {
+      clearGuestCartCookie(response);
+    }
 
     return response;
 
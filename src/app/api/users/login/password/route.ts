@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import prisma from '@lib/prisma';
 import { handleError } from '@lib/error-handler';
-import { sign } from 'jsonwebtoken';
+import { clearGuestCartCookie, mergeGuestCartOnLogin } from '@lib/guest-cart';
+import { createUserSession, getSessionClient, setUserAuthCookies, toTokenResponse } from '@lib/session-utils';
 import { compare } from 'bcryptjs';
 
 const loginSchema = z.object({
@@ -125,12 +126,11 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    // Generate JWT token
-    const token = sign(
-      { userId: user.id },
-      process.env.JWT_SECRET as string,
-      { expiresIn: '30d' }
-    );
+    // Whatever the visitor put in their cart before signing in carries over
+    const cartMerge = await mergeGuestCartOnLogin(request, user.id);
+
+    // Short-lived access token plus a rotating refresh token
+    const tokens = await createUserSession(user.id, getSessionClient(request));
 
     // Set HTTP-only cookie
     const response = NextResponse.json(
@@ -145,20 +145,18 @@ export async function POST(request: NextRequest) {
             firstName: user.firstName,
             lastName: user.lastName,
           },
+          tokens: toTokenResponse(tokens),
+          ...(cartMerge && { cartMerge }),
         }
       },
       { status: 200 }
     );
 
-    response.cookies.set({
-      name: 'auth_token',
-      value: token,
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 30 * 24 * 60 * 60, // 30 days
-      path: '/',
-    });
+    setUserAuthCookies(response, tokens);
+
+    if (cartMerge) {
+      clearGuestCartCookie(response);
+    }
 
     return response;
 
@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAuthToken, invalidateSession } from '../../../../../lib/auth-utils';
+import { verifyToken } from '../../../../../lib/auth';
+import {
+  clearUserAuthCookies,
+  getUserRefreshToken,
+  invalidateUserSession,
+  revokeUserRefreshToken
+} from '../../../../../lib/session-utils';
 
 // Helper to create a response with cleared cookies
 const createClearedCookiesResponse = (status: number, message: string, success: boolean, requestId: string) => {
@@ -34,6 +40,9 @@ const createClearedCookiesResponse = (status: number, message: string, success:
     });
   });
 
+  // The refresh cookie is scoped to /api/users and must be cleared there
+  clearUserAuthCookies(response);
+
   return response;
 };
 
@@ -64,17 +73,19 @@ export async function POST(request: NextRequest) {
     const authToken = request.cookies.get('auth_token')?.value;
     const userAuthToken = request.cookies.get('user_auth_token')?.value;
     const token = userToken || authToken || userAuthToken;
+    const refreshToken = getUserRefreshToken(request);
     
     debugLog('Token check:', {
       hasUserToken: !!userToken,
       hasAuthToken: !!authToken,
       hasUserAuthToken: !!userAuthToken,
+      hasRefreshToken: !!refreshToken,
       tokenLength: token?.length,
       tokenPrefix: token ? token.substring(0, 10) + '...' : null
     });
     
     // If there's no token, the user is already logged out
-    if (!token) {
+    if (!token && !refreshToken) {
       debugLog('No valid auth token found in cookies');
       return createClearedCookiesResponse(
         200,
@@ -85,41 +96,25 @@ export async function POST(request: NextRequest) {
     }
 
     try {
-      // Verify the token to get the session ID
-      debugLog('Starting token verification...');
-      let payload;
-      try {
-        debugLog('Calling verifyAuthToken...');
-        payload = await verifyAuthToken(token, 'USER');
-        debugLog('Token verification completed', { 
+      // The refresh token still identifies the session after the access token has expired
+      if (refreshToken) {
+        debugLog('Revoking session by refresh token...');
+        await revokeUserRefreshToken(refreshToken);
+        debugLog('Session invalidation successful');
+      } else if (token) {
+        debugLog('Starting token verification...');
+        const payload = verifyToken(token);
+        debugLog('Token verification completed', {
           hasPayload: !!payload,
-          userId: payload?.userId,
-          sessionId: payload?.sessionId ? '***' + payload.sessionId.slice(-4) : null
+          userId: payload?.userId
         });
-        
-        // Invalidate the session on the server side if payload exists
-        if (payload) {
-          debugLog('Starting session invalidation...', {
-            userId: payload.userId,
-            sessionId: '***' + payload.sessionId.slice(-4)
-          });
-          
-          try {
-            await invalidateSession(payload.userId, payload.sessionId);
-            debugLog('Session invalidation successful');
-          } catch (invalidateError) {
-            debugLog('Error during session invalidation:', invalidateError);
-            // Continue with logout even if invalidation fails
-          }
+
+        if (payload?.userId) {
+          await invalidateUserSession(payload.userId, payload.sessionId);
+          debugLog('Session invalidation successful');
         } else {
-          debugLog('No payload returned from verifyAuthToken');
+          debugLog('No user session in token');
         }
-      } catch (error) {
-        debugLog('Error during token verification:', {
-          error: error instanceof Error ? error.message : String(error),
-          stack: error instanceof Error ? error.stack : undefined
-        });
-        // Continue with logout even if verification fails
       }
     } catch (error) {
       console.error('Error during session invalidation:', error);
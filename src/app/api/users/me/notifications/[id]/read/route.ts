@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@lib/api-utils';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { markNotificationRead } from '@lib/notification-inbox';
+
+// POST /api/users/me/notifications/[id]/read - Mark one notification read
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(
+    request,
+    'users:notifications:read',
+    'user'
+  );
+
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return withRateLimitHeaders(NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      ), rateLimit.headers);
+    }
+
+    const notification = await markNotificationRead({ userId: authResult.userId }, params.id);
+    if (!notification) {
+      return withRateLimitHeaders(NextResponse.json(
+        { success: false, message: 'Notification not found' },
+        { status: 404 }
+      ), rateLimit.headers);
+    }
+
+    return withRateLimitHeaders(NextResponse.json({ success: true, data: notification }), rateLimit.headers);
+  } catch (error) {
+    console.error('Error marking notification read:', error);
+    return withRateLimitHeaders(NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    ), rateLimit.headers);
+  }
+}
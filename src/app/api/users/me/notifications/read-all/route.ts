@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@lib/api-utils';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { markAllNotificationsRead } from '@lib/notification-inbox';
+
+// POST /api/users/me/notifications/read-all - Mark every notification of the current user read
+export async function POST(request: NextRequest) {
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(
+    request,
+    'users:notifications:read-all',
+    'user'
+  );
+
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return withRateLimitHeaders(NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      ), rateLimit.headers);
+    }
+
+    const marked = await markAllNotificationsRead({ userId: authResult.userId });
+
+    return withRateLimitHeaders(NextResponse.json({ success: true, data: { marked } }), rateLimit.headers);
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+    return withRateLimitHeaders(NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    ), rateLimit.headers);
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@lib/api-utils';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { countUnreadNotifications } from '@lib/notification-inbox';
+
+// GET /api/users/me/notifications/unread-count - Unread notifications of the current user
+export async function GET(request: NextRequest) {
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(
+    request,
+    'users:notifications:unread',
+    'user',
+    'detail'
+  );
+
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return withRateLimitHeaders(NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      ), rateLimit.headers);
+    }
+
+    const unreadCount = await countUnreadNotifications({ userId: authResult.userId });
+
+    return withRateLimitHeaders(NextResponse.json({ success: true, data: { unreadCount } }), rateLimit.headers);
+  } catch (error) {
+    console.error('Error counting unread notifications:', error);
+    return withRateLimitHeaders(NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    ), rateLimit.headers);
+  }
+}
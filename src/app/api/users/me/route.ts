@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import prisma from '@lib/prisma';
 import { authenticateRequest } from '@lib/api-utils';
-import { rateLimitMiddleware } from '@lib/rate-limiter';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
 
 // Input validation schema
 const updateProfileSchema = z.object({
@@ -18,26 +18,26 @@ const updateProfileSchema = z.object({
 
 // GET /api/users/me - Get current user profile
 export async function GET(request: NextRequest) {
-  try {
-    // Apply rate limiting
-    const rateLimit = await rateLimitMiddleware(
-      request,
-      'users:profile:get',
-      'user',
-      'detail'
-    );
-    
-    if (rateLimit.isRateLimited) {
-      return rateLimit.response;
-    }
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(
+    request,
+    'users:profile:get',
+    'user',
+    'detail'
+  );
+  
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
 
+  try {
     // Authenticate user
     const authResult = await authenticateRequest(request);
     if (!authResult.success || !authResult.userId) {
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { success: false, message: 'Unauthorized' },
         { status: 401 }
-      );
+      ), rateLimit.headers);
     }
 
     // Get user profile
@@ -59,44 +59,44 @@ export async function GET(request: NextRequest) {
     });
 
     if (!user) {
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { success: false, message: 'User not found' },
         { status: 404 }
-      );
+      ), rateLimit.headers);
     }
 
-    return NextResponse.json({ success: true, data: user });
+    return withRateLimitHeaders(NextResponse.json({ success: true, data: user }), rateLimit.headers);
   } catch (error) {
     console.error('Error fetching user profile:', error);
-    return NextResponse.json(
+    return withRateLimitHeaders(NextResponse.json(
       { success: false, message: 'Internal server error' },
       { status: 500 }
-    );
+    ), rateLimit.headers);
   }
 }
 
 // PATCH /api/users/me - Update current user profile
 export async function PATCH(request: NextRequest) {
-  try {
-    // Apply rate limiting
-    const rateLimit = await rateLimitMiddleware(
-      request,
-      'users:profile:update',
-      'user',
-      'update'
-    );
-    
-    if (rateLimit.isRateLimited) {
-      return rateLimit.response;
-    }
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(
+    request,
+    'users:profile:update',
+    'user',
+    'update'
+  );
+  
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
 
+  try {
     // Authenticate user
     const authResult = await authenticateRequest(request);
     if (!authResult.success || !authResult.userId) {
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { success: false, message: 'Unauthorized' },
         { status: 401 }
-      );
+      ), rateLimit.headers);
     }
 
     // Parse and validate request body
@@ -106,23 +106,23 @@ export async function PATCH(request: NextRequest) {
     // Check if phone number is being updated (only admins can change this)
     if ('phoneNumber' in updateData) {
       console.log(`User ${authResult.userId} attempted to change phone number - operation blocked`);
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { 
           success: false, 
           message: 'شماره تلفن قابل تغییر نیست',
           error: 'تغییر شماره تلفن فقط توسط مدیر سیستم امکان پذیر است. لطفا با پشتیبانی تماس بگیرید.'
         },
         { status: 403 }
-      );
+      ), rateLimit.headers);
     }
 
     // Validate request body
     const validation = updateProfileSchema.safeParse(updateData);
     if (!validation.success) {
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         { success: false, message: 'Validation error', errors: validation.error.errors },
         { status: 400 }
-      );
+      ), rateLimit.headers);
     }
 
     // Check if email already exists
@@ -135,10 +135,10 @@ export async function PATCH(request: NextRequest) {
       });
 
       if (existingUser) {
-        return NextResponse.json(
+        return withRateLimitHeaders(NextResponse.json(
           { success: false, message: 'Email already in use' },
           { status: 400 }
-        );
+        ), rateLimit.headers);
       }
     }
 
@@ -168,16 +168,16 @@ export async function PATCH(request: NextRequest) {
       },
     });
 
-    return NextResponse.json({
+    return withRateLimitHeaders(NextResponse.json({
       success: true,
       message: 'Profile updated successfully',
       data: updatedUser
-    });
+    }), rateLimit.headers);
   } catch (error) {
     console.error('Error updating user profile:', error);
-    return NextResponse.json(
+    return withRateLimitHeaders(NextResponse.json(
       { success: false, message: 'Internal server error' },
       { status: 500 }
-    );
+    ), rateLimit.headers);
   }
 }
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@lib/api-utils';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { invalidateOtherUserSessions } from '@lib/session-utils';
+
+// POST /api/users/me/sessions/revoke-others - Sign out of every other device
+export async function POST(request: NextRequest) {
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(
+    request,
+    'users:sessions:revoke-others',
+    'user'
+  );
+
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId || !authResult.sessionId) {
+      return withRateLimitHeaders(NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      ), rateLimit.headers);
+    }
+
+    const revoked = await invalidateOtherUserSessions(authResult.userId, authResult.sessionId);
+
+    return withRateLimitHeaders(NextResponse.json({ success: true, data: { revoked } }), rateLimit.headers);
+  } catch (error) {
+    console.error('Error revoking other sessions:', error);
+    return withRateLimitHeaders(NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    ), rateLimit.headers);
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@lib/api-utils';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { listUserSessions } from '@lib/session-utils';
+
+// GET /api/users/me/sessions - List the devices the current user is signed in on
+//
+// The session making the request is flagged `current`.
+export async function GET(request: NextRequest) {
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(
+    request,
+    'users:sessions:list',
+    'user'
+  );
+
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return withRateLimitHeaders(NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      ), rateLimit.headers);
+    }
+
+    const sessions = await listUserSessions(authResult.userId, authResult.sessionId);
+
+    return withRateLimitHeaders(NextResponse.json({ success: true, data: { sessions } }), rateLimit.headers);
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    return withRateLimitHeaders(NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    ), rateLimit.headers);
+  }
+}
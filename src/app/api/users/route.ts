@@ -2,8 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { Prisma, UserRole, UserStatus } from '@prisma/client';
 import prisma from '@lib/prisma';
 import { hashPassword } from '@lib/auth';
-import { authenticateRequest } from '@lib/api-utils';
-import { rateLimitMiddleware } from '@lib/rate-limiter';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
+import { requirePermission } from '@lib/permissions';
 import { 
   validatePhoneNumber, 
   validateBankCard, 
@@ -43,6 +43,11 @@ const errorMessages = {
     error: 'درخواست نامعتبر',
     message: 'درخواست ارسال شده معتبر نمی‌باشد'
   },
+  FORBIDDEN: {
+    status: 403,
+    error: 'دسترسی غیرمجاز',
+    message: 'شما مجوز دسترسی به این منبع را ندارید'
+  },
   INVALID_REQUEST_BODY: {
     status: 400,
     error: 'بدنه درخواست نامعتبر است',
@@ -174,15 +179,10 @@ export async function GET(request: NextRequest) {
   if (rateLimit.isRateLimited) return rateLimit.response;
   
   try {
-    // Authenticate the request
-    const auth = await authenticateRequest(request);
-    if (!auth.success) {
-      return auth.response || errorResponse('INVALID_REQUEST');
-    }
-
-    // Only admin can list all users
-    if (!auth.adminId) {
-      return errorResponse('INVALID_REQUEST');
+    // Only admins with users:view can list all users
+    const access = await requirePermission(request, 'users:view');
+    if (!access.success) {
+      return withRateLimitHeaders(access.response, rateLimit.headers);
     }
 
     const users = await prisma.user.findMany({
@@ -191,10 +191,10 @@ export async function GET(request: NextRequest) {
       orderBy: { createdAt: 'desc' },
     });
     
-    return successResponse(users);
+    return withRateLimitHeaders(successResponse(users), rateLimit.headers);
   } catch (error) {
     console.error('خطا در دریافت لیست کاربران:', error);
-    return errorResponse('SERVER_ERROR', error instanceof Error ? error.message : undefined);
+    return withRateLimitHeaders(errorResponse('SERVER_ERROR', error instanceof Error ? error.message : undefined), rateLimit.headers);
   }
 }
 
@@ -226,15 +226,15 @@ export async function POST(request: NextRequest) {
       
       // Validate required fields
       if (!body || typeof body !== 'object') {
-        return errorResponse('INVALID_REQUEST_BODY');
+        return withRateLimitHeaders(errorResponse('INVALID_REQUEST_BODY'), rateLimit.headers);
       }
 
       // Validate required fields based on the request
       if (!body.email && !body.phoneNumber) {
-        return errorResponse('EMAIL_OR_PHONE_REQUIRED');
+        return withRateLimitHeaders(errorResponse('EMAIL_OR_PHONE_REQUIRED'), rateLimit.headers);
       }
       if (!body.password) {
-        return errorResponse('PASSWORD_REQUIRED');
+        return withRateLimitHeaders(errorResponse('PASSWORD_REQUIRED'), rateLimit.headers);
       }
       
       data = {
@@ -253,9 +253,9 @@ export async function POST(request: NextRequest) {
     } catch (err) {
       console.error('Error parsing request body:', err);
       if (err instanceof SyntaxError) {
-        return errorResponse('INVALID_JSON');
+        return withRateLimitHeaders(errorResponse('INVALID_JSON'), rateLimit.headers);
       }
-      return errorResponse('INVALID_REQUEST');
+      return withRateLimitHeaders(errorResponse('INVALID_REQUEST'), rateLimit.headers);
     }
 
     const {
@@ -286,34 +286,34 @@ export async function POST(request: NextRequest) {
 
     // Basic validation
     if ((!email && !phoneNumber) || !password) {
-      return errorResponse('MISSING_CREDENTIALS');
+      return withRateLimitHeaders(errorResponse('MISSING_CREDENTIALS'), rateLimit.headers);
     }
 
     // Validate email format if provided
     if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
-      return errorResponse('INVALID_EMAIL');
+      return withRateLimitHeaders(errorResponse('INVALID_EMAIL'), rateLimit.headers);
     }
 
     // Validate phone number format if provided
     if (phoneNumber && !validatePhoneNumber(phoneNumber)) {
-      return errorResponse('INVALID_PHONE');
+      return withRateLimitHeaders(errorResponse('INVALID_PHONE'), rateLimit.headers);
     }
 
     // Validate password strength
     if (!isStrongPassword(password)) {
-      return errorResponse('WEAK_PASSWORD');
+      return withRateLimitHeaders(errorResponse('WEAK_PASSWORD'), rateLimit.headers);
     }
 
     // Validate national ID if provided
     if (nationalId !== undefined) {
       if (nationalId && !validateNationalCode(nationalId)) {
-        return errorResponse('INVALID_NATIONAL_ID');
+        return withRateLimitHeaders(errorResponse('INVALID_NATIONAL_ID'), rateLimit.headers);
       }
     }
 
     // Validate bank card number if provided
     if (bankCardNumber && !validateBankCard(bankCardNumber)) {
-      return errorResponse('INVALID_BANK_CARD');
+      return withRateLimitHeaders(errorResponse('INVALID_BANK_CARD'), rateLimit.headers);
     }
 
     // Check for existing user with same identifiers
@@ -333,14 +333,14 @@ export async function POST(request: NextRequest) {
         });
 
         if (existingUser) {
-          if (email && existingUser.email === email) return errorResponse('EMAIL_EXISTS');
-          if (phoneNumber && existingUser.phoneNumber === phoneNumber) return errorResponse('PHONE_EXISTS');
-          if (nationalId && existingUser.nationalId === nationalId) return errorResponse('NATIONAL_ID_EXISTS');
+          if (email && existingUser.email === email) return withRateLimitHeaders(errorResponse('EMAIL_EXISTS'), rateLimit.headers);
+          if (phoneNumber && existingUser.phoneNumber === phoneNumber) return withRateLimitHeaders(errorResponse('PHONE_EXISTS'), rateLimit.headers);
+          if (nationalId && existingUser.nationalId === nationalId) return withRateLimitHeaders(errorResponse('NATIONAL_ID_EXISTS'), rateLimit.headers);
         }
       }
     } catch (error) {
       console.error('خطا در بررسی تکراری‌ها:', error);
-      return errorResponse('SERVER_ERROR', error instanceof Error ? error.message : 'Unknown error');
+      return withRateLimitHeaders(errorResponse('SERVER_ERROR', error instanceof Error ? error.message : 'Unknown error'), rateLimit.headers);
     }
 
     // Hash password
@@ -383,7 +383,7 @@ export async function POST(request: NextRequest) {
       // In production, you would send a verification email/SMS here
       // await sendVerificationEmail(user.email, verificationToken);
 
-      return successResponse(user, 201);
+      return withRateLimitHeaders(successResponse(user, 201), rateLimit.headers);
     } catch (error) {
       console.error('خطا در ایجاد کاربر:', error);
       
@@ -391,9 +391,9 @@ export async function POST(request: NextRequest) {
       if (error instanceof Prisma.PrismaClientKnownRequestError) {
         if (error.code === 'P2002') {
           const target = error.meta?.target as string[];
-          if (target.includes('email')) return errorResponse('EMAIL_EXISTS');
-          if (target.includes('phoneNumber')) return errorResponse('PHONE_EXISTS');
-          if (target.includes('nationalId')) return errorResponse('NATIONAL_ID_EXISTS');
+          if (target.includes('email')) return withRateLimitHeaders(errorResponse('EMAIL_EXISTS'), rateLimit.headers);
+          if (target.includes('phoneNumber')) return withRateLimitHeaders(errorResponse('PHONE_EXISTS'), rateLimit.headers);
+          if (target.includes('nationalId')) return withRateLimitHeaders(errorResponse('NATIONAL_ID_EXISTS'), rateLimit.headers);
         }
       }
       
@@ -401,6 +401,6 @@ export async function POST(request: NextRequest) {
     }
   } catch (error) {
     console.error('خطای سرور در ایجاد کاربر:', error);
-    return errorResponse('SERVER_ERROR', error instanceof Error ? error.message : undefined);
+    return withRateLimitHeaders(errorResponse('SERVER_ERROR', error instanceof Error ? error.message : undefined), rateLimit.headers);
   }
 }
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import prisma from '../../../../../../lib/prisma';
-import { generateOTP } from '../../../../../../lib/otp-utils';
+import { issueOtpChallenge } from '../../../../../../lib/otp-challenge';
 import { sendOTP } from '../../../../../../lib/kavenegar';
 import { handleError } from '../../../../../../lib/error-handler';
 import { normalizePhoneNumber } from '../../../../../../lib/phone-utils';
+import { rateLimitMiddleware, withRateLimitHeaders } from '../../../../../../lib/rate-limiter';
 
 const signupSchema = z.object({
   phoneNumber: z
@@ -20,6 +21,12 @@ const signupSchema = z.object({
 });
 
 export async function POST(request: NextRequest) {
+  // Each request sends an SMS, so this is limited per IP like login
+  const rateLimit = await rateLimitMiddleware(request, 'users:signup:request', 'sensitive');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
+
   try {
     const body = await request.json();
     const data = signupSchema.parse(body);
@@ -30,69 +37,71 @@ export async function POST(request: NextRequest) {
     // Check if user already exists
     const existingUser = await prisma.user.findUnique({
       where: { phoneNumber: normalizedPhone },
-      select: { id: true }
+      select: { id: true, status: true }
     });
 
-    if (existingUser) {
-      return NextResponse.json(
+    // A signup that was never verified may ask for a new code
+    if (existingUser && existingUser.status !== 'PHONE_VERIFICATION_PENDING') {
+      return withRateLimitHeaders(NextResponse.json(
         { 
           success: false, 
           error: 'کاربری با این شماره موبایل قبلاً ثبت‌نام کرده است',
           message: 'لطفاً وارد شوید یا از گزینه فراموشی رمز عبور استفاده کنید'
         },
         { status: 400 }
-      );
+      ), rateLimit.headers);
     }
 
-    // Generate OTP
-    const otp = generateOTP(6);
-    const otpExpires = new Date();
-    otpExpires.setMinutes(otpExpires.getMinutes() + 15); // 15 minutes expiry
-
-    // Here you would typically store the OTP in a cache like Redis
-    // For now, we'll just log it for testing
-    console.log(`OTP for ${normalizedPhone}: ${otp}`);
-
     // Send OTP via SMS
-    const otpSent = await sendOTP(normalizedPhone, otp);
-    
-    if (!otpSent) {
-      throw new Error('ارسال کد تایید با خطا مواجه شد');
-    }
+    const { expiresAt, resendAfter } = await issueOtpChallenge(
+      normalizedPhone,
+      'SIGNUP',
+      code => sendOTP(normalizedPhone, code)
+    );
+
+    const profile = {
+      email: data.email,
+      firstName: data.firstName,
+      lastName: data.lastName,
+    };
 
     // Create user with temporary data (not active yet)
-    const user = await prisma.user.create({
-      data: {
-        phoneNumber: normalizedPhone,
-        email: data.email,
-        firstName: data.firstName,
-        lastName: data.lastName,
-        passwordHash: '', // Will be set during verification
-        verificationToken: otp,
-        verificationTokenExpires: otpExpires,
-        status: 'PHONE_VERIFICATION_PENDING',
-        emailVerified: false,
-        phoneVerified: false,
-      },
-      select: {
-        id: true,
-        phoneNumber: true,
-      },
-    });
+    const user = existingUser
+      ? await prisma.user.update({
+          where: { id: existingUser.id },
+          data: profile,
+          select: { id: true, phoneNumber: true },
+        })
+      : await prisma.user.create({
+          data: {
+            phoneNumber: normalizedPhone,
+            ...profile,
+            passwordHash: '', // Will be set during verification
+            status: 'PHONE_VERIFICATION_PENDING',
+            emailVerified: false,
+            phoneVerified: false,
+          },
+          select: {
+            id: true,
+            phoneNumber: true,
+          },
+        });
 
-    return NextResponse.json(
+    return withRateLimitHeaders(NextResponse.json(
       { 
         success: true, 
         message: 'کد تایید به شماره شما ارسال شد',
         data: {
           userId: user.id,
           phoneNumber: user.phoneNumber,
+          expiresAt,
+          resendAfter,
         }
       },
       { status: 200 }
-    );
+    ), rateLimit.headers);
 
   } catch (error) {
-    return handleError(error, request);
+    return withRateLimitHeaders(handleError(error, request), rateLimit.headers);
   }
 }
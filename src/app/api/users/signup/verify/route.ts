@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import prisma from '@lib/prisma';
 import { handleError } from '@lib/error-handler';
-import { sign } from 'jsonwebtoken';
+import { verifyOtpChallenge } from '@lib/otp-challenge';
+import { clearGuestCartCookie, mergeGuestCartOnLogin } from '@lib/guest-cart';
+import { createUserSession, getSessionClient, setUserAuthCookies, toTokenResponse } from '@lib/session-utils';
 
 const verifySignupSchema = z.object({
   phoneNumber: z.string().min(1, 'شماره تلفن الزامی است')
@@ -28,14 +30,10 @@ export async function POST(request: NextRequest) {
       where: { 
         phoneNumber: formattedPhoneNumber,
         status: 'PHONE_VERIFICATION_PENDING',
-        verificationToken: { not: null },
-        verificationTokenExpires: { gte: new Date() }
       },
       select: {
         id: true,
         phoneNumber: true,
-        verificationToken: true,
-        verificationTokenExpires: true,
       },
     });
 
@@ -50,17 +48,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Verify OTP (in production, use a secure comparison)
-    if (user.verificationToken !== otp) {
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: 'کد تایید نامعتبر است',
-          message: 'لطفاً کد تایید را به درستی وارد کنید'
-        },
-        { status: 400 }
-      );
-    }
+    // Wrong codes count towards a lockout
+    await verifyOtpChallenge(user.phoneNumber, 'SIGNUP', otp);
 
     // Hash the password (you'll need to implement this function)
     const hashedPassword = await hashPassword(password);
@@ -70,8 +59,6 @@ export async function POST(request: NextRequest) {
       where: { id: user.id },
       data: {
         passwordHash: hashedPassword,
-        verificationToken: null,
-        verificationTokenExpires: null,
         phoneVerified: true,
         status: 'ACTIVE',
         lastLoginAt: new Date(),
@@ -85,12 +72,11 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    // Generate JWT token
-    const token = sign(
-      { userId: updatedUser.id },
-      process.env.JWT_SECRET as string,
-      { expiresIn: '30d' }
-    );
+    // Whatever the visitor put in their cart before signing in carries over
+    const cartMerge = await mergeGuestCartOnLogin(request, updatedUser.id);
+
+    // Short-lived access token plus a rotating refresh token
+    const tokens = await createUserSession(updatedUser.id, getSessionClient(request));
 
     // Set HTTP-only cookie
     const response = NextResponse.json(
@@ -99,20 +85,18 @@ export async function POST(request: NextRequest) {
         message: 'ثبت‌نام با موفقیت انجام شد',
         data: {
           user: updatedUser,
+          tokens: toTokenResponse(tokens),
+          ...(cartMerge && { cartMerge }),
         }
       },
       { status: 200 }
     );
 
-    response.cookies.set({
-      name: 'auth_token',
-      value: token,
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 30 * 24 * 60 * 60, // 30 days
-      path: '/',
-    });
+    setUserAuthCookies(response, tokens);
+
+    if (cartMerge) {
+      clearGuestCartCookie(response);
+    }
 
     return response;
 
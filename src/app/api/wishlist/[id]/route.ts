@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@lib/prisma';
 import { authenticateRequest } from '@lib/api-utils';
-import { rateLimitMiddleware } from '@lib/rate-limiter';
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
 
 // Error messages
 const errorMessages = {
@@ -51,31 +51,31 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  try {
-    // Apply rate limiting
-    const rateLimitResult = await rateLimitMiddleware(
-      request,
-      `wishlist:delete:${params.id}`,
-      'user',
-      'delete'
-    );
-    
-    if (rateLimitResult.isRateLimited) {
-      return rateLimitResult.response;
-    }
+  // Apply rate limiting
+  const rateLimitResult = await rateLimitMiddleware(
+    request,
+    `wishlist:delete:${params.id}`,
+    'user',
+    'delete'
+  );
+  
+  if (rateLimitResult.isRateLimited) {
+    return rateLimitResult.response;
+  }
 
+  try {
     // Authenticate user
     const authResult = await authenticateRequest(request);
     if (!authResult.success || !authResult.userId) {
       console.log('Authentication failed:', { success: authResult.success, userId: authResult.userId });
-      return errorResponse('UNAUTHORIZED');
+      return withRateLimitHeaders(errorResponse('UNAUTHORIZED'), rateLimitResult.headers);
     }
 
     const { id } = params;
 
     // Validate input
     if (!id) {
-      return errorResponse('INVALID_INPUT');
+      return withRateLimitHeaders(errorResponse('INVALID_INPUT'), rateLimitResult.headers);
     }
 
     // Find and delete wishlist item
@@ -84,16 +84,16 @@ export async function DELETE(
     });
 
     if (!wishlistItem) {
-      return errorResponse('ITEM_NOT_FOUND');
+      return withRateLimitHeaders(errorResponse('ITEM_NOT_FOUND'), rateLimitResult.headers);
     }
 
     await prisma.wishlist.delete({
       where: { id }
     });
 
-    return successResponse({ success: true, message: 'آیتم با موفقیت از لیست علاقه‌مندی‌ها حذف شد' });
+    return withRateLimitHeaders(successResponse({ success: true, message: 'آیتم با موفقیت از لیست علاقه‌مندی‌ها حذف شد' }), rateLimitResult.headers);
   } catch (error) {
     console.error('Error removing from wishlist:', error);
-    return errorResponse('SERVER_ERROR');
+    return withRateLimitHeaders(errorResponse('SERVER_ERROR'), rateLimitResult.headers);
   }
 }
@@ -1,27 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@lib/prisma';
 import { authenticateRequest } from '@lib/api-utils';
-// Simple in-memory rate limiting
-const rateLimit = {
-  // Store request counts per IP
-  requests: new Map<string, { count: number; resetTime: number }>(),
-  
-  // Check if request is rate limited
-  check: (ip: string, limit: number, windowMs: number = 60000) => {
-    const now = Date.now();
-    const entry = rateLimit.requests.get(ip);
-
-    if (!entry || now > entry.resetTime) {
-      // New entry or window has passed, reset counter
-      rateLimit.requests.set(ip, { count: 1, resetTime: now + windowMs });
-      return false;
-    }
-
-    // Increment counter and check limit
-    entry.count += 1;
-    return entry.count > limit;
-  },
-};
+import { rateLimitMiddleware, withRateLimitHeaders } from '@lib/rate-limiter';
 
 // Error messages
 const errorMessages = {
@@ -30,11 +10,6 @@ const errorMessages = {
     error: 'دسترسی غیرمجاز',
     message: 'لطفاً وارد حساب کاربری خود شوید'
   },
-  TOO_MANY_REQUESTS: {
-    status: 429,
-    error: 'تعداد درخواست‌ها بیش از حد مجاز',
-    message: 'لطفاً کمی صبر کنید و دوباره تلاش کنید'
-  },
   PRODUCT_NOT_FOUND: {
     status: 404,
     error: 'محصول یافت نشد',
@@ -78,18 +53,18 @@ function errorResponse(code: ErrorCode, details?: string) {
 
 // GET /api/wishlist - Get user's wishlist
 export async function GET(request: NextRequest) {
-  try {
-    // Rate limiting - 10 requests per minute per IP
-    const ip = request.headers.get('x-forwarded-for') || '127.0.0.1';
-    if (rateLimit.check(ip, 10)) {
-      return errorResponse('TOO_MANY_REQUESTS');
-    }
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(request, 'wishlist:list', 'user');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
 
+  try {
     // Authenticate user
     const authResult = await authenticateRequest(request);
     if (!authResult.success || !authResult.userId) {
       console.log('Authentication failed:', { success: authResult.success, userId: authResult.userId });
-      return errorResponse('UNAUTHORIZED');
+      return withRateLimitHeaders(errorResponse('UNAUTHORIZED'), rateLimit.headers);
     }
     
     console.log('Authenticated user ID:', authResult.userId);
@@ -135,27 +110,27 @@ export async function GET(request: NextRequest) {
       orderBy: { createdAt: 'desc' }
     });
 
-    return successResponse(wishlist);
+    return withRateLimitHeaders(successResponse(wishlist), rateLimit.headers);
   } catch (error) {
     console.error('Error fetching wishlist:', error);
-    return errorResponse('SERVER_ERROR');
+    return withRateLimitHeaders(errorResponse('SERVER_ERROR'), rateLimit.headers);
   }
 }
 
 // POST /api/wishlist - Add item to wishlist
 export async function POST(request: NextRequest) {
-  try {
-    // Rate limiting - 10 requests per minute per IP
-    const ip = request.headers.get('x-forwarded-for') || '127.0.0.1';
-    if (rateLimit.check(ip, 10)) {
-      return errorResponse('TOO_MANY_REQUESTS');
-    }
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(request, 'wishlist:add', 'user');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
 
+  try {
     // Authenticate user
     const authResult = await authenticateRequest(request);
     if (!authResult.success || !authResult.userId) {
       console.log('Authentication failed:', { success: authResult.success, userId: authResult.userId });
-      return errorResponse('UNAUTHORIZED');
+      return withRateLimitHeaders(errorResponse('UNAUTHORIZED'), rateLimit.headers);
     }
     
     console.log('Authenticated user ID:', authResult.userId);
@@ -165,14 +140,14 @@ export async function POST(request: NextRequest) {
     try {
       body = await request.json();
     } catch {
-      return errorResponse('INVALID_INPUT');
+      return withRateLimitHeaders(errorResponse('INVALID_INPUT'), rateLimit.headers);
     }
 
     const { productId } = body;
 
     // Validate input
     if (!productId || typeof productId !== 'string') {
-      return errorResponse('INVALID_INPUT');
+      return withRateLimitHeaders(errorResponse('INVALID_INPUT'), rateLimit.headers);
     }
 
     // Check if product exists
@@ -181,7 +156,7 @@ export async function POST(request: NextRequest) {
     });
 
     if (!product) {
-      return errorResponse('PRODUCT_NOT_FOUND');
+      return withRateLimitHeaders(errorResponse('PRODUCT_NOT_FOUND'), rateLimit.headers);
     }
 
     // Check if item already in wishlist
@@ -190,10 +165,10 @@ export async function POST(request: NextRequest) {
     });
 
     if (existingItem) {
-      return successResponse(
+      return withRateLimitHeaders(successResponse(
         { message: 'این محصول قبلاً به لیست علاقه‌مندی‌های شما اضافه شده است' },
         200
-      );
+      ), rateLimit.headers);
     }
 
     // Add to wishlist
@@ -239,10 +214,10 @@ export async function POST(request: NextRequest) {
       }
     });
 
-    return successResponse(wishlistItem, 201);
+    return withRateLimitHeaders(successResponse(wishlistItem, 201), rateLimit.headers);
   } catch (error) {
     console.error('Error adding to wishlist:', error);
-    return errorResponse('SERVER_ERROR');
+    return withRateLimitHeaders(errorResponse('SERVER_ERROR'), rateLimit.headers);
   }
 }
 
@@ -251,18 +226,18 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  try {
-    // Rate limiting - 10 requests per minute per IP
-    const ip = request.headers.get('x-forwarded-for') || '127.0.0.1';
-    if (rateLimit.check(ip, 10)) {
-      return errorResponse('TOO_MANY_REQUESTS');
-    }
+  // Apply rate limiting
+  const rateLimit = await rateLimitMiddleware(request, 'wishlist:remove', 'user');
+  if (rateLimit.isRateLimited) {
+    return rateLimit.response;
+  }
 
+  try {
     // Authenticate user
     const authResult = await authenticateRequest(request);
     if (!authResult.success || !authResult.userId) {
       console.log('Authentication failed:', { success: authResult.success, userId: authResult.userId });
-      return errorResponse('UNAUTHORIZED');
+      return withRateLimitHeaders(errorResponse('UNAUTHORIZED'), rateLimit.headers);
     }
     
     console.log('Authenticated user ID:', authResult.userId);
@@ -271,7 +246,7 @@ export async function DELETE(
 
     // Validate input
     if (!id) {
-      return errorResponse('INVALID_INPUT');
+      return withRateLimitHeaders(errorResponse('INVALID_INPUT'), rateLimit.headers);
     }
 
     // Find and delete wishlist item
@@ -280,16 +255,16 @@ export async function DELETE(
     });
 
     if (!wishlistItem) {
-      return errorResponse('ITEM_NOT_FOUND');
+      return withRateLimitHeaders(errorResponse('ITEM_NOT_FOUND'), rateLimit.headers);
     }
 
     await prisma.wishlist.delete({
       where: { id }
     });
 
-    return successResponse({ success: true });
+    return withRateLimitHeaders(successResponse({ success: true }), rateLimit.headers);
   } catch (error) {
     console.error('Error removing from wishlist:', error);
-    return errorResponse('SERVER_ERROR');
+    return withRateLimitHeaders(errorResponse('SERVER_ERROR'), rateLimit.headers);
   }
 }
@@ -1,61 +0,0 @@
-import { Controller, Get, Post, Body, Param, Delete, Put, UseGuards, Req } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
-import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { CartService } from './cart.service';
-import { AddToCartDto } from './dto/add-to-cart.dto';
-import { UpdateCartItemDto } from './dto/update-cart-item.dto';
-import { CartResponse } from './dto/cart-response.dto';
-import { Request } from 'express';
-
-@ApiTags('cart')
-@Controller('cart')
-@UseGuards(JwtAuthGuard)
-@ApiBearerAuth()
-export class CartController {
-  constructor(private readonly cartService: CartService) {}
-
-  @Get()
-  @ApiOperation({ summary: 'Get user cart' })
-  @ApiResponse({ status: 200, description: 'Returns the user cart', type: CartResponse })
-  async getCart(@Req() req: Request): Promise<CartResponse> {
-    return this.cartService.getCart(req.user.id);
-  }
-
-  @Post('items')
-  @ApiOperation({ summary: 'Add item to cart' })
-  @ApiResponse({ status: 201, description: 'Item added to cart', type: CartResponse })
-  async addToCart(
-    @Req() req: Request,
-    @Body() addToCartDto: AddToCartDto,
-  ): Promise<CartResponse> {
-    return this.cartService.addToCart(req.user.id, addToCartDto);
-  }
-
-  @Put('items/:itemId')
-  @ApiOperation({ summary: 'Update cart item quantity' })
-  @ApiResponse({ status: 200, description: 'Cart item updated', type: CartResponse })
-  async updateCartItem(
-    @Req() req: Request,
-    @Param('itemId') itemId: string,
-    @Body() updateCartItemDto: UpdateCartItemDto,
-  ): Promise<CartResponse> {
-    return this.cartService.updateCartItem(req.user.id, itemId, updateCartItemDto);
-  }
-
-  @Delete('items/:itemId')
-  @ApiOperation({ summary: 'Remove item from cart' })
-  @ApiResponse({ status: 200, description: 'Item removed from cart', type: CartResponse })
-  async removeFromCart(
-    @Req() req: Request,
-    @Param('itemId') itemId: string,
-  ): Promise<CartResponse> {
-    return this.cartService.removeFromCart(req.user.id, itemId);
-  }
-
-  @Delete('clear')
-  @ApiOperation({ summary: 'Clear cart' })
-  @ApiResponse({ status: 200, description: 'Cart cleared' })
-  async clearCart(@Req() req: Request) {
-    return this.cartService.clearCart(req.user.id);
-  }
-}
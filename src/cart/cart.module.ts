@@ -1,13 +0,0 @@
-import { Module } from '@nestjs/common';
-import { CartService } from './cart.service';
-import { CartController } from './cart.controller';
-import { PrismaModule } from '../prisma/prisma.module';
-import { AuthModule } from '../auth/auth.module';
-
-@Module({
-  imports: [PrismaModule, AuthModule],
-  controllers: [CartController],
-  providers: [CartService],
-  exports: [CartService],
-})
-export class CartModule {}
@@ -0,0 +1,20 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@lib': fileURLToPath(new URL('./lib', import.meta.url)),
+      '@': fileURLToPath(new URL('./src', import.meta.url))
+    }
+  },
+  test: {
+    environment: 'node',
+    // Read when modules load, so they can't be stubbed from inside a test
+    env: {
+      RATE_LIMIT_STORE: 'memory',
+      JWT_SECRET: 'test-secret'
+    },
+    include: ['lib/**/*.test.ts', 'src/**/*.test.ts']
+  }
+});